@@ -0,0 +1,98 @@
+// Local stand-in for the sync server, for trying multi-device sync without a
+// backend. Keeps the ordered change log the app expects (see
+// src/services/syncEndpoint.ts) and saves it to a JSON file.
+//
+//   npm run sync-server                      # http://localhost:8787
+//   VITE_SYNC_URL=http://localhost:8787 npm run dev
+//
+// Options: PORT (default 8787), SYNC_DATA_FILE (default .sync-server.json)
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const port = Number(process.env.PORT || 8787);
+const dataFile = process.env.SYNC_DATA_FILE || '.sync-server.json';
+const maxPullLimit = 1000;
+
+const log = existsSync(dataFile) ? JSON.parse(readFileSync(dataFile, 'utf8')) : { changes: [] };
+
+function save() {
+  writeFileSync(dataFile, JSON.stringify(log));
+}
+
+function send(response, status, body) {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  response.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(body || '{}'));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function pull(url) {
+  const since = Number(url.searchParams.get('since') || 0);
+  const limit = Math.min(Number(url.searchParams.get('limit') || 200), maxPullLimit);
+
+  // Revisions are 1-based log positions
+  const changes = log.changes.slice(since, since + limit);
+  return {
+    changes,
+    cursor: since + changes.length,
+    has_more: since + changes.length < log.changes.length,
+  };
+}
+
+function push({ device_id, changes }) {
+  if (typeof device_id !== 'string' || !Array.isArray(changes)) {
+    throw new Error('Expected { device_id, changes[] }');
+  }
+
+  const revisions = changes.map(change => {
+    const revision = log.changes.length + 1;
+    log.changes.push({ ...change, device_id, revision });
+    return revision;
+  });
+
+  save();
+  return { revisions };
+}
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+
+  try {
+    if (request.method === 'OPTIONS') {
+      send(response, 204);
+    } else if (url.pathname === '/changes' && request.method === 'GET') {
+      send(response, 200, pull(url));
+    } else if (url.pathname === '/changes' && request.method === 'POST') {
+      send(response, 200, push(await readBody(request)));
+    } else {
+      send(response, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    send(response, 400, { error: error.message });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Sync server listening on http://localhost:${port} (${log.changes.length} changes in ${dataFile})`);
+});
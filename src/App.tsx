@@ -1,27 +1,50 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import CheckInForm from './components/CheckInForm';
 import OwnerDashboard from './components/OwnerDashboard';
 import TechDashboard from './components/TechDashboard';
 import Navigation from './components/Navigation';
+import EstimateApproval from './components/EstimateApproval';
 import BrowserDatabaseService from './services/browserDatabase';
+import syncEngine from './services/syncEngine';
+import backupService from './services/backupService';
+import paymentService from './services/paymentService';
+import { AppointmentConflictError } from './services/schedulingService';
 import type { CustomerCheckInForm } from './types/models';
 
 function App() {
   const [isLoading, setIsLoading] = useState(false);
 
+  // Keep this device in sync with the shop's other tablets, take scheduled
+  // local snapshots and finish any card refund left pending
+  useEffect(() => {
+    syncEngine.start();
+    paymentService.resolvePendingRefunds().catch(error => {
+      console.error('Failed to resolve pending refunds:', error);
+    });
+    backupService.startAutomaticSnapshots();
+    return () => {
+      syncEngine.stop();
+      backupService.stopAutomaticSnapshots();
+    };
+  }, []);
+
   const handleCheckInSubmit = async (formData: CustomerCheckInForm) => {
     setIsLoading(true);
     try {
       console.log('Processing check-in:', formData);
-      const checkIn = BrowserDatabaseService.processCustomerCheckIn(formData);
+      const checkIn = await BrowserDatabaseService.processCustomerCheckIn(formData);
       console.log('Check-in created:', checkIn);
 
       // Show success message
       alert('Check-in successful! Thank you for providing your information ahead of time.');
     } catch (error) {
       console.error('Check-in failed:', error);
-      alert('Check-in failed. Please try again or speak with the front desk.');
+      if (error instanceof AppointmentConflictError) {
+        alert(`${error.message}. Please choose another appointment time.`);
+      } else {
+        alert('Check-in failed. Please try again or speak with the front desk.');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -48,6 +71,10 @@ function App() {
             path="/tech"
             element={<TechDashboard />}
           />
+          <Route
+            path="/approve/:token"
+            element={<EstimateApproval />}
+          />
         </Routes>
       </div>
     </Router>
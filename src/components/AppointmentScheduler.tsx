@@ -2,14 +2,15 @@ import React, { useState } from 'react';
 import ServiceSelector from './ServiceSelector';
 import CalendarView from './CalendarView';
 import TimeSlotPicker from './TimeSlotPicker';
-import type { TimeSlot } from '../types/models';
+import { formatCents } from '../services/money';
+import type { Cents, TimeSlot } from '../types/models';
 
 interface SelectedService {
   serviceId: string;
   serviceName: string;
   category: string;
   estimatedDuration: number;
-  estimatedPrice?: number;
+  estimatedPrice?: Cents;
 }
 
 interface AppointmentSchedulerProps {
@@ -195,7 +196,7 @@ const AppointmentScheduler: React.FC<AppointmentSchedulerProps> = ({
                     <div className="text-right">
                       <div className="text-sm text-blue-600">Estimated</div>
                       <div className="font-medium text-blue-900">
-                        ${selectedService.estimatedPrice.toFixed(2)}
+                        {formatCents(selectedService.estimatedPrice)}
                       </div>
                     </div>
                   )}
@@ -275,7 +276,7 @@ const AppointmentScheduler: React.FC<AppointmentSchedulerProps> = ({
               </div>
               {selectedService?.estimatedPrice && (
                 <span className="font-medium">
-                  ~${selectedService.estimatedPrice.toFixed(2)}
+                  ~{formatCents(selectedService.estimatedPrice)}
                 </span>
               )}
             </div>
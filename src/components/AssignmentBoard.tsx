@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import browserDatabase from '../services/browserDatabase';
-import type { WorkOrder, Customer, Vehicle, TechProfile } from '../types/models';
+import schedulingService from '../services/schedulingService';
+import { useChangeFeed } from '../hooks/useChangeFeed';
+import type { WorkOrder, Customer, Vehicle, TechProfile, ShopResource } from '../types/models';
 
 interface WorkOrderWithDetails extends WorkOrder {
   customer: Customer;
@@ -17,6 +19,8 @@ const AssignmentBoard: React.FC<AssignmentBoardProps> = ({ onClose }) => {
   const [assignedJobs, setAssignedJobs] = useState<{ [techId: string]: WorkOrderWithDetails[] }>({});
   const [isLoading, setIsLoading] = useState(true);
   const [draggedJob, setDraggedJob] = useState<WorkOrderWithDetails | null>(null);
+  const [suggestedTechsByJob, setSuggestedTechsByJob] = useState<{ [jobId: string]: TechProfile[] }>({});
+  const [resources, setResources] = useState<ShopResource[]>([]);
 
   useEffect(() => {
     loadData();
@@ -26,16 +30,18 @@ const AssignmentBoard: React.FC<AssignmentBoardProps> = ({ onClose }) => {
     setIsLoading(true);
     try {
       // Load all work orders
-      const orders = browserDatabase.getWorkOrders();
-      const techProfiles = browserDatabase.getAllTechProfiles();
+      const [orders, techProfiles] = await Promise.all([
+        browserDatabase.getWorkOrders(),
+        browserDatabase.getAllTechProfiles(),
+      ]);
 
       // Get details for each work order
       const ordersWithDetails: WorkOrderWithDetails[] = [];
       for (const order of orders) {
         if (order.status === 'completed' || order.status === 'cancelled') continue;
 
-        const customer = browserDatabase.getCustomer(order.customer_id);
-        const vehicle = browserDatabase.getVehicle(order.vehicle_id);
+        const customer = await browserDatabase.getCustomer(order.customer_id);
+        const vehicle = await browserDatabase.getVehicle(order.vehicle_id);
 
         if (customer && vehicle) {
           ordersWithDetails.push({ ...order, customer, vehicle });
@@ -50,9 +56,17 @@ const AssignmentBoard: React.FC<AssignmentBoardProps> = ({ onClose }) => {
         assigned[tech.id] = ordersWithDetails.filter(order => order.assigned_tech === tech.id);
       });
 
+      // Precompute suggestions for unassigned jobs
+      const suggestions: { [jobId: string]: TechProfile[] } = {};
+      for (const job of unassigned) {
+        suggestions[job.id] = (await browserDatabase.suggestTechForWorkOrder(job.id)).slice(0, 3);
+      }
+
       setTechs(techProfiles);
       setUnassignedJobs(unassigned);
       setAssignedJobs(assigned);
+      setSuggestedTechsByJob(suggestions);
+      setResources(schedulingService.getShopResources());
     } catch (error) {
       console.error('Failed to load assignment data:', error);
     } finally {
@@ -60,6 +74,10 @@ const AssignmentBoard: React.FC<AssignmentBoardProps> = ({ onClose }) => {
     }
   };
 
+  useChangeFeed(['work_orders', 'tech_profiles', 'shop_resources'], () => {
+    loadData();
+  });
+
   const handleDragStart = (e: React.DragEvent, job: WorkOrderWithDetails) => {
     setDraggedJob(job);
     e.dataTransfer.setData('text/plain', job.id);
@@ -109,8 +127,54 @@ const AssignmentBoard: React.FC<AssignmentBoardProps> = ({ onClose }) => {
     }
   };
 
+  const handleReserveResources = async (jobId: string, resourceIds: string[]) => {
+    try {
+      await browserDatabase.reserveWorkOrderResources(jobId, resourceIds);
+      loadData();
+    } catch (error) {
+      console.error('Failed to reserve resources:', error);
+      alert(error instanceof Error ? error.message : 'Failed to reserve resources. Please try again.');
+    }
+  };
+
+  // Resources the job holds, and a picker to reserve another
+  const renderResources = (job: WorkOrderWithDetails) => {
+    if (resources.length === 0) return null;
+
+    const reserved = job.reserved_resources || [];
+    const unreserved = resources.filter(resource => !reserved.includes(resource.id));
+
+    return (
+      <div className="mt-2 flex flex-wrap items-center gap-1">
+        {reserved.map(resourceId => (
+          <span key={resourceId} className="flex items-center px-2 py-1 bg-purple-100 text-purple-800 rounded text-xs">
+            🔧 {resources.find(resource => resource.id === resourceId)?.name || 'Deleted resource'}
+            <button
+              onClick={() => handleReserveResources(job.id, reserved.filter(id => id !== resourceId))}
+              className="ml-1 hover:text-red-600"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {unreserved.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleReserveResources(job.id, [...reserved, e.target.value])}
+            className="px-1 py-0.5 border border-gray-200 rounded text-xs text-gray-600"
+          >
+            <option value="">+ Reserve</option>
+            {unreserved.map(resource => (
+              <option key={resource.id} value={resource.id}>{resource.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  };
+
   const getSuggestedTechs = (job: WorkOrderWithDetails): TechProfile[] => {
-    return browserDatabase.suggestTechForWorkOrder(job.id).slice(0, 3);
+    return suggestedTechsByJob[job.id] || [];
   };
 
   const getStatusColor = (status: string): string => {
@@ -236,6 +300,8 @@ const AssignmentBoard: React.FC<AssignmentBoardProps> = ({ onClose }) => {
                       )}
                     </div>
 
+                    {renderResources(job)}
+
                     {/* Suggested Techs */}
                     {suggestedTechs.length > 0 && (
                       <div className="mt-3 pt-3 border-t border-gray-100">
@@ -337,6 +403,8 @@ const AssignmentBoard: React.FC<AssignmentBoardProps> = ({ onClose }) => {
                               </div>
                             )}
                           </div>
+
+                          {renderResources(job)}
                         </div>
                       ))}
 
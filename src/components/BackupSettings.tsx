@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import backupService, {
+  type BackupArchive,
+  type SnapshotInfo,
+  type SnapshotReason,
+  type SnapshotSettings,
+} from '../services/backupService';
+
+const reasonLabels: Record<SnapshotReason, string> = {
+  scheduled: 'Automatic',
+  manual: 'Manual',
+  before_restore: 'Before restore',
+  before_clear: 'Before clearing data',
+};
+
+const BackupSettings: React.FC = () => {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [settings, setSettings] = useState<SnapshotSettings>(backupService.getSettings());
+  const [pendingRestore, setPendingRestore] = useState<BackupArchive | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, []);
+
+  const loadSnapshots = async () => {
+    try {
+      setSnapshots(await backupService.listSnapshots());
+    } catch (error) {
+      console.error('Failed to load snapshots:', error);
+    }
+  };
+
+  const downloadArchive = (archive: BackupArchive) => {
+    const blob = new Blob([backupService.serialize(archive)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = backupService.getFileName(archive);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadBackup = async () => {
+    setIsWorking(true);
+    try {
+      downloadArchive(await backupService.createArchive());
+    } catch (error) {
+      console.error('Failed to create backup:', error);
+      alert('Failed to create backup. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingRestore(await backupService.readFile(file));
+    } catch (error) {
+      console.error('Backup file rejected:', error);
+      alert(error instanceof Error ? error.message : 'This backup file could not be read.');
+    }
+  };
+
+  const runRestore = async (restore: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await restore();
+      alert('Restore complete. The app will now reload.');
+      window.location.reload();
+    } catch (error) {
+      console.error('Restore failed:', error);
+      alert(error instanceof Error ? error.message : 'Restore failed. Please try again.');
+      setIsWorking(false);
+    }
+  };
+
+  const handleConfirmRestore = () => {
+    if (!pendingRestore) return;
+    runRestore(() => backupService.restore(pendingRestore));
+  };
+
+  const handleRestoreSnapshot = (snapshot: SnapshotInfo) => {
+    if (!confirm(`Replace all current data with the snapshot from ${formatDateTime(snapshot.created_at)}? A snapshot of the current data is taken first.`)) {
+      return;
+    }
+    runRestore(() => backupService.restoreSnapshot(snapshot.id));
+  };
+
+  const handleTakeSnapshot = async () => {
+    setIsWorking(true);
+    try {
+      await backupService.createSnapshot('manual');
+      await loadSnapshots();
+    } catch (error) {
+      console.error('Failed to take snapshot:', error);
+      alert('Failed to take snapshot. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDownloadSnapshot = async (snapshotId: string) => {
+    try {
+      downloadArchive(await backupService.getSnapshot(snapshotId));
+    } catch (error) {
+      console.error('Failed to download snapshot:', error);
+      alert('Failed to download snapshot. Please try again.');
+    }
+  };
+
+  const handleDeleteSnapshot = async (snapshotId: string) => {
+    if (!confirm('Delete this snapshot?')) return;
+
+    try {
+      await backupService.deleteSnapshot(snapshotId);
+      await loadSnapshots();
+    } catch (error) {
+      console.error('Failed to delete snapshot:', error);
+      alert('Failed to delete snapshot. Please try again.');
+    }
+  };
+
+  const updateSettings = (updates: Partial<SnapshotSettings>) => {
+    try {
+      setSettings(backupService.updateSettings(updates));
+    } catch (error) {
+      console.error('Failed to update snapshot settings:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update settings.');
+    }
+  };
+
+  const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString();
+  };
+
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Backup Files */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Backup Files</h3>
+        <p className="text-gray-600 mb-4">
+          Download everything (customers, vehicles, jobs, photos, schedules and settings) as a single file,
+          or restore a file made earlier. Restoring replaces all current data.
+        </p>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleDownloadBackup}
+            disabled={isWorking}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Download Backup
+          </button>
+          <label className={`px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 cursor-pointer ${isWorking ? 'opacity-50 pointer-events-none' : ''}`}>
+            Restore from File
+            <input type="file" accept="application/json,.json" onChange={handleFileSelected} className="hidden" />
+          </label>
+        </div>
+
+        {pendingRestore && (
+          <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <p className="font-medium text-yellow-800 mb-2">
+              Restore backup from {formatDateTime(pendingRestore.created_at)}?
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-gray-700 mb-4">
+              {Object.entries(backupService.summarize(pendingRestore)).map(([table, count]) => (
+                <span key={table} className="capitalize">{table.replace(/_/g, ' ')}: {count}</span>
+              ))}
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              All current data will be replaced. A snapshot of the current data is taken first.
+            </p>
+            <div className="flex space-x-3">
+              <button
+                onClick={handleConfirmRestore}
+                disabled={isWorking}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                Replace Data and Restore
+              </button>
+              <button
+                onClick={() => setPendingRestore(null)}
+                disabled={isWorking}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Automatic Snapshots */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Automatic Snapshots</h3>
+        <p className="text-gray-600 mb-4">
+          Snapshots are saved on this device while the app is open.
+        </p>
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <label className="flex items-center space-x-2">
+            <span className="text-sm text-gray-700">Take a snapshot every</span>
+            <select
+              value={settings.interval_hours}
+              onChange={(e) => updateSettings({ interval_hours: parseInt(e.target.value) })}
+              className="px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            >
+              <option value={6}>6 hours</option>
+              <option value={12}>12 hours</option>
+              <option value={24}>day</option>
+              <option value={168}>week</option>
+            </select>
+          </label>
+          <label className="flex items-center space-x-2">
+            <span className="text-sm text-gray-700">Keep the last</span>
+            <input
+              type="number"
+              min="1"
+              max="50"
+              value={settings.retention}
+              onChange={(e) => updateSettings({ retention: parseInt(e.target.value) || 1 })}
+              className="w-20 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">of each kind</span>
+          </label>
+          <button
+            onClick={handleTakeSnapshot}
+            disabled={isWorking}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Take Snapshot Now
+          </button>
+        </div>
+
+        {snapshots.length === 0 ? (
+          <p className="text-gray-500 text-center py-6">No snapshots yet</p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {snapshots.map(snapshot => (
+              <div key={snapshot.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="font-medium text-gray-900">{formatDateTime(snapshot.created_at)}</p>
+                  <p className="text-sm text-gray-500">
+                    {reasonLabels[snapshot.reason]} · {formatSize(snapshot.size)}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleDownloadSnapshot(snapshot.id)}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+                  >
+                    Download
+                  </button>
+                  <button
+                    onClick={() => handleRestoreSnapshot(snapshot)}
+                    disabled={isWorking}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handleDeleteSnapshot(snapshot.id)}
+                    className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupSettings;
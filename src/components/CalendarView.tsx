@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import schedulingService from '../services/schedulingService';
+import browserDatabase from '../services/browserDatabase';
+import { useChangeFeed } from '../hooks/useChangeFeed';
 
 interface CalendarViewProps {
   selectedDate?: Date;
@@ -36,10 +38,12 @@ const CalendarView: React.FC<CalendarViewProps> = ({
     const firstDay = new Date(year, monthIndex, 1);
     const lastDay = new Date(year, monthIndex + 1, 0);
 
+    const roster = await browserDatabase.getTechRoster();
+
     // Check availability for each day
     for (let date = new Date(firstDay); date <= lastDay; date.setDate(date.getDate() + 1)) {
       const dateKey = date.toDateString();
-      const slots = schedulingService.getAvailableTimeSlots(new Date(date), serviceId, vehicleYear);
+      const slots = schedulingService.getAvailableTimeSlots(new Date(date), serviceId, vehicleYear, roster);
       const hasAvailableSlots = slots.some(slot => slot.available);
       cache.set(dateKey, hasAvailableSlots);
     }
@@ -47,6 +51,16 @@ const CalendarView: React.FC<CalendarViewProps> = ({
     setAvailabilityCache(cache);
   };
 
+  // Bookings, schedule edits and tech changes elsewhere change which days have open slots
+  useChangeFeed([
+    'appointments', 'shop_schedules', 'service_durations', 'tech_schedules', 'time_off_requests',
+    'tech_profiles', 'work_orders', 'shop_resources',
+  ], () => {
+    if (serviceId) {
+      loadAvailabilityForMonth(currentMonth);
+    }
+  });
+
   const getDaysInMonth = (date: Date): Date[] => {
     const year = date.getFullYear();
     const month = date.getMonth();
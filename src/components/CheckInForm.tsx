@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import vinDecoderService from '../services/vinDecoder';
+import { formatCents } from '../services/money';
 import { cleanMileage, cleanPhoneNumber, formatPhoneNumber, cleanYear } from '../utils/inputCleaning';
 import AppointmentScheduler from './AppointmentScheduler';
 import type { CustomerCheckInForm, TimeSlot } from '../types/models';
@@ -149,31 +150,18 @@ const CheckInForm: React.FC<CheckInFormProps> = ({ onSubmit, isLoading = false }
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    // If appointment was scheduled, create it in the scheduling system
-    if (selectedAppointment) {
-      try {
-        const appointment = {
-          customer_id: 'temp', // Will be updated after customer is created
-          service_type: selectedAppointment.service.serviceId,
-          service_category: selectedAppointment.service.category,
-          scheduled_start: selectedAppointment.timeSlot.start.getTime(),
-          scheduled_end: selectedAppointment.timeSlot.end.getTime(),
-          duration_minutes: selectedAppointment.service.estimatedDuration,
-          status: 'scheduled' as const,
-          priority: 'normal' as const,
-          estimated_price: selectedAppointment.service.estimatedPrice,
-          customer_notes: formData.service.customer_concern,
-          created_by: 'customer',
-        };
-
-        // Store appointment data for later processing
-        sessionStorage.setItem('pendingAppointment', JSON.stringify(appointment));
-      } catch (error) {
-        console.error('Failed to prepare appointment:', error);
-      }
-    }
-
-    onSubmit(formData);
+    // The appointment is booked for the customer when the check-in is saved
+    onSubmit({
+      ...formData,
+      appointment: selectedAppointment ? {
+        service_type: selectedAppointment.service.serviceId,
+        service_category: selectedAppointment.service.category,
+        scheduled_start: selectedAppointment.timeSlot.start.getTime(),
+        scheduled_end: selectedAppointment.timeSlot.end.getTime(),
+        duration_minutes: selectedAppointment.service.estimatedDuration,
+        estimated_price: selectedAppointment.service.estimatedPrice,
+      } : undefined,
+    });
   };
 
   return (
@@ -481,7 +469,7 @@ const CheckInForm: React.FC<CheckInFormProps> = ({ onSubmit, isLoading = false }
                           </div>
                           {selectedAppointment.service.estimatedPrice && (
                             <div className="text-green-700">
-                              Estimated price: ${selectedAppointment.service.estimatedPrice.toFixed(2)}
+                              Estimated price: {formatCents(selectedAppointment.service.estimatedPrice)}
                             </div>
                           )}
                         </div>
@@ -0,0 +1,330 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import SignaturePad from './SignaturePad';
+import EstimateChangeBadge from './EstimateChangeBadge';
+import TaxBreakdownRows from './TaxBreakdownRows';
+import browserDatabase from '../services/browserDatabase';
+import pricingEngine from '../services/pricingEngine';
+import { formatCents } from '../services/money';
+import { diffEstimateItems, needsDecision, projectApprovedItems } from '../services/estimateRevisions';
+import { StaleWriteError } from '../services/storageAdapter';
+import type { TaxContext } from '../services/taxEngine';
+import type { Customer, EstimateLineItem, EstimateRequest, LineItem, Vehicle } from '../types/models';
+
+interface ApprovalDetails {
+  estimate: EstimateRequest;
+  lineItems: LineItem[];
+  customer: Customer | null;
+  vehicle: Vehicle | null;
+  taxContext: TaxContext;
+}
+
+// Customer-facing page for answering a submitted estimate, opened from the
+// job card at /approve/:token. Everything is read from and written to this
+// device's database, so it works on a shop tablet with no connection.
+const EstimateApproval: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [details, setDetails] = useState<ApprovalDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [decisions, setDecisions] = useState<Record<string, boolean>>({});
+  const [signatureMethod, setSignatureMethod] = useState<'typed' | 'drawn'>('typed');
+  const [signerName, setSignerName] = useState('');
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadEstimate = async () => {
+      try {
+        const estimate = token ? await browserDatabase.getEstimateByApprovalToken(token) : null;
+        if (!estimate) return;
+
+        const workOrder = await browserDatabase.getWorkOrder(estimate.work_order_id);
+        const [lineItems, customer, vehicle, taxContext] = await Promise.all([
+          browserDatabase.getLineItemsForEstimate(estimate),
+          workOrder ? browserDatabase.getCustomer(workOrder.customer_id) : null,
+          workOrder ? browserDatabase.getVehicle(workOrder.vehicle_id) : null,
+          browserDatabase.getTaxContext(estimate.work_order_id),
+        ]);
+
+        setDetails({ estimate, lineItems, customer, vehicle, taxContext });
+        setSignerName(customer?.name || '');
+      } catch (error) {
+        console.error('Failed to load estimate:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadEstimate();
+  }, [token]);
+
+  const handleSubmit = async () => {
+    if (!details) return;
+
+    setIsSubmitting(true);
+    try {
+      const estimate = await browserDatabase.respondToEstimate(details.estimate.id, decisions, {
+        signer_name: signerName.trim(),
+        method: signatureMethod,
+        image: signatureMethod === 'drawn' ? signatureImage || undefined : undefined,
+        signed_at: Date.now(),
+      });
+      setDetails({ ...details, estimate, lineItems: await browserDatabase.getLineItemsForEstimate(estimate) });
+    } catch (error) {
+      if (error instanceof StaleWriteError) {
+        alert('This estimate was just changed by the shop. Please ask a staff member for help.');
+      } else {
+        console.error('Failed to submit approval:', error);
+        alert(error instanceof Error ? error.message : 'Failed to submit your approval. Please try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    );
+  }
+
+  if (!details) {
+    return (
+      <div className="max-w-2xl mx-auto p-6 text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Estimate not found</h1>
+        <p className="text-gray-600">This approval link is not valid. Please ask a staff member for help.</p>
+      </div>
+    );
+  }
+
+  const { estimate, lineItems, customer, vehicle } = details;
+  const isAnswered = estimate.status !== 'submitted';
+  const baseItems = estimate.base_line_items || [];
+  const isRevision = baseItems.length > 0;
+
+  // Line items are matched to the revision's items by estimate item id
+  const changes = diffEstimateItems(baseItems, estimate.line_items);
+  const lineItemFor = (item: EstimateLineItem) => lineItems.find(lineItem => lineItem.estimate_line_item_id === item.id);
+  const isApproved = (item: EstimateLineItem) => {
+    const lineItem = lineItemFor(item);
+    if (!lineItem) return false;
+    return isAnswered ? lineItem.approved : decisions[lineItem.id] === true;
+  };
+
+  const previousTotals = pricingEngine.calculateEstimateTotal(baseItems, details.taxContext);
+  const approvedTotals = pricingEngine.calculateEstimateTotal(projectApprovedItems(changes, isApproved), details.taxContext);
+  const allDecided = lineItems.every(item => decisions[item.id] !== undefined);
+  const hasSignature = signerName.trim() !== '' && (signatureMethod === 'typed' || signatureImage !== null);
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 sm:p-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">
+          Repair Estimate
+          {estimate.revision > 1 && <span className="ml-2 text-gray-500 font-normal">Revision {estimate.revision}</span>}
+        </h1>
+        <p className="text-gray-600 mt-1">
+          {customer?.name}
+          {vehicle && ` · ${vehicle.year} ${vehicle.make} ${vehicle.model}`}
+          {vehicle?.license_plate && ` · ${vehicle.license_plate}`}
+        </p>
+        {estimate.notes && (
+          <div className="mt-4 p-3 bg-blue-50 rounded text-sm text-blue-800">{estimate.notes}</div>
+        )}
+      </div>
+
+      {/* Photos */}
+      {estimate.photos && estimate.photos.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Photos from your vehicle</h2>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {estimate.photos.map(photo => (
+              <figure key={photo.id}>
+                <img
+                  src={photo.url}
+                  alt={photo.caption || 'Vehicle photo'}
+                  className="w-full h-32 object-cover rounded border"
+                />
+                {photo.caption && (
+                  <figcaption className="mt-1 text-xs text-gray-600">{photo.caption}</figcaption>
+                )}
+              </figure>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Items to decide on */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6">
+        <div className="p-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">
+            {isAnswered ? 'Your decisions' : isRevision ? 'Changes since your last approval' : 'Approve or decline each item'}
+          </h2>
+        </div>
+        <div className="divide-y divide-gray-200">
+          {changes.filter(needsDecision).map(({ type, item, previous }) => {
+            const lineItem = lineItemFor(item);
+            if (!lineItem) return null;
+
+            return (
+              <div key={item.id} className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{item.description}</span>
+                    {isRevision && <EstimateChangeBadge type={type} />}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {item.quantity} × {formatCents(item.unit_price)} = {formatCents(item.total_price)}
+                    {previous && (
+                      <span className="ml-2">
+                        (was {previous.quantity} × {formatCents(previous.unit_price)} = {formatCents(previous.total_price)})
+                      </span>
+                    )}
+                  </div>
+                </div>
+                {isAnswered ? (
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    lineItem.approved ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                  }`}>
+                    {lineItem.approved ? 'Approved' : 'Declined'}
+                  </span>
+                ) : (
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => setDecisions({ ...decisions, [lineItem.id]: true })}
+                      className={`px-4 py-2 rounded-lg font-medium border transition-colors ${
+                        decisions[lineItem.id] === true
+                          ? 'bg-green-600 text-white border-green-600'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => setDecisions({ ...decisions, [lineItem.id]: false })}
+                      className={`px-4 py-2 rounded-lg font-medium border transition-colors ${
+                        decisions[lineItem.id] === false
+                          ? 'bg-gray-700 text-white border-gray-700'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      Decline
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {/* Approved work this revision drops or keeps as it was */}
+          {changes.filter(change => !needsDecision(change)).map(({ type, item }) => (
+            <div key={item.id} className="p-4 flex justify-between gap-3 text-gray-500">
+              <div className="flex items-center space-x-2">
+                <span className={type === 'removed' ? 'line-through' : ''}>{item.description}</span>
+                <EstimateChangeBadge type={type} />
+              </div>
+              <span className={type === 'removed' ? 'line-through' : ''}>{formatCents(item.total_price)}</span>
+            </div>
+          ))}
+        </div>
+        <div className="p-4 border-t space-y-1">
+          {isRevision && (
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>Previously approved subtotal:</span>
+              <span>{formatCents(previousTotals.subtotal)}</span>
+            </div>
+          )}
+          <div className="flex justify-between text-sm">
+            <span>Approved subtotal:</span>
+            <span>{formatCents(approvedTotals.subtotal)}</span>
+          </div>
+          <TaxBreakdownRows
+            taxLines={approvedTotals.taxLines}
+            exempt={approvedTotals.taxExempt}
+            exemptCertificate={customer?.tax_exempt_certificate}
+          />
+          <div className="flex justify-between text-lg font-bold">
+            <span>Approved total:</span>
+            <span>{formatCents(approvedTotals.total)}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Signature */}
+      {isAnswered ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 text-center">
+          <h2 className="text-lg font-medium text-gray-900 mb-2">Thank you!</h2>
+          {estimate.customer_signature && (
+            <>
+              {estimate.customer_signature.image ? (
+                <img
+                  src={estimate.customer_signature.image}
+                  alt={`Signature of ${estimate.customer_signature.signer_name}`}
+                  className="mx-auto h-20"
+                />
+              ) : (
+                <p className="text-2xl italic font-serif text-gray-900">{estimate.customer_signature.signer_name}</p>
+              )}
+              <p className="text-sm text-gray-500 mt-2">
+                Signed by {estimate.customer_signature.signer_name} on {new Date(estimate.customer_signature.signed_at).toLocaleString()}
+              </p>
+            </>
+          )}
+          <p className="text-gray-600 mt-4">Please hand the tablet back to the front desk.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Sign to confirm</h2>
+          <div className="flex bg-gray-100 rounded-lg p-1 mb-4 w-fit">
+            {(['typed', 'drawn'] as const).map(method => (
+              <button
+                key={method}
+                onClick={() => setSignatureMethod(method)}
+                className={`px-4 py-2 rounded text-sm font-medium transition-colors ${
+                  signatureMethod === method ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {method === 'typed' ? 'Type Name' : 'Draw Signature'}
+              </button>
+            ))}
+          </div>
+
+          <label className="block text-sm font-medium text-gray-700 mb-1">Full name</label>
+          <input
+            type="text"
+            value={signerName}
+            onChange={(e) => setSignerName(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 mb-4"
+          />
+
+          {signatureMethod === 'typed' ? (
+            signerName.trim() && (
+              <p className="text-3xl italic font-serif text-gray-900 border-b border-gray-300 pb-2 mb-4">{signerName}</p>
+            )
+          ) : (
+            <SignaturePad onChange={setSignatureImage} className="mb-4" />
+          )}
+
+          <p className="text-sm text-gray-600 mb-4">
+            By signing, I authorize the shop to perform the approved work for the approved total shown above.
+          </p>
+          <button
+            onClick={handleSubmit}
+            disabled={!allDecided || !hasSignature || isSubmitting}
+            className="w-full bg-blue-600 text-white px-4 py-3 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSubmitting ? 'Submitting...' : 'Sign and Submit'}
+          </button>
+          {!allDecided && (
+            <p className="text-sm text-gray-500 mt-2 text-center">Approve or decline every item to continue</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EstimateApproval;
@@ -1,42 +1,168 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
 import PhotoCapture from './PhotoCapture';
-import pricingEngine from '../services/pricingEngine';
-import type { EstimateLineItem, TechPhoto } from '../types/models';
+import EstimateChangeBadge from './EstimateChangeBadge';
+import TaxBreakdownRows from './TaxBreakdownRows';
+import pricingEngine, { GENERAL_LABOR_CATEGORY, type PricingContext } from '../services/pricingEngine';
+import { formatCents, fromCents, multiplyCents, parseDollars } from '../services/money';
+import { grossMarginPercent } from '../services/markupMatrix';
+import { searchCatalog } from '../services/partsCatalog';
+import { availableStock } from '../services/inventory';
+import browserDatabase, { type EstimateDraft } from '../services/browserDatabase';
+import { diffEstimateItems } from '../services/estimateRevisions';
+import { StaleWriteError } from '../services/storageAdapter';
+import { InvalidTransitionError } from '../services/workOrderStatus';
+import type { TaxContext } from '../services/taxEngine';
+import type { CatalogPart, EstimateLineItem, InventoryItem, TechPhoto } from '../types/models';
 
 interface EstimateBuilderProps {
   workOrderId: string;
-  onSaveEstimate: (estimate: {
-    lineItems: EstimateLineItem[];
-    photos: TechPhoto[];
-    notes?: string;
-  }) => void;
-  onCancel: () => void;
+  techId: string;
+  onSubmitted: () => void;
+  onClose: () => void;
 }
 
+// Drafts are saved this long after the last edit
+const AUTOSAVE_DELAY = 1000;
+
 const EstimateBuilder: React.FC<EstimateBuilderProps> = ({
   workOrderId,
-  onSaveEstimate,
-  onCancel,
+  techId,
+  onSubmitted,
+  onClose,
 }) => {
   const [lineItems, setLineItems] = useState<EstimateLineItem[]>([]);
   const [photos, setPhotos] = useState<TechPhoto[]>([]);
   const [notes, setNotes] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<any[]>([]);
+  const [searchResults, setSearchResults] = useState<CatalogPart[]>([]);
   const [showPartSearch, setShowPartSearch] = useState(false);
   const [showPhotoCapture, setShowPhotoCapture] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [saveState, setSaveState] = useState<'saved' | 'saving' | 'error'>('saved');
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [revision, setRevision] = useState(1);
+  const [approvedItems, setApprovedItems] = useState<EstimateLineItem[]>([]);
+  const [taxContext, setTaxContext] = useState<TaxContext>({ profile: null });
+  const [pricing, setPricing] = useState<PricingContext>({ laborRates: [], markupMatrices: [] });
+  const [catalog, setCatalog] = useState<CatalogPart[]>([]);
+  const [stock, setStock] = useState<Map<string, InventoryItem>>(new Map());
+
+  // JSON of the last saved draft, so unchanged drafts aren't written again
+  const lastSavedRef = useRef('');
+  const pendingSaveRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Pick up the draft where the tech left off; a new revision starts from the approved work
+  useEffect(() => {
+    const loadDraft = async () => {
+      try {
+        const [estimates, approved, tax, pricingContext, catalogParts, inventory] = await Promise.all([
+          browserDatabase.getEstimatesForWorkOrder(workOrderId),
+          browserDatabase.getApprovedEstimateItems(workOrderId),
+          browserDatabase.getTaxContext(workOrderId),
+          browserDatabase.getPricingContext(workOrderId),
+          browserDatabase.getCatalogParts(),
+          browserDatabase.getInventory(),
+        ]);
+        const draft = estimates.find(estimate => estimate.status === 'draft');
+        const loaded: EstimateDraft = {
+          line_items: draft?.line_items || approved,
+          photos: draft?.photos || [],
+          notes: draft?.notes || '',
+        };
+
+        setRevision(draft ? draft.revision : estimates.length + 1);
+        setApprovedItems(approved);
+        setTaxContext(tax);
+        setPricing(pricingContext);
+        setCatalog(catalogParts);
+        setStock(new Map(inventory.map(item => [item.id, item])));
+        setLineItems(loaded.line_items);
+        setPhotos(loaded.photos || []);
+        setNotes(loaded.notes || '');
+        setSavedAt(draft ? draft.updated_at : null);
+        lastSavedRef.current = JSON.stringify(loaded);
+      } catch (error) {
+        console.error('Failed to load estimate draft:', error);
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+
+    loadDraft();
+  }, [workOrderId]);
+
+  const saveDraft = useCallback(async (draft: EstimateDraft) => {
+    const snapshot = JSON.stringify(draft);
+    if (snapshot === lastSavedRef.current) return;
+
+    setSaveState('saving');
+    try {
+      const saved = await browserDatabase.saveEstimateDraft(workOrderId, techId, draft);
+      lastSavedRef.current = snapshot;
+      setSavedAt(saved.updated_at);
+      setSaveState('saved');
+    } catch (error) {
+      console.error('Failed to save estimate draft:', error);
+      setSaveState('error');
+    }
+  }, [workOrderId, techId]);
+
+  // Autosave shortly after each edit; saves run one at a time
+  useEffect(() => {
+    if (!isLoaded || isSubmitting) return;
+
+    const timer = setTimeout(() => {
+      pendingSaveRef.current = pendingSaveRef.current.then(() => saveDraft({ line_items: lineItems, photos, notes }));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [isLoaded, isSubmitting, lineItems, photos, notes, saveDraft]);
+
+  const handleClose = async () => {
+    await pendingSaveRef.current;
+    await saveDraft({ line_items: lineItems, photos, notes });
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      // Let an in-flight autosave finish so it can't recreate the draft afterwards
+      await pendingSaveRef.current;
+      await browserDatabase.submitEstimate(workOrderId, techId, { line_items: lineItems, photos, notes });
+      onSubmitted();
+    } catch (error) {
+      if (error instanceof StaleWriteError) {
+        alert('This job was updated on another device. Please try again.');
+      } else if (error instanceof InvalidTransitionError) {
+        alert(error.message);
+      } else {
+        console.error('Failed to submit estimate:', error);
+        alert(error instanceof Error ? error.message : 'Failed to submit estimate. Please try again.');
+      }
+      setIsSubmitting(false);
+    }
+  };
+
+  const saveStateLabel = () => {
+    if (saveState === 'saving') return 'Saving draft...';
+    if (saveState === 'error') return 'Draft not saved';
+    return savedAt ? `Draft saved ${new Date(savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : '';
+  };
 
   useEffect(() => {
     if (searchQuery.length > 2) {
-      const results = pricingEngine.searchParts(searchQuery);
+      const results = searchCatalog(catalog, searchQuery);
       setSearchResults(results);
     } else {
       setSearchResults([]);
     }
-  }, [searchQuery]);
+  }, [searchQuery, catalog]);
 
   const addLineItem = (item: EstimateLineItem) => {
-    setLineItems([...lineItems, { ...item, id: `${item.type}_${Date.now()}` }]);
+    // Ids stay with an item across revisions, so they must be unique
+    setLineItems(items => [...items, { ...item, id: uuidv4() }]);
   };
 
   const removeLineItem = (id: string) => {
@@ -46,49 +172,85 @@ const EstimateBuilder: React.FC<EstimateBuilderProps> = ({
   const updateLineItem = (id: string, updates: Partial<EstimateLineItem>) => {
     setLineItems(lineItems.map(item =>
       item.id === id
-        ? { ...item, ...updates, total_price: (updates.quantity || item.quantity) * (updates.unit_price || item.unit_price) }
+        ? { ...item, ...updates, total_price: multiplyCents(updates.unit_price ?? item.unit_price, updates.quantity ?? item.quantity) }
         : item
     ));
   };
 
-  const addPartFromSearch = (part: any) => {
-    const lineItem = pricingEngine.createPartLineItem(part.part_number);
-    if (lineItem) {
-      addLineItem(lineItem);
-      setSearchQuery('');
-      setShowPartSearch(false);
+  // Matrix-priced parts can only be repriced by hand with a reason
+  const overridePrice = (item: EstimateLineItem) => {
+    const input = prompt(`New unit price for ${item.description}:`, fromCents(item.unit_price).toFixed(2));
+    if (input === null) return;
+
+    const unitPrice = parseDollars(input);
+    if (unitPrice === null || unitPrice < 0) {
+      alert('Enter a valid price.');
+      return;
+    }
+    const reason = prompt('Why is this price different from the markup matrix?', item.price_override_reason || '');
+    if (!reason?.trim()) {
+      alert('A reason is required to override the matrix price.');
+      return;
     }
+    updateLineItem(item.id, { unit_price: unitPrice, price_override_reason: reason.trim() });
+  };
+
+  const applyMatrixPrice = (item: EstimateLineItem) => {
+    const markup = pricingEngine.getPartMarkup(item.unit_cost!, pricing, { category: item.part_category, supplier: item.supplier });
+    updateLineItem(item.id, {
+      unit_price: pricingEngine.calculatePartPrice(item.unit_cost!, markup),
+      markup_percentage: markup,
+      price_override_reason: undefined,
+    });
+  };
+
+  const addPartFromSearch = (part: CatalogPart) => {
+    addLineItem(pricingEngine.createPartLineItem(part, pricing));
+    setSearchQuery('');
+    setShowPartSearch(false);
+  };
+
+  // Shelf stock for a catalog part; undefined when the shop doesn't stock it
+  const stockFor = (partId?: string) => partId ? stock.get(partId) : undefined;
+
+  // Approved items already hold their parts, so only new parts can run short
+  const isShortOfStock = (item: EstimateLineItem) => {
+    const inventory = stockFor(item.catalog_part_id);
+    return !!inventory && !approvedItems.some(approved => approved.id === item.id) && availableStock(inventory) < item.quantity;
   };
 
   const addQuickService = (serviceType: string) => {
-    const template = pricingEngine.getEstimateTemplate(serviceType);
-    template.forEach(item => addLineItem(item));
+    try {
+      const template = pricingEngine.getEstimateTemplate(serviceType, pricing, catalog);
+      template.forEach(item => addLineItem(item));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to add service.');
+    }
   };
 
   const addCustomLabor = () => {
     const description = prompt('Enter labor description:');
     const hours = prompt('Enter hours (e.g., 1.5):');
-    const category = prompt('Enter category (general, brake, engine, etc.):') || 'general';
+    const categories = pricing.laborRates.map(rate => rate.id).join(', ');
+    const category = prompt(`Enter category (${categories}):`) || GENERAL_LABOR_CATEGORY;
 
     if (description && hours) {
-      const laborItem = pricingEngine.createLaborLineItem(description, parseFloat(hours), category);
-      addLineItem(laborItem);
+      try {
+        const laborItem = pricingEngine.createLaborLineItem(description, parseFloat(hours), category, pricing);
+        addLineItem(laborItem);
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Failed to add labor.');
+      }
     }
   };
 
   const addCustomPart = () => {
     const description = prompt('Enter part description:');
     const partNumber = prompt('Enter part number:');
-    const cost = prompt('Enter cost (without markup):');
-    const markup = prompt('Enter markup percentage (default 40):');
-
-    if (description && partNumber && cost) {
-      const customPart = pricingEngine.addCustomPart(
-        description,
-        partNumber,
-        parseFloat(cost),
-        markup ? parseFloat(markup) : 40
-      );
+    const cost = parseDollars(prompt('Enter cost (without markup):') || '');
+
+    if (description && partNumber && cost !== null) {
+      const customPart = pricingEngine.addCustomPart(description, partNumber, cost, pricing);
       addLineItem(customPart);
     }
   };
@@ -111,7 +273,12 @@ const EstimateBuilder: React.FC<EstimateBuilderProps> = ({
     setPhotos(photos.filter(photo => photo.id !== photoId));
   };
 
-  const totals = pricingEngine.calculateEstimateTotal(lineItems);
+  const totals = pricingEngine.calculateEstimateTotal(lineItems, taxContext);
+
+  // How this revision differs from the approved work
+  const changes = diffEstimateItems(approvedItems, lineItems);
+  const changeTypes = new Map(changes.map(change => [change.item.id, change.type]));
+  const removedItems = changes.filter(change => change.type === 'removed').map(change => change.item);
 
   const quickServices = [
     { id: 'oil-change', name: 'Oil Change', icon: '🛢️' },
@@ -127,22 +294,30 @@ const EstimateBuilder: React.FC<EstimateBuilderProps> = ({
         {/* Header */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
           <div className="flex items-center justify-between">
-            <h1 className="text-xl font-bold text-gray-900">
-              Build Estimate - #{workOrderId.slice(-6).toUpperCase()}
-            </h1>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">
+                Build Estimate - #{workOrderId.slice(-6).toUpperCase()}
+                {revision > 1 && <span className="ml-2 text-gray-500 font-normal">Revision {revision}</span>}
+              </h1>
+              {pricing.pricingLevel && pricing.pricingLevel.id !== 'retail' && (
+                <p className="text-sm text-blue-700">{pricing.pricingLevel.name} pricing</p>
+              )}
+              <p className={`text-sm ${saveState === 'error' ? 'text-red-600' : 'text-gray-500'}`}>{saveStateLabel()}</p>
+            </div>
             <div className="flex space-x-3">
               <button
-                onClick={onCancel}
+                onClick={handleClose}
+                disabled={isSubmitting}
                 className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
               >
-                Cancel
+                Close
               </button>
               <button
-                onClick={() => onSaveEstimate({ lineItems, photos, notes })}
-                disabled={lineItems.length === 0}
+                onClick={handleSubmit}
+                disabled={!isLoaded || isSubmitting || lineItems.length === 0}
                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
-                Save Estimate
+                {isSubmitting ? 'Submitting...' : 'Submit for Approval'}
               </button>
             </div>
           </div>
@@ -228,16 +403,31 @@ const EstimateBuilder: React.FC<EstimateBuilderProps> = ({
                 )}
                 {searchResults.map((part) => (
                   <div
-                    key={part.part_number}
+                    key={part.id}
                     className="flex items-center justify-between p-2 hover:bg-gray-50 rounded cursor-pointer"
                     onClick={() => addPartFromSearch(part)}
                   >
                     <div>
                       <div className="font-medium">{part.description}</div>
-                      <div className="text-sm text-gray-500">{part.part_number}</div>
+                      <div className="text-sm text-gray-500">
+                        {part.part_number}{part.brand ? ` · ${part.brand}` : ''}
+                      </div>
+                      {part.fitment_notes && (
+                        <div className="text-xs text-gray-500">{part.fitment_notes}</div>
+                      )}
                     </div>
                     <div className="text-right">
-                      <div className="font-medium">${pricingEngine.calculatePartPrice(part.price, part.markup_percentage)}</div>
+                      <div className="font-medium">{formatCents(pricingEngine.calculatePartPrice(part.cost, pricingEngine.getPartMarkup(part.cost, pricing, part)))}</div>
+                      {part.list_price !== undefined && (
+                        <div className="text-xs text-gray-500">List {formatCents(part.list_price)}</div>
+                      )}
+                      {stockFor(part.id) ? (
+                        <div className={`text-xs ${availableStock(stockFor(part.id)!) > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {availableStock(stockFor(part.id)!) > 0 ? `${availableStock(stockFor(part.id)!)} in stock` : 'Out of stock'}
+                        </div>
+                      ) : (
+                        <div className="text-xs text-gray-500">Not stocked</div>
+                      )}
                       <div className="text-xs text-gray-500">{part.supplier}</div>
                     </div>
                   </div>
@@ -297,14 +487,43 @@ const EstimateBuilder: React.FC<EstimateBuilderProps> = ({
                           {item.type.toUpperCase()}
                         </span>
                         <span className="text-sm text-gray-500">#{index + 1}</span>
+                        {revision > 1 && changeTypes.has(item.id) && (
+                          <EstimateChangeBadge type={changeTypes.get(item.id)!} />
+                        )}
                       </div>
                       <div className="mt-1 font-medium">{item.description}</div>
                       {item.part_number && (
                         <div className="text-sm text-gray-500">Part #: {item.part_number}</div>
                       )}
+                      {isShortOfStock(item) && (
+                        <div className="text-sm text-red-600">
+                          Only {Math.max(0, availableStock(stockFor(item.catalog_part_id)!))} available on the shelf
+                        </div>
+                      )}
                       {item.notes && (
                         <div className="text-sm text-gray-500">{item.notes}</div>
                       )}
+                      {item.unit_cost !== undefined && (
+                        <div className="text-sm text-gray-500">
+                          Cost {formatCents(item.unit_cost)}
+                          {item.price_override_reason
+                            ? ` · Price overridden: ${item.price_override_reason}`
+                            : ` · ${item.markup_percentage}% markup`}
+                          {' · '}{grossMarginPercent(item.unit_cost, item.unit_price)}% margin
+                          {' · '}
+                          <button onClick={() => overridePrice(item)} className="text-blue-600 hover:text-blue-800">
+                            Override
+                          </button>
+                          {item.price_override_reason && (
+                            <>
+                              {' · '}
+                              <button onClick={() => applyMatrixPrice(item)} className="text-blue-600 hover:text-blue-800">
+                                Use matrix price
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      )}
                     </div>
                     <div className="flex items-center space-x-2 ml-4">
                       <div className="text-right">
@@ -320,15 +539,17 @@ const EstimateBuilder: React.FC<EstimateBuilderProps> = ({
                           <span className="text-sm text-gray-500">×</span>
                           <input
                             type="number"
-                            value={item.unit_price}
-                            onChange={(e) => updateLineItem(item.id, { unit_price: parseFloat(e.target.value) || 0 })}
-                            className="w-20 px-2 py-1 text-sm border border-gray-300 rounded"
+                            value={fromCents(item.unit_price)}
+                            onChange={(e) => updateLineItem(item.id, { unit_price: parseDollars(e.target.value) ?? 0 })}
+                            readOnly={item.unit_cost !== undefined}
+                            title={item.unit_cost !== undefined ? 'Priced from the markup matrix; use Override to change it' : undefined}
+                            className="w-20 px-2 py-1 text-sm border border-gray-300 rounded read-only:bg-gray-50"
                             min="0"
                             step="0.01"
                           />
                         </div>
                         <div className="text-sm font-medium text-right mt-1">
-                          ${item.total_price.toFixed(2)}
+                          {formatCents(item.total_price)}
                         </div>
                       </div>
                       <button
@@ -345,6 +566,19 @@ const EstimateBuilder: React.FC<EstimateBuilderProps> = ({
           )}
         </div>
 
+        {/* Approved work dropped from this revision */}
+        {removedItems.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6 p-4">
+            <h2 className="text-lg font-medium text-gray-900 mb-2">Removed from Approved Work</h2>
+            {removedItems.map(item => (
+              <div key={item.id} className="flex justify-between text-sm text-gray-500 line-through">
+                <span>{item.description}</span>
+                <span>{formatCents(item.total_price)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Photos */}
         {photos.length > 0 && (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6">
@@ -411,27 +645,28 @@ const EstimateBuilder: React.FC<EstimateBuilderProps> = ({
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span>Labor:</span>
-                  <span>${totals.laborTotal.toFixed(2)}</span>
+                  <span>{formatCents(totals.laborTotal)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span>Parts:</span>
-                  <span>${totals.partsTotal.toFixed(2)}</span>
+                  <span>{formatCents(totals.partsTotal)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span>Services:</span>
-                  <span>${totals.servicesTotal.toFixed(2)}</span>
+                  <span>{formatCents(totals.servicesTotal)}</span>
                 </div>
                 <div className="flex justify-between text-sm border-t pt-2">
                   <span>Subtotal:</span>
-                  <span>${totals.subtotal.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Tax:</span>
-                  <span>${totals.tax.toFixed(2)}</span>
+                  <span>{formatCents(totals.subtotal)}</span>
                 </div>
+                <TaxBreakdownRows
+                  taxLines={totals.taxLines}
+                  exempt={totals.taxExempt}
+                  exemptCertificate={taxContext.customer?.tax_exempt_certificate}
+                />
                 <div className="flex justify-between text-lg font-bold border-t pt-2">
                   <span>Total:</span>
-                  <span>${totals.total.toFixed(2)}</span>
+                  <span>{formatCents(totals.total)}</span>
                 </div>
               </div>
             </div>
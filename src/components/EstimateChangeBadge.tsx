@@ -0,0 +1,18 @@
+import React from 'react';
+import type { EstimateItemChangeType } from '../services/estimateRevisions';
+
+const changeStyles: Record<EstimateItemChangeType, { label: string; className: string }> = {
+  added: { label: 'New', className: 'bg-blue-100 text-blue-800' },
+  changed: { label: 'Changed', className: 'bg-orange-100 text-orange-800' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800' },
+  unchanged: { label: 'Previously approved', className: 'bg-gray-100 text-gray-700' },
+};
+
+// How an estimate item differs from the work the customer already approved
+const EstimateChangeBadge: React.FC<{ type: EstimateItemChangeType }> = ({ type }) => (
+  <span className={`px-2 py-1 text-xs rounded-full ${changeStyles[type].className}`}>
+    {changeStyles[type].label}
+  </span>
+);
+
+export default EstimateChangeBadge;
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import browserDatabase from '../services/browserDatabase';
+import { availableStock, isLowStock, suggestedOrderQuantity } from '../services/inventory';
+import { searchCatalog } from '../services/partsCatalog';
+import { useChangeFeed } from '../hooks/useChangeFeed';
+import type { CatalogPart, InventoryAdjustment, InventoryItem } from '../types/models';
+
+interface InventoryPanelProps {
+  onClose: () => void;
+}
+
+type SettingsForm = Pick<InventoryItem, 'id' | 'bin_location' | 'reorder_point' | 'reorder_quantity'>;
+
+const adjustmentLabels: Record<InventoryAdjustment['kind'], string> = {
+  allocate: 'Allocated to job',
+  release: 'Released from job',
+  consume: 'Used on job',
+  receive: 'Received',
+  cycle_count: 'Cycle count',
+};
+
+const InventoryPanel: React.FC<InventoryPanelProps> = ({ onClose }) => {
+  const [parts, setParts] = useState<CatalogPart[]>([]);
+  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [filter, setFilter] = useState<'stocked' | 'low'>('stocked');
+  const [addQuery, setAddQuery] = useState('');
+  const [settings, setSettings] = useState<SettingsForm | null>(null);
+  const [counting, setCounting] = useState<{ id: string; counted: string; reason: string } | null>(null);
+  const [history, setHistory] = useState<{ part: CatalogPart; adjustments: InventoryAdjustment[] } | null>(null);
+
+  const loadData = useCallback(() => {
+    return Promise.all([browserDatabase.getCatalogParts(), browserDatabase.getInventory()])
+      .then(([catalog, stock]) => {
+        setParts(catalog);
+        setInventory(stock);
+      })
+      .catch(error => console.error('Failed to load inventory:', error));
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // Allocations change as estimates are approved and jobs completed
+  useChangeFeed(['inventory', 'parts_catalog'], () => {
+    loadData();
+  });
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+
+    try {
+      await browserDatabase.saveInventorySettings(settings.id, settings);
+      setSettings(null);
+      setAddQuery('');
+      await loadData();
+    } catch (error) {
+      console.error('Failed to save inventory settings:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save inventory settings.');
+    }
+  };
+
+  const handleCount = async () => {
+    if (!counting) return;
+
+    const counted = parseInt(counting.counted, 10);
+    try {
+      await browserDatabase.recordCycleCount(counting.id, counted, counting.reason, 'owner');
+      setCounting(null);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to record cycle count:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record cycle count.');
+    }
+  };
+
+  const showHistory = async (part: CatalogPart) => {
+    try {
+      setHistory({ part, adjustments: await browserDatabase.getInventoryAdjustments(part.id) });
+    } catch (error) {
+      console.error('Failed to load inventory history:', error);
+    }
+  };
+
+  const partsById = new Map(parts.map(part => [part.id, part]));
+  const stockedIds = new Set(inventory.map(item => item.id));
+  const listed = inventory
+    .filter(item => filter === 'stocked' || isLowStock(item))
+    .filter(item => partsById.has(item.id))
+    .sort((a, b) => partsById.get(a.id)!.part_number.localeCompare(partsById.get(b.id)!.part_number));
+  const addResults = addQuery.trim()
+    ? searchCatalog(parts, addQuery, 10).filter(part => !stockedIds.has(part.id))
+    : [];
+
+  const settingsForm = (form: SettingsForm) => (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-600">Bin</span>
+      <input
+        type="text"
+        value={form.bin_location || ''}
+        onChange={(e) => setSettings({ ...form, bin_location: e.target.value })}
+        placeholder="e.g. A3"
+        className="w-24 px-3 py-1 border border-gray-300 rounded-lg"
+      />
+      <span className="text-gray-600">Reorder at</span>
+      <input
+        type="number"
+        min="0"
+        step="1"
+        value={form.reorder_point}
+        onChange={(e) => setSettings({ ...form, reorder_point: parseInt(e.target.value, 10) || 0 })}
+        className="w-20 px-3 py-1 border border-gray-300 rounded-lg"
+      />
+      <span className="text-gray-600">Order</span>
+      <input
+        type="number"
+        min="0"
+        step="1"
+        value={form.reorder_quantity}
+        onChange={(e) => setSettings({ ...form, reorder_quantity: parseInt(e.target.value, 10) || 0 })}
+        className="w-20 px-3 py-1 border border-gray-300 rounded-lg"
+      />
+      <button onClick={handleSaveSettings} className="text-blue-600 hover:text-blue-800">Save</button>
+      <button onClick={() => setSettings(null)} className="text-gray-600 hover:text-gray-800">Cancel</button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Parts Inventory</h2>
+            <p className="text-gray-600">
+              Approved estimates hold parts for the job; completing the job takes them off the shelf.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {/* Start stocking a part */}
+          <div>
+            <input
+              type="text"
+              value={addQuery}
+              onChange={(e) => setAddQuery(e.target.value)}
+              placeholder="Find a catalog part to start stocking"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+            {addResults.length > 0 && (
+              <div className="mt-2 border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {addResults.map(part => (
+                  <div key={part.id} className="p-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span>
+                        <span className="font-medium text-gray-900">{part.part_number}</span>
+                        <span className="ml-2 text-gray-600">{part.description}</span>
+                      </span>
+                      {settings?.id !== part.id && (
+                        <button
+                          onClick={() => setSettings({ id: part.id, reorder_point: 0, reorder_quantity: 0 })}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Stock this part
+                        </button>
+                      )}
+                    </div>
+                    {settings?.id === part.id && settingsForm(settings)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex space-x-2">
+            {(['stocked', 'low'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setFilter(option)}
+                className={`px-3 py-1 rounded-full text-sm ${
+                  filter === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option === 'stocked' ? `All stocked (${inventory.length})` : `Low stock (${inventory.filter(isLowStock).length})`}
+              </button>
+            ))}
+          </div>
+
+          {listed.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">
+              {filter === 'low' ? 'Nothing is running low' : 'No parts are stocked yet'}
+            </p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {listed.map(item => {
+                const part = partsById.get(item.id)!;
+                const low = isLowStock(item);
+
+                return (
+                  <div key={item.id} className="p-3 text-sm">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {part.part_number} · {part.description}
+                          {low && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">Low stock</span>}
+                        </p>
+                        <p className="text-gray-600">
+                          {item.on_hand} on hand · {item.allocated} allocated · {availableStock(item)} available
+                          {item.bin_location ? ` · Bin ${item.bin_location}` : ''}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Reorder at {item.reorder_point}
+                          {low ? ` · order ${suggestedOrderQuantity(item)}` : ''}
+                          {part.supplier ? ` from ${part.supplier}` : ''}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={() => setCounting({ id: item.id, counted: String(item.on_hand), reason: '' })}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Count
+                        </button>
+                        <button onClick={() => setSettings(item)} className="text-blue-600 hover:text-blue-800">
+                          Settings
+                        </button>
+                        <button onClick={() => showHistory(part)} className="text-gray-600 hover:text-gray-800">
+                          History
+                        </button>
+                      </div>
+                    </div>
+
+                    {settings?.id === item.id && settingsForm(settings)}
+
+                    {counting?.id === item.id && (
+                      <div className="mt-3 flex flex-wrap items-center gap-2">
+                        <span className="text-gray-600">Counted</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={counting.counted}
+                          onChange={(e) => setCounting({ ...counting, counted: e.target.value })}
+                          className="w-20 px-3 py-1 border border-gray-300 rounded-lg"
+                        />
+                        <input
+                          type="text"
+                          value={counting.reason}
+                          onChange={(e) => setCounting({ ...counting, reason: e.target.value })}
+                          placeholder="Reason for any difference"
+                          className="flex-1 min-w-40 px-3 py-1 border border-gray-300 rounded-lg"
+                        />
+                        <button onClick={handleCount} className="text-blue-600 hover:text-blue-800">Save Count</button>
+                        <button onClick={() => setCounting(null)} className="text-gray-600 hover:text-gray-800">Cancel</button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Stock history modal */}
+      {history && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full max-h-96 overflow-hidden">
+            <div className="p-4 border-b flex items-center justify-between">
+              <h3 className="text-lg font-semibold">{history.part.part_number} Stock History</h3>
+              <button onClick={() => setHistory(null)} className="text-gray-400 hover:text-gray-600">
+                ✕
+              </button>
+            </div>
+            <div className="p-4 max-h-64 overflow-y-auto text-sm">
+              {history.adjustments.length === 0 ? (
+                <p className="text-gray-500 text-center">No stock changes yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {history.adjustments.map(adjustment => (
+                    <div key={adjustment.id}>
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-900">{adjustmentLabels[adjustment.kind]}</span>
+                        <span className="text-gray-600">
+                          {adjustment.on_hand_change !== 0 && `${adjustment.on_hand_change > 0 ? '+' : ''}${adjustment.on_hand_change} on hand `}
+                          {adjustment.allocated_change !== 0 && `${adjustment.allocated_change > 0 ? '+' : ''}${adjustment.allocated_change} allocated`}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {new Date(adjustment.created_at).toLocaleString()}
+                        {adjustment.adjusted_by ? ` · ${adjustment.adjusted_by}` : ''}
+                        {adjustment.reason ? ` · ${adjustment.reason}` : ''}
+                        {` · ${adjustment.on_hand_after} on hand after`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InventoryPanel;
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import TaxBreakdownRows from './TaxBreakdownRows';
+import invoiceService, { formatInvoiceNumber } from '../services/invoiceService';
+import { formatCents } from '../services/money';
+import type { Invoice } from '../types/models';
+
+interface InvoiceViewProps {
+  workOrderId: string;
+  onClose: () => void;
+}
+
+const lineItemTypeLabels: Record<Invoice['line_items'][number]['type'], string> = {
+  labor: 'Labor',
+  part: 'Part',
+  service: 'Service',
+};
+
+const InvoiceView: React.FC<InvoiceViewProps> = ({ workOrderId, onClose }) => {
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Issues the invoice the first time; afterwards the same invoice comes back
+    invoiceService.issueInvoice(workOrderId)
+      .then(setInvoice)
+      .catch(error => {
+        console.error('Failed to issue invoice:', error);
+        setError(error instanceof Error ? error.message : 'Failed to issue invoice');
+      });
+  }, [workOrderId]);
+
+  const handleDownloadPdf = () => {
+    if (!invoice) return;
+
+    const url = URL.createObjectURL(invoiceService.createPdf(invoice));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = invoiceService.getFileName(invoice);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900">Invoice</h2>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => window.print()}
+              disabled={!invoice}
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 disabled:opacity-50"
+            >
+              🖨️ Print
+            </button>
+            <button
+              onClick={handleDownloadPdf}
+              disabled={!invoice}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              📄 Download PDF
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl ml-2"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8">
+          {error ? (
+            <div className="text-center text-red-600 py-8">{error}</div>
+          ) : !invoice ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">Preparing invoice...</p>
+            </div>
+          ) : (
+            <div className="print-area text-gray-900 text-sm">
+              {/* Shop and invoice header */}
+              <div className="flex justify-between mb-8">
+                <div>
+                  <h1 className="text-2xl font-bold">{invoice.shop.name}</h1>
+                  {invoice.shop.address && <p>{invoice.shop.address}</p>}
+                  {invoice.shop.phone && <p>{invoice.shop.phone}</p>}
+                  {invoice.shop.email && <p>{invoice.shop.email}</p>}
+                </div>
+                <div className="text-right">
+                  <h2 className="text-2xl font-bold">INVOICE</h2>
+                  <p>{formatInvoiceNumber(invoice)}</p>
+                  <p>Date: {formatDate(invoice.issued_at)}</p>
+                </div>
+              </div>
+
+              {/* Customer and vehicle */}
+              <div className="grid grid-cols-2 gap-8 mb-8">
+                <div>
+                  <p className="text-xs font-bold text-gray-500 mb-1">BILL TO</p>
+                  <p className="font-medium">{invoice.customer_name}</p>
+                  {invoice.customer_phone && <p>{invoice.customer_phone}</p>}
+                  {invoice.customer_email && <p>{invoice.customer_email}</p>}
+                </div>
+                <div>
+                  <p className="text-xs font-bold text-gray-500 mb-1">VEHICLE</p>
+                  <p className="font-medium">{invoice.vehicle_description}</p>
+                  {invoice.vehicle_vin && <p>VIN: {invoice.vehicle_vin}</p>}
+                  {invoice.vehicle_license_plate && <p>Plate: {invoice.vehicle_license_plate}</p>}
+                  {invoice.mileage !== undefined && <p>Mileage: {invoice.mileage.toLocaleString()}</p>}
+                </div>
+              </div>
+
+              {/* Line items */}
+              <table className="w-full mb-6">
+                <thead>
+                  <tr className="bg-gray-100 text-left">
+                    <th className="p-2">Description</th>
+                    <th className="p-2">Type</th>
+                    <th className="p-2 text-right">Qty</th>
+                    <th className="p-2 text-right">Unit Price</th>
+                    <th className="p-2 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoice.line_items.map(item => (
+                    <tr key={item.id} className="border-b border-gray-200">
+                      <td className="p-2">{item.description}</td>
+                      <td className="p-2">{lineItemTypeLabels[item.type]}</td>
+                      <td className="p-2 text-right">{item.quantity}</td>
+                      <td className="p-2 text-right">{formatCents(item.unit_price)}</td>
+                      <td className="p-2 text-right">{formatCents(item.total_price)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {/* Totals */}
+              <div className="flex justify-end">
+                <div className="w-64 space-y-1">
+                  <div className="flex justify-between"><span>Labor</span><span>{formatCents(invoice.labor_total)}</span></div>
+                  <div className="flex justify-between"><span>Parts</span><span>{formatCents(invoice.parts_total)}</span></div>
+                  <div className="flex justify-between"><span>Services</span><span>{formatCents(invoice.services_total)}</span></div>
+                  <div className="flex justify-between"><span>Subtotal</span><span>{formatCents(invoice.subtotal)}</span></div>
+                  <TaxBreakdownRows
+                    taxLines={invoice.tax_lines}
+                    exempt={invoice.tax_exempt_certificate !== undefined}
+                    exemptCertificate={invoice.tax_exempt_certificate}
+                    className="flex justify-between"
+                  />
+                  <div className="flex justify-between border-t border-gray-300 pt-1 text-base font-bold">
+                    <span>Total</span><span>{formatCents(invoice.total)}</span>
+                  </div>
+                </div>
+              </div>
+
+              <p className="mt-12 text-xs text-gray-500">Thank you for your business!</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceView;
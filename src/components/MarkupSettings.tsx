@@ -0,0 +1,273 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import browserDatabase from '../services/browserDatabase';
+import pricingEngine from '../services/pricingEngine';
+import { grossMarginPercent, isShopWide, markupForCost, partCategoryLabels } from '../services/markupMatrix';
+import { formatCents, fromCents, parseDollars } from '../services/money';
+import type { MarkupMatrix, MarkupTier } from '../types/models';
+
+type MatrixForm = Omit<MarkupMatrix, 'created_at' | 'updated_at'>;
+
+// Part costs the preview prices with the matrix being edited
+const previewCosts = [500, 2500, 7500, 15000, 40000];
+
+const newMatrix = (): MatrixForm => ({
+  id: uuidv4(),
+  name: '',
+  category: Object.keys(partCategoryLabels)[0],
+  tiers: [{ min_cost: 0, markup_percentage: 100 }],
+});
+
+const describeScope = (matrix: Pick<MarkupMatrix, 'category' | 'supplier'>) => {
+  if (matrix.supplier) return `Supplier: ${matrix.supplier}`;
+  if (matrix.category) return `Category: ${partCategoryLabels[matrix.category] || matrix.category}`;
+  return 'All parts';
+};
+
+const MarkupSettings: React.FC = () => {
+  const [matrices, setMatrices] = useState<MarkupMatrix[]>([]);
+  const [suppliers, setSuppliers] = useState<string[]>([]);
+  const [editing, setEditing] = useState<MatrixForm | null>(null);
+
+  const loadData = useCallback(() => {
+    return Promise.all([browserDatabase.getMarkupMatrices(), browserDatabase.getCatalogParts()])
+      .then(([allMatrices, catalog]) => {
+        setMatrices(allMatrices);
+        setSuppliers([...new Set(catalog.flatMap(part => part.supplier ? [part.supplier] : []))].sort());
+      })
+      .catch(error => console.error('Failed to load markup matrices:', error));
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const updateTier = (index: number, updates: Partial<MarkupTier>) => {
+    setEditing(prev => prev && {
+      ...prev,
+      tiers: prev.tiers.map((tier, other) => other === index ? { ...tier, ...updates } : tier),
+    });
+  };
+
+  const setScope = (scope: string) => {
+    if (!editing) return;
+    const [kind, value] = scope.split(':');
+    setEditing({
+      ...editing,
+      category: kind === 'category' ? value : undefined,
+      supplier: kind === 'supplier' ? value : undefined,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    try {
+      await browserDatabase.saveMarkupMatrix(editing);
+      setEditing(null);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to save markup matrix:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save markup matrix.');
+    }
+  };
+
+  const handleDelete = async (matrix: MarkupMatrix) => {
+    if (!confirm(`Delete the "${matrix.name}" markup matrix?`)) return;
+
+    try {
+      await browserDatabase.deleteMarkupMatrix(matrix.id);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to delete markup matrix:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete markup matrix.');
+    }
+  };
+
+  const describeTiers = (tiers: MarkupTier[]) => [...tiers]
+    .sort((a, b) => a.min_cost - b.min_cost)
+    .map((tier, index, sorted) => {
+      const next = sorted[index + 1];
+      const range = next
+        ? `${formatCents(tier.min_cost)}–${formatCents(next.min_cost)}`
+        : `${formatCents(tier.min_cost)}+`;
+      return `${range} → ${tier.markup_percentage}%`;
+    })
+    .join(', ');
+
+  const scopeValue = editing?.supplier
+    ? `supplier:${editing.supplier}`
+    : editing?.category ? `category:${editing.category}` : 'all';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-medium text-gray-900">Parts Markup</h3>
+        {!editing && (
+          <button
+            onClick={() => setEditing(newMatrix())}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Add Matrix
+          </button>
+        )}
+      </div>
+      <p className="text-gray-600 mb-4">
+        Parts are priced from their cost: the cost tier a part falls in sets its markup. A matrix for a supplier
+        wins over one for a part category, which wins over the shop-wide matrix.
+      </p>
+
+      <div className="space-y-3">
+        {matrices.map(matrix => (
+          <div key={matrix.id} className="border border-gray-200 rounded-lg p-4 flex items-start justify-between">
+            <div>
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-gray-900">{matrix.name}</span>
+                <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">{describeScope(matrix)}</span>
+              </div>
+              <p className="text-sm text-gray-600">{describeTiers(matrix.tiers)}</p>
+            </div>
+            <div className="flex items-center space-x-3 text-sm">
+              <button onClick={() => setEditing(matrix)} className="text-blue-600 hover:text-blue-800">
+                Edit
+              </button>
+              {!isShopWide(matrix) && (
+                <button onClick={() => handleDelete(matrix)} className="text-red-600 hover:text-red-800">
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Matrix Name</label>
+              <input
+                type="text"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                placeholder="e.g. Brake parts"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Applies To</label>
+              <select
+                value={scopeValue}
+                onChange={(e) => setScope(e.target.value)}
+                disabled={matrices.some(matrix => matrix.id === editing.id && isShopWide(matrix))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="all">All parts</option>
+                <optgroup label="Part category">
+                  {Object.entries(partCategoryLabels).map(([category, label]) => (
+                    <option key={category} value={`category:${category}`}>{label}</option>
+                  ))}
+                </optgroup>
+                <optgroup label="Supplier">
+                  {suppliers.map(supplier => (
+                    <option key={supplier} value={`supplier:${supplier}`}>{supplier}</option>
+                  ))}
+                </optgroup>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Cost Tiers</label>
+            <div className="space-y-2">
+              {editing.tiers.map((tier, index) => (
+                <div key={index} className="flex items-center space-x-2 text-sm">
+                  <span className="text-gray-600">Cost from $</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={fromCents(tier.min_cost)}
+                    onChange={(e) => updateTier(index, { min_cost: parseDollars(e.target.value) ?? 0 })}
+                    className="w-28 px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                  <span className="text-gray-600">marked up</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={tier.markup_percentage}
+                    onChange={(e) => updateTier(index, { markup_percentage: parseFloat(e.target.value) || 0 })}
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                  <span className="text-gray-600">%</span>
+                  <button
+                    onClick={() => setEditing({ ...editing, tiers: editing.tiers.filter((_, other) => other !== index) })}
+                    className="text-gray-400 hover:text-red-600 px-2"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setEditing({
+                ...editing,
+                tiers: [...editing.tiers, { min_cost: Math.max(0, ...editing.tiers.map(tier => tier.min_cost)) + 1000, markup_percentage: 50 }],
+              })}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add Tier
+            </button>
+          </div>
+
+          {/* Margin preview */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Preview</label>
+            <table className="w-full text-sm bg-white border border-gray-200 rounded-lg">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="p-2">Part cost</th>
+                  <th className="p-2">Markup</th>
+                  <th className="p-2">Price</th>
+                  <th className="p-2">Gross margin</th>
+                </tr>
+              </thead>
+              <tbody>
+                {previewCosts.map(cost => {
+                  const markup = markupForCost(editing, cost);
+                  const price = pricingEngine.calculatePartPrice(cost, markup);
+                  return (
+                    <tr key={cost} className="border-t border-gray-100">
+                      <td className="p-2">{formatCents(cost)}</td>
+                      <td className="p-2">{markup}%</td>
+                      <td className="p-2">{formatCents(price)}</td>
+                      <td className="p-2">{grossMarginPercent(cost, price)}%</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Save Matrix
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarkupSettings;
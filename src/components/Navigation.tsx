@@ -6,6 +6,11 @@ const Navigation: React.FC = () => {
 
   const isActive = (path: string) => location.pathname === path;
 
+  // The estimate approval page is handed to customers; keep staff screens out of reach
+  if (location.pathname.startsWith('/approve/')) {
+    return null;
+  }
+
   const navItems = [
     { path: '/', label: 'Check-In', icon: '📋' },
     { path: '/dashboard', label: 'Dashboard', icon: '📊' },
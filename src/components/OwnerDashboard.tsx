@@ -1,14 +1,30 @@
 import React, { useEffect, useState } from 'react';
 import BrowserDatabaseService from '../services/browserDatabase';
+import { useChangeFeed } from '../hooks/useChangeFeed';
 import OwnerSettings from './OwnerSettings';
 import TechRoster from './TechRoster';
 import AssignmentBoard from './AssignmentBoard';
 import TechCapacity from './TechCapacity';
-import type { CheckIn, WorkOrder, Customer, Vehicle, TechProfile } from '../types/models';
+import SyncPanel from './SyncPanel';
+import InvoiceView from './InvoiceView';
+import PaymentPanel from './PaymentPanel';
+import InventoryPanel from './InventoryPanel';
+import PurchaseOrdersPanel from './PurchaseOrdersPanel';
+import TechScheduleManager from './TechScheduleManager';
+import { formatCents } from '../services/money';
+import { balanceDue } from '../services/paymentLedger';
+import { availableStock, isLowStock, suggestedOrderQuantity } from '../services/inventory';
+import syncEngine from '../services/syncEngine';
+import schedulingService from '../services/schedulingService';
+import type { Appointment, CheckIn, WorkOrder, Customer, Vehicle, TechProfile, CatalogPart, InventoryItem } from '../types/models';
+
+// How far ahead the dashboard lists booked appointments
+const APPOINTMENT_DAYS_AHEAD = 7;
 
 const OwnerDashboard: React.FC = () => {
   const [pendingCheckIns, setPendingCheckIns] = useState<CheckIn[]>([]);
   const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [customers, setCustomers] = useState<{ [id: string]: Customer }>({});
   const [vehicles, setVehicles] = useState<{ [id: string]: Vehicle }>({});
   const [techs, setTechs] = useState<TechProfile[]>([]);
@@ -16,36 +32,65 @@ const OwnerDashboard: React.FC = () => {
   const [showTechRoster, setShowTechRoster] = useState(false);
   const [showAssignmentBoard, setShowAssignmentBoard] = useState(false);
   const [showTechCapacity, setShowTechCapacity] = useState(false);
+  const [showTechSchedules, setShowTechSchedules] = useState(false);
+  const [pendingTimeOff, setPendingTimeOff] = useState(0);
+  const [showSyncPanel, setShowSyncPanel] = useState(false);
+  const [showInventory, setShowInventory] = useState(false);
+  const [showPurchaseOrders, setShowPurchaseOrders] = useState(false);
+  const [lowStock, setLowStock] = useState<{ item: InventoryItem; part: CatalogPart }[]>([]);
+  const [openSyncConflicts, setOpenSyncConflicts] = useState(0);
+  const [invoiceWorkOrderId, setInvoiceWorkOrderId] = useState<string | null>(null);
+  const [paymentWorkOrderId, setPaymentWorkOrderId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     loadData();
   }, []);
 
-  const loadData = () => {
+  const loadData = async () => {
     try {
-      const checkIns = BrowserDatabaseService.getPendingCheckIns();
-      const orders = BrowserDatabaseService.getWorkOrders();
-      const techProfiles = BrowserDatabaseService.getAllTechProfiles();
+      const [checkIns, orders, techProfiles, syncSummary, inventory, catalog] = await Promise.all([
+        BrowserDatabaseService.getPendingCheckIns(),
+        BrowserDatabaseService.getWorkOrders(),
+        BrowserDatabaseService.getAllTechProfiles(),
+        syncEngine.getSummary(),
+        BrowserDatabaseService.getInventory(),
+        BrowserDatabaseService.getCatalogParts(),
+      ]);
 
       setPendingCheckIns(checkIns);
       setWorkOrders(orders);
       setTechs(techProfiles);
+      setOpenSyncConflicts(syncSummary.open_conflicts);
+
+      const startOfToday = new Date();
+      startOfToday.setHours(0, 0, 0, 0);
+      const horizon = new Date(startOfToday);
+      horizon.setDate(horizon.getDate() + APPOINTMENT_DAYS_AHEAD);
+      const upcoming = schedulingService.getAppointments(startOfToday, horizon)
+        .filter(appointment => appointment.status === 'scheduled' || appointment.status === 'confirmed');
+      setAppointments(upcoming);
+      setPendingTimeOff(schedulingService.getTimeOffRequests().filter(request => request.status === 'pending').length);
+
+      const partsById = new Map(catalog.map(part => [part.id, part]));
+      setLowStock(inventory
+        .filter(isLowStock)
+        .flatMap(item => partsById.has(item.id) ? [{ item, part: partsById.get(item.id)! }] : []));
 
       // Load customer and vehicle data
       const customerMap: { [id: string]: Customer } = {};
       const vehicleMap: { [id: string]: Vehicle } = {};
 
-      [...checkIns, ...orders].forEach(item => {
+      for (const item of [...checkIns, ...orders, ...upcoming]) {
         if (item.customer_id && !customerMap[item.customer_id]) {
-          const customer = BrowserDatabaseService.getCustomer(item.customer_id);
+          const customer = await BrowserDatabaseService.getCustomer(item.customer_id);
           if (customer) customerMap[item.customer_id] = customer;
         }
         if (item.vehicle_id && !vehicleMap[item.vehicle_id]) {
-          const vehicle = BrowserDatabaseService.getVehicle(item.vehicle_id);
+          const vehicle = await BrowserDatabaseService.getVehicle(item.vehicle_id);
           if (vehicle) vehicleMap[item.vehicle_id] = vehicle;
         }
-      });
+      }
 
       setCustomers(customerMap);
       setVehicles(vehicleMap);
@@ -54,7 +99,9 @@ const OwnerDashboard: React.FC = () => {
       // Set default empty states so the component still renders
       setPendingCheckIns([]);
       setWorkOrders([]);
+      setAppointments([]);
       setTechs([]);
+      setLowStock([]);
       setCustomers({});
       setVehicles({});
     } finally {
@@ -62,10 +109,16 @@ const OwnerDashboard: React.FC = () => {
     }
   };
 
-  const createWorkOrderFromCheckIn = (checkInId: string) => {
+  // Pick up check-ins and job changes made in other tabs (e.g. the kiosk)
+  useChangeFeed(['check_ins', 'work_orders', 'customers', 'vehicles', 'tech_profiles', 'sync_conflicts', 'inventory', 'appointments',
+    'time_off_requests'], () => {
+    loadData();
+  });
+
+  const createWorkOrderFromCheckIn = async (checkInId: string) => {
     try {
-      BrowserDatabaseService.createWorkOrderFromCheckIn(checkInId);
-      loadData(); // Refresh data
+      await BrowserDatabaseService.createWorkOrderFromCheckIn(checkInId);
+      await loadData(); // Refresh data
       alert('Work order created successfully!');
     } catch (error) {
       console.error('Failed to create work order:', error);
@@ -73,6 +126,18 @@ const OwnerDashboard: React.FC = () => {
     }
   };
 
+  const updateAppointmentStatus = async (appointment: Appointment, status: Appointment['status']) => {
+    if (status === 'cancelled' && !confirm('Cancel this appointment? The time slot will be offered to other customers.')) return;
+
+    try {
+      await schedulingService.updateAppointment(appointment.id, { status });
+      await loadData();
+    } catch (error) {
+      console.error('Failed to update appointment:', error);
+      alert('Failed to update appointment. Please try again.');
+    }
+  };
+
   const formatDateTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleString();
   };
@@ -82,6 +147,9 @@ const OwnerDashboard: React.FC = () => {
     return parts.join(' ') || 'Unknown Vehicle';
   };
 
+  // Completed jobs closed with money still owed
+  const receivables = workOrders.filter(wo => wo.status === 'completed' && balanceDue(wo) > 0);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-shop-50 flex items-center justify-center">
@@ -130,6 +198,53 @@ const OwnerDashboard: React.FC = () => {
                 <span className="font-medium">Tech Capacity</span>
               </button>
 
+              <button
+                onClick={() => setShowTechSchedules(true)}
+                className="flex items-center space-x-2 px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-lg">🗓️</span>
+                <span className="text-gray-700 font-medium">Schedules</span>
+                {pendingTimeOff > 0 && (
+                  <span className="bg-yellow-500 text-white text-xs font-semibold px-2 py-0.5 rounded-full">
+                    {pendingTimeOff}
+                  </span>
+                )}
+              </button>
+
+              <button
+                onClick={() => setShowInventory(true)}
+                className="flex items-center space-x-2 px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-lg">📦</span>
+                <span className="text-gray-700 font-medium">Inventory</span>
+                {lowStock.length > 0 && (
+                  <span className="bg-red-600 text-white text-xs font-semibold px-2 py-0.5 rounded-full">
+                    {lowStock.length}
+                  </span>
+                )}
+              </button>
+
+              <button
+                onClick={() => setShowPurchaseOrders(true)}
+                className="flex items-center space-x-2 px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-lg">🚚</span>
+                <span className="text-gray-700 font-medium">Purchase Orders</span>
+              </button>
+
+              <button
+                onClick={() => setShowSyncPanel(true)}
+                className="flex items-center space-x-2 px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-lg">🔄</span>
+                <span className="text-gray-700 font-medium">Sync</span>
+                {openSyncConflicts > 0 && (
+                  <span className="bg-red-600 text-white text-xs font-semibold px-2 py-0.5 rounded-full">
+                    {openSyncConflicts}
+                  </span>
+                )}
+              </button>
+
               <button
                 onClick={() => setShowSettings(true)}
                 className="flex items-center space-x-2 px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
@@ -153,6 +268,29 @@ const OwnerDashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Low stock alert */}
+        {lowStock.length > 0 && (
+          <div className="mb-8 bg-danger-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="font-semibold text-red-800">
+                ⚠️ {lowStock.length} {lowStock.length === 1 ? 'part is' : 'parts are'} low on stock
+              </h2>
+              <button onClick={() => setShowInventory(true)} className="text-sm text-red-700 hover:text-red-900 underline">
+                View inventory
+              </button>
+            </div>
+            <ul className="text-sm text-red-700 space-y-1">
+              {lowStock.slice(0, 5).map(({ item, part }) => (
+                <li key={item.id}>
+                  {part.part_number} {part.description}: {availableStock(item)} available
+                  {' · '}order {suggestedOrderQuantity(item)}{part.supplier ? ` from ${part.supplier}` : ''}
+                </li>
+              ))}
+              {lowStock.length > 5 && <li>and {lowStock.length - 5} more</li>}
+            </ul>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Pending Check-ins */}
           <div className="card">
@@ -194,6 +332,7 @@ const OwnerDashboard: React.FC = () => {
                               <p>🏷️ {vehicle.license_plate}</p>
                             )}
                             {checkIn.mileage && <p>📏 {checkIn.mileage.toLocaleString()} miles</p>}
+                            {checkIn.appointment_date && <p>📅 Appointment {formatDateTime(checkIn.appointment_date)}</p>}
                           </div>
 
                           {checkIn.customer_concern && (
@@ -264,10 +403,33 @@ const OwnerDashboard: React.FC = () => {
                             {customer?.name || 'Unknown Customer'}
                           </h3>
                           {getStatusBadge(workOrder.status)}
+                          {workOrder.waiting_on_parts && (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                              waiting on parts
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          {(workOrder.amount_due || workOrder.paid_total) ? (
+                            <button
+                              onClick={() => setPaymentWorkOrderId(workOrder.id)}
+                              className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                            >
+                              💳 Payments
+                            </button>
+                          ) : null}
+                          {workOrder.status === 'completed' && (
+                            <button
+                              onClick={() => setInvoiceWorkOrderId(workOrder.id)}
+                              className="px-3 py-1 text-sm bg-shop-600 text-white rounded hover:bg-shop-700"
+                            >
+                              🧾 Invoice
+                            </button>
+                          )}
+                          <span className="text-sm text-shop-500">
+                            {formatDateTime(workOrder.created_at)}
+                          </span>
                         </div>
-                        <span className="text-sm text-shop-500">
-                          {formatDateTime(workOrder.created_at)}
-                        </span>
                       </div>
 
                       <div className="text-sm text-shop-600 mb-2">
@@ -279,6 +441,16 @@ const OwnerDashboard: React.FC = () => {
                           }</p>
                         )}
                         {workOrder.mileage && <p>📏 {workOrder.mileage.toLocaleString()} miles</p>}
+                        {(workOrder.approved_total || workOrder.pending_total) ? (
+                          <p>💵 {formatCents(workOrder.approved_total || 0)} approved
+                            {(workOrder.pending_total || 0) > 0 && ` · ${formatCents(workOrder.pending_total!)} awaiting approval`}
+                          </p>
+                        ) : null}
+                        {(workOrder.amount_due || workOrder.paid_total) ? (
+                          <p className={balanceDue(workOrder) > 0 && workOrder.status === 'completed' ? 'text-danger-600 font-medium' : ''}>
+                            💳 {formatCents(workOrder.paid_total || 0)} paid · {formatCents(balanceDue(workOrder))} balance
+                          </p>
+                        ) : null}
                       </div>
 
                       {workOrder.customer_concern && (
@@ -302,8 +474,68 @@ const OwnerDashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Upcoming Appointments */}
+        <div className="card mt-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-semibold text-shop-900">
+              Upcoming Appointments
+            </h2>
+            <span className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-medium">
+              {appointments.length} in the next {APPOINTMENT_DAYS_AHEAD} days
+            </span>
+          </div>
+
+          {appointments.length === 0 ? (
+            <p className="text-shop-500 text-center py-8">No appointments booked</p>
+          ) : (
+            <div className="space-y-3">
+              {appointments.map(appointment => {
+                const customer = customers[appointment.customer_id];
+                const vehicle = appointment.vehicle_id ? vehicles[appointment.vehicle_id] : undefined;
+                const serviceName = schedulingService.getServiceDuration(appointment.service_type)?.service_name
+                  || appointment.service_type;
+
+                return (
+                  <div key={appointment.id} className="border border-shop-200 rounded-lg p-4 flex items-start justify-between">
+                    <div className="text-sm text-shop-600">
+                      <p className="font-semibold text-shop-900">
+                        {formatDateTime(appointment.scheduled_start)} · {serviceName}
+                      </p>
+                      <p>{customer?.name || 'Unknown Customer'}{customer?.phone ? ` · 📞 ${customer.phone}` : ''}</p>
+                      {vehicle && <p>🚗 {formatVehicle(vehicle)}</p>}
+                      <p>
+                        ⏱️ {appointment.duration_minutes} min
+                        {appointment.estimated_price !== undefined && ` · est. ${formatCents(appointment.estimated_price)}`}
+                      </p>
+                      {appointment.customer_notes && <p className="truncate">💬 {appointment.customer_notes}</p>}
+                    </div>
+                    <div className="flex items-center space-x-3 text-sm">
+                      {appointment.status === 'confirmed' ? (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">confirmed</span>
+                      ) : (
+                        <button
+                          onClick={() => updateAppointmentStatus(appointment, 'confirmed')}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Confirm
+                        </button>
+                      )}
+                      <button
+                        onClick={() => updateAppointmentStatus(appointment, 'cancelled')}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
         {/* Quick Stats */}
-        <div className="mt-8 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="mt-8 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
           <div className="bg-white p-6 rounded-lg shadow border border-shop-200">
             <div className="flex items-center">
               <div className="p-3 rounded-full bg-warning-100">
@@ -359,6 +591,21 @@ const OwnerDashboard: React.FC = () => {
               </div>
             </div>
           </div>
+
+          <div className="bg-white p-6 rounded-lg shadow border border-shop-200">
+            <div className="flex items-center">
+              <div className="p-3 rounded-full bg-danger-100">
+                <span className="text-2xl">💳</span>
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-shop-600">Receivables</p>
+                <p className="text-2xl font-bold text-shop-900">
+                  {formatCents(receivables.reduce((total, wo) => total + balanceDue(wo), 0))}
+                </p>
+                <p className="text-xs text-shop-500">{receivables.length} completed {receivables.length === 1 ? 'job' : 'jobs'} unpaid</p>
+              </div>
+            </div>
+          </div>
         </div>
       </div>
 
@@ -384,6 +631,45 @@ const OwnerDashboard: React.FC = () => {
       {showTechCapacity && (
         <TechCapacity onClose={() => setShowTechCapacity(false)} />
       )}
+
+      {showTechSchedules && (
+        <TechScheduleManager onClose={() => setShowTechSchedules(false)} />
+      )}
+
+      {showInventory && (
+        <InventoryPanel onClose={() => {
+          setShowInventory(false);
+          loadData();
+        }} />
+      )}
+
+      {showPurchaseOrders && (
+        <PurchaseOrdersPanel onClose={() => {
+          setShowPurchaseOrders(false);
+          loadData();
+        }} />
+      )}
+
+      {showSyncPanel && (
+        <SyncPanel onClose={() => setShowSyncPanel(false)} />
+      )}
+
+      {paymentWorkOrderId && (
+        <PaymentPanel
+          workOrderId={paymentWorkOrderId}
+          onClose={() => {
+            setPaymentWorkOrderId(null);
+            loadData();
+          }}
+        />
+      )}
+
+      {invoiceWorkOrderId && (
+        <InvoiceView
+          workOrderId={invoiceWorkOrderId}
+          onClose={() => setInvoiceWorkOrderId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,15 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import schedulingService from '../services/schedulingService';
-import type { ShopSchedule, ServiceDuration } from '../types/models';
+import { useChangeFeed } from '../hooks/useChangeFeed';
+import BackupSettings from './BackupSettings';
+import ShopInfoSettings from './ShopInfoSettings';
+import TaxSettings from './TaxSettings';
+import MarkupSettings from './MarkupSettings';
+import PartsCatalogSettings from './PartsCatalogSettings';
+import PricingSettings from './PricingSettings';
+import ShopResourcesSettings from './ShopResourcesSettings';
+import type { ShopSchedule, ServiceDuration, ShopResource } from '../types/models';
 
 interface OwnerSettingsProps {
   onClose: () => void;
 }
 
 const OwnerSettings: React.FC<OwnerSettingsProps> = ({ onClose }) => {
-  const [activeTab, setActiveTab] = useState<'hours' | 'services' | 'rules'>('hours');
+  const [activeTab, setActiveTab] = useState<'hours' | 'services' | 'resources' | 'rules' | 'shop' | 'tax' | 'pricing' | 'markup' | 'catalog' | 'backups'>('hours');
   const [shopSchedules, setShopSchedules] = useState<ShopSchedule[]>([]);
   const [serviceDurations, setServiceDurations] = useState<ServiceDuration[]>([]);
+  const [resources, setResources] = useState<ShopResource[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [hasChanges, setHasChanges] = useState(false);
 
@@ -25,6 +34,7 @@ const OwnerSettings: React.FC<OwnerSettingsProps> = ({ onClose }) => {
 
       setShopSchedules(schedules);
       setServiceDurations(durations);
+      setResources(schedulingService.getShopResources());
     } catch (error) {
       console.error('Failed to load settings:', error);
     } finally {
@@ -32,33 +42,43 @@ const OwnerSettings: React.FC<OwnerSettingsProps> = ({ onClose }) => {
     }
   };
 
+  // Resources added or deleted on their tab change what services can require
+  useChangeFeed(['shop_resources'], () => {
+    setResources(schedulingService.getShopResources());
+    setServiceDurations(schedulingService.getAllServiceDurations());
+  });
+
+  const toggleRequiredResource = (duration: ServiceDuration, resourceId: string, required: boolean) => {
+    const current = duration.required_resources || [];
+    updateServiceDuration(duration.service_id, {
+      required_resources: required ? [...current, resourceId] : current.filter(id => id !== resourceId),
+    });
+  };
+
+  // Fields save as they're edited, so the form updates before the save finishes
   const updateShopSchedule = async (dayOfWeek: number, updates: Partial<ShopSchedule>) => {
+    setShopSchedules(prev =>
+      prev.map(schedule =>
+        schedule.day_of_week === dayOfWeek ? { ...schedule, ...updates } : schedule
+      )
+    );
+    setHasChanges(true);
     try {
-      const updated = schedulingService.updateShopSchedule(dayOfWeek, updates);
-      if (updated) {
-        setShopSchedules(prev =>
-          prev.map(schedule =>
-            schedule.day_of_week === dayOfWeek ? updated : schedule
-          )
-        );
-        setHasChanges(true);
-      }
+      await schedulingService.updateShopSchedule(dayOfWeek, updates);
     } catch (error) {
       console.error('Failed to update shop schedule:', error);
     }
   };
 
   const updateServiceDuration = async (serviceId: string, updates: Partial<ServiceDuration>) => {
+    setServiceDurations(prev =>
+      prev.map(duration =>
+        duration.service_id === serviceId ? { ...duration, ...updates } : duration
+      )
+    );
+    setHasChanges(true);
     try {
-      const updated = schedulingService.updateServiceDuration(serviceId, updates);
-      if (updated) {
-        setServiceDurations(prev =>
-          prev.map(duration =>
-            duration.service_id === serviceId ? updated : duration
-          )
-        );
-        setHasChanges(true);
-      }
+      await schedulingService.updateServiceDuration(serviceId, updates);
     } catch (error) {
       console.error('Failed to update service duration:', error);
     }
@@ -80,7 +100,14 @@ const OwnerSettings: React.FC<OwnerSettingsProps> = ({ onClose }) => {
   const tabs = [
     { key: 'hours', label: 'Business Hours', icon: '🕐' },
     { key: 'services', label: 'Service Times', icon: '⚙️' },
+    { key: 'resources', label: 'Resources', icon: '🔧' },
     { key: 'rules', label: 'Booking Rules', icon: '📋' },
+    { key: 'shop', label: 'Shop Info', icon: '🏪' },
+    { key: 'tax', label: 'Tax', icon: '🧮' },
+    { key: 'pricing', label: 'Labor & Pricing', icon: '💲' },
+    { key: 'markup', label: 'Parts Markup', icon: '🏷️' },
+    { key: 'catalog', label: 'Parts Catalog', icon: '📦' },
+    { key: 'backups', label: 'Backups', icon: '💾' },
   ];
 
   if (isLoading) {
@@ -104,7 +131,7 @@ const OwnerSettings: React.FC<OwnerSettingsProps> = ({ onClose }) => {
           <div className="flex items-center justify-between">
             <div>
               <h2 className="text-2xl font-bold text-gray-900">Shop Settings</h2>
-              <p className="text-gray-600">Configure your business hours, service times, and booking rules</p>
+              <p className="text-gray-600">Configure your business hours, service times, booking rules, and backups</p>
             </div>
             <div className="flex items-center space-x-3">
               {hasChanges && (
@@ -254,6 +281,21 @@ const OwnerSettings: React.FC<OwnerSettingsProps> = ({ onClose }) => {
                                 className="w-16 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
                               />
                             </label>
+                            <label className="flex items-center space-x-2">
+                              <span className="text-gray-600">Service bays:</span>
+                              <input
+                                type="number"
+                                min="1"
+                                max="20"
+                                value={schedule.service_bays || 4}
+                                onChange={(e) =>
+                                  updateShopSchedule(schedule.day_of_week, {
+                                    service_bays: parseInt(e.target.value) || 4,
+                                  })
+                                }
+                                className="w-16 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                              />
+                            </label>
                           </div>
                         </div>
                       )}
@@ -385,7 +427,7 @@ const OwnerSettings: React.FC<OwnerSettingsProps> = ({ onClose }) => {
                           </label>
 
                           <label className="flex items-center space-x-2">
-                            <span className="text-sm text-gray-600">Can overlap with other work:</span>
+                            <span className="text-sm text-gray-600">Several can be booked at once:</span>
                             <input
                               type="checkbox"
                               checked={duration.can_overlap}
@@ -398,6 +440,23 @@ const OwnerSettings: React.FC<OwnerSettingsProps> = ({ onClose }) => {
                             />
                           </label>
                         </div>
+
+                        {resources.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-3">
+                            <span className="text-sm text-gray-600">Needs:</span>
+                            {resources.map(resource => (
+                              <label key={resource.id} className="flex items-center space-x-2 text-sm">
+                                <input
+                                  type="checkbox"
+                                  checked={duration.required_resources?.includes(resource.id) || false}
+                                  onChange={(e) => toggleRequiredResource(duration, resource.id, e.target.checked)}
+                                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                <span>{resource.name}</span>
+                              </label>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -518,6 +577,20 @@ const OwnerSettings: React.FC<OwnerSettingsProps> = ({ onClose }) => {
               </div>
             </div>
           )}
+
+          {activeTab === 'resources' && <ShopResourcesSettings />}
+
+          {activeTab === 'shop' && <ShopInfoSettings />}
+
+          {activeTab === 'tax' && <TaxSettings />}
+
+          {activeTab === 'pricing' && <PricingSettings />}
+
+          {activeTab === 'markup' && <MarkupSettings />}
+
+          {activeTab === 'catalog' && <PartsCatalogSettings />}
+
+          {activeTab === 'backups' && <BackupSettings />}
         </div>
 
         {/* Footer */}
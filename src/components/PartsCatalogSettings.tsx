@@ -0,0 +1,361 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import browserDatabase from '../services/browserDatabase';
+import {
+  catalogFieldLabels,
+  guessColumnMapping,
+  readCatalogRows,
+  requiredCatalogFields,
+  searchCatalog,
+  type CatalogField,
+  type CatalogImportSummary,
+  type CatalogRowError,
+  type ColumnMapping,
+} from '../services/partsCatalog';
+import { formatCents, fromCents, parseDollars } from '../services/money';
+import { parseCsv } from '../utils/csv';
+import type { CatalogPart, PartPriceChange } from '../types/models';
+
+// Rows of the price list shown before importing
+const PREVIEW_ROWS = 5;
+
+interface PriceList {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+const PartsCatalogSettings: React.FC = () => {
+  const [parts, setParts] = useState<CatalogPart[]>([]);
+  const [priceList, setPriceList] = useState<PriceList | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaultSupplier, setDefaultSupplier] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<{ summary: CatalogImportSummary; errors: CatalogRowError[] } | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [editing, setEditing] = useState<CatalogPart | null>(null);
+  const [history, setHistory] = useState<{ part: CatalogPart; changes: PartPriceChange[] } | null>(null);
+
+  const loadData = useCallback(() => {
+    return browserDatabase.getCatalogParts()
+      .then(setParts)
+      .catch(error => console.error('Failed to load parts catalog:', error));
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const [headers, ...rows] = parseCsv(await file.text());
+      if (!headers || rows.length === 0) {
+        alert('The file has no parts in it.');
+        return;
+      }
+      setPriceList({ fileName: file.name, headers, rows });
+      setMapping(guessColumnMapping(headers));
+      setImportResult(null);
+    } catch (error) {
+      console.error('Failed to read price list:', error);
+      alert('Failed to read the price list.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!priceList) return;
+
+    setIsImporting(true);
+    try {
+      const { parts: imported, errors } = readCatalogRows(priceList.rows, mapping, { supplier: defaultSupplier });
+      const summary = await browserDatabase.importCatalogParts(imported);
+      setImportResult({ summary, errors });
+      setPriceList(null);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to import price list:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import price list.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleSavePart = async () => {
+    if (!editing) return;
+
+    try {
+      await browserDatabase.saveCatalogPart(editing);
+      setEditing(null);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to save part:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save part.');
+    }
+  };
+
+  const handleDeletePart = async (part: CatalogPart) => {
+    if (!confirm(`Remove ${part.part_number} (${part.description}) from the catalog?`)) return;
+
+    try {
+      await browserDatabase.deleteCatalogPart(part.id);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to delete part:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete part.');
+    }
+  };
+
+  const showHistory = async (part: CatalogPart) => {
+    try {
+      setHistory({ part, changes: await browserDatabase.getPartPriceHistory(part.id) });
+    } catch (error) {
+      console.error('Failed to load price history:', error);
+    }
+  };
+
+  const setColumn = (field: CatalogField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? undefined : parseInt(value, 10) }));
+  };
+
+  const listedParts = searchQuery.trim() ? searchCatalog(parts, searchQuery, 50) : parts.slice(0, 50);
+
+  return (
+    <div className="space-y-8">
+      {/* Price list import */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Import Price List</h3>
+        <p className="text-gray-600 mb-4">
+          Import a supplier's price list saved as CSV. A part with the same part number and supplier as one already in
+          the catalog is updated, and any cost or list price change is kept in its price history.
+        </p>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFile}
+          className="block text-sm text-gray-600"
+        />
+
+        {priceList && (
+          <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-4">
+            <p className="text-sm text-gray-700">
+              {priceList.fileName}: {priceList.rows.length} rows
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {(Object.keys(catalogFieldLabels) as CatalogField[]).map(field => (
+                <div key={field} className="flex items-center space-x-2 text-sm">
+                  <label className="w-32 text-gray-700">
+                    {catalogFieldLabels[field]}{requiredCatalogFields.includes(field) ? ' *' : ''}
+                  </label>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setColumn(field, e.target.value)}
+                    className="flex-1 px-3 py-1 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">Not in file</option>
+                    {priceList.headers.map((header, column) => (
+                      <option key={column} value={column}>{header || `Column ${column + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {mapping.supplier === undefined && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Supplier for every part</label>
+                <input
+                  type="text"
+                  value={defaultSupplier}
+                  onChange={(e) => setDefaultSupplier(e.target.value)}
+                  placeholder="e.g. NAPA"
+                  className="w-full md:w-64 px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm bg-white border border-gray-200 rounded-lg">
+                <thead>
+                  <tr className="text-left text-gray-600">
+                    {priceList.headers.map((header, column) => (
+                      <th key={column} className="p-2 whitespace-nowrap">{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {priceList.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <tr key={index} className="border-t border-gray-100">
+                      {priceList.headers.map((_, column) => (
+                        <td key={column} className="p-2 whitespace-nowrap">{row[column]}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex space-x-3">
+              <button
+                onClick={handleImport}
+                disabled={isImporting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {isImporting ? 'Importing...' : `Import ${priceList.rows.length} Rows`}
+              </button>
+              <button
+                onClick={() => setPriceList(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {importResult && (
+          <div className="mt-4 bg-green-50 border border-green-200 rounded-lg p-4 text-sm">
+            <p className="text-green-800">
+              {importResult.summary.added} added · {importResult.summary.updated} updated · {importResult.summary.unchanged} unchanged
+              {importResult.summary.duplicates > 0 && ` · ${importResult.summary.duplicates} repeated rows skipped`}
+            </p>
+            {importResult.errors.length > 0 && (
+              <div className="mt-2 text-red-700">
+                <p className="font-medium">{importResult.errors.length} rows not imported:</p>
+                <ul className="list-disc list-inside">
+                  {importResult.errors.map(error => (
+                    <li key={error.row}>Row {error.row}: {error.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Catalog */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Catalog</h3>
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder={`Search ${parts.length} parts by name or number`}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg mb-3"
+        />
+
+        {listedParts.length === 0 ? (
+          <p className="text-sm text-gray-500">No parts match your search</p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {listedParts.map(part => (
+              <div key={part.id} className="p-3 text-sm">
+                {editing?.id === part.id ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-gray-900">{part.part_number}</span>
+                    <input
+                      type="text"
+                      value={editing.description}
+                      onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                      className="flex-1 min-w-40 px-3 py-1 border border-gray-300 rounded-lg"
+                    />
+                    <span className="text-gray-600">Cost $</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={fromCents(editing.cost)}
+                      onChange={(e) => setEditing({ ...editing, cost: parseDollars(e.target.value) ?? 0 })}
+                      className="w-24 px-3 py-1 border border-gray-300 rounded-lg"
+                    />
+                    <span className="text-gray-600">List $</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={editing.list_price !== undefined ? fromCents(editing.list_price) : ''}
+                      onChange={(e) => setEditing({ ...editing, list_price: parseDollars(e.target.value) ?? undefined })}
+                      className="w-24 px-3 py-1 border border-gray-300 rounded-lg"
+                    />
+                    <button onClick={handleSavePart} className="text-blue-600 hover:text-blue-800">Save</button>
+                    <button onClick={() => setEditing(null)} className="text-gray-600 hover:text-gray-800">Cancel</button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{part.description}</p>
+                      <p className="text-gray-600">
+                        {part.part_number}
+                        {part.brand ? ` · ${part.brand}` : ''}
+                        {part.supplier ? ` · ${part.supplier}` : ''}
+                        {part.category ? ` · ${part.category}` : ''}
+                      </p>
+                      {part.fitment_notes && <p className="text-xs text-gray-500">{part.fitment_notes}</p>}
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <div className="text-right">
+                        <p className="text-gray-900">{formatCents(part.cost)}</p>
+                        {part.list_price !== undefined && (
+                          <p className="text-xs text-gray-500">List {formatCents(part.list_price)}</p>
+                        )}
+                      </div>
+                      <button onClick={() => showHistory(part)} className="text-gray-600 hover:text-gray-800">
+                        History
+                      </button>
+                      <button onClick={() => setEditing(part)} className="text-blue-600 hover:text-blue-800">
+                        Edit
+                      </button>
+                      <button onClick={() => handleDeletePart(part)} className="text-red-600 hover:text-red-800">
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Price history modal */}
+      {history && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full max-h-96 overflow-hidden">
+            <div className="p-4 border-b flex items-center justify-between">
+              <h3 className="text-lg font-semibold">{history.part.part_number} Price History</h3>
+              <button onClick={() => setHistory(null)} className="text-gray-400 hover:text-gray-600">
+                ✕
+              </button>
+            </div>
+            <div className="p-4 max-h-64 overflow-y-auto text-sm">
+              {history.changes.length === 0 ? (
+                <p className="text-gray-500 text-center">No price changes yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {history.changes.map(change => (
+                    <div key={change.id} className="flex items-center justify-between">
+                      <span className="text-gray-600">
+                        {new Date(change.changed_at).toLocaleDateString()} · {change.source === 'import' ? 'Price list' : 'Edited'}
+                      </span>
+                      <span className="text-gray-900">
+                        {formatCents(change.cost_before)} → {formatCents(change.cost_after)}
+                        {change.list_price_before !== change.list_price_after && change.list_price_after !== undefined && (
+                          <span className="text-xs text-gray-500"> (list {formatCents(change.list_price_after)})</span>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PartsCatalogSettings;
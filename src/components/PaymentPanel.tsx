@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import browserDatabase from '../services/browserDatabase';
+import paymentService, { type Tender } from '../services/paymentService';
+import { balanceDue, refundableAmount } from '../services/paymentLedger';
+import { formatCents, fromCents, parseDollars, sumCents } from '../services/money';
+import type { Cents, Payment, PaymentKind, PaymentMethod, WorkOrder } from '../types/models';
+
+interface PaymentPanelProps {
+  workOrderId: string;
+  onClose: () => void;
+}
+
+// A tender as typed into the form
+interface TenderForm {
+  method: PaymentMethod;
+  amount: string;
+  check_number: string;
+  card_number: string;
+  card_expiry: string; // MM/YY
+  card_cvc: string;
+}
+
+const methodLabels: Record<PaymentMethod, string> = {
+  cash: '💵 Cash',
+  check: '🧾 Check',
+  card: '💳 Card',
+};
+
+const kindLabels: Record<PaymentKind, string> = {
+  payment: 'Payment',
+  deposit: 'Deposit',
+  refund: 'Refund',
+};
+
+const emptyTender = (amount: Cents): TenderForm => ({
+  method: 'cash',
+  amount: amount > 0 ? fromCents(amount).toFixed(2) : '',
+  check_number: '',
+  card_number: '',
+  card_expiry: '',
+  card_cvc: '',
+});
+
+function toTender(form: TenderForm): Tender {
+  const tender: Tender = { method: form.method, amount: parseDollars(form.amount) ?? 0 };
+
+  if (form.method === 'check') {
+    tender.check_number = form.check_number.trim() || undefined;
+  }
+  if (form.method === 'card') {
+    const [month, year] = form.card_expiry.split('/').map(part => parseInt(part.trim(), 10));
+    tender.card = {
+      number: form.card_number,
+      exp_month: month,
+      exp_year: year < 100 ? 2000 + year : year,
+      cvc: form.card_cvc.trim(),
+    };
+  }
+  return tender;
+}
+
+const PaymentPanel: React.FC<PaymentPanelProps> = ({ workOrderId, onClose }) => {
+  const [workOrder, setWorkOrder] = useState<WorkOrder | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [kind, setKind] = useState<Exclude<PaymentKind, 'refund'>>('payment');
+  const [tenders, setTenders] = useState<TenderForm[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadLedger = useCallback(async () => {
+    try {
+      const [order, ledger] = await Promise.all([
+        browserDatabase.getWorkOrder(workOrderId),
+        browserDatabase.getPaymentsForWorkOrder(workOrderId),
+      ]);
+      setWorkOrder(order);
+      setPayments(ledger);
+      setTenders([emptyTender(order ? balanceDue(order) : 0)]);
+      if (order?.status === 'completed') setKind('payment');
+    } catch (error) {
+      console.error('Failed to load payments:', error);
+    }
+  }, [workOrderId]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  const balance = workOrder ? balanceDue(workOrder) : 0;
+  const tenderTotal = sumCents(tenders.map(tender => parseDollars(tender.amount) ?? 0));
+
+  const updateTender = (index: number, updates: Partial<TenderForm>) => {
+    setTenders(prev => prev.map((tender, i) => i === index ? { ...tender, ...updates } : tender));
+  };
+
+  // Splitting adds a tender for whatever the others don't cover yet
+  const handleSplit = () => {
+    setTenders(prev => [...prev, emptyTender(balance - tenderTotal)]);
+  };
+
+  const handleRemoveTender = (index: number) => {
+    setTenders(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleTakePayment = async () => {
+    setIsWorking(true);
+    try {
+      await paymentService.takePayment(workOrderId, kind, tenders.map(toTender));
+      await loadLedger();
+    } catch (error) {
+      console.error('Failed to take payment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to take payment. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRefund = async (payment: Payment) => {
+    const refundable = refundableAmount(payment, payments);
+    const input = prompt(`Refund how much of this ${payment.method} payment? (up to ${formatCents(refundable)})`, fromCents(refundable).toFixed(2));
+    if (input === null) return;
+
+    setIsWorking(true);
+    try {
+      await paymentService.refund(payment, parseDollars(input) ?? 0);
+      await loadLedger();
+    } catch (error) {
+      console.error('Failed to refund payment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to refund payment. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const describePayment = (payment: Payment) => {
+    const details = [methodLabels[payment.method]];
+    if (payment.check_number) details.push(`#${payment.check_number}`);
+    if (payment.card_last4) details.push(`${payment.card_brand} •••• ${payment.card_last4}`);
+    if (payment.split_group_id) details.push('(split)');
+    return details.join(' ');
+  };
+
+  const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString();
+  };
+
+  if (!workOrder) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+        <div className="bg-white rounded-lg p-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const canTakeMoney = workOrder.status !== 'cancelled' && balance > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Payments</h2>
+            <p className="text-sm text-gray-600">Card processor: {paymentService.getProcessorName()}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Balance */}
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Amount Due</p>
+              <p className="text-lg font-semibold">{formatCents(workOrder.amount_due || 0)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Paid</p>
+              <p className="text-lg font-semibold">{formatCents(workOrder.paid_total || 0)}</p>
+            </div>
+            <div className={`rounded-lg p-3 ${balance > 0 ? 'bg-yellow-50' : 'bg-green-50'}`}>
+              <p className="text-xs text-gray-500">{balance < 0 ? 'Credit' : 'Balance'}</p>
+              <p className="text-lg font-semibold">{formatCents(Math.abs(balance))}</p>
+            </div>
+          </div>
+
+          {/* Ledger */}
+          <div>
+            <h3 className="font-medium text-gray-900 mb-2">Ledger</h3>
+            {payments.length === 0 ? (
+              <p className="text-sm text-gray-500">No payments recorded yet</p>
+            ) : (
+              <div className="space-y-2">
+                {payments.map(payment => {
+                  const refundable = refundableAmount(payment, payments);
+                  return (
+                    <div key={payment.id} className="flex items-center justify-between text-sm border border-gray-200 rounded-lg p-3">
+                      <div>
+                        <p className="font-medium">
+                          {kindLabels[payment.kind]} · {describePayment(payment)}
+                          {payment.pending && <span className="ml-2 text-xs text-yellow-700">Awaiting processor</span>}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatDateTime(payment.created_at)}
+                          {payment.note && ` · ${payment.note}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span className={payment.kind === 'refund' ? 'text-red-600' : 'text-green-700'}>
+                          {payment.kind === 'refund' ? '−' : '+'}{formatCents(payment.amount)}
+                        </span>
+                        {refundable > 0 && (
+                          <button
+                            onClick={() => handleRefund(payment)}
+                            disabled={isWorking}
+                            className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                          >
+                            Refund
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Take payment */}
+          {canTakeMoney && (
+            <div className="border-t border-gray-200 pt-6">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-medium text-gray-900">Take Payment</h3>
+                {workOrder.status !== 'completed' && (
+                  <div className="flex bg-gray-100 rounded-lg p-1 text-sm">
+                    {(['payment', 'deposit'] as const).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setKind(option)}
+                        className={`px-3 py-1 rounded-md ${kind === option ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600'}`}
+                      >
+                        {kindLabels[option]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                {tenders.map((tender, index) => (
+                  <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <select
+                        value={tender.method}
+                        onChange={(e) => updateTender(index, { method: e.target.value as PaymentMethod })}
+                        className="px-3 py-2 border border-gray-300 rounded-lg"
+                      >
+                        {(Object.keys(methodLabels) as PaymentMethod[]).map(method => (
+                          <option key={method} value={method}>{methodLabels[method]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={tender.amount}
+                        onChange={(e) => updateTender(index, { amount: e.target.value })}
+                        placeholder="Amount"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+                      />
+                      {tenders.length > 1 && (
+                        <button
+                          onClick={() => handleRemoveTender(index)}
+                          className="text-gray-400 hover:text-red-600 px-2"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+
+                    {tender.method === 'check' && (
+                      <input
+                        type="text"
+                        value={tender.check_number}
+                        onChange={(e) => updateTender(index, { check_number: e.target.value })}
+                        placeholder="Check number"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                      />
+                    )}
+
+                    {tender.method === 'card' && (
+                      <div className="grid grid-cols-4 gap-2">
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          autoComplete="cc-number"
+                          value={tender.card_number}
+                          onChange={(e) => updateTender(index, { card_number: e.target.value })}
+                          placeholder="Card number"
+                          className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg"
+                        />
+                        <input
+                          type="text"
+                          autoComplete="cc-exp"
+                          value={tender.card_expiry}
+                          onChange={(e) => updateTender(index, { card_expiry: e.target.value })}
+                          placeholder="MM/YY"
+                          className="px-3 py-2 border border-gray-300 rounded-lg"
+                        />
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          autoComplete="cc-csc"
+                          value={tender.card_cvc}
+                          onChange={(e) => updateTender(index, { card_cvc: e.target.value })}
+                          placeholder="CVC"
+                          className="px-3 py-2 border border-gray-300 rounded-lg"
+                        />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between mt-4">
+                <button
+                  onClick={handleSplit}
+                  disabled={tenderTotal >= balance}
+                  className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  + Split payment
+                </button>
+                <button
+                  onClick={handleTakePayment}
+                  disabled={isWorking || tenderTotal <= 0}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                  {isWorking ? 'Processing...' : `Take ${formatCents(tenderTotal)} ${kind === 'deposit' ? 'Deposit' : 'Payment'}`}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentPanel;
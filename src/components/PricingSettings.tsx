@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import browserDatabase from '../services/browserDatabase';
+import { GENERAL_LABOR_CATEGORY } from '../services/pricingEngine';
+import { pricingLevelIds } from '../services/pricingLevels';
+import { formatCents, fromCents, parseDollars } from '../services/money';
+import type { Customer, LaborRate, PricingLevel, PricingLevelId } from '../types/models';
+
+type LaborRateForm = Omit<LaborRate, 'created_at' | 'updated_at'>;
+
+const PricingSettings: React.FC = () => {
+  const [laborRates, setLaborRates] = useState<LaborRate[]>([]);
+  const [pricingLevels, setPricingLevels] = useState<PricingLevel[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [editingRate, setEditingRate] = useState<LaborRateForm | null>(null);
+  const [isNewRate, setIsNewRate] = useState(false);
+  const [editingLevel, setEditingLevel] = useState<PricingLevel | null>(null);
+  const [customerSearch, setCustomerSearch] = useState('');
+
+  const loadData = useCallback(() => {
+    return Promise.all([
+      browserDatabase.getLaborRates(),
+      browserDatabase.getPricingLevels(),
+      browserDatabase.getCustomers(),
+    ])
+      .then(([rates, levels, allCustomers]) => {
+        setLaborRates(rates);
+        setPricingLevels(levels);
+        setCustomers(allCustomers);
+      })
+      .catch(error => console.error('Failed to load pricing settings:', error));
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleSaveRate = async () => {
+    if (!editingRate) return;
+
+    if (isNewRate && laborRates.some(rate => rate.id === editingRate.id)) {
+      alert(`There is already a ${editingRate.id} labor rate.`);
+      return;
+    }
+
+    try {
+      await browserDatabase.saveLaborRate(editingRate);
+      setEditingRate(null);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to save labor rate:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save labor rate.');
+    }
+  };
+
+  const handleDeleteRate = async (rate: LaborRate) => {
+    if (!confirm(`Delete the ${rate.id} labor rate? Labor in this category will be billed at the general rate.`)) return;
+
+    try {
+      await browserDatabase.deleteLaborRate(rate.id);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to delete labor rate:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete labor rate.');
+    }
+  };
+
+  const handleSaveLevel = async () => {
+    if (!editingLevel) return;
+
+    try {
+      await browserDatabase.savePricingLevel(editingLevel);
+      setEditingLevel(null);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to save pricing level:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save pricing level.');
+    }
+  };
+
+  const handleCustomerLevel = async (customer: Customer, pricingLevel: PricingLevelId) => {
+    try {
+      await browserDatabase.updateCustomerPricingLevel(customer.id, pricingLevel);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to update customer pricing level:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update customer pricing level.');
+    }
+  };
+
+  const levelName = (id: PricingLevelId) => pricingLevels.find(level => level.id === id)?.name || id;
+
+  const search = customerSearch.trim().toLowerCase();
+  const listedCustomers = customers.filter(customer =>
+    search
+      ? customer.name.toLowerCase().includes(search) || customer.phone.includes(search)
+      : customer.pricing_level && customer.pricing_level !== 'retail'
+  );
+
+  return (
+    <div className="space-y-8">
+      {/* Labor Rates */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-medium text-gray-900">Labor Rates</h3>
+          {!editingRate && (
+            <button
+              onClick={() => {
+                setEditingRate({ id: '', hourly_rate: 0 });
+                setIsNewRate(true);
+              }}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Add Rate
+            </button>
+          )}
+        </div>
+        <p className="text-gray-600 mb-4">
+          Retail rates per labor category. Labor in a category without its own rate is billed at the general rate.
+        </p>
+
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {laborRates.map(rate => (
+            <div key={rate.id} className="flex items-center justify-between p-3 text-sm">
+              <div>
+                <span className="font-medium text-gray-900 capitalize">{rate.id}</span>
+                <span className="ml-3 text-gray-600">
+                  {formatCents(rate.hourly_rate)}/hr
+                  {rate.minimum_charge ? ` · ${formatCents(rate.minimum_charge)} minimum` : ''}
+                </span>
+              </div>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => {
+                    setEditingRate(rate);
+                    setIsNewRate(false);
+                  }}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Edit
+                </button>
+                {rate.id !== GENERAL_LABOR_CATEGORY && (
+                  <button onClick={() => handleDeleteRate(rate)} className="text-red-600 hover:text-red-800">
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {editingRate && (
+          <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <input
+                  type="text"
+                  value={editingRate.id}
+                  onChange={(e) => setEditingRate({ ...editingRate, id: e.target.value.trim().toLowerCase() })}
+                  disabled={!isNewRate}
+                  placeholder="e.g. hybrid"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Hourly Rate ($)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={fromCents(editingRate.hourly_rate)}
+                  onChange={(e) => setEditingRate({ ...editingRate, hourly_rate: parseDollars(e.target.value) ?? 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Charge ($)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={editingRate.minimum_charge !== undefined ? fromCents(editingRate.minimum_charge) : ''}
+                  onChange={(e) => setEditingRate({ ...editingRate, minimum_charge: parseDollars(e.target.value) ?? undefined })}
+                  placeholder="None"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={handleSaveRate}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Save Rate
+              </button>
+              <button
+                onClick={() => setEditingRate(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Pricing Levels */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Pricing Levels</h3>
+        <p className="text-gray-600 mb-4">
+          Estimates for a customer on a pricing level use this share of the labor rates and of the parts markup.
+        </p>
+
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {pricingLevels.map(level => (
+            <div key={level.id} className="p-3 text-sm">
+              {editingLevel?.id === level.id ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={editingLevel.name}
+                    onChange={(e) => setEditingLevel({ ...editingLevel, name: e.target.value })}
+                    className="w-32 px-3 py-1 border border-gray-300 rounded-lg"
+                  />
+                  <span className="text-gray-600">Labor</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={editingLevel.labor_rate_percentage}
+                    onChange={(e) => setEditingLevel({ ...editingLevel, labor_rate_percentage: parseFloat(e.target.value) || 0 })}
+                    className="w-20 px-3 py-1 border border-gray-300 rounded-lg"
+                  />
+                  <span className="text-gray-600">% · Parts markup</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={editingLevel.parts_markup_percentage}
+                    onChange={(e) => setEditingLevel({ ...editingLevel, parts_markup_percentage: parseFloat(e.target.value) || 0 })}
+                    className="w-20 px-3 py-1 border border-gray-300 rounded-lg"
+                  />
+                  <span className="text-gray-600">%</span>
+                  <button onClick={handleSaveLevel} className="text-blue-600 hover:text-blue-800">Save</button>
+                  <button onClick={() => setEditingLevel(null)} className="text-gray-600 hover:text-gray-800">Cancel</button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <div>
+                    <span className="font-medium text-gray-900">{level.name}</span>
+                    <span className="ml-3 text-gray-600">
+                      {level.labor_rate_percentage}% of labor rates · {level.parts_markup_percentage}% of parts markup
+                    </span>
+                  </div>
+                  <button onClick={() => setEditingLevel(level)} className="text-blue-600 hover:text-blue-800">
+                    Edit
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Customer Pricing Levels */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Customer Pricing</h3>
+        <p className="text-gray-600 mb-4">Customers pay retail unless they are given another pricing level.</p>
+        <input
+          type="text"
+          value={customerSearch}
+          onChange={(e) => setCustomerSearch(e.target.value)}
+          placeholder="Search customers by name or phone"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg mb-3"
+        />
+
+        {listedCustomers.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {search ? 'No customers match your search' : 'Every customer pays retail'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {listedCustomers.map(customer => (
+              <div key={customer.id} className="flex items-center justify-between border border-gray-200 rounded-lg p-3 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{customer.name}</p>
+                  <p className="text-gray-600">{customer.phone}</p>
+                </div>
+                <select
+                  value={customer.pricing_level || 'retail'}
+                  onChange={(e) => handleCustomerLevel(customer, e.target.value as PricingLevelId)}
+                  className="px-3 py-1 border border-gray-300 rounded-lg"
+                >
+                  {pricingLevelIds.map(id => (
+                    <option key={id} value={id}>{levelName(id)}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PricingSettings;
@@ -0,0 +1,326 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import browserDatabase from '../services/browserDatabase';
+import {
+  isAwaitingDelivery,
+  openQuantity,
+  purchaseOrderStatusLabels,
+  purchaseOrderTotal,
+} from '../services/purchaseOrders';
+import { formatCents, fromCents, parseDollars } from '../services/money';
+import { useChangeFeed } from '../hooks/useChangeFeed';
+import type { PartReceipt, PurchaseOrder, PurchaseOrderStatus } from '../types/models';
+
+interface PurchaseOrdersPanelProps {
+  onClose: () => void;
+}
+
+// Quantity and billed unit cost being entered per line
+type ReceivingForm = Record<string, { quantity: string; unit_cost: string }>;
+
+const statusStyles: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  ordered: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const PurchaseOrdersPanel: React.FC<PurchaseOrdersPanelProps> = ({ onClose }) => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [filter, setFilter] = useState<'open' | 'closed'>('open');
+  const [receiving, setReceiving] = useState<{ orderId: string; form: ReceivingForm } | null>(null);
+  const [receipts, setReceipts] = useState<{ orderId: string; receipts: PartReceipt[] } | null>(null);
+
+  const loadData = useCallback(() => {
+    return browserDatabase.getPurchaseOrders()
+      .then(setOrders)
+      .catch(error => console.error('Failed to load purchase orders:', error));
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useChangeFeed(['purchase_orders'], () => {
+    loadData();
+  });
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      await loadData();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(error instanceof Error ? error.message : `${failure}.`);
+    }
+  };
+
+  const handleGenerate = (source: 'low_stock' | 'jobs') => runAction(async () => {
+    const drafts = await browserDatabase.generatePurchaseOrders(source);
+    if (drafts.length === 0) {
+      alert(source === 'low_stock' ? 'Nothing is low on stock.' : 'Every approved part is stocked or already ordered.');
+    }
+    setFilter('open');
+  }, 'Failed to create purchase orders');
+
+  const handleQuantity = (order: PurchaseOrder, lineId: string, quantity: number) => runAction(
+    () => browserDatabase.updatePurchaseOrderDraft(
+      order.id,
+      order.lines.map(line => line.id === lineId ? { ...line, quantity_ordered: quantity } : line),
+      order.notes
+    ),
+    'Failed to update purchase order'
+  );
+
+  const handlePlace = (order: PurchaseOrder) => runAction(
+    () => browserDatabase.placePurchaseOrder(order.id),
+    'Failed to place purchase order'
+  );
+
+  const handleClose = (order: PurchaseOrder) => {
+    const message = order.status === 'draft'
+      ? `Cancel the draft order for ${order.supplier}?`
+      : `Stop waiting for the parts still on backorder from ${order.supplier}?`;
+    if (!confirm(message)) return;
+    runAction(() => browserDatabase.closePurchaseOrder(order.id), 'Failed to close purchase order');
+  };
+
+  const startReceiving = (order: PurchaseOrder) => {
+    const form: ReceivingForm = {};
+    order.lines.filter(line => openQuantity(line) > 0).forEach(line => {
+      form[line.id] = { quantity: String(openQuantity(line)), unit_cost: fromCents(line.unit_cost).toFixed(2) };
+    });
+    setReceiving({ orderId: order.id, form });
+  };
+
+  const handleReceive = async () => {
+    if (!receiving) return;
+
+    const entries = Object.entries(receiving.form).map(([lineId, entry]) => ({
+      line_id: lineId,
+      quantity: parseInt(entry.quantity, 10) || 0,
+      unit_cost: parseDollars(entry.unit_cost) ?? -1,
+    }));
+    await runAction(async () => {
+      await browserDatabase.receivePurchaseOrder(receiving.orderId, entries, 'owner');
+      setReceiving(null);
+    }, 'Failed to receive parts');
+  };
+
+  const showReceipts = async (order: PurchaseOrder) => {
+    try {
+      setReceipts({ orderId: order.id, receipts: await browserDatabase.getPartReceipts(order.id) });
+    } catch (error) {
+      console.error('Failed to load receipts:', error);
+    }
+  };
+
+  const listed = orders.filter(order =>
+    filter === 'open' ? order.status === 'draft' || isAwaitingDelivery(order) : !(order.status === 'draft' || isAwaitingDelivery(order))
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Purchase Orders</h2>
+            <p className="text-gray-600">Jobs with parts on order are marked waiting on parts until they arrive.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex space-x-2">
+              {(['open', 'closed'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setFilter(option)}
+                  className={`px-3 py-1 rounded-full text-sm ${
+                    filter === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {option === 'open' ? 'Open' : 'Closed'}
+                </button>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleGenerate('low_stock')}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Order Low Stock
+              </button>
+              <button
+                onClick={() => handleGenerate('jobs')}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Order Parts for Jobs
+              </button>
+            </div>
+          </div>
+
+          {listed.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">
+              {filter === 'open' ? 'No open purchase orders' : 'No closed purchase orders'}
+            </p>
+          ) : (
+            listed.map(order => (
+              <div key={order.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{order.supplier}</span>
+                    <span className={`px-2 py-1 text-xs rounded-full ${statusStyles[order.status]}`}>
+                      {purchaseOrderStatusLabels[order.status]}
+                    </span>
+                    {order.ordered_at && (
+                      <span className="text-sm text-gray-500">Ordered {new Date(order.ordered_at).toLocaleDateString()}</span>
+                    )}
+                  </div>
+                  <span className="font-medium text-gray-900">{formatCents(purchaseOrderTotal(order))}</span>
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600">
+                      <th className="py-1">Part</th>
+                      <th className="py-1">For</th>
+                      <th className="py-1">Ordered</th>
+                      <th className="py-1">Received</th>
+                      <th className="py-1">Cost</th>
+                      {receiving?.orderId === order.id && <th className="py-1">Receiving</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {order.lines.map(line => (
+                      <tr key={line.id} className="border-t border-gray-100">
+                        <td className="py-1">
+                          <span className="font-medium">{line.part_number}</span> {line.description}
+                        </td>
+                        <td className="py-1 text-gray-600">
+                          {line.work_order_id ? `Job #${line.work_order_id.slice(-6).toUpperCase()}` : 'Stock'}
+                        </td>
+                        <td className="py-1">
+                          {order.status === 'draft' ? (
+                            <input
+                              type="number"
+                              min="0"
+                              step="1"
+                              defaultValue={line.quantity_ordered}
+                              onBlur={(e) => {
+                                const quantity = parseInt(e.target.value, 10) || 0;
+                                if (quantity !== line.quantity_ordered) handleQuantity(order, line.id, quantity);
+                              }}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded"
+                            />
+                          ) : line.quantity_ordered}
+                        </td>
+                        <td className="py-1">
+                          {line.quantity_received}
+                          {line.backorder_closed && <span className="text-xs text-gray-500"> (rest cancelled)</span>}
+                          {isAwaitingDelivery(order) && openQuantity(line) > 0 && line.quantity_received > 0 && (
+                            <span className="text-xs text-yellow-700"> ({openQuantity(line)} backordered)</span>
+                          )}
+                        </td>
+                        <td className="py-1">{formatCents(line.unit_cost)}</td>
+                        {receiving?.orderId === order.id && (
+                          <td className="py-1">
+                            {receiving.form[line.id] && (
+                              <div className="flex items-center space-x-1">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="1"
+                                  value={receiving.form[line.id].quantity}
+                                  onChange={(e) => setReceiving({
+                                    ...receiving,
+                                    form: { ...receiving.form, [line.id]: { ...receiving.form[line.id], quantity: e.target.value } },
+                                  })}
+                                  className="w-14 px-2 py-1 border border-gray-300 rounded"
+                                />
+                                <span className="text-gray-600">at $</span>
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={receiving.form[line.id].unit_cost}
+                                  onChange={(e) => setReceiving({
+                                    ...receiving,
+                                    form: { ...receiving.form, [line.id]: { ...receiving.form[line.id], unit_cost: e.target.value } },
+                                  })}
+                                  className="w-20 px-2 py-1 border border-gray-300 rounded"
+                                />
+                              </div>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="mt-3 flex flex-wrap gap-3 text-sm">
+                  {order.status === 'draft' && (
+                    <button onClick={() => handlePlace(order)} className="text-blue-600 hover:text-blue-800">
+                      Place Order
+                    </button>
+                  )}
+                  {isAwaitingDelivery(order) && (receiving?.orderId === order.id ? (
+                    <>
+                      <button onClick={handleReceive} className="text-blue-600 hover:text-blue-800">Save Receipt</button>
+                      <button onClick={() => setReceiving(null)} className="text-gray-600 hover:text-gray-800">Cancel</button>
+                    </>
+                  ) : (
+                    <button onClick={() => startReceiving(order)} className="text-blue-600 hover:text-blue-800">
+                      Receive Parts
+                    </button>
+                  ))}
+                  {order.status !== 'draft' && (
+                    <button onClick={() => showReceipts(order)} className="text-gray-600 hover:text-gray-800">
+                      Receipts
+                    </button>
+                  )}
+                  {(order.status === 'draft' || isAwaitingDelivery(order)) && (
+                    <button onClick={() => handleClose(order)} className="text-red-600 hover:text-red-800">
+                      {order.status === 'draft' ? 'Cancel Draft' : 'Close Backorder'}
+                    </button>
+                  )}
+                </div>
+
+                {receipts?.orderId === order.id && (
+                  <div className="mt-3 bg-gray-50 rounded-lg p-3 text-sm">
+                    {receipts.receipts.length === 0 ? (
+                      <p className="text-gray-500">Nothing received yet</p>
+                    ) : (
+                      receipts.receipts.map(receipt => {
+                        const line = order.lines.find(other => other.id === receipt.line_id);
+                        return (
+                          <div key={receipt.id} className="flex items-center justify-between">
+                            <span className="text-gray-700">
+                              {new Date(receipt.received_at).toLocaleDateString()} · {receipt.quantity} × {line?.part_number}
+                              {' at '}{formatCents(receipt.unit_cost)}
+                            </span>
+                            {receipt.cost_variance !== 0 && (
+                              <span className={receipt.cost_variance > 0 ? 'text-red-600' : 'text-green-600'}>
+                                {receipt.cost_variance > 0 ? '+' : '-'}{formatCents(Math.abs(receipt.cost_variance))}/ea vs catalog
+                              </span>
+                            )}
+                          </div>
+                        );
+                      })
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrdersPanel;
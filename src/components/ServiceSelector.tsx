@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import schedulingService from '../services/schedulingService';
 import browserDatabase from '../services/browserDatabase';
-import type { CommonService, ServiceDuration, TechProfile } from '../types/models';
+import { formatCents } from '../services/money';
+import type { Cents, CommonService, ServiceDuration, TechProfile } from '../types/models';
 
 interface ServiceSelectorProps {
   selectedService?: string;
@@ -11,7 +12,7 @@ interface ServiceSelectorProps {
     serviceName: string;
     category: string;
     estimatedDuration: number;
-    estimatedPrice?: number;
+    estimatedPrice?: Cents;
   }) => void;
   className?: string;
 }
@@ -33,13 +34,13 @@ const ServiceSelector: React.FC<ServiceSelectorProps> = ({
     loadTechs();
   }, []);
 
-  const loadTechs = () => {
-    const techProfiles = browserDatabase.getAllTechProfiles();
+  const loadTechs = async () => {
+    const techProfiles = await browserDatabase.getAllTechProfiles();
     setTechs(techProfiles);
   };
 
-  const loadServices = () => {
-    const availableServices = browserDatabase.getCommonServices();
+  const loadServices = async () => {
+    const availableServices = await browserDatabase.getCommonServices();
     setServices(availableServices);
   };
 
@@ -207,7 +208,7 @@ const ServiceSelector: React.FC<ServiceSelectorProps> = ({
                   {service.base_price && (
                     <div className="text-right">
                       <div className="text-sm font-medium text-gray-900">
-                        ${service.base_price.toFixed(2)}
+                        {formatCents(service.base_price)}
                       </div>
                       <div className="text-xs text-gray-500">starting</div>
                     </div>
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import invoiceService from '../services/invoiceService';
+import type { ShopInfo } from '../types/models';
+
+const fields: { key: keyof ShopInfo; label: string; type: string; placeholder: string }[] = [
+  { key: 'name', label: 'Shop Name', type: 'text', placeholder: 'Auto Shop Excellence' },
+  { key: 'address', label: 'Address', type: 'text', placeholder: '123 Main St, Springfield' },
+  { key: 'phone', label: 'Phone', type: 'tel', placeholder: '(555) 123-4567' },
+  { key: 'email', label: 'Email', type: 'email', placeholder: 'service@example.com' },
+];
+
+const ShopInfoSettings: React.FC = () => {
+  const [shopInfo, setShopInfo] = useState<ShopInfo>(invoiceService.getShopInfo());
+  const [isSaved, setIsSaved] = useState(true);
+
+  const handleChange = (key: keyof ShopInfo, value: string) => {
+    setShopInfo(prev => ({ ...prev, [key]: value }));
+    setIsSaved(false);
+  };
+
+  const handleSave = () => {
+    try {
+      setShopInfo(invoiceService.updateShopInfo(shopInfo));
+      setIsSaved(true);
+    } catch (error) {
+      console.error('Failed to save shop info:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save shop info.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Shop Info</h3>
+        <p className="text-gray-600 mb-4">
+          Printed at the top of every invoice. Invoices already issued keep the details they were issued with.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {fields.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+              <input
+                type={field.type}
+                value={shopInfo[field.key] || ''}
+                onChange={(e) => handleChange(field.key, e.target.value)}
+                placeholder={field.placeholder}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={isSaved}
+          className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaved ? 'Saved' : 'Save Shop Info'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShopInfoSettings;
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import schedulingService from '../services/schedulingService';
+import { useChangeFeed } from '../hooks/useChangeFeed';
+import type { ShopResource, ShopResourceKind } from '../types/models';
+
+type ResourceForm = Pick<ShopResource, 'name' | 'kind' | 'quantity'> & { id?: string };
+
+interface DowntimeForm {
+  resource_id: string;
+  start: string; // datetime-local value
+  end: string;
+  units: number;
+  reason: string;
+}
+
+const kindLabels: Record<ShopResourceKind, string> = {
+  bay: 'Bay',
+  lift: 'Lift',
+  equipment: 'Equipment',
+};
+
+// Resources with the downtime still to come; downtime that's over isn't listed
+const currentResources = (): ShopResource[] => {
+  const now = Date.now();
+  return schedulingService.getShopResources().map(resource => ({
+    ...resource,
+    downtime: resource.downtime.filter(window => window.end > now),
+  }));
+};
+
+const ShopResourcesSettings: React.FC = () => {
+  const [resources, setResources] = useState<ShopResource[]>(currentResources);
+  const [editing, setEditing] = useState<ResourceForm | null>(null);
+  const [downtime, setDowntime] = useState<DowntimeForm | null>(null);
+
+  const loadData = () => setResources(currentResources());
+
+  useChangeFeed(['shop_resources'], () => {
+    loadData();
+  });
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    try {
+      await schedulingService.saveShopResource(editing);
+      setEditing(null);
+      loadData();
+    } catch (error) {
+      console.error('Failed to save resource:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save resource.');
+    }
+  };
+
+  const handleDelete = async (resource: ShopResource) => {
+    if (!confirm(`Delete "${resource.name}"? Services that need it will no longer reserve it.`)) return;
+
+    try {
+      await schedulingService.deleteShopResource(resource.id);
+      loadData();
+    } catch (error) {
+      console.error('Failed to delete resource:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete resource.');
+    }
+  };
+
+  const handleAddDowntime = async () => {
+    if (!downtime) return;
+
+    try {
+      await schedulingService.addResourceDowntime(downtime.resource_id, {
+        start: new Date(downtime.start).getTime(),
+        end: new Date(downtime.end).getTime(),
+        units: downtime.units,
+        reason: downtime.reason.trim() || undefined,
+      });
+      setDowntime(null);
+      loadData();
+    } catch (error) {
+      console.error('Failed to add downtime:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add downtime.');
+    }
+  };
+
+  const handleRemoveDowntime = async (resourceId: string, downtimeId: string) => {
+    try {
+      await schedulingService.removeResourceDowntime(resourceId, downtimeId);
+      loadData();
+    } catch (error) {
+      console.error('Failed to remove downtime:', error);
+      alert(error instanceof Error ? error.message : 'Failed to remove downtime.');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-medium text-gray-900">Shop Resources</h3>
+        {!editing && (
+          <button
+            onClick={() => setEditing({ name: '', kind: 'equipment', quantity: 1 })}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Add Resource
+          </button>
+        )}
+      </div>
+      <p className="text-gray-600 mb-4">
+        Bays, lifts and equipment that only some jobs can use. Pick the resources each service needs under
+        Service Times; an appointment holds them for the whole job, and jobs on the assignment board can reserve them.
+      </p>
+
+      {editing && (
+        <div className="mb-4 bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                placeholder="e.g. Alignment rack"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Kind</label>
+              <select
+                value={editing.kind}
+                onChange={(e) => setEditing({ ...editing, kind: e.target.value as ShopResourceKind })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {Object.entries(kindLabels).map(([kind, label]) => (
+                  <option key={kind} value={kind}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">How many</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={editing.quantity}
+                onChange={(e) => setEditing({ ...editing, quantity: parseInt(e.target.value, 10) || 0 })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Save Resource
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {resources.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No resources yet</p>
+      ) : (
+        <div className="space-y-3">
+          {resources.map(resource => (
+            <div key={resource.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-gray-900">{resource.name}</span>
+                  <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">
+                    {kindLabels[resource.kind]} × {resource.quantity}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-3 text-sm">
+                  <button
+                    onClick={() => setDowntime({ resource_id: resource.id, start: '', end: '', units: resource.quantity, reason: '' })}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Add Downtime
+                  </button>
+                  <button onClick={() => setEditing(resource)} className="text-blue-600 hover:text-blue-800">
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(resource)} className="text-red-600 hover:text-red-800">
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {resource.downtime.length > 0 && (
+                <div className="mt-2 space-y-1 text-sm">
+                  {resource.downtime.map(window => (
+                    <div key={window.id} className="flex items-center justify-between text-gray-600">
+                      <span>
+                        {window.units < resource.quantity ? `${window.units} out of service` : 'Out of service'}
+                        {` ${new Date(window.start).toLocaleString()} – ${new Date(window.end).toLocaleString()}`}
+                        {window.reason ? ` · ${window.reason}` : ''}
+                      </span>
+                      <button
+                        onClick={() => handleRemoveDowntime(resource.id, window.id)}
+                        className="text-gray-400 hover:text-red-600 px-2"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {downtime?.resource_id === resource.id && (
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                  <input
+                    type="datetime-local"
+                    value={downtime.start}
+                    onChange={(e) => setDowntime({ ...downtime, start: e.target.value })}
+                    className="px-3 py-1 border border-gray-300 rounded-lg"
+                  />
+                  <span className="text-gray-500">to</span>
+                  <input
+                    type="datetime-local"
+                    value={downtime.end}
+                    onChange={(e) => setDowntime({ ...downtime, end: e.target.value })}
+                    className="px-3 py-1 border border-gray-300 rounded-lg"
+                  />
+                  {resource.quantity > 1 && (
+                    <>
+                      <input
+                        type="number"
+                        min="1"
+                        max={resource.quantity}
+                        step="1"
+                        value={downtime.units}
+                        onChange={(e) => setDowntime({ ...downtime, units: parseInt(e.target.value, 10) || 0 })}
+                        className="w-16 px-3 py-1 border border-gray-300 rounded-lg"
+                      />
+                      <span className="text-gray-600">of {resource.quantity}</span>
+                    </>
+                  )}
+                  <input
+                    type="text"
+                    value={downtime.reason}
+                    onChange={(e) => setDowntime({ ...downtime, reason: e.target.value })}
+                    placeholder="Reason"
+                    className="flex-1 min-w-32 px-3 py-1 border border-gray-300 rounded-lg"
+                  />
+                  <button onClick={handleAddDowntime} className="text-blue-600 hover:text-blue-800">Save</button>
+                  <button onClick={() => setDowntime(null)} className="text-gray-600 hover:text-gray-800">Cancel</button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShopResourcesSettings;
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+
+interface SignaturePadProps {
+  onChange: (image: string | null) => void;
+  className?: string;
+}
+
+// Finger or stylus signature; reports a PNG data URL after each stroke
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+  const [hasSignature, setHasSignature] = useState(false);
+
+  const getContext = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return null;
+
+    // Match the drawing buffer to the displayed size so strokes follow the pointer
+    const rect = canvas.getBoundingClientRect();
+    if (canvas.width !== Math.round(rect.width) || canvas.height !== Math.round(rect.height)) {
+      canvas.width = Math.round(rect.width);
+      canvas.height = Math.round(rect.height);
+    }
+
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+    return context;
+  };
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = getContext();
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    isDrawingRef.current = true;
+
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!isDrawingRef.current || !canvasRef.current) return;
+
+    isDrawingRef.current = false;
+    setHasSignature(true);
+    onChange(canvasRef.current.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+    onChange(null);
+  };
+
+  return (
+    <div className={className}>
+      <div className="relative border-2 border-dashed border-gray-300 rounded-lg bg-white">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="w-full h-40 touch-none cursor-crosshair"
+        />
+        {!hasSignature && (
+          <span className="absolute inset-0 flex items-center justify-center text-gray-400 pointer-events-none">
+            Sign here
+          </span>
+        )}
+      </div>
+      <div className="flex justify-end mt-2">
+        <button
+          type="button"
+          onClick={clear}
+          className="text-sm text-gray-600 hover:text-gray-900"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import syncEngine, { type SyncEngineStatus, type SyncSummary } from '../services/syncEngine';
+import { useChangeFeed } from '../hooks/useChangeFeed';
+import type { SyncConflict, SyncConflictResolution } from '../types/models';
+
+interface SyncPanelProps {
+  onClose: () => void;
+}
+
+const stateLabels: Record<SyncEngineStatus['state'], string> = {
+  disabled: 'Sync is not configured',
+  idle: 'Up to date',
+  syncing: 'Syncing...',
+  offline: 'Offline - changes will sync when reconnected',
+  error: 'Last sync failed',
+};
+
+const SyncPanel: React.FC<SyncPanelProps> = ({ onClose }) => {
+  const [status, setStatus] = useState<SyncEngineStatus>(syncEngine.getStatus());
+  const [summary, setSummary] = useState<SyncSummary>({ pending_changes: 0, open_conflicts: 0 });
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadData();
+    return syncEngine.subscribe(setStatus);
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [syncSummary, openConflicts] = await Promise.all([
+        syncEngine.getSummary(),
+        syncEngine.getOpenConflicts(),
+      ]);
+      setSummary(syncSummary);
+      setConflicts(openConflicts);
+    } catch (error) {
+      console.error('Failed to load sync data:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useChangeFeed(['sync_status', 'sync_conflicts'], () => {
+    loadData();
+  });
+
+  const handleResolve = async (conflictId: string, resolution: SyncConflictResolution) => {
+    try {
+      await syncEngine.resolveConflict(conflictId, resolution);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      alert(error instanceof Error ? error.message : 'Failed to resolve conflict. Please try again.');
+    }
+  };
+
+  const formatLabel = (name: string) => name.replace(/_/g, ' ');
+
+  const formatValue = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return '(empty)';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  };
+
+  const formatDateTime = (timestamp?: number) => {
+    return timestamp ? new Date(timestamp).toLocaleString() : 'unknown time';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Device Sync</h2>
+              <p className="text-gray-600">
+                {stateLabels[status.state]}
+                {status.last_synced_at && ` · last synced ${formatDateTime(status.last_synced_at)}`}
+              </p>
+              {status.error && <p className="text-sm text-red-600 mt-1">{status.error}</p>}
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => syncEngine.syncNow()}
+                disabled={status.state === 'disabled' || status.state === 'syncing'}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Sync Now
+              </button>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600 p-2"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </div>
+          <div className="flex space-x-6 mt-4 text-sm text-gray-700">
+            <span>{summary.pending_changes} changes waiting to sync</span>
+            <span>{summary.open_conflicts} conflicts to review</span>
+          </div>
+        </div>
+
+        {/* Conflict Queue */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {isLoading ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          ) : conflicts.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">No conflicts to review</p>
+          ) : (
+            <div className="space-y-4">
+              {conflicts.map(conflict => (
+                <div key={conflict.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="font-semibold text-gray-900 capitalize">
+                      {formatLabel(conflict.table_name)}
+                      {conflict.field && ` · ${formatLabel(conflict.field)}`}
+                    </h3>
+                    <span className="text-xs text-gray-500">{conflict.record_id}</span>
+                  </div>
+
+                  {conflict.reason === 'concurrent_edit' ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm mb-4">
+                      <div className="bg-green-50 border border-green-200 rounded p-3">
+                        <p className="font-medium text-green-800 mb-1">Current value</p>
+                        <p className="text-gray-900 break-words">{formatValue(conflict.kept_value)}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Saved {formatDateTime(conflict.kept_at)} on device {conflict.kept_device_id?.slice(0, 8)}
+                        </p>
+                      </div>
+                      <div className="bg-yellow-50 border border-yellow-200 rounded p-3">
+                        <p className="font-medium text-yellow-800 mb-1">Overwritten value</p>
+                        <p className="text-gray-900 break-words">{formatValue(conflict.discarded_value)}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Saved {formatDateTime(conflict.discarded_at)} on device {conflict.discarded_device_id?.slice(0, 8)}
+                        </p>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="bg-red-50 border border-red-200 rounded p-3 text-sm mb-4">
+                      <p className="font-medium text-red-800 mb-1">
+                        A change from device {conflict.discarded_device_id?.slice(0, 8)} could not be saved here
+                      </p>
+                      <p className="text-gray-700">{conflict.detail}</p>
+                      <p className="text-xs text-gray-500 mt-1 break-words">{formatValue(conflict.discarded_value)}</p>
+                    </div>
+                  )}
+
+                  <div className="flex justify-end space-x-3">
+                    {conflict.reason === 'concurrent_edit' ? (
+                      <>
+                        <button
+                          onClick={() => handleResolve(conflict.id, 'restored')}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                        >
+                          Use Overwritten Value
+                        </button>
+                        <button
+                          onClick={() => handleResolve(conflict.id, 'kept')}
+                          className="px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                        >
+                          Keep Current Value
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => handleResolve(conflict.id, 'dismissed')}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                      >
+                        Dismiss
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncPanel;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { formatCents } from '../services/money';
+import { formatTaxLine } from '../services/taxEngine';
+import type { TaxLine } from '../types/models';
+
+interface TaxBreakdownRowsProps {
+  taxLines: TaxLine[];
+  exempt?: boolean;
+  exemptCertificate?: string;
+  className?: string;
+}
+
+// One row per taxing jurisdiction, or the customer's exemption
+const TaxBreakdownRows: React.FC<TaxBreakdownRowsProps> = ({
+  taxLines,
+  exempt = false,
+  exemptCertificate,
+  className = 'flex justify-between text-sm',
+}) => {
+  if (exempt) {
+    return (
+      <div className={className}>
+        <span>Tax exempt{exemptCertificate && ` (certificate ${exemptCertificate})`}:</span>
+        <span>{formatCents(0)}</span>
+      </div>
+    );
+  }
+
+  if (taxLines.length === 0) {
+    return (
+      <div className={className}>
+        <span>Tax:</span>
+        <span>{formatCents(0)}</span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {taxLines.map(line => (
+        <div key={line.jurisdiction_id} className={className}>
+          <span>{formatTaxLine(line)}:</span>
+          <span>{formatCents(line.amount)}</span>
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default TaxBreakdownRows;
@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import browserDatabase from '../services/browserDatabase';
+import { lineItemTypeLabels } from '../services/taxEngine';
+import type { Customer, LineItemType, TaxJurisdiction, TaxProfile } from '../types/models';
+
+type ProfileForm = Omit<TaxProfile, 'created_at' | 'updated_at'>;
+
+const lineItemTypes = Object.keys(lineItemTypeLabels) as LineItemType[];
+
+const newProfile = (): ProfileForm => ({
+  id: uuidv4(),
+  name: '',
+  jurisdictions: [{ id: uuidv4(), name: 'State', rate: 0 }],
+  taxable_types: ['part'],
+  is_default: false,
+});
+
+const TaxSettings: React.FC = () => {
+  const [profiles, setProfiles] = useState<TaxProfile[]>([]);
+  const [editing, setEditing] = useState<ProfileForm | null>(null);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [certificates, setCertificates] = useState<Record<string, string>>({});
+
+  const loadData = useCallback(() => {
+    return Promise.all([browserDatabase.getTaxProfiles(), browserDatabase.getCustomers()])
+      .then(([taxProfiles, allCustomers]) => {
+        setProfiles(taxProfiles);
+        setCustomers(allCustomers);
+      })
+      .catch(error => console.error('Failed to load tax settings:', error));
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const updateJurisdiction = (id: string, updates: Partial<TaxJurisdiction>) => {
+    setEditing(prev => prev && {
+      ...prev,
+      jurisdictions: prev.jurisdictions.map(jurisdiction => jurisdiction.id === id ? { ...jurisdiction, ...updates } : jurisdiction),
+    });
+  };
+
+  const toggleTaxableType = (type: LineItemType) => {
+    setEditing(prev => prev && {
+      ...prev,
+      taxable_types: prev.taxable_types.includes(type)
+        ? prev.taxable_types.filter(other => other !== type)
+        : [...prev.taxable_types, type],
+    });
+  };
+
+  const handleSaveProfile = async () => {
+    if (!editing) return;
+
+    try {
+      await browserDatabase.saveTaxProfile(editing);
+      setEditing(null);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to save tax profile:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save tax profile.');
+    }
+  };
+
+  const handleMakeDefault = async (profile: TaxProfile) => {
+    try {
+      await browserDatabase.saveTaxProfile({ ...profile, is_default: true });
+      await loadData();
+    } catch (error) {
+      console.error('Failed to change default tax profile:', error);
+      alert(error instanceof Error ? error.message : 'Failed to change default tax profile.');
+    }
+  };
+
+  const handleDeleteProfile = async (profile: TaxProfile) => {
+    if (!confirm(`Delete the "${profile.name}" tax profile?`)) return;
+
+    try {
+      await browserDatabase.deleteTaxProfile(profile.id);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to delete tax profile:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete tax profile.');
+    }
+  };
+
+  const handleExemption = async (customer: Customer, taxExempt: boolean) => {
+    try {
+      await browserDatabase.updateCustomerTaxExemption(customer.id, taxExempt, certificates[customer.id]);
+      setCertificates(prev => ({ ...prev, [customer.id]: '' }));
+      await loadData();
+    } catch (error) {
+      console.error('Failed to update tax exemption:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update tax exemption.');
+    }
+  };
+
+  const combinedRate = (jurisdictions: TaxJurisdiction[]) =>
+    Math.round(jurisdictions.reduce((total, jurisdiction) => total + jurisdiction.rate, 0) * 1000) / 1000;
+
+  const search = customerSearch.trim().toLowerCase();
+  const listedCustomers = customers.filter(customer =>
+    search
+      ? customer.name.toLowerCase().includes(search) || customer.phone.includes(search)
+      : customer.tax_exempt
+  );
+
+  return (
+    <div className="space-y-8">
+      {/* Tax Profiles */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-medium text-gray-900">Tax Profiles</h3>
+          {!editing && (
+            <button
+              onClick={() => setEditing(newProfile())}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Add Profile
+            </button>
+          )}
+        </div>
+        <p className="text-gray-600 mb-4">
+          Estimates and invoices are taxed with the default profile. Rates of every jurisdiction in a profile add up.
+        </p>
+
+        <div className="space-y-3">
+          {profiles.map(profile => (
+            <div key={profile.id} className="border border-gray-200 rounded-lg p-4 flex items-start justify-between">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-gray-900">{profile.name}</span>
+                  {profile.is_default && (
+                    <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Default</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600">
+                  {profile.jurisdictions.map(jurisdiction => `${jurisdiction.name} ${jurisdiction.rate}%`).join(' + ')}
+                  {' '}= {combinedRate(profile.jurisdictions)}%
+                </p>
+                <p className="text-sm text-gray-600">
+                  Taxes: {profile.taxable_types.length > 0
+                    ? profile.taxable_types.map(type => lineItemTypeLabels[type]).join(', ')
+                    : 'nothing'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-3 text-sm">
+                {!profile.is_default && (
+                  <button onClick={() => handleMakeDefault(profile)} className="text-blue-600 hover:text-blue-800">
+                    Make Default
+                  </button>
+                )}
+                <button onClick={() => setEditing(profile)} className="text-blue-600 hover:text-blue-800">
+                  Edit
+                </button>
+                {!profile.is_default && (
+                  <button onClick={() => handleDeleteProfile(profile)} className="text-red-600 hover:text-red-800">
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {editing && (
+          <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Profile Name</label>
+              <input
+                type="text"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                placeholder="e.g. In-state"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Taxable Line Items</label>
+              <div className="flex space-x-4">
+                {lineItemTypes.map(type => (
+                  <label key={type} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={editing.taxable_types.includes(type)}
+                      onChange={() => toggleTaxableType(type)}
+                    />
+                    <span>{lineItemTypeLabels[type]}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Jurisdictions</label>
+              <div className="space-y-2">
+                {editing.jurisdictions.map(jurisdiction => (
+                  <div key={jurisdiction.id} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={jurisdiction.name}
+                      onChange={(e) => updateJurisdiction(jurisdiction.id, { name: e.target.value })}
+                      placeholder="e.g. County"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={jurisdiction.rate}
+                      onChange={(e) => updateJurisdiction(jurisdiction.id, { rate: parseFloat(e.target.value) || 0 })}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-lg"
+                    />
+                    <span className="text-sm text-gray-600">%</span>
+                    <button
+                      onClick={() => setEditing({
+                        ...editing,
+                        jurisdictions: editing.jurisdictions.filter(other => other.id !== jurisdiction.id),
+                      })}
+                      className="text-gray-400 hover:text-red-600 px-2"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => setEditing({
+                  ...editing,
+                  jurisdictions: [...editing.jurisdictions, { id: uuidv4(), name: '', rate: 0 }],
+                })}
+                className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                + Add Jurisdiction
+              </button>
+              <p className="text-sm text-gray-600 mt-1">Combined rate: {combinedRate(editing.jurisdictions)}%</p>
+            </div>
+
+            <div className="flex space-x-3">
+              <button
+                onClick={handleSaveProfile}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Save Profile
+              </button>
+              <button
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Tax-exempt Customers */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Tax-Exempt Customers</h3>
+        <p className="text-gray-600 mb-4">
+          Fleets, nonprofits and other exempt customers pay no tax. Keep their exemption certificate number on file.
+        </p>
+        <input
+          type="text"
+          value={customerSearch}
+          onChange={(e) => setCustomerSearch(e.target.value)}
+          placeholder="Search customers by name or phone"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg mb-3"
+        />
+
+        {listedCustomers.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {search ? 'No customers match your search' : 'No tax-exempt customers yet'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {listedCustomers.map(customer => (
+              <div key={customer.id} className="flex items-center justify-between border border-gray-200 rounded-lg p-3 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{customer.name}</p>
+                  <p className="text-gray-600">
+                    {customer.phone}
+                    {customer.tax_exempt && ` · Certificate ${customer.tax_exempt_certificate}`}
+                  </p>
+                </div>
+                {customer.tax_exempt ? (
+                  <button onClick={() => handleExemption(customer, false)} className="text-red-600 hover:text-red-800">
+                    Remove Exemption
+                  </button>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={certificates[customer.id] || ''}
+                      onChange={(e) => setCertificates(prev => ({ ...prev, [customer.id]: e.target.value }))}
+                      placeholder="Certificate number"
+                      className="px-3 py-1 border border-gray-300 rounded-lg"
+                    />
+                    <button onClick={() => handleExemption(customer, true)} className="text-blue-600 hover:text-blue-800">
+                      Mark Exempt
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaxSettings;
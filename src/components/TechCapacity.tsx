@@ -1,6 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import browserDatabase from '../services/browserDatabase';
-import type { TechProfile, WorkOrder } from '../types/models';
+import type { TechProfile, WorkOrder, Customer, Vehicle } from '../types/models';
+
+interface UpcomingJob extends WorkOrder {
+  customer: Customer | null;
+  vehicle: Vehicle | null;
+}
 
 interface TechWorkloadData {
   tech: TechProfile;
@@ -9,7 +14,7 @@ interface TechWorkloadData {
   weeklyHours: number;
   efficiency: number;
   avgJobTime: number;
-  upcomingJobs: WorkOrder[];
+  upcomingJobs: UpcomingJob[];
 }
 
 interface TechCapacityProps {
@@ -25,14 +30,14 @@ const TechCapacity: React.FC<TechCapacityProps> = ({ onClose }) => {
     loadTechCapacityData();
   }, [selectedTimeframe]);
 
-  const loadTechCapacityData = () => {
+  const loadTechCapacityData = async () => {
     setIsLoading(true);
     try {
-      const techs = browserDatabase.getAllTechProfiles();
-      const workOrders = browserDatabase.getWorkOrders();
+      const techs = await browserDatabase.getAllTechProfiles();
+      const workOrders = await browserDatabase.getWorkOrders();
 
-      const techWorkloadData: TechWorkloadData[] = techs.map(tech => {
-        const workload = browserDatabase.getTechWorkload(tech.id);
+      const techWorkloadData: TechWorkloadData[] = await Promise.all(techs.map(async tech => {
+        const workload = await browserDatabase.getTechWorkload(tech.id);
         const assignedOrders = workOrders.filter(wo => wo.assigned_tech === tech.id && wo.status !== 'completed' && wo.status !== 'cancelled');
 
         // Calculate efficiency metrics
@@ -60,9 +65,13 @@ const TechCapacity: React.FC<TechCapacityProps> = ({ onClose }) => {
           weeklyHours,
           efficiency,
           avgJobTime,
-          upcomingJobs: assignedOrders.slice(0, 3)
+          upcomingJobs: await Promise.all(assignedOrders.slice(0, 3).map(async job => ({
+            ...job,
+            customer: await browserDatabase.getCustomer(job.customer_id),
+            vehicle: await browserDatabase.getVehicle(job.vehicle_id),
+          })))
         };
-      });
+      }));
 
       setTechData(techWorkloadData);
     } catch (error) {
@@ -298,8 +307,7 @@ const TechCapacity: React.FC<TechCapacityProps> = ({ onClose }) => {
                     <h4 className="text-sm font-medium text-gray-700 mb-2">Upcoming Jobs</h4>
                     <div className="space-y-2">
                       {data.upcomingJobs.map((job) => {
-                        const customer = browserDatabase.getCustomer(job.customer_id);
-                        const vehicle = browserDatabase.getVehicle(job.vehicle_id);
+                        const { customer, vehicle } = job;
 
                         return (
                           <div key={job.id} className="flex items-center justify-between p-2 bg-gray-50 rounded text-sm">
@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import TechJobCard from './TechJobCard';
+import EstimateBuilder from './EstimateBuilder';
+import TimeOffRequestPanel from './TimeOffRequestPanel';
 import browserDatabase from '../services/browserDatabase';
-import type { WorkOrder, Customer, Vehicle } from '../types/models';
+import { useChangeFeed } from '../hooks/useChangeFeed';
+import { StaleWriteError } from '../services/storageAdapter';
+import { InvalidTransitionError, NoApprovedWorkError, OutstandingBalanceError } from '../services/workOrderStatus';
+import type { WorkOrder, WorkOrderStatus, Customer, Vehicle } from '../types/models';
 
 interface TechJobWithDetails {
   workOrder: WorkOrder;
@@ -14,6 +19,8 @@ const TechDashboard: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'assigned' | 'all'>('assigned');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [isLoading, setIsLoading] = useState(true);
+  const [estimateWorkOrderId, setEstimateWorkOrderId] = useState<string | null>(null);
+  const [showTimeOff, setShowTimeOff] = useState(false);
 
   // For MVP, we'll use a hardcoded tech ID
   const currentTechId = 'tech-001';
@@ -25,7 +32,7 @@ const TechDashboard: React.FC = () => {
   const loadJobs = async () => {
     setIsLoading(true);
     try {
-      const workOrders = browserDatabase.getWorkOrders();
+      const workOrders = await browserDatabase.getWorkOrders();
       const jobsWithDetails: TechJobWithDetails[] = [];
 
       for (const workOrder of workOrders) {
@@ -39,8 +46,8 @@ const TechDashboard: React.FC = () => {
           continue;
         }
 
-        const customer = browserDatabase.getCustomer(workOrder.customer_id);
-        const vehicle = browserDatabase.getVehicle(workOrder.vehicle_id);
+        const customer = await browserDatabase.getCustomer(workOrder.customer_id);
+        const vehicle = await browserDatabase.getVehicle(workOrder.vehicle_id);
 
         if (customer && vehicle) {
           jobsWithDetails.push({ workOrder, customer, vehicle });
@@ -55,65 +62,67 @@ const TechDashboard: React.FC = () => {
     }
   };
 
-  const handleStartJob = (workOrderId: string) => {
-    try {
-      // Update work order status to in_progress
-      const data = browserDatabase.exportData();
-      const workOrder = data.work_orders.find(wo => wo.id === workOrderId);
-
-      if (workOrder) {
-        workOrder.status = 'in_progress';
-        workOrder.assigned_tech = currentTechId;
-        workOrder.started_at = Date.now();
-        workOrder.updated_at = Date.now();
-
-        browserDatabase.clearData();
-        localStorage.setItem('shop_database', JSON.stringify(data));
-
-        loadJobs();
-      }
-    } catch (error) {
-      console.error('Failed to start job:', error);
-    }
-  };
+  useChangeFeed(['work_orders', 'customers', 'vehicles'], () => {
+    loadJobs();
+  });
+
+  // Apply a status change to the copy of the job this screen loaded; if another
+  // device changed it first, reject the edit and show the current state instead
+  const transitionJob = async (
+    workOrderId: string,
+    toStatus: WorkOrderStatus,
+    action: string,
+    updates?: Partial<Omit<WorkOrder, 'id' | 'status'>>,
+    overrides: { allowOutstandingBalance?: boolean; completeWithoutApproval?: string } = {}
+  ) => {
+    const job = jobs.find(j => j.workOrder.id === workOrderId);
 
-  const handleCompleteJob = (workOrderId: string) => {
     try {
-      const data = browserDatabase.exportData();
-      const workOrder = data.work_orders.find(wo => wo.id === workOrderId);
-
-      if (workOrder) {
-        workOrder.status = 'completed';
-        workOrder.completed_at = Date.now();
-        workOrder.updated_at = Date.now();
-
-        browserDatabase.clearData();
-        localStorage.setItem('shop_database', JSON.stringify(data));
-
-        loadJobs();
-      }
+      await browserDatabase.transitionWorkOrder(workOrderId, toStatus, {
+        expectedVersion: job?.workOrder.updated_at,
+        changedBy: currentTechId,
+        updates,
+        ...overrides,
+      });
     } catch (error) {
-      console.error('Failed to complete job:', error);
+      if (error instanceof OutstandingBalanceError) {
+        if (confirm(`${error.message}. Complete the job anyway?`)) {
+          return transitionJob(workOrderId, toStatus, action, updates, { ...overrides, allowOutstandingBalance: true });
+        }
+      } else if (error instanceof NoApprovedWorkError) {
+        const reason = prompt(`${error.message}. Why is it being completed anyway?`);
+        if (reason?.trim()) {
+          return transitionJob(workOrderId, toStatus, action, updates, { ...overrides, completeWithoutApproval: reason.trim() });
+        }
+        if (reason !== null) alert('A reason is required to complete a job without approved work.');
+      } else if (error instanceof StaleWriteError) {
+        alert('This job was updated on another device. The list has been refreshed, please try again.');
+      } else if (error instanceof InvalidTransitionError) {
+        alert(error.message);
+      } else {
+        console.error(`Failed to ${action}:`, error);
+      }
     }
+
+    loadJobs();
   };
 
-  const handleRequestEstimate = (workOrderId: string) => {
-    try {
-      const data = browserDatabase.exportData();
-      const workOrder = data.work_orders.find(wo => wo.id === workOrderId);
+  const handleStartJob = (workOrderId: string) => {
+    transitionJob(workOrderId, 'in_progress', 'start job', { assigned_tech: currentTechId });
+  };
 
-      if (workOrder) {
-        workOrder.status = 'awaiting_approval';
-        workOrder.updated_at = Date.now();
+  const handleCompleteJob = (workOrderId: string) => {
+    transitionJob(workOrderId, 'completed', 'complete job');
+  };
 
-        browserDatabase.clearData();
-        localStorage.setItem('shop_database', JSON.stringify(data));
+  // Submitting the estimate moves the job to awaiting_approval
+  const handleBuildEstimate = (workOrderId: string) => {
+    setEstimateWorkOrderId(workOrderId);
+  };
 
-        loadJobs();
-      }
-    } catch (error) {
-      console.error('Failed to request estimate:', error);
-    }
+  const handleEstimateClosed = () => {
+    setEstimateWorkOrderId(null);
+    loadJobs();
   };
 
   const getJobStats = () => {
@@ -127,6 +136,17 @@ const TechDashboard: React.FC = () => {
 
   const stats = getJobStats();
 
+  if (estimateWorkOrderId) {
+    return (
+      <EstimateBuilder
+        workOrderId={estimateWorkOrderId}
+        techId={currentTechId}
+        onSubmitted={handleEstimateClosed}
+        onClose={handleEstimateClosed}
+      />
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 p-4 flex items-center justify-center">
@@ -145,8 +165,16 @@ const TechDashboard: React.FC = () => {
         <div className="max-w-4xl mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <h1 className="text-2xl font-bold text-gray-900">Tech Dashboard</h1>
-            <div className="text-sm text-gray-500">
-              Welcome back, Tech #{currentTechId.slice(-3)}
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => setShowTimeOff(true)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+              >
+                🌴 Time Off
+              </button>
+              <div className="text-sm text-gray-500">
+                Welcome back, Tech #{currentTechId.slice(-3)}
+              </div>
             </div>
           </div>
         </div>
@@ -237,12 +265,16 @@ const TechDashboard: React.FC = () => {
                 vehicle={job.vehicle}
                 onStartJob={handleStartJob}
                 onCompleteJob={handleCompleteJob}
-                onRequestEstimate={handleRequestEstimate}
+                onBuildEstimate={handleBuildEstimate}
               />
             ))
           )}
         </div>
       </div>
+
+      {showTimeOff && (
+        <TimeOffRequestPanel techId={currentTechId} onClose={() => setShowTimeOff(false)} />
+      )}
     </div>
   );
 };
@@ -1,5 +1,9 @@
-import React, { useState } from 'react';
-import type { WorkOrder, Customer, Vehicle } from '../types/models';
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import browserDatabase from '../services/browserDatabase';
+import { formatCents } from '../services/money';
+import { workOrderStatusLabels } from '../services/workOrderStatus';
+import type { WorkOrder, WorkOrderStatusChange, EstimateRequest, Customer, Vehicle } from '../types/models';
 
 interface TechJobCardProps {
   workOrder: WorkOrder;
@@ -7,7 +11,7 @@ interface TechJobCardProps {
   vehicle: Vehicle;
   onStartJob: (workOrderId: string) => void;
   onCompleteJob: (workOrderId: string) => void;
-  onRequestEstimate: (workOrderId: string) => void;
+  onBuildEstimate: (workOrderId: string) => void;
 }
 
 const TechJobCard: React.FC<TechJobCardProps> = ({
@@ -16,9 +20,34 @@ const TechJobCard: React.FC<TechJobCardProps> = ({
   vehicle,
   onStartJob,
   onCompleteJob,
-  onRequestEstimate,
+  onBuildEstimate,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [statusHistory, setStatusHistory] = useState<WorkOrderStatusChange[]>([]);
+  const [techNames, setTechNames] = useState<Record<string, string>>({});
+  const [estimates, setEstimates] = useState<EstimateRequest[]>([]);
+
+  // Load the status history and estimates when the card is opened, and again whenever the job changes
+  useEffect(() => {
+    if (!isExpanded) return;
+
+    const loadJobDetails = async () => {
+      try {
+        const [history, techs, jobEstimates] = await Promise.all([
+          browserDatabase.getWorkOrderStatusHistory(workOrder.id),
+          browserDatabase.getAllTechProfiles(),
+          browserDatabase.getEstimatesForWorkOrder(workOrder.id),
+        ]);
+        setStatusHistory(history);
+        setTechNames(Object.fromEntries(techs.map(tech => [tech.id, tech.name])));
+        setEstimates(jobEstimates);
+      } catch (error) {
+        console.error('Failed to load job details:', error);
+      }
+    };
+
+    loadJobDetails();
+  }, [isExpanded, workOrder.id, workOrder.updated_at]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -69,6 +98,11 @@ const TechJobCard: React.FC<TechJobCardProps> = ({
             <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(workOrder.status)}`}>
               {workOrder.status.replace('_', ' ').toUpperCase()}
             </span>
+            {workOrder.waiting_on_parts && (
+              <span className="px-2 py-1 rounded-full text-xs font-medium border bg-orange-100 text-orange-800 border-orange-200">
+                WAITING ON PARTS
+              </span>
+            )}
           </div>
           <div className="text-right text-sm text-gray-500">
             <div>{formatDate(workOrder.created_at)}</div>
@@ -155,10 +189,10 @@ const TechJobCard: React.FC<TechJobCardProps> = ({
             {workOrder.status === 'in_progress' && (
               <>
                 <button
-                  onClick={() => onRequestEstimate(workOrder.id)}
+                  onClick={() => onBuildEstimate(workOrder.id)}
                   className="flex-1 bg-orange-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-orange-700 transition-colors"
                 >
-                  Request Estimate
+                  Build Estimate
                 </button>
                 <button
                   onClick={() => onCompleteJob(workOrder.id)}
@@ -170,15 +204,77 @@ const TechJobCard: React.FC<TechJobCardProps> = ({
             )}
 
             {workOrder.status === 'approved' && (
-              <button
-                onClick={() => onCompleteJob(workOrder.id)}
-                className="flex-1 bg-green-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-green-700 transition-colors"
-              >
-                Mark Complete
-              </button>
+              <>
+                <button
+                  onClick={() => onBuildEstimate(workOrder.id)}
+                  className="flex-1 bg-orange-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-orange-700 transition-colors"
+                >
+                  Add Supplement
+                </button>
+                <button
+                  onClick={() => onCompleteJob(workOrder.id)}
+                  className="flex-1 bg-green-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-green-700 transition-colors"
+                >
+                  Mark Complete
+                </button>
+              </>
             )}
           </div>
 
+          {/* Estimates */}
+          {estimates.length > 0 && (
+            <div className="mt-6">
+              <div className="flex justify-between text-sm mb-2">
+                <span className="font-medium text-gray-700">Estimates</span>
+                <span className="text-gray-600">
+                  Approved {formatCents(workOrder.approved_total || 0)}
+                  {(workOrder.pending_total || 0) > 0 && ` · Awaiting approval ${formatCents(workOrder.pending_total!)}`}
+                </span>
+              </div>
+              <ul className="space-y-1">
+                {estimates.map(estimate => (
+                  <li key={estimate.id} className="text-sm text-gray-600 flex justify-between gap-3">
+                    <span>
+                      Revision {estimate.revision} · <span className="capitalize">{estimate.status}</span> · {estimate.line_items.length} items · {formatCents(estimate.total_estimate)}
+                    </span>
+                    <span className="text-gray-500 whitespace-nowrap">
+                      {estimate.status === 'submitted' && estimate.approval_token && (
+                        <Link
+                          to={`/approve/${estimate.approval_token}`}
+                          className="text-blue-600 hover:text-blue-800 mr-3"
+                        >
+                          Customer Approval
+                        </Link>
+                      )}
+                      {formatDate(estimate.responded_at || estimate.submitted_at || estimate.updated_at)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Status History */}
+          {statusHistory.length > 0 && (
+            <div className="mt-6">
+              <div className="text-sm font-medium text-gray-700 mb-2">Status History</div>
+              <ul className="space-y-1">
+                {statusHistory.map(change => (
+                  <li key={change.id} className="text-sm text-gray-600 flex justify-between gap-3">
+                    <span>
+                      {change.from_status
+                        ? `${workOrderStatusLabels[change.from_status]} → ${workOrderStatusLabels[change.to_status]}`
+                        : `Created as ${workOrderStatusLabels[change.to_status]}`}
+                      {change.changed_by && ` by ${techNames[change.changed_by] || change.changed_by}`}
+                      {change.note && <span className="text-gray-400"> · {change.note}</span>}
+                    </span>
+                    <span className="text-gray-500 whitespace-nowrap">{formatDate(change.changed_at)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Quick Actions */}
           <div className="mt-4 flex flex-wrap gap-2">
             <button className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm hover:bg-gray-200 transition-colors">
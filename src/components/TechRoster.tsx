@@ -19,7 +19,7 @@ const TechRoster: React.FC<TechRosterProps> = ({ onClose }) => {
   const loadTechs = async () => {
     setIsLoading(true);
     try {
-      const allTechs = browserDatabase.getAllTechProfiles();
+      const allTechs = await browserDatabase.getAllTechProfiles();
       setTechs(allTechs);
     } catch (error) {
       console.error('Failed to load techs:', error);
@@ -0,0 +1,433 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import browserDatabase from '../services/browserDatabase';
+import schedulingService, {
+  formatTimeOffPeriod,
+  shiftTemplates,
+  startOfWeek,
+  timeOffTypeLabels,
+  validateShift,
+} from '../services/schedulingService';
+import { useChangeFeed } from '../hooks/useChangeFeed';
+import type { TechProfile, TimeOffRequest } from '../types/models';
+
+interface TechScheduleManagerProps {
+  onClose: () => void;
+}
+
+// 'shop' days have no shift of their own and follow the shop's hours
+interface DayDraft {
+  mode: 'shop' | 'working' | 'off';
+  shift_start: string;
+  shift_end: string;
+  lunch_start: string;
+  lunch_end: string;
+  max_concurrent_jobs: number;
+}
+
+const statusColors: Record<TimeOffRequest['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  denied: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// The week's shifts as editable drafts, one per day from Sunday
+const draftsFor = (techId: string, weekStart: Date): DayDraft[] => {
+  const schedules = techId ? schedulingService.getTechSchedules(techId, weekStart) : [];
+
+  return Array.from({ length: 7 }, (_, offset) => {
+    const date = addDays(weekStart, offset);
+    const schedule = schedules.find(s => new Date(s.date).toDateString() === date.toDateString());
+    if (schedule) {
+      return {
+        mode: schedule.available ? 'working' : 'off',
+        shift_start: schedule.shift_start,
+        shift_end: schedule.shift_end,
+        lunch_start: schedule.lunch_start || '',
+        lunch_end: schedule.lunch_end || '',
+        max_concurrent_jobs: schedule.max_concurrent_jobs,
+      };
+    }
+
+    const shopDay = schedulingService.getShopScheduleForDay(date);
+    return {
+      mode: 'shop',
+      shift_start: shopDay?.open_time || '08:00',
+      shift_end: shopDay?.close_time || '17:00',
+      lunch_start: shopDay?.lunch_start || '',
+      lunch_end: shopDay?.lunch_end || '',
+      max_concurrent_jobs: 1,
+    };
+  });
+};
+
+const TechScheduleManager: React.FC<TechScheduleManagerProps> = ({ onClose }) => {
+  const [activeTab, setActiveTab] = useState<'shifts' | 'time_off'>('shifts');
+  const [techs, setTechs] = useState<TechProfile[]>([]);
+  const [techId, setTechId] = useState('');
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [drafts, setDrafts] = useState<DayDraft[]>([]);
+  const [requests, setRequests] = useState<TimeOffRequest[]>(() => schedulingService.getTimeOffRequests());
+  const [reviewNotes, setReviewNotes] = useState<{ [requestId: string]: string }>({});
+
+  const loadData = useCallback(() => {
+    return browserDatabase.getAllTechProfiles()
+      .then(techProfiles => {
+        setTechs(techProfiles);
+        if (techProfiles.length > 0) {
+          setTechId(current => current || techProfiles[0].id);
+        }
+      })
+      .catch(error => console.error('Failed to load technicians:', error));
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useChangeFeed(['tech_profiles', 'time_off_requests'], () => {
+    loadData();
+    setRequests(schedulingService.getTimeOffRequests());
+  });
+
+  // Drafts are rebuilt whenever a different tech or week is shown
+  const [shownWeek, setShownWeek] = useState('');
+  const weekKey = `${techId}|${weekStart.getTime()}`;
+  if (techId && shownWeek !== weekKey) {
+    setShownWeek(weekKey);
+    setDrafts(draftsFor(techId, weekStart));
+  }
+
+  const tech = techs.find(t => t.id === techId);
+  const techName = (id: string) => techs.find(t => t.id === id)?.name || 'Unknown tech';
+
+  const updateDraft = (offset: number, updates: Partial<DayDraft>) => {
+    setDrafts(prev => prev.map((draft, other) => other === offset ? { ...draft, ...updates } : draft));
+  };
+
+  const handleSaveWeek = async () => {
+    const problem = drafts
+      .map(draft => draft.mode === 'working' ? validateShift({
+        shift_start: draft.shift_start,
+        shift_end: draft.shift_end,
+        lunch_start: draft.lunch_start || undefined,
+        lunch_end: draft.lunch_end || undefined,
+      }) : null)
+      .find(Boolean);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+
+    try {
+      const existing = schedulingService.getTechSchedules(techId, weekStart);
+      for (const [offset, draft] of drafts.entries()) {
+        const date = addDays(weekStart, offset);
+        const current = existing.find(s => new Date(s.date).toDateString() === date.toDateString());
+
+        if (draft.mode === 'shop') {
+          if (current) await schedulingService.deleteTechSchedule(current.id);
+          continue;
+        }
+
+        await schedulingService.saveTechSchedule({
+          tech_id: techId,
+          date: date.getTime(),
+          shift_start: draft.shift_start,
+          shift_end: draft.shift_end,
+          lunch_start: draft.lunch_start || undefined,
+          lunch_end: draft.lunch_end || undefined,
+          available: draft.mode === 'working',
+          max_concurrent_jobs: draft.max_concurrent_jobs,
+          specializations: current?.specializations || tech?.specialties || [],
+        });
+      }
+      setDrafts(draftsFor(techId, weekStart));
+    } catch (error) {
+      console.error('Failed to save shifts:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save shifts.');
+    }
+  };
+
+  const handleApplyTemplate = async (templateId: string) => {
+    const template = shiftTemplates.find(t => t.id === templateId);
+    if (!template || !confirm(`Replace this week's shifts with "${template.name}"?`)) return;
+
+    try {
+      await schedulingService.applyShiftTemplate(techId, weekStart, template, {
+        max_concurrent_jobs: 1,
+        specializations: tech?.specialties || [],
+      });
+      setDrafts(draftsFor(techId, weekStart));
+    } catch (error) {
+      console.error('Failed to apply shift template:', error);
+      alert(error instanceof Error ? error.message : 'Failed to apply shift template.');
+    }
+  };
+
+  const handleCopyPreviousWeek = async () => {
+    if (!confirm("Replace this week's shifts with last week's?")) return;
+
+    try {
+      await schedulingService.copyTechWeek(techId, addDays(weekStart, -7), weekStart);
+      setDrafts(draftsFor(techId, weekStart));
+    } catch (error) {
+      console.error('Failed to copy shifts:', error);
+      alert(error instanceof Error ? error.message : 'Failed to copy shifts.');
+    }
+  };
+
+  const handleReview = async (request: TimeOffRequest, decision: 'approved' | 'denied') => {
+    try {
+      const roster = await browserDatabase.getTechRoster();
+      await schedulingService.reviewTimeOffRequest(request.id, decision, 'owner', reviewNotes[request.id]?.trim() || undefined, roster);
+      setRequests(schedulingService.getTimeOffRequests());
+    } catch (error) {
+      console.error('Failed to review time off request:', error);
+      alert(error instanceof Error ? error.message : 'Failed to review time off request.');
+    }
+  };
+
+  const pending = requests.filter(request => request.status === 'pending');
+  const reviewed = requests.filter(request => request.status !== 'pending');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Tech Schedules</h2>
+              <p className="text-gray-600">Shifts decide when each tech can be booked; approved time off blocks them out.</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+              ✕
+            </button>
+          </div>
+
+          <div className="mt-6 flex space-x-1 bg-gray-100 p-1 rounded-lg">
+            {([['shifts', 'Weekly Shifts'], ['time_off', `Time Off${pending.length > 0 ? ` (${pending.length})` : ''}`]] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setActiveTab(key)}
+                className={`px-4 py-2 rounded-md font-medium transition-colors ${
+                  activeTab === key ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {activeTab === 'shifts' && (
+            techs.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">Add technicians to the roster to schedule their shifts</p>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-3">
+                  <select
+                    value={techId}
+                    onChange={(e) => setTechId(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    {techs.map(t => (
+                      <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                  </select>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setWeekStart(addDays(weekStart, -7))}
+                      className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      ‹
+                    </button>
+                    <span className="text-sm font-medium text-gray-900">
+                      Week of {weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                    </span>
+                    <button
+                      onClick={() => setWeekStart(addDays(weekStart, 7))}
+                      className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      ›
+                    </button>
+                  </div>
+                  <select
+                    value=""
+                    onChange={(e) => handleApplyTemplate(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Apply template…</option>
+                    {shiftTemplates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                  <button onClick={handleCopyPreviousWeek} className="text-sm text-blue-600 hover:text-blue-800">
+                    Copy last week
+                  </button>
+                </div>
+
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                  {drafts.map((draft, offset) => (
+                    <div key={offset} className="p-3 flex flex-wrap items-center gap-2 text-sm">
+                      <span className="w-28 font-medium text-gray-900">
+                        {addDays(weekStart, offset).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                      </span>
+                      <select
+                        value={draft.mode}
+                        onChange={(e) => updateDraft(offset, { mode: e.target.value as DayDraft['mode'] })}
+                        className="px-2 py-1 border border-gray-300 rounded"
+                      >
+                        <option value="shop">Shop hours</option>
+                        <option value="working">Working</option>
+                        <option value="off">Off</option>
+                      </select>
+                      {draft.mode === 'working' && (
+                        <>
+                          <input
+                            type="time"
+                            value={draft.shift_start}
+                            onChange={(e) => updateDraft(offset, { shift_start: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded"
+                          />
+                          <span className="text-gray-500">to</span>
+                          <input
+                            type="time"
+                            value={draft.shift_end}
+                            onChange={(e) => updateDraft(offset, { shift_end: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded"
+                          />
+                          <span className="text-gray-600 ml-2">Lunch</span>
+                          <input
+                            type="time"
+                            value={draft.lunch_start}
+                            onChange={(e) => updateDraft(offset, { lunch_start: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded text-xs"
+                          />
+                          <span className="text-gray-500">-</span>
+                          <input
+                            type="time"
+                            value={draft.lunch_end}
+                            onChange={(e) => updateDraft(offset, { lunch_end: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded text-xs"
+                          />
+                          <span className="text-gray-600 ml-2">Jobs at once</span>
+                          <input
+                            type="number"
+                            min="1"
+                            max="5"
+                            value={draft.max_concurrent_jobs}
+                            onChange={(e) => updateDraft(offset, { max_concurrent_jobs: parseInt(e.target.value, 10) || 1 })}
+                            className="w-14 px-2 py-1 border border-gray-300 rounded"
+                          />
+                        </>
+                      )}
+                      {draft.mode === 'shop' && (
+                        <span className="text-gray-500">
+                          {schedulingService.getShopScheduleForDay(addDays(weekStart, offset))?.is_closed
+                            ? 'Shop closed'
+                            : `${draft.shift_start}–${draft.shift_end}`}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <button
+                  onClick={handleSaveWeek}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Save Week
+                </button>
+              </div>
+            )
+          )}
+
+          {activeTab === 'time_off' && (
+            <div className="space-y-6">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 mb-3">Waiting for Review</h3>
+                {pending.length === 0 ? (
+                  <p className="text-gray-500">No requests to review</p>
+                ) : (
+                  <div className="space-y-3">
+                    {pending.map(request => (
+                      <div key={request.id} className="border border-yellow-200 bg-yellow-50 rounded-lg p-4">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {techName(request.tech_id)} · {timeOffTypeLabels[request.request_type]}
+                            </p>
+                            <p className="text-sm text-gray-600">{formatTimeOffPeriod(request)}</p>
+                            {request.reason && <p className="text-sm text-gray-600">"{request.reason}"</p>}
+                          </div>
+                          <span className="text-xs text-gray-500">
+                            Requested {new Date(request.requested_at).toLocaleDateString()}
+                          </span>
+                        </div>
+                        {request.impact_assessment && (
+                          <p className="mt-2 text-sm text-gray-700 whitespace-pre-line">⚠️ {request.impact_assessment}</p>
+                        )}
+                        <div className="mt-3 flex flex-wrap items-center gap-2">
+                          <input
+                            type="text"
+                            value={reviewNotes[request.id] || ''}
+                            onChange={(e) => setReviewNotes({ ...reviewNotes, [request.id]: e.target.value })}
+                            placeholder="Notes for the tech (optional)"
+                            className="flex-1 min-w-48 px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                          />
+                          <button
+                            onClick={() => handleReview(request, 'approved')}
+                            className="px-3 py-1 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleReview(request, 'denied')}
+                            className="px-3 py-1 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700"
+                          >
+                            Deny
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {reviewed.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-3">History</h3>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                    {reviewed.map(request => (
+                      <div key={request.id} className="p-3 text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="text-gray-900">
+                            {techName(request.tech_id)} · {timeOffTypeLabels[request.request_type]} · {formatTimeOffPeriod(request)}
+                          </span>
+                          <span className={`px-2 py-0.5 text-xs rounded-full ${statusColors[request.status]}`}>
+                            {request.status}
+                          </span>
+                        </div>
+                        {request.reviewer_notes && <p className="text-gray-600">{request.reviewer_notes}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TechScheduleManager;
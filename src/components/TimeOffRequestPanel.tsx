@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import browserDatabase from '../services/browserDatabase';
+import schedulingService, { formatTimeOffPeriod, timeOffTypeLabels } from '../services/schedulingService';
+import { useChangeFeed } from '../hooks/useChangeFeed';
+import type { TimeOffRequest } from '../types/models';
+
+interface TimeOffRequestPanelProps {
+  techId: string;
+  onClose: () => void;
+}
+
+interface RequestForm {
+  request_type: TimeOffRequest['request_type'];
+  start_date: string; // yyyy-mm-dd
+  end_date: string;
+  partial_day: boolean;
+  start_time: string;
+  end_time: string;
+  reason: string;
+}
+
+const emptyForm: RequestForm = {
+  request_type: 'vacation',
+  start_date: '',
+  end_date: '',
+  partial_day: false,
+  start_time: '',
+  end_time: '',
+  reason: '',
+};
+
+const statusLabels: Record<TimeOffRequest['status'], string> = {
+  pending: 'Waiting for approval',
+  approved: 'Approved',
+  denied: 'Denied',
+  cancelled: 'Cancelled',
+};
+
+const TimeOffRequestPanel: React.FC<TimeOffRequestPanelProps> = ({ techId, onClose }) => {
+  const [requests, setRequests] = useState<TimeOffRequest[]>(() => schedulingService.getTimeOffRequests(techId));
+  const [form, setForm] = useState<RequestForm>(emptyForm);
+
+  // The owner reviews requests from the dashboard
+  useChangeFeed(['time_off_requests'], () => {
+    setRequests(schedulingService.getTimeOffRequests(techId));
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.start_date) {
+      alert('Choose the day the time off starts.');
+      return;
+    }
+    if (form.partial_day && !(form.start_time && form.end_time)) {
+      alert('Choose the hours you will be away.');
+      return;
+    }
+
+    // Date inputs are local days; a partial day has a single date
+    const toDay = (value: string) => new Date(`${value}T00:00`).getTime();
+    try {
+      const roster = await browserDatabase.getTechRoster();
+      await schedulingService.submitTimeOffRequest({
+        tech_id: techId,
+        request_type: form.request_type,
+        start_date: toDay(form.start_date),
+        end_date: toDay(form.partial_day ? form.start_date : form.end_date || form.start_date),
+        start_time: form.partial_day ? form.start_time : undefined,
+        end_time: form.partial_day ? form.end_time : undefined,
+        reason: form.reason.trim() || undefined,
+      }, roster);
+      setForm(emptyForm);
+      setRequests(schedulingService.getTimeOffRequests(techId));
+    } catch (error) {
+      console.error('Failed to submit time off request:', error);
+      alert(error instanceof Error ? error.message : 'Failed to submit time off request.');
+    }
+  };
+
+  const handleCancel = async (request: TimeOffRequest) => {
+    if (!confirm('Withdraw this time off request?')) return;
+
+    try {
+      await schedulingService.cancelTimeOffRequest(request.id);
+      setRequests(schedulingService.getTimeOffRequests(techId));
+    } catch (error) {
+      console.error('Failed to cancel time off request:', error);
+      alert(error instanceof Error ? error.message : 'Failed to cancel time off request.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Time Off</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-6">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <select
+                  value={form.request_type}
+                  onChange={(e) => setForm({ ...form, request_type: e.target.value as RequestForm['request_type'] })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  {Object.entries(timeOffTypeLabels).map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {form.partial_day ? 'Day' : 'From'}
+                </label>
+                <input
+                  type="date"
+                  value={form.start_date}
+                  onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              {form.partial_day ? (
+                <div className="flex items-end space-x-1">
+                  <input
+                    type="time"
+                    value={form.start_time}
+                    onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg"
+                  />
+                  <span className="pb-2 text-gray-500">-</span>
+                  <input
+                    type="time"
+                    value={form.end_time}
+                    onChange={(e) => setForm({ ...form, end_time: e.target.value })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                  <input
+                    type="date"
+                    value={form.end_date}
+                    min={form.start_date}
+                    onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+              )}
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.partial_day}
+                onChange={(e) => setForm({ ...form, partial_day: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Part of a day</span>
+            </label>
+            <input
+              type="text"
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              placeholder="Reason (optional)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+            <button
+              type="submit"
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Request Time Off
+            </button>
+          </form>
+
+          <div>
+            <h3 className="font-medium text-gray-900 mb-2">My Requests</h3>
+            {requests.length === 0 ? (
+              <p className="text-sm text-gray-500">No time off requested yet</p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {requests.map(request => (
+                  <div key={request.id} className="p-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-900">
+                        {timeOffTypeLabels[request.request_type]} · {formatTimeOffPeriod(request)}
+                      </span>
+                      {(request.status === 'pending' || request.status === 'approved') && (
+                        <button onClick={() => handleCancel(request)} className="text-red-600 hover:text-red-800">
+                          Withdraw
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-gray-600">
+                      {statusLabels[request.status]}
+                      {request.reviewer_notes ? ` · ${request.reviewer_notes}` : ''}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimeOffRequestPanel;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import schedulingService from '../services/schedulingService';
+import browserDatabase from '../services/browserDatabase';
 import type { TimeSlot } from '../types/models';
 
 interface TimeSlotPickerProps {
@@ -30,7 +31,8 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
   const loadTimeSlots = async () => {
     setIsLoading(true);
     try {
-      const slots = schedulingService.getAvailableTimeSlots(selectedDate, serviceId, vehicleYear);
+      const roster = await browserDatabase.getTechRoster();
+      const slots = schedulingService.getAvailableTimeSlots(selectedDate, serviceId, vehicleYear, roster);
       setTimeSlots(slots);
     } catch (error) {
       console.error('Failed to load time slots:', error);
@@ -99,12 +101,16 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
     switch (slot.reason) {
       case 'booked':
         return 'Already booked';
+      case 'full':
+        return 'Shop fully booked';
       case 'lunch':
         return 'Lunch break';
       case 'closed':
         return 'Shop closed';
       case 'tech_unavailable':
         return 'No technician available';
+      case 'resource_unavailable':
+        return 'Equipment in use';
       default:
         return 'Unavailable';
     }
@@ -7,6 +7,9 @@ CREATE TABLE IF NOT EXISTS customers (
   name TEXT NOT NULL,
   phone TEXT NOT NULL,
   email TEXT,
+  tax_exempt BOOLEAN DEFAULT FALSE,
+  tax_exempt_certificate TEXT,
+  pricing_level TEXT,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL
 );
@@ -42,10 +45,40 @@ CREATE TABLE IF NOT EXISTS work_orders (
   updated_at INTEGER NOT NULL,
   started_at INTEGER,
   completed_at INTEGER,
+  approved_total INTEGER, -- cents
+  pending_total INTEGER, -- cents
+  amount_due INTEGER, -- cents
+  paid_total INTEGER, -- cents
+  waiting_on_parts BOOLEAN DEFAULT FALSE,
+  reserved_resources TEXT, -- JSON array of shop resource ids
   FOREIGN KEY (vehicle_id) REFERENCES vehicles(id),
   FOREIGN KEY (customer_id) REFERENCES customers(id)
 );
 
+-- Estimates built by techs, one row per revision; line_items, base_line_items
+-- and photos are JSON arrays, customer_signature is a JSON object
+CREATE TABLE IF NOT EXISTS estimate_requests (
+  id TEXT PRIMARY KEY,
+  work_order_id TEXT NOT NULL,
+  tech_id TEXT NOT NULL,
+  line_items TEXT NOT NULL,
+  labor_hours REAL NOT NULL DEFAULT 0,
+  total_estimate INTEGER NOT NULL DEFAULT 0, -- cents
+  photos TEXT,
+  notes TEXT,
+  status TEXT NOT NULL CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')) DEFAULT 'draft',
+  revision INTEGER NOT NULL DEFAULT 1,
+  original_estimate_id TEXT,
+  base_line_items TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  submitted_at INTEGER,
+  responded_at INTEGER,
+  approval_token TEXT,
+  customer_signature TEXT,
+  FOREIGN KEY (work_order_id) REFERENCES work_orders(id)
+);
+
 -- Line items for work orders (services, parts, labor)
 CREATE TABLE IF NOT EXISTS line_items (
   id TEXT PRIMARY KEY,
@@ -53,14 +86,87 @@ CREATE TABLE IF NOT EXISTS line_items (
   type TEXT NOT NULL CHECK (type IN ('service', 'part', 'labor')) DEFAULT 'service',
   description TEXT NOT NULL,
   quantity INTEGER DEFAULT 1,
-  unit_price REAL NOT NULL,
-  total_price REAL NOT NULL,
+  unit_price INTEGER NOT NULL, -- cents
+  total_price INTEGER NOT NULL, -- cents
   approved BOOLEAN DEFAULT FALSE,
+  declined BOOLEAN DEFAULT FALSE,
+  estimate_request_id TEXT,
+  estimate_line_item_id TEXT,
+  catalog_part_id TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (work_order_id) REFERENCES work_orders(id)
+);
+
+-- Every status change of a work order, in order
+CREATE TABLE IF NOT EXISTS work_order_status_history (
+  id TEXT PRIMARY KEY,
+  work_order_id TEXT NOT NULL,
+  from_status TEXT CHECK (from_status IN ('pending', 'in_progress', 'awaiting_approval', 'approved', 'completed', 'cancelled')),
+  to_status TEXT NOT NULL CHECK (to_status IN ('pending', 'in_progress', 'awaiting_approval', 'approved', 'completed', 'cancelled')),
+  changed_by TEXT,
+  note TEXT,
+  changed_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (work_order_id) REFERENCES work_orders(id)
+);
+
+-- Invoices issued for completed work orders; line_items and shop are JSON
+CREATE TABLE IF NOT EXISTS invoices (
+  id TEXT PRIMARY KEY,
+  invoice_number INTEGER NOT NULL,
+  invoice_prefix TEXT, -- issuing device; unset on invoices from before prefixes
+  work_order_id TEXT NOT NULL,
+  customer_id TEXT NOT NULL,
+  vehicle_id TEXT NOT NULL,
+  customer_name TEXT NOT NULL,
+  customer_phone TEXT,
+  customer_email TEXT,
+  vehicle_description TEXT NOT NULL,
+  vehicle_vin TEXT,
+  vehicle_license_plate TEXT,
+  mileage INTEGER,
+  line_items TEXT NOT NULL,
+  labor_total INTEGER NOT NULL, -- cents
+  parts_total INTEGER NOT NULL, -- cents
+  services_total INTEGER NOT NULL, -- cents
+  subtotal INTEGER NOT NULL, -- cents
+  tax INTEGER NOT NULL, -- cents
+  tax_lines TEXT NOT NULL,
+  tax_exempt_certificate TEXT,
+  total INTEGER NOT NULL, -- cents
+  shop TEXT NOT NULL,
+  issued_at INTEGER NOT NULL,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL,
   FOREIGN KEY (work_order_id) REFERENCES work_orders(id)
 );
 
+-- Payment ledger: payments, deposits and refunds against a work order
+CREATE TABLE IF NOT EXISTS payments (
+  id TEXT PRIMARY KEY,
+  work_order_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('payment', 'deposit', 'refund')),
+  method TEXT NOT NULL CHECK (method IN ('cash', 'check', 'card')),
+  amount INTEGER NOT NULL CHECK (amount > 0), -- cents
+  split_group_id TEXT,
+  check_number TEXT,
+  card_brand TEXT,
+  card_last4 TEXT,
+  processor TEXT,
+  processor_transaction_id TEXT,
+  refunded_payment_id TEXT,
+  pending BOOLEAN DEFAULT FALSE, -- card refund not yet confirmed by the processor
+  received_by TEXT, -- tech id; NULL when taken on the owner dashboard
+  note TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (work_order_id) REFERENCES work_orders(id),
+  FOREIGN KEY (refunded_payment_id) REFERENCES payments(id),
+  FOREIGN KEY (received_by) REFERENCES tech_profiles(id)
+);
+
 -- Service history for reporting and customer records
 CREATE TABLE IF NOT EXISTS service_history (
   id TEXT PRIMARY KEY,
@@ -69,7 +175,7 @@ CREATE TABLE IF NOT EXISTS service_history (
   date INTEGER NOT NULL,
   mileage INTEGER,
   services_performed TEXT, -- JSON array of services
-  total_cost REAL,
+  total_cost INTEGER, -- cents
   notes TEXT,
   created_at INTEGER NOT NULL,
   FOREIGN KEY (vehicle_id) REFERENCES vehicles(id),
@@ -82,12 +188,145 @@ CREATE TABLE IF NOT EXISTS common_services (
   name TEXT NOT NULL UNIQUE,
   description TEXT,
   category TEXT, -- 'maintenance', 'repair', 'inspection', etc.
-  base_price REAL,
+  base_price INTEGER, -- cents
   labor_hours REAL,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL
 );
 
+-- Tax profiles; jurisdictions and taxable_types are JSON
+CREATE TABLE IF NOT EXISTS tax_profiles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  jurisdictions TEXT NOT NULL,
+  taxable_types TEXT NOT NULL,
+  is_default BOOLEAN DEFAULT FALSE,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Parts catalog; a part is unique by part number and supplier
+CREATE TABLE IF NOT EXISTS parts_catalog (
+  id TEXT PRIMARY KEY,
+  part_number TEXT NOT NULL,
+  description TEXT NOT NULL,
+  brand TEXT,
+  cost INTEGER NOT NULL, -- cents
+  list_price INTEGER, -- cents
+  category TEXT,
+  fitment_notes TEXT,
+  supplier TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Cost and list price changes of catalog parts
+CREATE TABLE IF NOT EXISTS part_price_history (
+  id TEXT PRIMARY KEY,
+  part_id TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('import', 'manual')),
+  cost_before INTEGER NOT NULL, -- cents
+  cost_after INTEGER NOT NULL, -- cents
+  list_price_before INTEGER, -- cents
+  list_price_after INTEGER, -- cents
+  changed_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (part_id) REFERENCES parts_catalog(id)
+);
+
+-- Stock of the catalog parts the shop keeps; id is the part's id
+CREATE TABLE IF NOT EXISTS inventory (
+  id TEXT PRIMARY KEY,
+  on_hand INTEGER NOT NULL DEFAULT 0,
+  allocated INTEGER NOT NULL DEFAULT 0,
+  bin_location TEXT,
+  reorder_point INTEGER NOT NULL DEFAULT 0,
+  reorder_quantity INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (id) REFERENCES parts_catalog(id)
+);
+
+-- Every change to a part's stock, including cycle counts
+CREATE TABLE IF NOT EXISTS inventory_adjustments (
+  id TEXT PRIMARY KEY,
+  part_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('allocate', 'release', 'consume', 'receive', 'cycle_count')),
+  on_hand_change INTEGER NOT NULL DEFAULT 0,
+  allocated_change INTEGER NOT NULL DEFAULT 0,
+  on_hand_after INTEGER NOT NULL,
+  allocated_after INTEGER NOT NULL,
+  work_order_id TEXT,
+  reason TEXT,
+  adjusted_by TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (part_id) REFERENCES parts_catalog(id)
+);
+
+-- Parts ordered from a supplier; lines is a JSON array
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id TEXT PRIMARY KEY,
+  supplier TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('draft', 'ordered', 'partially_received', 'received', 'cancelled')) DEFAULT 'draft',
+  lines TEXT NOT NULL,
+  notes TEXT,
+  ordered_at INTEGER,
+  received_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Parts received against purchase orders, with the billed cost
+CREATE TABLE IF NOT EXISTS part_receipts (
+  id TEXT PRIMARY KEY,
+  purchase_order_id TEXT NOT NULL,
+  line_id TEXT NOT NULL,
+  part_id TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  unit_cost INTEGER NOT NULL, -- cents
+  catalog_cost INTEGER NOT NULL, -- cents
+  cost_variance INTEGER NOT NULL, -- cents per unit
+  received_by TEXT,
+  received_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id),
+  FOREIGN KEY (part_id) REFERENCES parts_catalog(id)
+);
+
+-- Labor rates; id is the labor category
+CREATE TABLE IF NOT EXISTS labor_rates (
+  id TEXT PRIMARY KEY,
+  hourly_rate INTEGER NOT NULL, -- cents
+  minimum_charge INTEGER, -- cents
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Pricing levels customers can be assigned
+CREATE TABLE IF NOT EXISTS pricing_levels (
+  id TEXT PRIMARY KEY CHECK (id IN ('retail', 'fleet', 'employee', 'warranty')),
+  name TEXT NOT NULL,
+  labor_rate_percentage REAL NOT NULL,
+  parts_markup_percentage REAL NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Parts markup matrices; tiers is JSON. A matrix without a category or
+-- supplier applies shop-wide
+CREATE TABLE IF NOT EXISTS markup_matrices (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  category TEXT,
+  supplier TEXT,
+  tiers TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
 -- Photos/attachments for work orders
 CREATE TABLE IF NOT EXISTS attachments (
   id TEXT PRIMARY KEY,
@@ -115,18 +354,182 @@ CREATE TABLE IF NOT EXISTS check_ins (
   appointment_date INTEGER,
   checked_in_at INTEGER NOT NULL,
   created_at INTEGER NOT NULL,
+  updated_at INTEGER,
   FOREIGN KEY (customer_id) REFERENCES customers(id),
   FOREIGN KEY (vehicle_id) REFERENCES vehicles(id)
 );
 
+-- Technician profiles
+CREATE TABLE IF NOT EXISTS tech_profiles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  employee_id TEXT,
+  certifications TEXT, -- JSON array of certification names
+  specialties TEXT, -- JSON array of specialty keys
+  hourly_rate REAL,
+  active BOOLEAN DEFAULT TRUE,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Time tracked by technicians against work orders
+CREATE TABLE IF NOT EXISTS time_entries (
+  id TEXT PRIMARY KEY,
+  work_order_id TEXT NOT NULL,
+  tech_id TEXT NOT NULL,
+  start_time INTEGER NOT NULL,
+  end_time INTEGER,
+  duration INTEGER, -- minutes
+  description TEXT,
+  billable BOOLEAN DEFAULT TRUE,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (work_order_id) REFERENCES work_orders(id),
+  FOREIGN KEY (tech_id) REFERENCES tech_profiles(id)
+);
+
+-- Scheduling: appointments, shop hours, service durations, tech shifts, time
+-- off and shop resources. References to customers, vehicles and techs aren't
+-- enforced, since scheduling data from before it moved here can name records
+-- that were deleted since.
+CREATE TABLE IF NOT EXISTS appointments (
+  id TEXT PRIMARY KEY,
+  customer_id TEXT NOT NULL,
+  vehicle_id TEXT,
+  service_type TEXT NOT NULL,
+  service_category TEXT NOT NULL,
+  scheduled_start INTEGER NOT NULL,
+  scheduled_end INTEGER NOT NULL,
+  duration_minutes INTEGER NOT NULL,
+  assigned_tech TEXT,
+  status TEXT NOT NULL CHECK (status IN ('scheduled', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show')),
+  priority TEXT NOT NULL CHECK (priority IN ('normal', 'urgent', 'rush')),
+  estimated_price INTEGER, -- cents
+  customer_notes TEXT,
+  internal_notes TEXT,
+  reserved_resources TEXT, -- JSON array of shop resource ids
+  created_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS shop_schedules (
+  id TEXT PRIMARY KEY,
+  day_of_week INTEGER NOT NULL, -- 0=Sunday
+  open_time TEXT NOT NULL,
+  close_time TEXT NOT NULL,
+  lunch_start TEXT,
+  lunch_end TEXT,
+  is_closed BOOLEAN DEFAULT FALSE,
+  max_appointments_per_hour INTEGER,
+  service_bays INTEGER,
+  notes TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS service_durations (
+  id TEXT PRIMARY KEY,
+  service_id TEXT NOT NULL,
+  service_name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  estimated_minutes INTEGER NOT NULL,
+  minimum_minutes INTEGER NOT NULL,
+  maximum_minutes INTEGER NOT NULL,
+  buffer_minutes INTEGER NOT NULL,
+  complexity_multiplier REAL NOT NULL,
+  requires_specialist BOOLEAN DEFAULT FALSE,
+  can_overlap BOOLEAN DEFAULT TRUE,
+  required_resources TEXT, -- JSON array of shop resource ids
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS tech_schedules (
+  id TEXT PRIMARY KEY,
+  tech_id TEXT NOT NULL,
+  date INTEGER NOT NULL, -- midnight of the day
+  shift_start TEXT NOT NULL,
+  shift_end TEXT NOT NULL,
+  lunch_start TEXT,
+  lunch_end TEXT,
+  available BOOLEAN DEFAULT TRUE,
+  max_concurrent_jobs INTEGER NOT NULL,
+  specializations TEXT, -- JSON array of specialty keys
+  notes TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS time_off_requests (
+  id TEXT PRIMARY KEY,
+  tech_id TEXT NOT NULL,
+  request_type TEXT NOT NULL CHECK (request_type IN ('vacation', 'sick', 'personal', 'appointment', 'training')),
+  start_date INTEGER NOT NULL,
+  end_date INTEGER NOT NULL,
+  start_time TEXT,
+  end_time TEXT,
+  reason TEXT,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'approved', 'denied', 'cancelled')),
+  requested_at INTEGER NOT NULL,
+  reviewed_at INTEGER,
+  reviewed_by TEXT,
+  reviewer_notes TEXT,
+  impact_assessment TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS shop_resources (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('bay', 'lift', 'equipment')),
+  quantity INTEGER NOT NULL,
+  downtime TEXT, -- JSON array of downtime windows
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Devices sharing the shop's data; the code prefixes their invoice numbers
+CREATE TABLE IF NOT EXISTS devices (
+  id TEXT PRIMARY KEY, -- the device id it syncs under
+  code TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
 -- Sync status for data synchronization
 CREATE TABLE IF NOT EXISTS sync_status (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  id TEXT PRIMARY KEY, -- '<table_name>:<record_id>'
   table_name TEXT NOT NULL,
   record_id TEXT NOT NULL,
   last_sync INTEGER,
   sync_state TEXT NOT NULL CHECK (sync_state IN ('pending', 'synced', 'conflict')) DEFAULT 'pending',
   device_id TEXT,
+  field_versions TEXT, -- JSON object of per-field clocks
+  pending_fields TEXT, -- JSON array of fields not yet pushed
+  deleted BOOLEAN DEFAULT FALSE,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Sync conflicts queued for the owner to review
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+  id TEXT PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  field TEXT,
+  kept_value TEXT, -- JSON
+  discarded_value TEXT, -- JSON
+  kept_device_id TEXT,
+  discarded_device_id TEXT,
+  kept_at INTEGER,
+  discarded_at INTEGER,
+  reason TEXT NOT NULL CHECK (reason IN ('concurrent_edit', 'rejected')),
+  detail TEXT,
+  status TEXT NOT NULL CHECK (status IN ('open', 'resolved')) DEFAULT 'open',
+  resolution TEXT CHECK (resolution IN ('kept', 'restored', 'dismissed')),
+  resolved_at INTEGER,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL
 );
@@ -138,15 +541,32 @@ CREATE INDEX IF NOT EXISTS idx_vehicles_customer_id ON vehicles(customer_id);
 CREATE INDEX IF NOT EXISTS idx_work_orders_vehicle_id ON work_orders(vehicle_id);
 CREATE INDEX IF NOT EXISTS idx_work_orders_status ON work_orders(status);
 CREATE INDEX IF NOT EXISTS idx_work_orders_assigned_tech ON work_orders(assigned_tech);
+CREATE INDEX IF NOT EXISTS idx_estimate_requests_work_order_id ON estimate_requests(work_order_id);
+CREATE INDEX IF NOT EXISTS idx_estimate_requests_approval_token ON estimate_requests(approval_token);
 CREATE INDEX IF NOT EXISTS idx_line_items_work_order_id ON line_items(work_order_id);
+CREATE INDEX IF NOT EXISTS idx_work_order_status_history_work_order_id ON work_order_status_history(work_order_id);
+DROP INDEX IF EXISTS idx_invoices_invoice_number;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_prefix_number ON invoices(invoice_prefix, invoice_number);
+CREATE INDEX IF NOT EXISTS idx_invoices_work_order_id ON invoices(work_order_id);
+CREATE INDEX IF NOT EXISTS idx_payments_work_order_id ON payments(work_order_id);
 CREATE INDEX IF NOT EXISTS idx_service_history_vehicle_id ON service_history(vehicle_id);
 CREATE INDEX IF NOT EXISTS idx_check_ins_status ON check_ins(status);
-CREATE INDEX IF NOT EXISTS idx_sync_status_table_record ON sync_status(table_name, record_id);
-
--- Insert some common services for initial setup
-INSERT OR IGNORE INTO common_services (id, name, description, category, base_price, labor_hours, created_at, updated_at) VALUES
-  ('oil-change', 'Oil Change', 'Engine oil and filter replacement', 'maintenance', 49.99, 0.5, strftime('%s', 'now') * 1000, strftime('%s', 'now') * 1000),
-  ('brake-inspection', 'Brake Inspection', 'Complete brake system inspection', 'inspection', 39.99, 0.75, strftime('%s', 'now') * 1000, strftime('%s', 'now') * 1000),
-  ('tire-rotation', 'Tire Rotation', 'Rotate tires for even wear', 'maintenance', 29.99, 0.5, strftime('%s', 'now') * 1000, strftime('%s', 'now') * 1000),
-  ('brake-pads', 'Brake Pad Replacement', 'Replace front or rear brake pads', 'repair', 189.99, 1.5, strftime('%s', 'now') * 1000, strftime('%s', 'now') * 1000),
-  ('alignment', 'Wheel Alignment', '4-wheel alignment service', 'maintenance', 89.99, 1.0, strftime('%s', 'now') * 1000, strftime('%s', 'now') * 1000);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_parts_catalog_part_number ON parts_catalog(part_number);
+CREATE INDEX IF NOT EXISTS idx_part_price_history_part_id ON part_price_history(part_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_adjustments_part_id ON inventory_adjustments(part_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_part_receipts_purchase_order_id ON part_receipts(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_tech_id ON time_entries(tech_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_work_order_id ON time_entries(work_order_id);
+CREATE INDEX IF NOT EXISTS idx_devices_code ON devices(code);
+CREATE INDEX IF NOT EXISTS idx_sync_status_state ON sync_status(sync_state);
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_status ON sync_conflicts(status);
+
+-- Application bookkeeping (initialization flags, versions) stored as JSON values
+CREATE TABLE IF NOT EXISTS app_meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+-- Default common services are seeded by the app's data migrations
+-- (src/services/browserDatabase.ts) so every install gets the same ids
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+import changeFeed, { type ChangeEvent } from '../services/changeFeed';
+import type { TableName } from '../services/storageAdapter';
+
+// Calls onChange whenever a record in one of the given tables changes,
+// in this tab or any other open tab
+export function useChangeFeed(tables: TableName[], onChange: (events: ChangeEvent[]) => void): void {
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  const tableKey = tables.join(',');
+
+  useEffect(() => {
+    const watched = new Set(tableKey.split(','));
+
+    return changeFeed.subscribe(events => {
+      const relevant = events.filter(event => watched.has(event.table));
+      if (relevant.length > 0) {
+        onChangeRef.current(relevant);
+      }
+    });
+  }, [tableKey]);
+}
@@ -2,9 +2,16 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import browserDatabase from './services/browserDatabase'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Scheduling reads are synchronous, so its data is loaded before the first
+// render. The app still starts if that fails; each screen reports its own errors.
+browserDatabase.open()
+  .catch(error => console.error('Failed to open the database:', error))
+  .finally(() => {
+    createRoot(document.getElementById('root')!).render(
+      <StrictMode>
+        <App />
+      </StrictMode>,
+    )
+  })
@@ -0,0 +1,345 @@
+import { v4 as uuidv4 } from 'uuid';
+import browserDatabase from './browserDatabase';
+import {
+  latestLegacySchedulingVersion,
+  schedulingTables,
+  upgradeLegacySchedulingData,
+  type LegacySchedulingData,
+} from './schedulingService';
+import { tableNames, type StorageData, type TableName } from './storageAdapter';
+import type { MigrationLogEntry } from './migrations';
+
+// Versioned, checksummed backups of the shop database, scheduling included.
+// Photos are stored inside their records (as data URLs), so they travel with
+// the shop database. Automatic snapshots are kept in their own IndexedDB
+// database so clearing or restoring the shop data never touches them.
+
+export const BACKUP_FORMAT = 'shop-backup';
+// Format 1 carried the scheduling data separately, from before it moved into
+// the shop database
+export const BACKUP_FORMAT_VERSION = 2;
+
+// Per-device sync bookkeeping; restoring it onto another device would be wrong
+const excludedTables: TableName[] = ['sync_status', 'sync_conflicts'];
+const backupTables = tableNames.filter(table => !excludedTables.includes(table));
+
+export interface BackupPayload {
+  shop_database: {
+    schema_version: number;
+    migration_log: MigrationLogEntry[];
+    tables: Partial<StorageData>;
+  };
+  shop_scheduling?: LegacySchedulingData; // format 1 only
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  format_version: number;
+  created_at: number;
+  checksum: string; // SHA-256 of the canonical JSON of payload
+  payload: BackupPayload;
+}
+
+export type SnapshotReason = 'scheduled' | 'manual' | 'before_restore' | 'before_clear';
+
+export interface SnapshotInfo {
+  id: string;
+  created_at: number;
+  reason: SnapshotReason;
+  size: number; // bytes of serialized archive
+}
+
+interface StoredSnapshot extends SnapshotInfo {
+  archive: BackupArchive;
+}
+
+export interface SnapshotSettings {
+  interval_hours: number;
+  retention: number; // snapshots kept per reason
+}
+
+const SNAPSHOT_DB_NAME = 'shop_backups';
+const SNAPSHOT_STORE = 'snapshots';
+const SETTINGS_KEY = 'shop_backup_settings';
+const SCHEDULE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+const defaultSettings: SnapshotSettings = {
+  interval_hours: 24,
+  retention: 7,
+};
+
+function openSnapshotStore(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SNAPSHOT_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withSnapshotStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> {
+  const db = await openSnapshotStore();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(SNAPSHOT_STORE, mode);
+      const request = run(transaction.objectStore(SNAPSHOT_STORE));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined as T);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function toInfo({ id, created_at, reason, size }: StoredSnapshot): SnapshotInfo {
+  return { id, created_at, reason, size };
+}
+
+// JSON with object keys sorted, so the checksum doesn't depend on key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+async function checksum(payload: BackupPayload): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(payload)));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+class BackupService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  async createArchive(): Promise<BackupArchive> {
+    const [data, schemaVersion, migrationLog] = await Promise.all([
+      browserDatabase.exportData(),
+      browserDatabase.getSchemaVersion(),
+      browserDatabase.getMigrationLog(),
+    ]);
+
+    const tables: Partial<Record<TableName, unknown[]>> = {};
+    backupTables.forEach(table => {
+      tables[table] = data[table];
+    });
+
+    const payload: BackupPayload = {
+      shop_database: {
+        schema_version: schemaVersion,
+        migration_log: migrationLog,
+        tables: tables as Partial<StorageData>,
+      },
+    };
+
+    return {
+      format: BACKUP_FORMAT,
+      format_version: BACKUP_FORMAT_VERSION,
+      created_at: Date.now(),
+      checksum: await checksum(payload),
+      payload,
+    };
+  }
+
+  serialize(archive: BackupArchive): string {
+    return JSON.stringify(archive);
+  }
+
+  getFileName(archive: BackupArchive): string {
+    const stamp = new Date(archive.created_at).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+    return `shop-backup-${stamp}.json`;
+  }
+
+  async readFile(file: File): Promise<BackupArchive> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      throw new Error('This file is not a shop backup (it is not valid JSON)');
+    }
+    return this.validate(parsed);
+  }
+
+  // Check an archive is intact and readable by this build before anything is replaced
+  async validate(value: unknown): Promise<BackupArchive> {
+    const archive = value as BackupArchive;
+
+    if (!archive || archive.format !== BACKUP_FORMAT || !archive.payload) {
+      throw new Error('This file is not a shop backup');
+    }
+    if (archive.format_version > BACKUP_FORMAT_VERSION) {
+      throw new Error('This backup was made by a newer version of the app; update the app before restoring it');
+    }
+    if (archive.checksum !== await checksum(archive.payload)) {
+      throw new Error('This backup is damaged (checksum mismatch) and cannot be restored');
+    }
+
+    const { shop_database: database, shop_scheduling: scheduling } = archive.payload;
+
+    if (!database || typeof database.schema_version !== 'number' || !database.tables) {
+      throw new Error('This backup is missing the shop database');
+    }
+    if (database.schema_version > browserDatabase.getSupportedSchemaVersion()) {
+      throw new Error(`This backup's shop database is at schema version ${database.schema_version}, newer than this app supports (${browserDatabase.getSupportedSchemaVersion()})`);
+    }
+
+    Object.entries(database.tables).forEach(([table, records]) => {
+      if (!backupTables.includes(table as TableName)) {
+        throw new Error(`This backup contains an unknown table "${table}"`);
+      }
+      if (!Array.isArray(records) || records.some(record => typeof record?.id !== 'string')) {
+        throw new Error(`This backup's ${table} table is malformed`);
+      }
+    });
+
+    if (archive.format_version < 2) {
+      if (!scheduling || typeof scheduling.schema_version !== 'number') {
+        throw new Error('This backup is missing the scheduling data');
+      }
+      if (scheduling.schema_version > latestLegacySchedulingVersion()) {
+        throw new Error(`This backup's scheduling data is at schema version ${scheduling.schema_version}, newer than this app supports (${latestLegacySchedulingVersion()})`);
+      }
+    }
+
+    return archive;
+  }
+
+  // Record counts per table, for showing what a backup contains
+  summarize(archive: BackupArchive): Record<string, number> {
+    const counts: Record<string, number> = {};
+    Object.entries(archive.payload.shop_database.tables).forEach(([table, records]) => {
+      counts[table] = records?.length || 0;
+    });
+    if (archive.payload.shop_scheduling) {
+      counts.appointments = archive.payload.shop_scheduling.appointments?.length || 0;
+    }
+    return counts;
+  }
+
+  // Replace all current data with the archive, keeping a snapshot of what it replaces
+  async restore(archive: BackupArchive): Promise<void> {
+    const validated = await this.validate(archive);
+    await this.createSnapshot('before_restore');
+
+    const { shop_database: database, shop_scheduling: scheduling } = validated.payload;
+    const data = {} as Record<TableName, unknown[]>;
+    tableNames.forEach(table => {
+      data[table] = database.tables[table] || [];
+    });
+    if (scheduling) {
+      const upgraded = upgradeLegacySchedulingData(scheduling);
+      schedulingTables.forEach(table => {
+        data[table] = upgraded[table];
+      });
+    }
+
+    await browserDatabase.restoreData(data as unknown as StorageData, database.schema_version, database.migration_log || []);
+  }
+
+  // Wipe the shop data, keeping a snapshot to undo it
+  async clearAllData(): Promise<void> {
+    await this.createSnapshot('before_clear');
+    await browserDatabase.clearData();
+  }
+
+  async createSnapshot(reason: SnapshotReason): Promise<SnapshotInfo> {
+    const archive = await this.createArchive();
+    const snapshot: StoredSnapshot = {
+      id: uuidv4(),
+      created_at: archive.created_at,
+      reason,
+      size: new Blob([this.serialize(archive)]).size,
+      archive,
+    };
+
+    await withSnapshotStore('readwrite', store => store.put(snapshot));
+    await this.pruneSnapshots(reason);
+
+    return toInfo(snapshot);
+  }
+
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    const snapshots = await withSnapshotStore<StoredSnapshot[]>('readonly', store => store.getAll());
+    return snapshots
+      .map(toInfo)
+      .sort((a, b) => b.created_at - a.created_at);
+  }
+
+  async getSnapshot(snapshotId: string): Promise<BackupArchive> {
+    const snapshot = await withSnapshotStore<StoredSnapshot | undefined>('readonly', store => store.get(snapshotId));
+    if (!snapshot) {
+      throw new Error('Snapshot not found');
+    }
+    return snapshot.archive;
+  }
+
+  async restoreSnapshot(snapshotId: string): Promise<void> {
+    await this.restore(await this.getSnapshot(snapshotId));
+  }
+
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    await withSnapshotStore('readwrite', store => {
+      store.delete(snapshotId);
+    });
+  }
+
+  // Keep the newest snapshots for each reason, up to the retention setting
+  private async pruneSnapshots(reason: SnapshotReason): Promise<void> {
+    const { retention } = this.getSettings();
+    const expired = (await this.listSnapshots())
+      .filter(snapshot => snapshot.reason === reason)
+      .slice(retention);
+
+    for (const snapshot of expired) {
+      await this.deleteSnapshot(snapshot.id);
+    }
+  }
+
+  getSettings(): SnapshotSettings {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...defaultSettings, ...JSON.parse(saved) } : defaultSettings;
+  }
+
+  updateSettings(updates: Partial<SnapshotSettings>): SnapshotSettings {
+    const settings = { ...this.getSettings(), ...updates };
+    if (settings.interval_hours <= 0 || settings.retention < 1) {
+      throw new Error('Snapshot interval and retention must be positive');
+    }
+
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    return settings;
+  }
+
+  // Take a scheduled snapshot whenever the newest one is older than the interval
+  startAutomaticSnapshots(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.takeScheduledSnapshot(), SCHEDULE_CHECK_INTERVAL);
+    this.takeScheduledSnapshot();
+  }
+
+  stopAutomaticSnapshots(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async takeScheduledSnapshot(): Promise<void> {
+    try {
+      const { interval_hours } = this.getSettings();
+      const latest = (await this.listSnapshots()).find(snapshot => snapshot.reason === 'scheduled');
+
+      if (!latest || Date.now() - latest.created_at >= interval_hours * 60 * 60 * 1000) {
+        await this.createSnapshot('scheduled');
+      }
+    } catch (error) {
+      console.error('Automatic snapshot failed:', error);
+    }
+  }
+}
+
+export default new BackupService();
@@ -1,406 +1,2126 @@
 import { v4 as uuidv4 } from 'uuid';
 import type {
+  Cents,
   Customer,
   Vehicle,
   WorkOrder,
+  WorkOrderStatus,
+  WorkOrderStatusChange,
+  EstimateRequest,
+  EstimateSignature,
+  EstimateLineItem,
   LineItem,
+  Invoice,
+  ShopInfo,
+  Payment,
+  TaxProfile,
+  MarkupMatrix,
+  LaborRate,
+  PricingLevel,
+  PricingLevelId,
   CheckIn,
   CommonService,
+  CatalogPart,
+  PartPriceChange,
+  InventoryItem,
+  InventoryAdjustment,
+  InventoryMovementKind,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PartReceipt,
   CustomerCheckInForm,
   TechProfile,
   TimeEntry,
 } from '../types/models';
+import { IndexedDBAdapter } from './indexedDbAdapter';
+import { SqliteAdapter } from './sqliteAdapter';
+import changeFeed, { createChangeEvent } from './changeFeed';
+import schedulingService, {
+  AppointmentConflictError,
+  LEGACY_SCHEDULING_KEY,
+  schedulingTables,
+  upgradeLegacySchedulingData,
+  type TechRoster,
+} from './schedulingService';
+import { DatabaseTransaction } from './databaseTransaction';
+import { trackChanges } from './syncTracking';
+import { applyTransition, assertTransition, NoApprovedWorkError, OutstandingBalanceError } from './workOrderStatus';
+import pricingEngine, { defaultLaborRates, GENERAL_LABOR_CATEGORY, validateLaborRate, type PricingContext } from './pricingEngine';
+import { defaultPricingLevels, validatePricingLevel } from './pricingLevels';
+import {
+  catalogKey,
+  defaultCatalogParts,
+  type CatalogImportSummary,
+  type CatalogPartInput,
+} from './partsCatalog';
+import { applyMovement, partQuantities, validateInventorySettings } from './inventory';
+import {
+  groupBySupplier,
+  isAwaitingDelivery,
+  isWaitingOnParts,
+  jobNeeds,
+  lowStockNeeds,
+  mergeNeeds,
+  openQuantity,
+  receivingStatus,
+} from './purchaseOrders';
+import {
+  approvedEstimateItems,
+  diffEstimateItems,
+  lineItemTotals,
+  needsDecision,
+} from './estimateRevisions';
+import { amountDue, balanceDue, paidTotal, refundableAmount } from './paymentLedger';
+import { defaultTaxProfile, validateTaxProfile, type TaxContext } from './taxEngine';
+import { formatCents, sumCents, toCents } from './money';
+import { defaultMarkupMatrix, isShopWide, validateMarkupMatrix } from './markupMatrix';
+import {
+  StaleWriteError,
+  tableNames,
+  type StorageAdapter,
+  type StorageData,
+  type TableName,
+} from './storageAdapter';
+import {
+  createLogEntry,
+  getPendingMigrations,
+  latestVersion,
+  legacyCommonServiceIds,
+  type Migration,
+  type MigrationLogEntry,
+} from './migrations';
+import { MigrationBatch, type MigrationStore } from './migrationBatch';
+
+// Default roster and service catalog for a new shop
+function defaultTechProfiles(): TechProfile[] {
+  return [
+    {
+      id: 'tech-001',
+      name: 'Mike Johnson',
+      employee_id: 'EMP001',
+      certifications: ['ASE A1', 'ASE A5', 'ASE A8'],
+      specialties: ['brake', 'suspension', 'general'],
+      hourly_rate: 45.00,
+      active: true,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+    {
+      id: 'tech-002',
+      name: 'Sarah Chen',
+      employee_id: 'EMP002',
+      certifications: ['ASE A6', 'ASE A7', 'ASE L1'],
+      specialties: ['electrical', 'engine', 'diagnostic'],
+      hourly_rate: 50.00,
+      active: true,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+    {
+      id: 'tech-003',
+      name: 'Carlos Rodriguez',
+      employee_id: 'EMP003',
+      certifications: ['ASE A2', 'ASE A3'],
+      specialties: ['transmission', 'engine', 'general'],
+      hourly_rate: 42.00,
+      active: true,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+  ];
+}
+
+function defaultCommonServices(): CommonService[] {
+  return [
+    {
+      id: 'oil-change',
+      name: 'Oil Change',
+      description: 'Engine oil and filter replacement',
+      category: 'maintenance',
+      base_price: 49.99,
+      labor_hours: 0.5,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+    {
+      id: 'brake-inspection',
+      name: 'Brake Inspection',
+      description: 'Complete brake system inspection',
+      category: 'inspection',
+      base_price: 39.99,
+      labor_hours: 0.75,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+    {
+      id: 'tire-rotation',
+      name: 'Tire Rotation',
+      description: 'Rotate tires for even wear',
+      category: 'maintenance',
+      base_price: 29.99,
+      labor_hours: 0.5,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+    {
+      id: 'brake-pads',
+      name: 'Brake Pad Replacement',
+      description: 'Replace front or rear brake pads',
+      category: 'repair',
+      base_price: 189.99,
+      labor_hours: 1.5,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+    {
+      id: 'alignment',
+      name: 'Wheel Alignment',
+      description: '4-wheel alignment service',
+      category: 'maintenance',
+      base_price: 89.99,
+      labor_hours: 1.0,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+  ];
+}
+
+// A work order status history entry; fromStatus is absent for the initial status
+function statusChange(
+  workOrderId: string,
+  fromStatus: WorkOrderStatus | undefined,
+  toStatus: WorkOrderStatus,
+  at: number,
+  details: { changedBy?: string; note?: string } = {}
+): WorkOrderStatusChange {
+  return {
+    id: uuidv4(),
+    work_order_id: workOrderId,
+    from_status: fromStatus,
+    to_status: toStatus,
+    changed_by: details.changedBy,
+    note: details.note,
+    changed_at: at,
+    created_at: at,
+    updated_at: at,
+  };
+}
+
+// Invoice numbers start here. The highest number issued on this device is also
+// kept in meta, so clearing or restoring data never brings an old number back.
+const FIRST_INVOICE_NUMBER = 1001;
+const INVOICE_NUMBER_KEY = 'last_invoice_number';
+
+// Six characters with no look-alikes (0/O, 1/I/L), about a billion codes
+const DEVICE_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const DEVICE_CODE_LENGTH = 6;
+
+function drawDeviceCode(): string {
+  const values = crypto.getRandomValues(new Uint32Array(DEVICE_CODE_LENGTH));
+  return Array.from(values, value => DEVICE_CODE_ALPHABET[value % DEVICE_CODE_ALPHABET.length]).join('');
+}
+
+// The parts of an estimate the tech edits
+export type EstimateDraft = Pick<EstimateRequest, 'line_items' | 'photos' | 'notes'>;
+
+// One tender of a payment, deposit or refund as the caller records it
+export type PaymentEntry = Omit<Payment, 'id' | 'work_order_id' | 'split_group_id' | 'created_at' | 'updated_at'>;
+
+type ShopDatabaseMigration = Migration<(adapter: MigrationStore) => Promise<void>>;
+
+// Ordered up-migrations for the shop database; append new entries, never edit applied ones
+const shopDatabaseMigrations: ShopDatabaseMigration[] = [
+  {
+    version: 1,
+    name: 'seed_defaults',
+    up: async (adapter) => {
+      if (await adapter.count('tech_profiles') === 0) {
+        for (const tech of defaultTechProfiles()) {
+          await adapter.put('tech_profiles', tech);
+        }
+      }
+
+      if (await adapter.count('common_services') === 0) {
+        for (const service of defaultCommonServices()) {
+          await adapter.put('common_services', service);
+        }
+      }
+    },
+  },
+  {
+    version: 2,
+    name: 'unify_common_service_ids',
+    up: async (adapter) => {
+      const services = await adapter.getAll('common_services');
+      const byId = new Map(services.map(service => [service.id, service]));
+
+      // Move legacy placeholder ids onto the canonical ids
+      for (const [legacyId, canonicalId] of Object.entries(legacyCommonServiceIds)) {
+        const legacy = byId.get(legacyId);
+        if (!legacy) continue;
+
+        await adapter.delete('common_services', legacyId);
+        byId.delete(legacyId);
+
+        if (!byId.has(canonicalId)) {
+          const moved = { ...legacy, id: canonicalId, updated_at: Date.now() };
+          await adapter.put('common_services', moved);
+          byId.set(canonicalId, moved);
+        }
+      }
+
+      // Backfill catalog entries a fresh install would have
+      const names = new Set(Array.from(byId.values()).map(service => service.name));
+      for (const service of defaultCommonServices()) {
+        if (!byId.has(service.id) && !names.has(service.name)) {
+          await adapter.put('common_services', service);
+        }
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'backfill_status_history',
+    up: async (adapter) => {
+      // Work orders from before status history was kept get their creation
+      // and current status; the steps in between weren't recorded
+      for (const workOrder of await adapter.getAll('work_orders')) {
+        const history = await adapter.getByIndex('work_order_status_history', 'idx_work_order_status_history_work_order_id', workOrder.id);
+        if (history.length > 0) continue;
+
+        await adapter.put('work_order_status_history', statusChange(workOrder.id, undefined, 'pending', workOrder.created_at));
+        if (workOrder.status !== 'pending') {
+          await adapter.put('work_order_status_history', statusChange(workOrder.id, 'pending', workOrder.status, workOrder.updated_at, {
+            note: 'Recorded when status history was introduced',
+          }));
+        }
+      }
+    },
+  },
+  {
+    version: 4,
+    name: 'link_estimate_revisions',
+    up: async (adapter) => {
+      for (const workOrder of await adapter.getAll('work_orders')) {
+        const estimates = (await adapter.getByIndex('estimate_requests', 'idx_estimate_requests_work_order_id', workOrder.id))
+          .sort((a, b) => a.created_at - b.created_at);
+        const lineItems = await adapter.getByIndex('line_items', 'idx_line_items_work_order_id', workOrder.id);
+
+        // Estimates made before revisions existed become revisions 1, 2, ...
+        for (const [index, estimate] of estimates.entries()) {
+          if (estimate.revision) continue;
+          await adapter.put('estimate_requests', {
+            ...estimate,
+            revision: index + 1,
+            original_estimate_id: index > 0 ? estimates[0].id : undefined,
+          });
+        }
+
+        // Link line items to the estimate item they were copied from
+        for (const estimate of estimates) {
+          const unmatched = [...estimate.line_items];
+          for (const lineItem of lineItems) {
+            if (lineItem.estimate_request_id !== estimate.id || lineItem.estimate_line_item_id) continue;
+
+            const index = unmatched.findIndex(item =>
+              item.description === lineItem.description &&
+              item.quantity === lineItem.quantity &&
+              item.unit_price === lineItem.unit_price
+            );
+            if (index === -1) continue;
+
+            const [match] = unmatched.splice(index, 1);
+            await adapter.put('line_items', { ...lineItem, estimate_line_item_id: match.id });
+          }
+        }
+
+        if (lineItems.length > 0) {
+          await adapter.put('work_orders', { ...workOrder, ...lineItemTotals(lineItems) });
+        }
+      }
+    },
+  },
+  {
+    version: 5,
+    name: 'backfill_amount_due',
+    up: async (adapter) => {
+      for (const workOrder of await adapter.getAll('work_orders')) {
+        const lineItems = await adapter.getByIndex('line_items', 'idx_line_items_work_order_id', workOrder.id);
+        await adapter.put('work_orders', { ...workOrder, amount_due: amountDue(lineItems), paid_total: 0 });
+      }
+    },
+  },
+  {
+    version: 6,
+    name: 'seed_tax_profiles',
+    up: async (adapter) => {
+      if (await adapter.count('tax_profiles') === 0) {
+        await adapter.put('tax_profiles', defaultTaxProfile());
+      }
+
+      // Invoices issued before tax breakdowns were charged one flat rate
+      const { jurisdictions: [salesTax] } = defaultTaxProfile();
+      for (const invoice of await adapter.getAll('invoices')) {
+        if (invoice.tax_lines) continue;
+        await adapter.put('invoices', {
+          ...invoice,
+          tax_lines: invoice.tax > 0
+            ? [{ jurisdiction_id: salesTax.id, name: salesTax.name, rate: salesTax.rate, taxable_amount: invoice.subtotal, amount: invoice.tax }]
+            : [],
+        });
+      }
+    },
+  },
+  {
+    version: 7,
+    name: 'convert_money_to_cents',
+    up: async (adapter) => {
+      // Money was stored as dollars until amounts became integer cents
+      const priceCents = <T extends { unit_price: number; total_price: number }>(item: T): T => ({
+        ...item,
+        unit_price: toCents(item.unit_price),
+        total_price: toCents(item.total_price),
+      });
+
+      for (const service of await adapter.getAll('common_services')) {
+        if (service.base_price === undefined) continue;
+        await adapter.put('common_services', { ...service, base_price: toCents(service.base_price) });
+      }
+
+      for (const estimate of await adapter.getAll('estimate_requests')) {
+        await adapter.put('estimate_requests', {
+          ...estimate,
+          line_items: estimate.line_items.map(priceCents),
+          base_line_items: estimate.base_line_items?.map(priceCents),
+          total_estimate: toCents(estimate.total_estimate),
+        });
+      }
+
+      for (const lineItem of await adapter.getAll('line_items')) {
+        await adapter.put('line_items', priceCents(lineItem));
+      }
+
+      for (const payment of await adapter.getAll('payments')) {
+        await adapter.put('payments', { ...payment, amount: toCents(payment.amount) });
+      }
+
+      const invoices = await adapter.getAll('invoices');
+      for (const invoice of invoices) {
+        await adapter.put('invoices', {
+          ...invoice,
+          line_items: invoice.line_items.map(priceCents),
+          labor_total: toCents(invoice.labor_total),
+          parts_total: toCents(invoice.parts_total),
+          services_total: toCents(invoice.services_total),
+          subtotal: toCents(invoice.subtotal),
+          tax: toCents(invoice.tax),
+          tax_lines: invoice.tax_lines.map(line => ({
+            ...line,
+            taxable_amount: toCents(line.taxable_amount),
+            amount: toCents(line.amount),
+          })),
+          total: toCents(invoice.total),
+        });
+      }
+
+      // Totals are recalculated from the converted line items; invoiced work
+      // orders owe what the invoice says
+      const profile = (await adapter.getAll('tax_profiles')).find(other => other.is_default) || null;
+      for (const workOrder of await adapter.getAll('work_orders')) {
+        const lineItems = await adapter.getByIndex('line_items', 'idx_line_items_work_order_id', workOrder.id);
+        const invoice = invoices.find(other => other.work_order_id === workOrder.id);
+        const customer = await adapter.get('customers', workOrder.customer_id);
+        await adapter.put('work_orders', {
+          ...workOrder,
+          ...lineItemTotals(lineItems),
+          amount_due: invoice ? toCents(invoice.total) : amountDue(lineItems, { profile, customer }),
+          paid_total: paidTotal(await adapter.getByIndex('payments', 'idx_payments_work_order_id', workOrder.id)),
+        });
+      }
+    },
+  },
+  {
+    version: 8,
+    name: 'seed_markup_matrix',
+    up: async (adapter) => {
+      if (await adapter.count('markup_matrices') === 0) {
+        await adapter.put('markup_matrices', defaultMarkupMatrix());
+      }
+    },
+  },
+  {
+    version: 9,
+    name: 'seed_labor_rates_and_pricing_levels',
+    up: async (adapter) => {
+      if (await adapter.count('labor_rates') === 0) {
+        for (const rate of defaultLaborRates()) {
+          await adapter.put('labor_rates', rate);
+        }
+      }
+      for (const level of defaultPricingLevels()) {
+        if (!await adapter.get('pricing_levels', level.id)) {
+          await adapter.put('pricing_levels', level);
+        }
+      }
+    },
+  },
+  {
+    version: 10,
+    name: 'seed_parts_catalog',
+    up: async (adapter) => {
+      // The parts list that used to be built into the pricing engine
+      if (await adapter.count('parts_catalog') === 0) {
+        for (const part of defaultCatalogParts()) {
+          await adapter.put('parts_catalog', part);
+        }
+      }
+    },
+  },
+  {
+    version: 11,
+    name: 'clear_blank_vins',
+    up: async (adapter) => {
+      // Check-ins without a VIN saved an empty string, which the UNIQUE
+      // constraint allowed only once
+      for (const vehicle of await adapter.getAll('vehicles')) {
+        if (vehicle.vin === undefined || vehicle.vin.trim() !== '') continue;
+        await adapter.put('vehicles', { ...vehicle, vin: undefined });
+      }
+    },
+  },
+  {
+    version: 12,
+    name: 'apply_tax_profiles_to_amount_due',
+    up: async (adapter) => {
+      // Open work orders owe tax under the default profile, less any customer
+      // exemption; invoiced ones keep owing what the invoice says
+      const profile = (await adapter.getAll('tax_profiles')).find(other => other.is_default) || null;
+      for (const workOrder of await adapter.getAll('work_orders')) {
+        const invoices = await adapter.getByIndex('invoices', 'idx_invoices_work_order_id', workOrder.id);
+        if (invoices.length > 0) continue;
+
+        const lineItems = await adapter.getByIndex('line_items', 'idx_line_items_work_order_id', workOrder.id);
+        const customer = await adapter.get('customers', workOrder.customer_id);
+        const due = amountDue(lineItems, { profile, customer });
+        if (due === workOrder.amount_due) continue;
+
+        await adapter.put('work_orders', { ...workOrder, amount_due: due });
+      }
+    },
+  },
+  {
+    version: 13,
+    name: 'move_scheduling_into_database',
+    up: async (adapter) => {
+      // Scheduling data was kept in each device's localStorage. Without any,
+      // the shop gets the default hours and service durations; their fixed
+      // ids let every device's defaults merge in sync.
+      const saved = localStorage.getItem(LEGACY_SCHEDULING_KEY);
+      const scheduling = upgradeLegacySchedulingData(saved ? JSON.parse(saved) : {});
+      for (const table of schedulingTables) {
+        if (await adapter.count(table) > 0) continue;
+        for (const record of scheduling[table]) {
+          await adapter.put(table, record);
+        }
+      }
+    },
+  },
+];
+
+// Browser database backed by a pluggable storage adapter (SQLite/WASM by default)
+// Data saved by a previous adapter or the original localStorage implementation
+// is migrated on first load
+
+class BrowserDatabaseService {
+  // Store name; also the legacy localStorage key read once during migration
+  private storageKey = 'shop_database';
+  private adapter: StorageAdapter;
+  private previousAdapter?: StorageAdapter;
+  private readyPromise: Promise<void> | null = null;
+  private deviceId = '';
+
+  constructor(adapter: StorageAdapter, previousAdapter?: StorageAdapter) {
+    this.adapter = adapter;
+    this.previousAdapter = previousAdapter;
+  }
+
+  private ready(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = this.initialize().catch(error => {
+        this.readyPromise = null;
+        throw error;
+      });
+    }
+    return this.readyPromise;
+  }
+
+  private async initialize(): Promise<void> {
+    await this.adapter.open();
+
+    const initializedAt = await this.adapter.getMeta<number>('initialized_at');
+    if (!initializedAt) {
+      await this.importExistingData();
+      await this.adapter.setMeta('initialized_at', Date.now());
+    }
+
+    await this.applyMigrations();
+    // Migration 13 brought the scheduling data over; free the old copy
+    localStorage.removeItem(LEGACY_SCHEDULING_KEY);
+
+    // Identifies this install's changes to the sync server; never synced itself
+    this.deviceId = await this.adapter.getMeta<string>('device_id') || '';
+    if (!this.deviceId) {
+      this.deviceId = uuidv4();
+      await this.adapter.setMeta('device_id', this.deviceId);
+    }
+
+    // Register so the device's invoice code is claimed before it issues any
+    await this.runTransaction(tx => this.claimDeviceCode(tx), 3);
+
+    await schedulingService.connect({
+      getAll: table => this.adapter.getAll(table),
+      transaction: work => this.runTransaction(work, 3),
+    });
+  }
+
+  // The code this device prefixes its invoice numbers with. A new device
+  // draws one no known device holds; two devices that drew the same code
+  // before syncing are told apart once they do, and the later registration
+  // draws again.
+  private async claimDeviceCode(tx: DatabaseTransaction): Promise<string> {
+    const device = await tx.get('devices', this.deviceId);
+    if (device) {
+      const holders = await tx.getByIndex('devices', 'idx_devices_code', device.code);
+      const earlier = holders.some(other => other.id !== device.id &&
+        (other.created_at < device.created_at || (other.created_at === device.created_at && other.id < device.id)));
+      if (!earlier) return device.code;
+    }
+
+    let code: string;
+    do {
+      code = drawDeviceCode();
+    } while ((await tx.getByIndex('devices', 'idx_devices_code', code)).length > 0);
+
+    const now = Date.now();
+    tx.put('devices', { id: this.deviceId, code, created_at: device?.created_at ?? now, updated_at: now });
+    return code;
+  }
+
+  // Bring over data from a previous adapter or the legacy localStorage blob
+  private async importExistingData(): Promise<void> {
+    if (this.previousAdapter) {
+      let previous: { data: StorageData; schemaVersion: number; migrationLog: MigrationLogEntry[] } | null = null;
+      try {
+        await this.previousAdapter.open();
+        if (await this.previousAdapter.getMeta<number>('initialized_at')) {
+          previous = {
+            data: await this.previousAdapter.exportData(),
+            schemaVersion: await this.previousAdapter.getMeta<number>('schema_version') || 0,
+            migrationLog: await this.previousAdapter.getMeta<MigrationLogEntry[]>('migration_log') || [],
+          };
+        }
+      } catch (error) {
+        console.error('Failed to read previous database:', error);
+      }
+
+      // An import that fails leaves this store uninitialized, so the next
+      // load tries again instead of starting empty
+      if (previous) {
+        await this.adapter.importData(previous.data);
+        await this.adapter.setMeta('schema_version', previous.schemaVersion);
+        await this.adapter.setMeta('migration_log', previous.migrationLog);
+        return;
+      }
+    }
+
+    const saved = localStorage.getItem(this.storageKey);
+    if (!saved) return;
+
+    // Legacy blobs are schema version 0; migrations bring them forward
+    const legacy = JSON.parse(saved) as Partial<StorageData>;
+    const data = {} as Record<TableName, unknown[]>;
+    tableNames.forEach(table => {
+      data[table] = legacy[table] || [];
+    });
+
+    await this.adapter.importData(data as unknown as StorageData);
+
+    // The blob now lives in the adapter; free the localStorage quota
+    localStorage.removeItem(this.storageKey);
+  }
+
+  private async applyMigrations(): Promise<void> {
+    const currentVersion = await this.adapter.getMeta<number>('schema_version') || 0;
+    const pending = getPendingMigrations(this.storageKey, shopDatabaseMigrations, currentVersion);
+
+    // Each migration's writes land in one transaction with its version bump,
+    // so an interrupted migration is re-run from scratch on the next load
+    for (const migration of pending) {
+      const batch = new MigrationBatch(this.adapter);
+      await migration.up(batch);
+
+      const log = await this.adapter.getMeta<MigrationLogEntry[]>('migration_log') || [];
+      await batch.commit({
+        migration_log: [...log, createLogEntry(this.storageKey, migration)],
+        schema_version: migration.version,
+      });
+    }
+  }
+
+  // Run a read-modify-write against the database. Conflicting commits from
+  // other tabs are retried with fresh reads; after maxAttempts the
+  // StaleWriteError is rethrown to the caller. Writes are recorded for sync
+  // and, once committed, published on the change feed.
+  async transaction<R>(work: (tx: DatabaseTransaction) => Promise<R>, maxAttempts: number = 3): Promise<R> {
+    await this.ready();
+    return this.runTransaction(work, maxAttempts);
+  }
+
+  private async runTransaction<R>(work: (tx: DatabaseTransaction) => Promise<R>, maxAttempts: number): Promise<R> {
+    for (let attempt = 1; ; attempt++) {
+      const tx = new DatabaseTransaction(this.adapter);
+      const result = await work(tx);
+      await trackChanges(tx, this.deviceId);
+
+      try {
+        await tx.commit();
+        changeFeed.publish(tx.getChanges());
+        return result;
+      } catch (error) {
+        if (!(error instanceof StaleWriteError) || attempt >= maxAttempts) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  // Open and migrate the database, and load the scheduling data whose reads
+  // are synchronous
+  async open(): Promise<void> {
+    await this.ready();
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    await this.ready();
+    return await this.adapter.getMeta<number>('schema_version') || 0;
+  }
+
+  async getMigrationLog(): Promise<MigrationLogEntry[]> {
+    await this.ready();
+    return await this.adapter.getMeta<MigrationLogEntry[]>('migration_log') || [];
+  }
+
+  // Newest schema version this build can read
+  getSupportedSchemaVersion(): number {
+    return latestVersion(shopDatabaseMigrations);
+  }
+
+  async getDeviceId(): Promise<string> {
+    await this.ready();
+    return this.deviceId;
+  }
+
+  // Device-local bookkeeping (e.g. the sync cursor); not synced
+  async getMeta<V>(key: string): Promise<V | null> {
+    await this.ready();
+    return this.adapter.getMeta<V>(key);
+  }
+
+  async setMeta<V>(key: string, value: V): Promise<void> {
+    await this.ready();
+    await this.adapter.setMeta(key, value);
+  }
+
+  // Customer operations
+  async createCustomer(customerData: Omit<Customer, 'id' | 'created_at' | 'updated_at'>): Promise<Customer> {
+    const now = Date.now();
+
+    const customer: Customer = {
+      id: uuidv4(),
+      ...customerData,
+      created_at: now,
+      updated_at: now,
+    };
+
+    return this.transaction(async tx => tx.put('customers', customer));
+  }
+
+  async getCustomers(): Promise<Customer[]> {
+    await this.ready();
+    const customers = await this.adapter.getAll('customers');
+    return customers.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findCustomerByPhone(phone: string): Promise<Customer | null> {
+    await this.ready();
+    const matches = await this.adapter.getByIndex('customers', 'idx_customers_phone', phone);
+    return matches[0] || null;
+  }
+
+  // Vehicle operations
+  async createVehicle(vehicleData: Omit<Vehicle, 'id' | 'created_at' | 'updated_at'>): Promise<Vehicle> {
+    const now = Date.now();
+
+    const vehicle: Vehicle = {
+      id: uuidv4(),
+      ...vehicleData,
+      created_at: now,
+      updated_at: now,
+    };
+
+    return this.transaction(async tx => tx.put('vehicles', vehicle));
+  }
+
+  async findVehicleByVin(vin: string): Promise<Vehicle | null> {
+    await this.ready();
+    const matches = await this.adapter.getByIndex('vehicles', 'idx_vehicles_vin', vin);
+    return matches[0] || null;
+  }
+
+  // Check-in operations
+  async createCheckIn(checkInData: Omit<CheckIn, 'id' | 'created_at'>): Promise<CheckIn> {
+    const checkIn: CheckIn = {
+      id: uuidv4(),
+      ...checkInData,
+      created_at: Date.now(),
+    };
+
+    return this.transaction(async tx => tx.put('check_ins', checkIn));
+  }
+
+  // Process customer check-in form. An appointment booked on the form is
+  // created for the customer and vehicle once the check-in is saved; if the
+  // slot was taken in the meantime the check-in is undone, so the customer
+  // can pick another time and submit again without leaving duplicates.
+  async processCustomerCheckIn(formData: CustomerCheckInForm): Promise<CheckIn> {
+    const { appointment } = formData;
+    const roster = appointment ? await this.getTechRoster() : undefined;
+    const conflict = appointment && schedulingService.validateAppointmentSlot(
+      new Date(appointment.scheduled_start),
+      new Date(appointment.scheduled_end),
+      appointment.service_type,
+      roster
+    );
+    if (conflict) {
+      throw new AppointmentConflictError(conflict);
+    }
+
+    // Customer, vehicle and check-in are written together or not at all
+    const { checkIn, newCustomer, newVehicle } = await this.transaction(async tx => {
+      const now = Date.now();
+
+      // Find or create customer
+      let customer: Customer | null =
+        (await tx.getByIndex('customers', 'idx_customers_phone', formData.customer.phone))[0] || null;
+      const newCustomer = !customer;
+      if (!customer) {
+        customer = tx.put('customers', {
+          id: uuidv4(),
+          ...formData.customer,
+          created_at: now,
+          updated_at: now,
+        });
+      }
+
+      // Find or create vehicle; a blank VIN is left unset
+      const vin = formData.vehicle.vin?.trim() || undefined;
+      let vehicle: Vehicle | null = null;
+      if (vin) {
+        vehicle = (await tx.getByIndex('vehicles', 'idx_vehicles_vin', vin))[0] || null;
+      }
+
+      const newVehicle = !vehicle;
+      if (!vehicle) {
+        vehicle = tx.put('vehicles', {
+          id: uuidv4(),
+          customer_id: customer.id,
+          ...formData.vehicle,
+          vin,
+          created_at: now,
+          updated_at: now,
+        });
+      }
+
+      // Create check-in record
+      const checkIn = tx.put('check_ins', {
+        id: uuidv4(),
+        customer_id: customer.id,
+        vehicle_id: vehicle.id,
+        status: 'pending',
+        customer_concern: formData.service.customer_concern,
+        mileage: formData.service.mileage,
+        appointment_date: appointment?.scheduled_start ?? (formData.service.appointment_date ?
+          new Date(formData.service.appointment_date).getTime() : undefined),
+        checked_in_at: now,
+        created_at: now,
+      });
+
+      return { checkIn, newCustomer, newVehicle };
+    });
+
+    if (appointment) {
+      try {
+        await schedulingService.bookAppointment({
+          ...appointment,
+          customer_id: checkIn.customer_id!,
+          vehicle_id: checkIn.vehicle_id,
+          status: 'scheduled',
+          priority: 'normal',
+          customer_notes: formData.service.customer_concern,
+          created_by: 'customer',
+        }, roster);
+      } catch (error) {
+        await this.transaction(async tx => {
+          tx.delete('check_ins', checkIn.id);
+          if (newVehicle) tx.delete('vehicles', checkIn.vehicle_id!);
+          if (newCustomer) tx.delete('customers', checkIn.customer_id!);
+        });
+        throw error;
+      }
+    }
+    return checkIn;
+  }
+
+  // Work order operations
+  async createWorkOrder(workOrderData: Omit<WorkOrder, 'id' | 'created_at' | 'updated_at'>): Promise<WorkOrder> {
+    const now = Date.now();
+
+    const workOrder: WorkOrder = {
+      id: uuidv4(),
+      ...workOrderData,
+      created_at: now,
+      updated_at: now,
+    };
+
+    return this.transaction(async tx => {
+      tx.put('work_order_status_history', statusChange(workOrder.id, undefined, workOrder.status, now));
+      return tx.put('work_orders', workOrder);
+    });
+  }
+
+  async createWorkOrderFromCheckIn(checkInId: string): Promise<WorkOrder> {
+    return this.transaction(async tx => {
+      // Get check-in data
+      const checkIn = await tx.get('check_ins', checkInId);
+      if (!checkIn) {
+        throw new Error('Check-in not found');
+      }
+      if (checkIn.status !== 'pending') {
+        throw new Error('A work order has already been created for this check-in');
+      }
+
+      // Create work order and update check-in in the same transaction
+      const now = Date.now();
+      const workOrder = tx.put('work_orders', {
+        id: uuidv4(),
+        vehicle_id: checkIn.vehicle_id!,
+        customer_id: checkIn.customer_id!,
+        status: 'pending',
+        mileage: checkIn.mileage,
+        customer_concern: checkIn.customer_concern,
+        created_at: now,
+        updated_at: now,
+      });
+
+      tx.put('work_order_status_history', statusChange(workOrder.id, undefined, workOrder.status, now));
+      tx.put('check_ins', { ...checkIn, status: 'work_order_created' });
+
+      return workOrder;
+    });
+  }
+
+  // Pass the `updated_at` the caller last saw to reject edits to a stale copy.
+  // Status changes go through transitionWorkOrder.
+  async updateWorkOrder(workOrderId: string, updates: Partial<WorkOrder>, expectedVersion?: number): Promise<WorkOrder | null> {
+    return this.transaction(async tx => {
+      const workOrder = await tx.get('work_orders', workOrderId);
+
+      if (!workOrder) return null;
+      if (expectedVersion !== undefined && workOrder.updated_at !== expectedVersion) {
+        throw new StaleWriteError('work_orders', workOrderId);
+      }
+      if (updates.status !== undefined && updates.status !== workOrder.status) {
+        throw new Error('Use transitionWorkOrder to change a work order\'s status');
+      }
+
+      return tx.put('work_orders', { ...workOrder, ...updates });
+    });
+  }
+
+  // Move a work order to a new status, enforcing the allowed transitions and
+  // their guards (see workOrderStatus.ts) and recording the change in its history.
+  // `updates` are applied alongside the status change, e.g. the assigned tech.
+  // Completing with no approved work throws NoApprovedWorkError unless
+  // `completeWithoutApproval` gives the reason; completing with money still
+  // owed throws OutstandingBalanceError unless `allowOutstandingBalance` is set.
+  async transitionWorkOrder(
+    workOrderId: string,
+    toStatus: WorkOrderStatus,
+    options: {
+      expectedVersion?: number;
+      changedBy?: string;
+      note?: string;
+      updates?: Partial<Omit<WorkOrder, 'id' | 'status'>>;
+      allowOutstandingBalance?: boolean;
+      completeWithoutApproval?: string;
+    } = {}
+  ): Promise<WorkOrder> {
+    return this.transaction(tx => this.stageTransition(tx, workOrderId, toStatus, options));
+  }
+
+  // Stage a status change inside a larger transaction; line items staged
+  // earlier in the same transaction count towards the guards
+  private async stageTransition(
+    tx: DatabaseTransaction,
+    workOrderId: string,
+    toStatus: WorkOrderStatus,
+    options: {
+      expectedVersion?: number;
+      changedBy?: string;
+      note?: string;
+      updates?: Partial<Omit<WorkOrder, 'id' | 'status'>>;
+      allowOutstandingBalance?: boolean;
+      completeWithoutApproval?: string;
+    }
+  ): Promise<WorkOrder> {
+    const workOrder = await tx.get('work_orders', workOrderId);
+
+    if (!workOrder) {
+      throw new Error('Work order not found');
+    }
+    if (options.expectedVersion !== undefined && workOrder.updated_at !== options.expectedVersion) {
+      throw new StaleWriteError('work_orders', workOrderId);
+    }
+
+    const lineItems = await tx.getByIndex('line_items', 'idx_line_items_work_order_id', workOrderId);
+    assertTransition({ workOrder, lineItems }, toStatus);
+
+    let note = options.note;
+    if (toStatus === 'completed' && !lineItems.some(item => item.approved)) {
+      const reason = options.completeWithoutApproval?.trim();
+      if (!reason) {
+        throw new NoApprovedWorkError(workOrder.status);
+      }
+      note = [`Completed without approved work: ${reason}`, note].filter(Boolean).join('. ');
+    }
+    if (toStatus === 'completed') {
+      const balance = balanceDue(workOrder);
+      if (balance > 0 && !options.allowOutstandingBalance) {
+        throw new OutstandingBalanceError(workOrder.status, balance);
+      }
+      if (balance > 0) {
+        note = [`Completed with ${formatCents(balance)} outstanding`, note].filter(Boolean).join('. ');
+      }
+    }
+
+    // The approved parts leave the shelf with the job, or go back to stock
+    const approvedItems = lineItems.filter(item => item.approved);
+    if (toStatus === 'completed') {
+      await this.stageInventoryMovements(tx, workOrderId, 'consume', approvedItems, options.changedBy);
+    } else if (toStatus === 'cancelled') {
+      await this.stageInventoryMovements(tx, workOrderId, 'release', approvedItems, options.changedBy);
+    }
+
+    const now = Date.now();
+    tx.put('work_order_status_history', statusChange(workOrderId, workOrder.status, toStatus, now, { ...options, note }));
+
+    return tx.put('work_orders', applyTransition({ ...workOrder, ...options.updates }, toStatus, now));
+  }
+
+  async getWorkOrderStatusHistory(workOrderId: string): Promise<WorkOrderStatusChange[]> {
+    await this.ready();
+    const history = await this.adapter.getByIndex('work_order_status_history', 'idx_work_order_status_history_work_order_id', workOrderId);
+    return history.sort((a, b) => a.changed_at - b.changed_at);
+  }
+
+  // Estimate operations. Each estimate revision is its own record; see estimateRevisions.ts
+  async getEstimatesForWorkOrder(workOrderId: string): Promise<EstimateRequest[]> {
+    await this.ready();
+    const estimates = await this.adapter.getByIndex('estimate_requests', 'idx_estimate_requests_work_order_id', workOrderId);
+    return estimates.sort((a, b) => a.revision - b.revision);
+  }
+
+  async getDraftEstimate(workOrderId: string): Promise<EstimateRequest | null> {
+    const estimates = await this.getEstimatesForWorkOrder(workOrderId);
+    return estimates.find(estimate => estimate.status === 'draft') || null;
+  }
+
+  // The approved work on the work order, as estimate items; new revisions start from these
+  async getApprovedEstimateItems(workOrderId: string): Promise<EstimateLineItem[]> {
+    await this.ready();
+    const [estimates, lineItems] = await Promise.all([
+      this.adapter.getByIndex('estimate_requests', 'idx_estimate_requests_work_order_id', workOrderId),
+      this.adapter.getByIndex('line_items', 'idx_line_items_work_order_id', workOrderId),
+    ]);
+    return approvedEstimateItems(estimates, lineItems);
+  }
+
+  // Create or update the work order's draft estimate; a work order has at most one draft
+  async saveEstimateDraft(workOrderId: string, techId: string, draft: EstimateDraft): Promise<EstimateRequest> {
+    return this.transaction(tx => this.stageEstimateDraft(tx, workOrderId, techId, draft));
+  }
+
+  // Submit the draft for approval. Items added or changed since the approved
+  // work become unapproved line items on the work order, and the work order
+  // moves to awaiting_approval.
+  async submitEstimate(workOrderId: string, techId: string, draft: EstimateDraft): Promise<EstimateRequest> {
+    return this.transaction(async tx => {
+      const estimates = await tx.getByIndex('estimate_requests', 'idx_estimate_requests_work_order_id', workOrderId);
+      if (estimates.some(estimate => estimate.status === 'submitted')) {
+        throw new Error('The previous estimate is still waiting for the customer\'s answer');
+      }
+
+      const estimate = await this.stageEstimateDraft(tx, workOrderId, techId, draft);
+      const lineItems = await tx.getByIndex('line_items', 'idx_line_items_work_order_id', workOrderId);
+      const baseLineItems = approvedEstimateItems(estimates, lineItems);
+      const changes = diffEstimateItems(baseLineItems, estimate.line_items);
+
+      if (!changes.some(change => change.type !== 'unchanged')) {
+        throw new Error('This estimate doesn\'t change the approved work');
+      }
+
+      const now = Date.now();
+      changes.filter(needsDecision).forEach(({ item }) => {
+        const lineItem: LineItem = {
+          id: uuidv4(),
+          work_order_id: workOrderId,
+          type: item.type,
+          description: item.description,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          total_price: item.total_price,
+          approved: false,
+          estimate_request_id: estimate.id,
+          estimate_line_item_id: item.id,
+          catalog_part_id: item.catalog_part_id,
+          created_at: now,
+          updated_at: now,
+        };
+        tx.put('line_items', lineItem);
+      });
+
+      await this.stageTransition(tx, workOrderId, 'awaiting_approval', {
+        changedBy: techId,
+        note: estimate.revision > 1
+          ? `Estimate revision ${estimate.revision} submitted`
+          : `Estimate submitted (${formatCents(estimate.total_estimate)})`,
+      });
+      await this.stageLineItemTotals(tx, workOrderId);
+
+      return tx.put('estimate_requests', {
+        ...estimate,
+        status: 'submitted',
+        base_line_items: baseLineItems,
+        submitted_at: now,
+        approval_token: uuidv4(),
+      });
+    });
+  }
+
+  // Record the customer's answer to a submitted estimate: `decisions` maps the
+  // ids of its line items to approved (true) or declined (false). An approved
+  // change replaces the line item it changes; items the revision removed are
+  // dropped. The work order moves to approved if any work is approved,
+  // otherwise back to the tech.
+  async respondToEstimate(
+    estimateId: string,
+    decisions: Record<string, boolean>,
+    signature: EstimateSignature
+  ): Promise<EstimateRequest> {
+    if (!signature.signer_name.trim() || (signature.method === 'drawn' && !signature.image)) {
+      throw new Error('A signature is required');
+    }
+
+    return this.transaction(async tx => {
+      const estimate = await tx.get('estimate_requests', estimateId);
+      if (!estimate) {
+        throw new Error('Estimate not found');
+      }
+      if (estimate.status !== 'submitted') {
+        throw new Error('This estimate has already been answered');
+      }
+
+      const workOrderId = estimate.work_order_id;
+      const lineItems = await tx.getByIndex('line_items', 'idx_line_items_work_order_id', workOrderId);
+      const revisionItems = lineItems.filter(item => item.estimate_request_id === estimateId);
+      if (revisionItems.some(item => decisions[item.id] === undefined)) {
+        throw new Error('Approve or decline every item before signing');
+      }
+
+      // Approved line items this revision replaces or removes
+      const replacedIds = new Set<string>([
+        ...revisionItems
+          .filter(item => decisions[item.id] && item.estimate_line_item_id)
+          .map(item => item.estimate_line_item_id!),
+        ...diffEstimateItems(estimate.base_line_items || [], estimate.line_items)
+          .filter(change => change.type === 'removed')
+          .map(change => change.item.id),
+      ]);
+
+      const replaced = lineItems
+        .filter(item => item.approved && item.estimate_request_id !== estimateId)
+        .filter(item => item.estimate_line_item_id && replacedIds.has(item.estimate_line_item_id));
+      replaced.forEach(item => tx.delete('line_items', item.id));
+
+      revisionItems.forEach(item => {
+        tx.put('line_items', { ...item, approved: decisions[item.id], declined: !decisions[item.id] });
+      });
+
+      // Approved parts are held on the shelf for this job
+      await this.stageInventoryMovements(tx, workOrderId, 'release', replaced, signature.signer_name);
+      await this.stageInventoryMovements(tx, workOrderId, 'allocate', revisionItems.filter(item => decisions[item.id]), signature.signer_name);
+
+      const approvedCount = revisionItems.filter(item => decisions[item.id]).length;
+      const remaining = await tx.getByIndex('line_items', 'idx_line_items_work_order_id', workOrderId);
+
+      const workOrder = await tx.get('work_orders', workOrderId);
+      if (workOrder?.status === 'awaiting_approval') {
+        await this.stageTransition(tx, workOrderId, remaining.some(item => item.approved) ? 'approved' : 'in_progress', {
+          note: `${approvedCount} of ${revisionItems.length} estimate items approved by ${signature.signer_name}`,
+        });
+      }
+      await this.stageLineItemTotals(tx, workOrderId);
+
+      return tx.put('estimate_requests', {
+        ...estimate,
+        status: approvedCount > 0 || revisionItems.length === 0 ? 'approved' : 'rejected',
+        responded_at: signature.signed_at,
+        customer_signature: signature,
+      });
+    });
+  }
+
+  async getEstimateByApprovalToken(token: string): Promise<EstimateRequest | null> {
+    await this.ready();
+    const [estimate] = await this.adapter.getByIndex('estimate_requests', 'idx_estimate_requests_approval_token', token);
+    return estimate || null;
+  }
+
+  async getLineItemsForEstimate(estimate: EstimateRequest): Promise<LineItem[]> {
+    await this.ready();
+    const lineItems = await this.adapter.getByIndex('line_items', 'idx_line_items_work_order_id', estimate.work_order_id);
+    return lineItems
+      .filter(item => item.estimate_request_id === estimate.id)
+      .sort((a, b) => a.created_at - b.created_at);
+  }
+
+  private async stageEstimateDraft(
+    tx: DatabaseTransaction,
+    workOrderId: string,
+    techId: string,
+    draft: EstimateDraft
+  ): Promise<EstimateRequest> {
+    const estimates = await tx.getByIndex('estimate_requests', 'idx_estimate_requests_work_order_id', workOrderId);
+    const existing = estimates.find(estimate => estimate.status === 'draft');
+    const original = estimates.find(estimate => estimate.revision === 1);
+    const revision = existing?.revision || Math.max(0, ...estimates.map(estimate => estimate.revision)) + 1;
+    const now = Date.now();
+
+    return tx.put('estimate_requests', {
+      id: existing?.id || uuidv4(),
+      work_order_id: workOrderId,
+      tech_id: techId,
+      line_items: draft.line_items,
+      labor_hours: draft.line_items
+        .filter(item => item.type === 'labor')
+        .reduce((hours, item) => hours + item.quantity, 0),
+      total_estimate: pricingEngine.calculateEstimateTotal(draft.line_items, await this.loadTaxContext(tx, workOrderId)).total,
+      photos: draft.photos,
+      notes: draft.notes,
+      status: 'draft',
+      revision,
+      original_estimate_id: revision > 1 ? original?.id : undefined,
+      created_at: existing?.created_at || now,
+      updated_at: now,
+    });
+  }
+
+  // Keep the work order's approved, pending and due totals in step with its line items
+  private async stageLineItemTotals(tx: DatabaseTransaction, workOrderId: string): Promise<void> {
+    const workOrder = await tx.get('work_orders', workOrderId);
+    if (!workOrder) return;
+
+    const lineItems = await tx.getByIndex('line_items', 'idx_line_items_work_order_id', workOrderId);
+    const taxContext = await this.loadTaxContext(tx, workOrderId);
+    tx.put('work_orders', { ...workOrder, ...lineItemTotals(lineItems), amount_due: amountDue(lineItems, taxContext) });
+  }
+
+  // Tax operations. Work orders are taxed with the default profile unless the
+  // customer is tax exempt; see taxEngine.ts
+  async getTaxContext(workOrderId: string): Promise<TaxContext> {
+    await this.ready();
+    return this.loadTaxContext(this.adapter, workOrderId);
+  }
+
+  // Reads through a transaction when called while staging writes
+  private async loadTaxContext(reader: Pick<StorageAdapter, 'get' | 'getAll'>, workOrderId: string): Promise<TaxContext> {
+    const workOrder = await reader.get('work_orders', workOrderId);
+    const profiles = await reader.getAll('tax_profiles');
+
+    return {
+      profile: profiles.find(profile => profile.is_default) || null,
+      customer: workOrder ? await reader.get('customers', workOrder.customer_id) : null,
+    };
+  }
+
+  async getTaxProfiles(): Promise<TaxProfile[]> {
+    await this.ready();
+    const profiles = await this.adapter.getAll('tax_profiles');
+    return profiles.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Create or update a profile. Changing the default profile recalculates
+  // what every open work order owes.
+  async saveTaxProfile(profileData: Omit<TaxProfile, 'created_at' | 'updated_at'>): Promise<TaxProfile> {
+    const reason = validateTaxProfile(profileData);
+    if (reason) {
+      throw new Error(reason);
+    }
+
+    return this.transaction(async tx => {
+      const existing = await tx.get('tax_profiles', profileData.id);
+      const profiles = await tx.getAll('tax_profiles');
+
+      if (existing?.is_default && !profileData.is_default) {
+        throw new Error('Make another profile the default instead');
+      }
+      for (const other of profiles) {
+        if (profileData.is_default && other.is_default && other.id !== profileData.id) {
+          tx.put('tax_profiles', { ...other, is_default: false });
+        }
+      }
+
+      const now = Date.now();
+      const profile = tx.put('tax_profiles', {
+        ...profileData,
+        is_default: profileData.is_default || profiles.length === 0,
+        created_at: existing?.created_at || now,
+        updated_at: now,
+      });
+
+      if (profile.is_default) {
+        await this.stageOpenWorkOrderTotals(tx, () => true);
+      }
+      return profile;
+    });
+  }
+
+  async deleteTaxProfile(profileId: string): Promise<void> {
+    await this.transaction(async tx => {
+      const profile = await tx.get('tax_profiles', profileId);
+      if (profile?.is_default) {
+        throw new Error('The default tax profile can\'t be deleted');
+      }
+      tx.delete('tax_profiles', profileId);
+    });
+  }
+
+  async updateCustomerTaxExemption(customerId: string, taxExempt: boolean, certificate?: string): Promise<Customer> {
+    if (taxExempt && !certificate?.trim()) {
+      throw new Error('Enter the customer\'s exemption certificate number');
+    }
 
-// Simple browser-based database using localStorage
-// This is a temporary solution for the MVP - can be replaced with IndexedDB or sql.js later
-
-interface StorageData {
-  customers: Customer[];
-  vehicles: Vehicle[];
-  work_orders: WorkOrder[];
-  line_items: LineItem[];
-  check_ins: CheckIn[];
-  common_services: CommonService[];
-  tech_profiles: TechProfile[];
-  time_entries: TimeEntry[];
-}
+    return this.transaction(async tx => {
+      const customer = await tx.get('customers', customerId);
+      if (!customer) {
+        throw new Error('Customer not found');
+      }
 
-class BrowserDatabaseService {
-  private storageKey = 'shop_database';
+      const updated = tx.put('customers', {
+        ...customer,
+        tax_exempt: taxExempt,
+        tax_exempt_certificate: taxExempt ? certificate!.trim() : undefined,
+      });
+      await this.stageOpenWorkOrderTotals(tx, workOrder => workOrder.customer_id === customerId);
+      return updated;
+    });
+  }
 
-  private getStorageData(): StorageData {
-    const saved = localStorage.getItem(this.storageKey);
-    if (saved) {
-      const data = JSON.parse(saved);
-      // Migrate data structure if missing new fields
-      return this.migrateStorageData(data);
-    }
-
-    // Initialize with default data
-    const initialData: StorageData = {
-      customers: [],
-      vehicles: [],
-      work_orders: [],
-      line_items: [],
-      check_ins: [],
-      tech_profiles: [
-        {
-          id: 'tech-001',
-          name: 'Mike Johnson',
-          employee_id: 'EMP001',
-          certifications: ['ASE A1', 'ASE A5', 'ASE A8'],
-          specialties: ['brake', 'suspension', 'general'],
-          hourly_rate: 45.00,
-          active: true,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-        {
-          id: 'tech-002',
-          name: 'Sarah Chen',
-          employee_id: 'EMP002',
-          certifications: ['ASE A6', 'ASE A7', 'ASE L1'],
-          specialties: ['electrical', 'engine', 'diagnostic'],
-          hourly_rate: 50.00,
-          active: true,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-        {
-          id: 'tech-003',
-          name: 'Carlos Rodriguez',
-          employee_id: 'EMP003',
-          certifications: ['ASE A2', 'ASE A3'],
-          specialties: ['transmission', 'engine', 'general'],
-          hourly_rate: 42.00,
-          active: true,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-      ],
-      time_entries: [],
-      common_services: [
-        {
-          id: 'oil-change',
-          name: 'Oil Change',
-          description: 'Engine oil and filter replacement',
-          category: 'maintenance',
-          base_price: 49.99,
-          labor_hours: 0.5,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-        {
-          id: 'brake-inspection',
-          name: 'Brake Inspection',
-          description: 'Complete brake system inspection',
-          category: 'inspection',
-          base_price: 39.99,
-          labor_hours: 0.75,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-        {
-          id: 'tire-rotation',
-          name: 'Tire Rotation',
-          description: 'Rotate tires for even wear',
-          category: 'maintenance',
-          base_price: 29.99,
-          labor_hours: 0.5,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-        {
-          id: 'brake-pads',
-          name: 'Brake Pad Replacement',
-          description: 'Replace front or rear brake pads',
-          category: 'repair',
-          base_price: 189.99,
-          labor_hours: 1.5,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-        {
-          id: 'alignment',
-          name: 'Wheel Alignment',
-          description: '4-wheel alignment service',
-          category: 'maintenance',
-          base_price: 89.99,
-          labor_hours: 1.0,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        }
-      ]
-    };
+  // Completed and cancelled work orders keep the amount they were closed with
+  private async stageOpenWorkOrderTotals(tx: DatabaseTransaction, include: (workOrder: WorkOrder) => boolean): Promise<void> {
+    for (const workOrder of await tx.getAll('work_orders')) {
+      if (workOrder.status === 'completed' || workOrder.status === 'cancelled' || !include(workOrder)) continue;
+      await this.stageLineItemTotals(tx, workOrder.id);
+    }
+  }
 
-    this.saveStorageData(initialData);
-    return initialData;
-  }
-
-  private migrateStorageData(data: any): StorageData {
-    // Ensure all required fields exist with defaults
-    const migratedData: StorageData = {
-      customers: data.customers || [],
-      vehicles: data.vehicles || [],
-      work_orders: data.work_orders || [],
-      line_items: data.line_items || [],
-      check_ins: data.check_ins || [],
-      tech_profiles: data.tech_profiles || [
-        {
-          id: 'tech-001',
-          name: 'Mike Johnson',
-          employee_id: 'EMP001',
-          certifications: ['ASE A1', 'ASE A5', 'ASE A8'],
-          specialties: ['brake', 'suspension', 'general'],
-          hourly_rate: 45.00,
-          active: true,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-        {
-          id: 'tech-002',
-          name: 'Sarah Chen',
-          employee_id: 'EMP002',
-          certifications: ['ASE A6', 'ASE A7', 'ASE L1'],
-          specialties: ['electrical', 'engine', 'diagnostic'],
-          hourly_rate: 50.00,
-          active: true,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-        {
-          id: 'tech-003',
-          name: 'Carlos Rodriguez',
-          employee_id: 'EMP003',
-          certifications: ['ASE A2', 'ASE A3'],
-          specialties: ['transmission', 'engine', 'general'],
-          hourly_rate: 42.00,
-          active: true,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-      ],
-      time_entries: data.time_entries || [],
-      common_services: data.common_services || [
-        {
-          id: 'service-001',
-          name: 'Oil Change',
-          description: 'Standard oil and filter change',
-          category: 'maintenance',
-          base_price: 45.99,
-          labor_hours: 0.5,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-        {
-          id: 'service-002',
-          name: 'Brake Inspection',
-          description: 'Visual inspection of brake system',
-          category: 'brake',
-          base_price: 29.99,
-          labor_hours: 0.25,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-        {
-          id: 'service-003',
-          name: 'Battery Test',
-          description: 'Battery and charging system test',
-          category: 'electrical',
-          base_price: 19.99,
-          labor_hours: 0.25,
-          created_at: Date.now(),
-          updated_at: Date.now(),
-        },
-      ],
-    };
+  // Parts catalog operations; see partsCatalog.ts
+  async getCatalogParts(): Promise<CatalogPart[]> {
+    await this.ready();
+    const parts = await this.adapter.getAll('parts_catalog');
+    return parts.sort((a, b) => a.part_number.localeCompare(b.part_number));
+  }
 
-    // Save migrated data back to storage
-    this.saveStorageData(migratedData);
-    return migratedData;
+  async getPartPriceHistory(partId: string): Promise<PartPriceChange[]> {
+    await this.ready();
+    const history = await this.adapter.getByIndex('part_price_history', 'idx_part_price_history_part_id', partId);
+    return history.sort((a, b) => b.changed_at - a.changed_at);
   }
 
-  private saveStorageData(data: StorageData): void {
-    localStorage.setItem(this.storageKey, JSON.stringify(data));
+  // Add a part, or update the one with the same part number and supplier.
+  // Cost and list price changes go into the part's price history.
+  async saveCatalogPart(partData: CatalogPartInput & { id?: string }): Promise<CatalogPart> {
+    if (!partData.part_number.trim() || !partData.description.trim()) {
+      throw new Error('A part needs a part number and a description');
+    }
+    if (!(Number.isInteger(partData.cost) && partData.cost >= 0)) {
+      throw new Error('The cost must be $0.00 or more');
+    }
+
+    return this.transaction(async tx => {
+      const parts = await tx.getAll('parts_catalog');
+      const duplicate = parts.find(other => other.id !== partData.id && catalogKey(other) === catalogKey(partData));
+      if (duplicate && partData.id) {
+        throw new Error(`${duplicate.part_number} from ${duplicate.supplier || 'no supplier'} is already in the catalog`);
+      }
+
+      const existing = parts.find(other => other.id === partData.id) || duplicate;
+      return this.stageCatalogPart(tx, partData, existing, 'manual');
+    });
   }
 
-  // Customer operations
-  createCustomer(customerData: Omit<Customer, 'id' | 'created_at' | 'updated_at'>): Customer {
-    const data = this.getStorageData();
-    const now = Date.now();
+  // Only parts that never moved stock can be removed; the adjustments and
+  // receipts of any other part are the inventory audit trail
+  async deleteCatalogPart(partId: string): Promise<void> {
+    await this.transaction(async tx => {
+      const part = await tx.get('parts_catalog', partId);
+      if (!part) return;
+
+      const adjustments = await tx.getByIndex('inventory_adjustments', 'idx_inventory_adjustments_part_id', partId);
+      const received = (await tx.getAll('part_receipts')).some(receipt => receipt.part_id === partId);
+      if (adjustments.length > 0 || received) {
+        throw new Error(`${part.part_number} has stock history, so it can't be removed from the catalog.`);
+      }
 
-    const customer: Customer = {
-      id: uuidv4(),
-      ...customerData,
-      created_at: now,
-      updated_at: now,
-    };
+      const ordered = (await tx.getAll('purchase_orders')).some(order => order.lines.some(line => line.part_id === partId));
+      if (ordered) {
+        throw new Error(`${part.part_number} is on a purchase order, so it can't be removed from the catalog.`);
+      }
 
-    data.customers.push(customer);
-    this.saveStorageData(data);
-    return customer;
+      for (const change of await tx.getByIndex('part_price_history', 'idx_part_price_history_part_id', partId)) {
+        tx.delete('part_price_history', change.id);
+      }
+      tx.delete('inventory', partId);
+      tx.delete('parts_catalog', partId);
+    });
   }
 
-  findCustomerByPhone(phone: string): Customer | null {
-    const data = this.getStorageData();
-    return data.customers.find(c => c.phone === phone) || null;
+  // Import a supplier price list in one transaction. Parts already in the
+  // catalog are updated; a part repeated within the list is counted once.
+  async importCatalogParts(inputs: CatalogPartInput[]): Promise<CatalogImportSummary> {
+    return this.transaction(async tx => {
+      const existing = new Map((await tx.getAll('parts_catalog')).map(part => [catalogKey(part), part]));
+      const seen = new Set<string>();
+      const summary: CatalogImportSummary = { added: 0, updated: 0, unchanged: 0, duplicates: 0 };
+
+      for (const input of inputs) {
+        const key = catalogKey(input);
+        if (seen.has(key)) {
+          summary.duplicates++;
+          continue;
+        }
+        seen.add(key);
+
+        // Columns missing from the price list keep what the catalog has
+        const part = existing.get(key);
+        const provided = Object.fromEntries(
+          Object.entries(input).filter(([, value]) => value !== undefined)
+        ) as Partial<CatalogPartInput>;
+        const changed = !part || (Object.keys(provided) as (keyof CatalogPartInput)[])
+          .some(field => provided[field] !== part[field]);
+        if (!changed) {
+          summary.unchanged++;
+          continue;
+        }
+
+        this.stageCatalogPart(tx, { ...part, ...provided } as CatalogPartInput, part, 'import');
+        summary[part ? 'updated' : 'added']++;
+      }
+      return summary;
+    });
   }
 
-  // Vehicle operations
-  createVehicle(vehicleData: Omit<Vehicle, 'id' | 'created_at' | 'updated_at'>): Vehicle {
-    const data = this.getStorageData();
+  private stageCatalogPart(
+    tx: DatabaseTransaction,
+    partData: CatalogPartInput,
+    existing: CatalogPart | undefined,
+    source: PartPriceChange['source']
+  ): CatalogPart {
     const now = Date.now();
-
-    const vehicle: Vehicle = {
-      id: uuidv4(),
-      ...vehicleData,
-      created_at: now,
+    const part = tx.put('parts_catalog', {
+      ...partData,
+      id: existing?.id || uuidv4(),
+      part_number: partData.part_number.trim(),
+      description: partData.description.trim(),
+      created_at: existing?.created_at || now,
       updated_at: now,
-    };
+    });
 
-    data.vehicles.push(vehicle);
-    this.saveStorageData(data);
-    return vehicle;
+    if (existing && (existing.cost !== part.cost || existing.list_price !== part.list_price)) {
+      tx.put('part_price_history', {
+        id: uuidv4(),
+        part_id: part.id,
+        source,
+        cost_before: existing.cost,
+        cost_after: part.cost,
+        list_price_before: existing.list_price,
+        list_price_after: part.list_price,
+        changed_at: now,
+        created_at: now,
+        updated_at: now,
+      });
+    }
+    return part;
   }
 
-  findVehicleByVin(vin: string): Vehicle | null {
-    const data = this.getStorageData();
-    return data.vehicles.find(v => v.vin === vin) || null;
+  // Inventory operations; see inventory.ts
+  async getInventory(): Promise<InventoryItem[]> {
+    await this.ready();
+    return this.adapter.getAll('inventory');
   }
 
-  // Check-in operations
-  createCheckIn(checkInData: Omit<CheckIn, 'id' | 'created_at'>): CheckIn {
-    const data = this.getStorageData();
-    const now = Date.now();
+  async getInventoryAdjustments(partId: string): Promise<InventoryAdjustment[]> {
+    await this.ready();
+    const adjustments = await this.adapter.getByIndex('inventory_adjustments', 'idx_inventory_adjustments_part_id', partId);
+    return adjustments.sort((a, b) => b.created_at - a.created_at);
+  }
 
-    const checkIn: CheckIn = {
-      id: uuidv4(),
-      ...checkInData,
-      created_at: now,
-    };
+  // Start stocking a part, or change where it's kept and when to reorder it
+  async saveInventorySettings(
+    partId: string,
+    settings: Pick<InventoryItem, 'bin_location' | 'reorder_point' | 'reorder_quantity'>
+  ): Promise<InventoryItem> {
+    const invalid = validateInventorySettings(settings);
+    if (invalid) {
+      throw new Error(invalid);
+    }
 
-    data.check_ins.push(checkIn);
-    this.saveStorageData(data);
-    return checkIn;
+    return this.transaction(async tx => {
+      if (!await tx.get('parts_catalog', partId)) {
+        throw new Error('Part not found');
+      }
+      const existing = await tx.get('inventory', partId);
+      const now = Date.now();
+
+      return tx.put('inventory', {
+        id: partId,
+        on_hand: existing?.on_hand || 0,
+        allocated: existing?.allocated || 0,
+        bin_location: settings.bin_location?.trim() || undefined,
+        reorder_point: settings.reorder_point,
+        reorder_quantity: settings.reorder_quantity,
+        created_at: existing?.created_at || now,
+        updated_at: now,
+      });
+    });
   }
 
-  // Process customer check-in form
-  processCustomerCheckIn(formData: CustomerCheckInForm): CheckIn {
-    // Find or create customer
-    let customer = this.findCustomerByPhone(formData.customer.phone);
-    if (!customer) {
-      customer = this.createCustomer(formData.customer);
+  // Record a shelf count; the difference from the expected stock is kept as an adjustment
+  async recordCycleCount(partId: string, counted: number, reason?: string, countedBy?: string): Promise<InventoryItem> {
+    if (!(Number.isInteger(counted) && counted >= 0)) {
+      throw new Error('The count must be a whole number, 0 or more');
     }
 
-    // Find or create vehicle
-    let vehicle: Vehicle | null = null;
-    if (formData.vehicle.vin) {
-      vehicle = this.findVehicleByVin(formData.vehicle.vin);
+    return this.transaction(async tx => {
+      const item = await tx.get('inventory', partId);
+      if (!item) {
+        throw new Error('This part isn\'t stocked');
+      }
+
+      const movement = applyMovement(item, 'cycle_count', counted, {
+        id: uuidv4(),
+        reason: reason?.trim() || undefined,
+        adjusted_by: countedBy,
+      }, Date.now());
+      tx.put('inventory_adjustments', movement.adjustment);
+      return tx.put('inventory', movement.item);
+    });
+  }
+
+  // Move the stocked catalog parts among `lineItems`; parts that aren't stocked are skipped
+  private async stageInventoryMovements(
+    tx: DatabaseTransaction,
+    workOrderId: string,
+    kind: InventoryMovementKind,
+    lineItems: LineItem[],
+    adjustedBy?: string
+  ): Promise<void> {
+    const now = Date.now();
+
+    for (const [partId, quantity] of partQuantities(lineItems)) {
+      const item = await tx.get('inventory', partId);
+      if (!item) continue;
+
+      const movement = applyMovement(item, kind, quantity, {
+        id: uuidv4(),
+        work_order_id: workOrderId,
+        adjusted_by: adjustedBy,
+      }, now);
+      tx.put('inventory_adjustments', movement.adjustment);
+      tx.put('inventory', movement.item);
     }
+  }
 
-    if (!vehicle) {
-      vehicle = this.createVehicle({
-        customer_id: customer.id,
-        ...formData.vehicle,
+  // Purchase order operations; see purchaseOrders.ts
+  async getPurchaseOrders(): Promise<PurchaseOrder[]> {
+    await this.ready();
+    const orders = await this.adapter.getAll('purchase_orders');
+    return orders.sort((a, b) => b.created_at - a.created_at);
+  }
+
+  async getPartReceipts(purchaseOrderId: string): Promise<PartReceipt[]> {
+    await this.ready();
+    const receipts = await this.adapter.getByIndex('part_receipts', 'idx_part_receipts_purchase_order_id', purchaseOrderId);
+    return receipts.sort((a, b) => a.received_at - b.received_at);
+  }
+
+  // Add what needs ordering, either to restock low parts or for approved job
+  // parts the shop doesn't stock, to each supplier's draft order. Returns the
+  // drafts that changed.
+  async generatePurchaseOrders(source: 'low_stock' | 'jobs'): Promise<PurchaseOrder[]> {
+    return this.transaction(async tx => {
+      const [parts, inventory, orders] = await Promise.all([
+        tx.getAll('parts_catalog'),
+        tx.getAll('inventory'),
+        tx.getAll('purchase_orders'),
+      ]);
+      const needs = source === 'low_stock'
+        ? lowStockNeeds(inventory, parts, orders)
+        : jobNeeds(await tx.getAll('work_orders'), await tx.getAll('line_items'), inventory, parts, orders);
+
+      const now = Date.now();
+      return [...groupBySupplier(needs)].map(([supplier, supplierNeeds]) => {
+        const draft = orders.find(order => order.status === 'draft' && order.supplier === supplier);
+        return tx.put('purchase_orders', {
+          id: draft?.id || uuidv4(),
+          supplier,
+          status: 'draft',
+          lines: mergeNeeds(draft?.lines || [], supplierNeeds, uuidv4),
+          notes: draft?.notes,
+          created_at: draft?.created_at || now,
+          updated_at: now,
+        });
       });
+    });
+  }
+
+  // Change the quantities or notes of a draft; lines with no quantity are dropped
+  async updatePurchaseOrderDraft(orderId: string, lines: PurchaseOrderLine[], notes?: string): Promise<PurchaseOrder> {
+    if (lines.some(line => !(Number.isInteger(line.quantity_ordered) && line.quantity_ordered >= 0))) {
+      throw new Error('Quantities must be whole numbers');
     }
 
-    // Create check-in record
-    const checkIn = this.createCheckIn({
-      customer_id: customer.id,
-      vehicle_id: vehicle.id,
-      status: 'pending',
-      customer_concern: formData.service.customer_concern,
-      mileage: formData.service.mileage,
-      appointment_date: formData.service.appointment_date ?
-        new Date(formData.service.appointment_date).getTime() : undefined,
-      checked_in_at: Date.now(),
+    return this.transaction(async tx => {
+      const order = await tx.get('purchase_orders', orderId);
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
+      if (order.status !== 'draft') {
+        throw new Error('Only draft purchase orders can be changed');
+      }
+
+      return tx.put('purchase_orders', {
+        ...order,
+        lines: lines.filter(line => line.quantity_ordered > 0),
+        notes: notes?.trim() || undefined,
+      });
     });
+  }
 
-    return checkIn;
+  // Send a draft to the supplier; jobs it orders parts for wait on them
+  async placePurchaseOrder(orderId: string): Promise<PurchaseOrder> {
+    return this.transaction(async tx => {
+      const order = await tx.get('purchase_orders', orderId);
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
+      if (order.status !== 'draft') {
+        throw new Error('This purchase order has already been placed');
+      }
+      if (order.lines.length === 0) {
+        throw new Error('Add parts to the purchase order first');
+      }
+
+      const placed = tx.put('purchase_orders', { ...order, status: 'ordered', ordered_at: Date.now() });
+      await this.stageWaitingOnParts(tx, placed.lines);
+      return placed;
+    });
   }
 
-  // Work order operations
-  createWorkOrder(workOrderData: Omit<WorkOrder, 'id' | 'created_at' | 'updated_at'>): WorkOrder {
-    const data = this.getStorageData();
-    const now = Date.now();
+  // Receive a delivery. `receipts` gives the quantity of each line that
+  // arrived and the unit cost the supplier billed; the difference from the
+  // catalog cost is recorded. Parts the shop stocks go on the shelf. Anything
+  // not received stays on backorder.
+  async receivePurchaseOrder(
+    orderId: string,
+    receipts: { line_id: string; quantity: number; unit_cost: Cents }[],
+    receivedBy?: string
+  ): Promise<PurchaseOrder> {
+    return this.transaction(async tx => {
+      const order = await tx.get('purchase_orders', orderId);
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
+      if (!isAwaitingDelivery(order)) {
+        throw new Error('Nothing is expected on this purchase order');
+      }
 
-    const workOrder: WorkOrder = {
-      id: uuidv4(),
-      ...workOrderData,
-      created_at: now,
-      updated_at: now,
-    };
+      const now = Date.now();
+      const lines = [...order.lines];
+      for (const receipt of receipts.filter(receipt => receipt.quantity > 0)) {
+        const index = lines.findIndex(line => line.id === receipt.line_id);
+        const line = lines[index];
+        if (!line) {
+          throw new Error('That part isn\'t on this purchase order');
+        }
+        if (!Number.isInteger(receipt.quantity) || receipt.quantity > openQuantity(line)) {
+          throw new Error(`Only ${openQuantity(line)} of ${line.part_number} are still expected`);
+        }
+        if (!(Number.isInteger(receipt.unit_cost) && receipt.unit_cost >= 0)) {
+          throw new Error(`Enter the cost billed for ${line.part_number}`);
+        }
+
+        const catalogCost = (await tx.get('parts_catalog', line.part_id))?.cost ?? line.unit_cost;
+        tx.put('part_receipts', {
+          id: uuidv4(),
+          purchase_order_id: orderId,
+          line_id: line.id,
+          part_id: line.part_id,
+          quantity: receipt.quantity,
+          unit_cost: receipt.unit_cost,
+          catalog_cost: catalogCost,
+          cost_variance: receipt.unit_cost - catalogCost,
+          received_by: receivedBy,
+          received_at: now,
+          created_at: now,
+          updated_at: now,
+        });
+
+        const stock = await tx.get('inventory', line.part_id);
+        if (stock) {
+          const movement = applyMovement(stock, 'receive', receipt.quantity, {
+            id: uuidv4(),
+            work_order_id: line.work_order_id,
+            reason: `Purchase order from ${order.supplier}`,
+            adjusted_by: receivedBy,
+          }, now);
+          tx.put('inventory_adjustments', movement.adjustment);
+          tx.put('inventory', movement.item);
+        }
+
+        lines[index] = { ...line, quantity_received: line.quantity_received + receipt.quantity };
+      }
+
+      return this.stageReceivingStatus(tx, { ...order, lines }, now);
+    });
+  }
+
+  // Stop waiting for what's left on a placed order, or cancel a draft
+  async closePurchaseOrder(orderId: string): Promise<PurchaseOrder> {
+    return this.transaction(async tx => {
+      const order = await tx.get('purchase_orders', orderId);
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
+      if (order.status === 'draft') {
+        return tx.put('purchase_orders', { ...order, status: 'cancelled' });
+      }
+      if (!isAwaitingDelivery(order)) {
+        throw new Error('This purchase order is already closed');
+      }
 
-    data.work_orders.push(workOrder);
-    this.saveStorageData(data);
-    return workOrder;
+      const lines = order.lines.map(line => openQuantity(line) > 0 ? { ...line, backorder_closed: true } : line);
+      return this.stageReceivingStatus(tx, { ...order, lines }, Date.now());
+    });
   }
 
-  createWorkOrderFromCheckIn(checkInId: string): WorkOrder {
-    const data = this.getStorageData();
+  private async stageReceivingStatus(tx: DatabaseTransaction, order: PurchaseOrder, now: number): Promise<PurchaseOrder> {
+    const status = receivingStatus(order);
+    const updated = tx.put('purchase_orders', {
+      ...order,
+      status,
+      received_at: status === 'received' || status === 'cancelled' ? now : order.received_at,
+    });
+    await this.stageWaitingOnParts(tx, updated.lines);
+    return updated;
+  }
 
-    // Get check-in data
-    const checkIn = data.check_ins.find(ci => ci.id === checkInId);
-    if (!checkIn) {
-      throw new Error('Check-in not found');
+  // Flag or clear waiting on parts for the jobs the lines were ordered for
+  private async stageWaitingOnParts(tx: DatabaseTransaction, lines: PurchaseOrderLine[]): Promise<void> {
+    const workOrderIds = new Set(lines.flatMap(line => line.work_order_id ? [line.work_order_id] : []));
+    if (workOrderIds.size === 0) return;
+
+    const orders = await tx.getAll('purchase_orders');
+    for (const workOrderId of workOrderIds) {
+      const workOrder = await tx.get('work_orders', workOrderId);
+      const waiting = isWaitingOnParts(workOrderId, orders);
+      if (workOrder && !!workOrder.waiting_on_parts !== waiting) {
+        tx.put('work_orders', { ...workOrder, waiting_on_parts: waiting });
+      }
     }
+  }
 
-    // Create work order and update check-in in the same transaction
-    const now = Date.now();
-    const workOrder: WorkOrder = {
-      id: uuidv4(),
-      vehicle_id: checkIn.vehicle_id!,
-      customer_id: checkIn.customer_id!,
-      status: 'pending',
-      mileage: checkIn.mileage,
-      customer_concern: checkIn.customer_concern,
-      created_at: now,
-      updated_at: now,
+  // Labor rates, markup matrices and the customer's pricing level, for building estimates
+  async getPricingContext(workOrderId: string): Promise<PricingContext> {
+    await this.ready();
+    const workOrder = await this.adapter.get('work_orders', workOrderId);
+    const customer = workOrder ? await this.adapter.get('customers', workOrder.customer_id) : null;
+
+    return {
+      laborRates: await this.adapter.getAll('labor_rates'),
+      markupMatrices: await this.adapter.getAll('markup_matrices'),
+      pricingLevel: await this.adapter.get('pricing_levels', customer?.pricing_level || 'retail'),
     };
+  }
+
+  async getLaborRates(): Promise<LaborRate[]> {
+    await this.ready();
+    const rates = await this.adapter.getAll('labor_rates');
+    return rates.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async saveLaborRate(rateData: Omit<LaborRate, 'created_at' | 'updated_at'>): Promise<LaborRate> {
+    const reason = validateLaborRate(rateData);
+    if (reason) {
+      throw new Error(reason);
+    }
+
+    return this.transaction(async tx => {
+      const existing = await tx.get('labor_rates', rateData.id);
+      const now = Date.now();
+      return tx.put('labor_rates', {
+        ...rateData,
+        minimum_charge: rateData.minimum_charge || undefined,
+        created_at: existing?.created_at || now,
+        updated_at: now,
+      });
+    });
+  }
+
+  async deleteLaborRate(rateId: string): Promise<void> {
+    if (rateId === GENERAL_LABOR_CATEGORY) {
+      throw new Error('The general labor rate can\'t be deleted');
+    }
+    await this.transaction(async tx => {
+      tx.delete('labor_rates', rateId);
+    });
+  }
+
+  async getPricingLevels(): Promise<PricingLevel[]> {
+    await this.ready();
+    const levels = await this.adapter.getAll('pricing_levels');
+    return levels.sort((a, b) => a.labor_rate_percentage === b.labor_rate_percentage
+      ? a.name.localeCompare(b.name)
+      : b.labor_rate_percentage - a.labor_rate_percentage);
+  }
+
+  async savePricingLevel(levelData: Omit<PricingLevel, 'created_at' | 'updated_at'>): Promise<PricingLevel> {
+    const reason = validatePricingLevel(levelData);
+    if (reason) {
+      throw new Error(reason);
+    }
+
+    return this.transaction(async tx => {
+      const existing = await tx.get('pricing_levels', levelData.id);
+      if (!existing) {
+        throw new Error('Pricing level not found');
+      }
+      return tx.put('pricing_levels', { ...existing, ...levelData });
+    });
+  }
+
+  async updateCustomerPricingLevel(customerId: string, pricingLevel: PricingLevelId): Promise<Customer> {
+    return this.transaction(async tx => {
+      const customer = await tx.get('customers', customerId);
+      if (!customer) {
+        throw new Error('Customer not found');
+      }
+      return tx.put('customers', { ...customer, pricing_level: pricingLevel === 'retail' ? undefined : pricingLevel });
+    });
+  }
+
+  // Parts markup operations; see markupMatrix.ts
+  async getMarkupMatrices(): Promise<MarkupMatrix[]> {
+    await this.ready();
+    const matrices = await this.adapter.getAll('markup_matrices');
+    return matrices.sort((a, b) => Number(isShopWide(b)) - Number(isShopWide(a)) || a.name.localeCompare(b.name));
+  }
+
+  // Create or update a matrix. Only one matrix may apply to each category,
+  // each supplier and the whole shop.
+  async saveMarkupMatrix(matrixData: Omit<MarkupMatrix, 'created_at' | 'updated_at'>): Promise<MarkupMatrix> {
+    const reason = validateMarkupMatrix(matrixData);
+    if (reason) {
+      throw new Error(reason);
+    }
+
+    return this.transaction(async tx => {
+      const existing = await tx.get('markup_matrices', matrixData.id);
+      const matrices = await tx.getAll('markup_matrices');
+
+      if (existing && isShopWide(existing) && !isShopWide(matrixData)) {
+        throw new Error('The shop-wide matrix can\'t be limited to a category or supplier');
+      }
+      const overlapping = matrices.find(other =>
+        other.id !== matrixData.id &&
+        (other.category || undefined) === (matrixData.category || undefined) &&
+        (other.supplier || undefined) === (matrixData.supplier || undefined)
+      );
+      if (overlapping) {
+        throw new Error(`"${overlapping.name}" already applies to these parts`);
+      }
+
+      const now = Date.now();
+      return tx.put('markup_matrices', {
+        ...matrixData,
+        category: matrixData.category || undefined,
+        supplier: matrixData.supplier || undefined,
+        tiers: [...matrixData.tiers].sort((a, b) => a.min_cost - b.min_cost),
+        created_at: existing?.created_at || now,
+        updated_at: now,
+      });
+    });
+  }
+
+  async deleteMarkupMatrix(matrixId: string): Promise<void> {
+    await this.transaction(async tx => {
+      const matrix = await tx.get('markup_matrices', matrixId);
+      if (matrix && isShopWide(matrix)) {
+        throw new Error('The shop-wide markup matrix can\'t be deleted');
+      }
+      tx.delete('markup_matrices', matrixId);
+    });
+  }
+
+  // Payment operations. Several entries recorded together are the tenders of
+  // one split payment. Payments and deposits can't exceed the balance due;
+  // a refund gives back part or all of an earlier payment by the same method.
+  async recordPayments(workOrderId: string, entries: PaymentEntry[]): Promise<Payment[]> {
+    return this.transaction(async tx => {
+      const workOrder = await tx.get('work_orders', workOrderId);
+      if (!workOrder) {
+        throw new Error('Work order not found');
+      }
+      if (entries.length === 0) {
+        throw new Error('Add at least one payment');
+      }
+
+      const existing = await tx.getByIndex('payments', 'idx_payments_work_order_id', workOrderId);
+      const received = entries.filter(entry => entry.kind !== 'refund');
+
+      if (entries.some(entry => !(Number.isInteger(entry.amount) && entry.amount > 0))) {
+        throw new Error('Payment amounts must be a whole number of cents greater than zero');
+      }
+      if (received.length > 0 && workOrder.status === 'cancelled') {
+        throw new Error('This work order was cancelled; only refunds can be recorded');
+      }
+      if (received.some(entry => entry.kind === 'deposit') && workOrder.status === 'completed') {
+        throw new Error('Deposits are taken before the job is completed');
+      }
+
+      const receivedTotal = sumCents(received.map(entry => entry.amount));
+      const balance = balanceDue({ amount_due: workOrder.amount_due, paid_total: paidTotal(existing) });
+      if (receivedTotal > balance) {
+        throw new Error(`The payment is more than the balance due of ${formatCents(Math.max(balance, 0))}`);
+      }
+
+      const refundTotals = new Map<string, number>();
+      for (const entry of entries.filter(entry => entry.kind === 'refund')) {
+        const original = existing.find(payment => payment.id === entry.refunded_payment_id);
+        if (!original) {
+          throw new Error('A refund must name the payment it gives money back from');
+        }
+        if (entry.method !== original.method) {
+          throw new Error('A refund goes back by the same method as the payment');
+        }
+
+        const refundTotal = (refundTotals.get(original.id) || 0) + entry.amount;
+        if (refundTotal > refundableAmount(original, existing)) {
+          throw new Error(`Only ${formatCents(refundableAmount(original, existing))} of that payment can be refunded`);
+        }
+        refundTotals.set(original.id, refundTotal);
+      }
+
+      const now = Date.now();
+      const splitGroupId = entries.length > 1 ? uuidv4() : undefined;
+      const payments = entries.map(entry => tx.put('payments', {
+        ...entry,
+        id: uuidv4(),
+        work_order_id: workOrderId,
+        split_group_id: splitGroupId,
+        created_at: now,
+        updated_at: now,
+      }));
+
+      tx.put('work_orders', { ...workOrder, paid_total: paidTotal([...existing, ...payments]) });
+      return payments;
+    });
+  }
+
+  // Card refunds still waiting on the processor, oldest first
+  async getPendingRefunds(): Promise<Payment[]> {
+    await this.ready();
+    const payments = await this.adapter.getAll('payments');
+    return payments
+      .filter(payment => payment.kind === 'refund' && payment.pending)
+      .sort((a, b) => a.created_at - b.created_at);
+  }
+
+  // The processor accepted a pending card refund; it now counts against the
+  // amount paid. Confirming twice (e.g. from two devices) is harmless.
+  async confirmRefund(refundId: string, processorTransactionId: string): Promise<Payment> {
+    return this.transaction(async tx => {
+      const refund = await tx.get('payments', refundId);
+      if (!refund) {
+        throw new Error('Refund not found');
+      }
+      if (!refund.pending) return refund;
+
+      const confirmed = tx.put('payments', { ...refund, pending: false, processor_transaction_id: processorTransactionId });
+      const workOrder = await tx.get('work_orders', refund.work_order_id);
+      const payments = await tx.getByIndex('payments', 'idx_payments_work_order_id', refund.work_order_id);
+      if (workOrder) tx.put('work_orders', { ...workOrder, paid_total: paidTotal(payments) });
+      return confirmed;
+    });
+  }
+
+  // The processor turned a pending card refund down; it never happened
+  async discardPendingRefund(refundId: string): Promise<void> {
+    await this.transaction(async tx => {
+      const refund = await tx.get('payments', refundId);
+      if (!refund?.pending) return;
+
+      tx.delete('payments', refundId);
+    });
+  }
+
+  async getPaymentsForWorkOrder(workOrderId: string): Promise<Payment[]> {
+    await this.ready();
+    const payments = await this.adapter.getByIndex('payments', 'idx_payments_work_order_id', workOrderId);
+    return payments.sort((a, b) => a.created_at - b.created_at);
+  }
+
+  // Invoice operations. A completed work order gets one invoice; issuing again
+  // returns it. Numbers carry the issuing device's code, so two devices
+  // issuing while both offline never pick the same one.
+  async issueInvoice(workOrderId: string, shop: ShopInfo): Promise<Invoice> {
+    const lastNumber = (await this.getMeta<number>(INVOICE_NUMBER_KEY)) || 0;
 
-    // Add work order to data
-    data.work_orders.push(workOrder);
+    const invoice = await this.transaction(async tx => {
+      const [existing] = await tx.getByIndex('invoices', 'idx_invoices_work_order_id', workOrderId);
+      if (existing) return existing;
+
+      const workOrder = await tx.get('work_orders', workOrderId);
+      if (!workOrder) {
+        throw new Error('Work order not found');
+      }
+      if (workOrder.status !== 'completed') {
+        throw new Error('Only completed work orders can be invoiced');
+      }
+
+      const [customer, vehicle] = await Promise.all([
+        tx.get('customers', workOrder.customer_id),
+        tx.get('vehicles', workOrder.vehicle_id),
+      ]);
+      if (!customer || !vehicle) {
+        throw new Error('The work order\'s customer or vehicle is missing');
+      }
+
+      const lineItems = (await tx.getByIndex('line_items', 'idx_line_items_work_order_id', workOrderId))
+        .filter(item => item.approved)
+        .sort((a, b) => a.created_at - b.created_at)
+        .map(({ id, type, description, quantity, unit_price, total_price }) => ({
+          id, type, description, quantity, unit_price, total_price,
+        }));
+      const totals = pricingEngine.calculateEstimateTotal(lineItems, await this.loadTaxContext(tx, workOrderId));
+
+      const invoices = await tx.getAll('invoices');
+      const invoiceNumber = Math.max(
+        FIRST_INVOICE_NUMBER - 1,
+        lastNumber,
+        ...invoices.map(invoice => invoice.invoice_number)
+      ) + 1;
+
+      const now = Date.now();
+      return tx.put('invoices', {
+        id: uuidv4(),
+        invoice_number: invoiceNumber,
+        invoice_prefix: await this.claimDeviceCode(tx),
+        work_order_id: workOrderId,
+        customer_id: customer.id,
+        vehicle_id: vehicle.id,
+        customer_name: customer.name,
+        customer_phone: customer.phone,
+        customer_email: customer.email,
+        vehicle_description: [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' '),
+        vehicle_vin: vehicle.vin,
+        vehicle_license_plate: vehicle.license_plate,
+        mileage: workOrder.mileage,
+        line_items: lineItems,
+        labor_total: totals.laborTotal,
+        parts_total: totals.partsTotal,
+        services_total: totals.servicesTotal,
+        subtotal: totals.subtotal,
+        tax: totals.tax,
+        tax_lines: totals.taxLines,
+        tax_exempt_certificate: totals.taxExempt ? customer.tax_exempt_certificate : undefined,
+        total: totals.total,
+        shop,
+        issued_at: now,
+        created_at: now,
+        updated_at: now,
+      });
+    });
 
-    // Update check-in status
-    checkIn.status = 'work_order_created';
+    if (invoice.invoice_number > lastNumber) {
+      await this.setMeta(INVOICE_NUMBER_KEY, invoice.invoice_number);
+    }
+    return invoice;
+  }
 
-    // Save everything at once
-    this.saveStorageData(data);
+  async getInvoiceForWorkOrder(workOrderId: string): Promise<Invoice | null> {
+    await this.ready();
+    const [invoice] = await this.adapter.getByIndex('invoices', 'idx_invoices_work_order_id', workOrderId);
+    return invoice || null;
+  }
 
-    return workOrder;
+  async getPendingCheckIns(): Promise<CheckIn[]> {
+    await this.ready();
+    const checkIns = await this.adapter.getByIndex('check_ins', 'idx_check_ins_status', 'pending');
+    return checkIns.sort((a, b) => a.checked_in_at - b.checked_in_at);
   }
 
-  getPendingCheckIns(): CheckIn[] {
-    const data = this.getStorageData();
-    return data.check_ins.filter(ci => ci.status === 'pending').sort((a, b) => a.checked_in_at - b.checked_in_at);
+  async getWorkOrder(workOrderId: string): Promise<WorkOrder | null> {
+    await this.ready();
+    return this.adapter.get('work_orders', workOrderId);
   }
 
-  getWorkOrders(): WorkOrder[] {
-    const data = this.getStorageData();
-    return data.work_orders.sort((a, b) => b.created_at - a.created_at);
+  async getWorkOrders(): Promise<WorkOrder[]> {
+    await this.ready();
+    const workOrders = await this.adapter.getAll('work_orders');
+    return workOrders.sort((a, b) => b.created_at - a.created_at);
   }
 
   // Common services
-  getCommonServices(): CommonService[] {
-    const data = this.getStorageData();
-    return data.common_services.sort((a, b) => a.name.localeCompare(b.name));
+  async getCommonServices(): Promise<CommonService[]> {
+    await this.ready();
+    const services = await this.adapter.getAll('common_services');
+    return services.sort((a, b) => a.name.localeCompare(b.name));
   }
 
   // Get customer and vehicle details for display
-  getCustomer(customerId: string): Customer | null {
-    const data = this.getStorageData();
-    return data.customers.find(c => c.id === customerId) || null;
+  async getCustomer(customerId: string): Promise<Customer | null> {
+    await this.ready();
+    return this.adapter.get('customers', customerId);
   }
 
-  getVehicle(vehicleId: string): Vehicle | null {
-    const data = this.getStorageData();
-    return data.vehicles.find(v => v.id === vehicleId) || null;
+  async getVehicle(vehicleId: string): Promise<Vehicle | null> {
+    await this.ready();
+    return this.adapter.get('vehicles', vehicleId);
   }
 
   // Tech Profile operations
-  createTechProfile(techData: Omit<TechProfile, 'id' | 'created_at' | 'updated_at'>): TechProfile {
-    const data = this.getStorageData();
+  async createTechProfile(techData: Omit<TechProfile, 'id' | 'created_at' | 'updated_at'>): Promise<TechProfile> {
     const now = Date.now();
 
     const tech: TechProfile = {
@@ -410,106 +2130,120 @@ class BrowserDatabaseService {
       updated_at: now,
     };
 
-    data.tech_profiles.push(tech);
-    this.saveStorageData(data);
-    return tech;
+    return this.transaction(async tx => tx.put('tech_profiles', tech));
   }
 
-  updateTechProfile(techId: string, updates: Partial<TechProfile>): TechProfile | null {
-    const data = this.getStorageData();
-    const techIndex = data.tech_profiles.findIndex(t => t.id === techId);
+  async updateTechProfile(techId: string, updates: Partial<TechProfile>): Promise<TechProfile | null> {
+    return this.transaction(async tx => {
+      const tech = await tx.get('tech_profiles', techId);
 
-    if (techIndex === -1) return null;
+      if (!tech) return null;
 
-    data.tech_profiles[techIndex] = {
-      ...data.tech_profiles[techIndex],
-      ...updates,
-      updated_at: Date.now(),
-    };
-
-    this.saveStorageData(data);
-    return data.tech_profiles[techIndex];
+      return tx.put('tech_profiles', { ...tech, ...updates });
+    });
   }
 
-  deleteTechProfile(techId: string): boolean {
-    const data = this.getStorageData();
-    const initialLength = data.tech_profiles.length;
+  async deleteTechProfile(techId: string): Promise<boolean> {
+    return this.transaction(async tx => {
+      const tech = await tx.get('tech_profiles', techId);
 
-    data.tech_profiles = data.tech_profiles.filter(t => t.id !== techId);
+      if (!tech) return false;
 
-    if (data.tech_profiles.length < initialLength) {
-      this.saveStorageData(data);
+      tx.delete('tech_profiles', techId);
       return true;
-    }
+    });
+  }
 
-    return false;
+  async getAllTechProfiles(): Promise<TechProfile[]> {
+    await this.ready();
+    const techs = await this.adapter.getAll('tech_profiles');
+    return techs.filter(t => t.active).sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  getAllTechProfiles(): TechProfile[] {
-    const data = this.getStorageData();
-    return data.tech_profiles.filter(t => t.active).sort((a, b) => a.name.localeCompare(b.name));
+  async getTechProfile(techId: string): Promise<TechProfile | null> {
+    await this.ready();
+    return this.adapter.get('tech_profiles', techId);
   }
 
-  getTechProfile(techId: string): TechProfile | null {
-    const data = this.getStorageData();
-    return data.tech_profiles.find(t => t.id === techId) || null;
+  // Active techs and the open work orders, for scheduling
+  async getTechRoster(): Promise<TechRoster> {
+    await this.ready();
+    const [techs, workOrders] = await Promise.all([
+      this.getAllTechProfiles(),
+      this.adapter.getAll('work_orders'),
+    ]);
+    return {
+      techs,
+      workOrders: workOrders.filter(wo => wo.status !== 'completed' && wo.status !== 'cancelled'),
+    };
   }
 
-  getTechsBySpecialty(specialty: string): TechProfile[] {
-    const data = this.getStorageData();
-    return data.tech_profiles.filter(t =>
+  async getTechsBySpecialty(specialty: string): Promise<TechProfile[]> {
+    await this.ready();
+    const techs = await this.adapter.getAll('tech_profiles');
+    return techs.filter(t =>
       t.active && t.specialties && t.specialties.includes(specialty)
     ).sort((a, b) => (b.hourly_rate || 0) - (a.hourly_rate || 0)); // Sort by rate desc
   }
 
   // Work Order Assignment
-  assignTechToWorkOrder(workOrderId: string, techId: string): WorkOrder | null {
-    const data = this.getStorageData();
-    const workOrderIndex = data.work_orders.findIndex(wo => wo.id === workOrderId);
-
-    if (workOrderIndex === -1) return null;
+  async assignTechToWorkOrder(workOrderId: string, techId: string): Promise<WorkOrder | null> {
+    return this.transaction(async tx => {
+      const workOrder = await tx.get('work_orders', workOrderId);
 
-    // Verify tech exists
-    const tech = data.tech_profiles.find(t => t.id === techId);
-    if (!tech || !tech.active) return null;
+      if (!workOrder) return null;
 
-    data.work_orders[workOrderIndex] = {
-      ...data.work_orders[workOrderIndex],
-      assigned_tech: techId,
-      updated_at: Date.now(),
-    };
+      // Verify tech exists
+      const tech = await tx.get('tech_profiles', techId);
+      if (!tech || !tech.active) return null;
 
-    this.saveStorageData(data);
-    return data.work_orders[workOrderIndex];
+      return tx.put('work_orders', { ...workOrder, assigned_tech: techId });
+    });
   }
 
-  unassignTechFromWorkOrder(workOrderId: string): WorkOrder | null {
-    const data = this.getStorageData();
-    const workOrderIndex = data.work_orders.findIndex(wo => wo.id === workOrderId);
+  async unassignTechFromWorkOrder(workOrderId: string): Promise<WorkOrder | null> {
+    return this.transaction(async tx => {
+      const workOrder = await tx.get('work_orders', workOrderId);
 
-    if (workOrderIndex === -1) return null;
+      if (!workOrder) return null;
 
-    data.work_orders[workOrderIndex] = {
-      ...data.work_orders[workOrderIndex],
-      assigned_tech: undefined,
-      updated_at: Date.now(),
-    };
+      return tx.put('work_orders', { ...workOrder, assigned_tech: undefined });
+    });
+  }
+
+  // Set the shop resources (a lift, the alignment rack) a job holds while it's
+  // open. Throws when a newly reserved resource has no unit free right now.
+  async reserveWorkOrderResources(workOrderId: string, resourceIds: string[]): Promise<WorkOrder | null> {
+    const roster = await this.getTechRoster();
+    const current = roster.workOrders.find(wo => wo.id === workOrderId)?.reserved_resources || [];
+    const conflict = schedulingService.checkResourceReservation(
+      resourceIds.filter(id => !current.includes(id)),
+      roster,
+      workOrderId
+    );
+    if (conflict) {
+      throw new Error(conflict.message);
+    }
 
-    this.saveStorageData(data);
-    return data.work_orders[workOrderIndex];
+    return this.transaction(async tx => {
+      const workOrder = await tx.get('work_orders', workOrderId);
+      if (!workOrder) return null;
+
+      return tx.put('work_orders', { ...workOrder, reserved_resources: resourceIds });
+    });
   }
 
-  getWorkOrdersForTech(techId: string, status?: string): WorkOrder[] {
-    const data = this.getStorageData();
-    return data.work_orders.filter(wo =>
-      wo.assigned_tech === techId &&
-      (!status || wo.status === status)
-    ).sort((a, b) => b.created_at - a.created_at);
+  async getWorkOrdersForTech(techId: string, status?: string): Promise<WorkOrder[]> {
+    await this.ready();
+    const workOrders = await this.adapter.getByIndex('work_orders', 'idx_work_orders_assigned_tech', techId);
+    return workOrders.filter(wo => !status || wo.status === status)
+      .sort((a, b) => b.created_at - a.created_at);
   }
 
-  getUnassignedWorkOrders(): WorkOrder[] {
-    const data = this.getStorageData();
-    return data.work_orders.filter(wo =>
+  async getUnassignedWorkOrders(): Promise<WorkOrder[]> {
+    await this.ready();
+    const workOrders = await this.adapter.getAll('work_orders');
+    return workOrders.filter(wo =>
       !wo.assigned_tech &&
       wo.status !== 'completed' &&
       wo.status !== 'cancelled'
@@ -517,8 +2251,7 @@ class BrowserDatabaseService {
   }
 
   // Time Entry operations
-  createTimeEntry(timeData: Omit<TimeEntry, 'id' | 'created_at' | 'updated_at'>): TimeEntry {
-    const data = this.getStorageData();
+  async createTimeEntry(timeData: Omit<TimeEntry, 'id' | 'created_at' | 'updated_at'>): Promise<TimeEntry> {
     const now = Date.now();
 
     const timeEntry: TimeEntry = {
@@ -528,54 +2261,46 @@ class BrowserDatabaseService {
       updated_at: now,
     };
 
-    data.time_entries.push(timeEntry);
-    this.saveStorageData(data);
-    return timeEntry;
+    return this.transaction(async tx => tx.put('time_entries', timeEntry));
   }
 
-  updateTimeEntry(entryId: string, updates: Partial<TimeEntry>): TimeEntry | null {
-    const data = this.getStorageData();
-    const entryIndex = data.time_entries.findIndex(te => te.id === entryId);
-
-    if (entryIndex === -1) return null;
+  async updateTimeEntry(entryId: string, updates: Partial<TimeEntry>): Promise<TimeEntry | null> {
+    return this.transaction(async tx => {
+      const entry = await tx.get('time_entries', entryId);
 
-    data.time_entries[entryIndex] = {
-      ...data.time_entries[entryIndex],
-      ...updates,
-      updated_at: Date.now(),
-    };
+      if (!entry) return null;
 
-    this.saveStorageData(data);
-    return data.time_entries[entryIndex];
+      return tx.put('time_entries', { ...entry, ...updates });
+    });
   }
 
-  getTimeEntriesForTech(techId: string, startDate?: number, endDate?: number): TimeEntry[] {
-    const data = this.getStorageData();
-    return data.time_entries.filter(te => {
-      if (te.tech_id !== techId) return false;
+  async getTimeEntriesForTech(techId: string, startDate?: number, endDate?: number): Promise<TimeEntry[]> {
+    await this.ready();
+    const entries = await this.adapter.getByIndex('time_entries', 'idx_time_entries_tech_id', techId);
+    return entries.filter(te => {
       if (startDate && te.start_time < startDate) return false;
       if (endDate && te.start_time > endDate) return false;
       return true;
     }).sort((a, b) => b.start_time - a.start_time);
   }
 
-  getTimeEntriesForWorkOrder(workOrderId: string): TimeEntry[] {
-    const data = this.getStorageData();
-    return data.time_entries.filter(te => te.work_order_id === workOrderId)
-      .sort((a, b) => a.start_time - b.start_time);
+  async getTimeEntriesForWorkOrder(workOrderId: string): Promise<TimeEntry[]> {
+    await this.ready();
+    const entries = await this.adapter.getByIndex('time_entries', 'idx_time_entries_work_order_id', workOrderId);
+    return entries.sort((a, b) => a.start_time - b.start_time);
   }
 
   // Tech capacity and availability
-  getTechWorkload(techId: string): {
+  async getTechWorkload(techId: string): Promise<{
     activeJobs: number;
     totalEstimatedHours: number;
     todayHours: number;
     weekHours: number;
-  } {
-    const data = this.getStorageData();
-    const activeJobs = data.work_orders.filter(wo =>
-      wo.assigned_tech === techId &&
-      (wo.status === 'pending' || wo.status === 'in_progress')
+  }> {
+    await this.ready();
+    const assignedJobs = await this.adapter.getByIndex('work_orders', 'idx_work_orders_assigned_tech', techId);
+    const activeJobs = assignedJobs.filter(wo =>
+      wo.status === 'pending' || wo.status === 'in_progress'
     );
 
     const today = new Date();
@@ -583,13 +2308,11 @@ class BrowserDatabaseService {
     const weekStart = new Date(today);
     weekStart.setDate(today.getDate() - today.getDay());
 
-    const todayEntries = data.time_entries.filter(te =>
-      te.tech_id === techId && te.start_time >= today.getTime()
-    );
+    const techEntries = await this.adapter.getByIndex('time_entries', 'idx_time_entries_tech_id', techId);
 
-    const weekEntries = data.time_entries.filter(te =>
-      te.tech_id === techId && te.start_time >= weekStart.getTime()
-    );
+    const todayEntries = techEntries.filter(te => te.start_time >= today.getTime());
+
+    const weekEntries = techEntries.filter(te => te.start_time >= weekStart.getTime());
 
     const todayHours = todayEntries.reduce((sum, entry) =>
       sum + ((entry.duration || 0) / 60), 0
@@ -608,19 +2331,22 @@ class BrowserDatabaseService {
   }
 
   // Smart assignment suggestions
-  suggestTechForWorkOrder(workOrderId: string): TechProfile[] {
-    const data = this.getStorageData();
-    const workOrder = data.work_orders.find(wo => wo.id === workOrderId);
+  async suggestTechForWorkOrder(workOrderId: string): Promise<TechProfile[]> {
+    await this.ready();
+    const workOrder = await this.adapter.get('work_orders', workOrderId);
 
     if (!workOrder) return [];
 
-    const allTechs = data.tech_profiles.filter(t => t.active);
+    const allTechs = (await this.adapter.getAll('tech_profiles')).filter(t => t.active);
     if (allTechs.length === 0) return [];
 
+    const vehicle = workOrder.vehicle_id ? await this.adapter.get('vehicles', workOrder.vehicle_id) : null;
+    const workloads = await Promise.all(allTechs.map(tech => this.getTechWorkload(tech.id)));
+
     // Score techs based on job requirements
-    const scoredTechs = allTechs.map(tech => {
+    const scoredTechs = allTechs.map((tech, techIndex) => {
       let score = 0;
-      const workload = this.getTechWorkload(tech.id);
+      const workload = workloads[techIndex];
 
       // Workload penalty/bonus
       if (workload.activeJobs >= 4) score -= 50;
@@ -674,12 +2400,9 @@ class BrowserDatabaseService {
       }
 
       // Vehicle age consideration
-      if (workOrder.vehicle_id) {
-        const vehicle = data.vehicles.find(v => v.id === workOrder.vehicle_id);
-        if (vehicle && vehicle.year && vehicle.year < 2010) {
-          // Prefer experienced techs for older vehicles
-          if (tech.hourly_rate && tech.hourly_rate >= 30) score += 10;
-        }
+      if (vehicle && vehicle.year && vehicle.year < 2010) {
+        // Prefer experienced techs for older vehicles
+        if (tech.hourly_rate && tech.hourly_rate >= 30) score += 10;
       }
 
       // Priority job bonus
@@ -730,15 +2453,61 @@ class BrowserDatabaseService {
     return urgentKeywords.some(keyword => concern.includes(keyword));
   }
 
-  // Clear all data (for testing)
-  clearData(): void {
-    localStorage.removeItem(this.storageKey);
+  // Meta entries carried over when the data is replaced
+  private async keptMeta(keys: string[]): Promise<Record<string, unknown>> {
+    const kept: Record<string, unknown> = {};
+    for (const key of keys) {
+      const value = await this.adapter.getMeta<unknown>(key);
+      if (value !== null) kept[key] = value;
+    }
+    return kept;
+  }
+
+  // Clear all data (for testing). backupService.clearAllData() takes a
+  // snapshot first. The store stays initialized so data from a previous
+  // adapter isn't imported again; migrations re-seed the defaults.
+  // Only this device is cleared: it keeps its identity and its sync cursor,
+  // so records the other devices already shared aren't pulled back in, and
+  // changes made elsewhere from now on still arrive. Nothing is deleted on
+  // the other devices.
+  async clearData(): Promise<void> {
+    await this.adapter.open();
+    await this.adapter.replaceData({} as StorageData, {
+      ...await this.keptMeta(['device_id', 'sync_cursor', INVOICE_NUMBER_KEY]),
+      initialized_at: Date.now(),
+    });
+
+    this.readyPromise = null;
+    await this.ready();
+
+    changeFeed.publish(tableNames.map(table => createChangeEvent(table, '*', 'update')));
   }
 
   // Export data for backup
-  exportData(): StorageData {
-    return this.getStorageData();
+  async exportData(): Promise<StorageData> {
+    await this.ready();
+    return this.adapter.exportData();
+  }
+
+  // Replace all data with a backup. Older data is migrated forward; data from
+  // a newer app is rejected. The device keeps its identity but forgets its
+  // sync state, so everything is merged with other devices again.
+  async restoreData(data: StorageData, schemaVersion: number, migrationLog: MigrationLogEntry[]): Promise<void> {
+    await this.ready();
+    getPendingMigrations(this.storageKey, shopDatabaseMigrations, schemaVersion);
+
+    await this.adapter.replaceData(data, {
+      ...await this.keptMeta(['device_id', INVOICE_NUMBER_KEY]),
+      initialized_at: Date.now(),
+      schema_version: schemaVersion,
+      migration_log: migrationLog,
+    });
+
+    this.readyPromise = null;
+    await this.ready();
+
+    changeFeed.publish(tableNames.map(table => createChangeEvent(table, '*', 'update')));
   }
 }
 
-export default new BrowserDatabaseService();
\ No newline at end of file
+export default new BrowserDatabaseService(new SqliteAdapter(), new IndexedDBAdapter());
@@ -0,0 +1,100 @@
+import type { TableName } from './storageAdapter';
+
+// Typed change events shared between the data services and every open tab.
+// Events are delivered to listeners in this tab immediately and to other tabs
+// over a BroadcastChannel (or `storage` events where that isn't available).
+// Events for a registered cache's tables wait until the cache has reloaded.
+
+export type ChangeOperation = 'insert' | 'update' | 'delete';
+
+export interface ChangeEvent {
+  table: TableName;
+  record_id: string; // '*' when the whole table was replaced (e.g. a restore)
+  operation: ChangeOperation;
+  timestamp: number;
+}
+
+type ChangeListener = (events: ChangeEvent[]) => void;
+
+interface CacheRefresher {
+  tables: Set<TableName>;
+  refresh: () => Promise<void>;
+}
+
+const CHANNEL_NAME = 'shop_change_feed';
+
+class ChangeFeedService {
+  private listeners = new Set<ChangeListener>();
+  private refreshers: CacheRefresher[] = [];
+  private channel: BroadcastChannel | null = null;
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<ChangeEvent[]>) => this.deliver(event.data);
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', event => {
+        if (event.key === CHANNEL_NAME && event.newValue) {
+          this.deliver(JSON.parse(event.newValue));
+        }
+      });
+    }
+  }
+
+  private notify(events: ChangeEvent[]): void {
+    if (events.length === 0) return;
+    this.listeners.forEach(listener => {
+      try {
+        listener(events);
+      } catch (error) {
+        console.error('Change listener failed:', error);
+      }
+    });
+  }
+
+  // Hold events back until the caches they affect have reloaded, so
+  // listeners reading from a cache never see it stale
+  private deliver(events: ChangeEvent[]): void {
+    const refreshes = this.refreshers
+      .filter(refresher => events.some(event => refresher.tables.has(event.table)))
+      .map(refresher => refresher.refresh());
+    if (refreshes.length === 0) {
+      this.notify(events);
+      return;
+    }
+
+    Promise.all(refreshes)
+      .catch(error => console.error('Failed to refresh a cache:', error))
+      .then(() => this.notify(events));
+  }
+
+  publish(events: ChangeEvent[]): void {
+    if (events.length === 0) return;
+
+    this.deliver(events);
+
+    if (this.channel) {
+      this.channel.postMessage(events);
+    } else if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(CHANNEL_NAME, JSON.stringify(events));
+    }
+  }
+
+  // Reload a cache that listeners read from whenever one of its tables changes
+  registerCache(tables: TableName[], refresh: () => Promise<void>): void {
+    this.refreshers.push({ tables: new Set(tables), refresh });
+  }
+
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export function createChangeEvent(table: TableName, recordId: string, operation: ChangeOperation): ChangeEvent {
+  return { table, record_id: recordId, operation, timestamp: Date.now() };
+}
+
+export default new ChangeFeedService();
@@ -0,0 +1,138 @@
+import { createChangeEvent, type ChangeEvent } from './changeFeed';
+import {
+  recordVersion,
+  tableIndexes,
+  type IndexValue,
+  type StagedWrite,
+  type StorageAdapter,
+  type TableName,
+  type TableRecord,
+} from './storageAdapter';
+
+// Optimistic read-modify-write transaction. Reads remember the version
+// (`updated_at`) they saw; commit hands the staged writes to the adapter,
+// which applies all of them atomically or rejects them with StaleWriteError
+// if any record was changed by someone else in the meantime.
+
+export class DatabaseTransaction {
+  private adapter: StorageAdapter;
+  // Records as first read by this transaction (null if they didn't exist)
+  private reads = new Map<string, object | null>();
+  private writes = new Map<string, StagedWrite>();
+
+  constructor(adapter: StorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  private key(table: TableName, id: string): string {
+    return `${table}:${id}`;
+  }
+
+  private track(table: TableName, id: string, record: object | null): void {
+    const key = this.key(table, id);
+    if (!this.reads.has(key)) {
+      this.reads.set(key, record);
+    }
+  }
+
+  // undefined when the record wasn't read through this transaction
+  private readVersion(key: string): number | null | undefined {
+    return this.reads.has(key) ? recordVersion(this.reads.get(key)) : undefined;
+  }
+
+  // Overlay staged writes on records read from the adapter
+  private overlay<T extends TableName>(table: T, records: TableRecord<T>[], include: (record: TableRecord<T>) => boolean): TableRecord<T>[] {
+    const result = new Map(records.map(record => [record.id, record]));
+
+    this.writes.forEach(write => {
+      if (write.table !== table) return;
+
+      const staged = write.record as TableRecord<T> | null;
+      if (staged && include(staged)) result.set(write.id, staged);
+      else result.delete(write.id);
+    });
+
+    return Array.from(result.values());
+  }
+
+  async get<T extends TableName>(table: T, id: string): Promise<TableRecord<T> | null> {
+    const staged = this.writes.get(this.key(table, id));
+    if (staged) return staged.record as TableRecord<T> | null;
+
+    const record = await this.adapter.get(table, id);
+    this.track(table, id, record);
+    return record;
+  }
+
+  async getAll<T extends TableName>(table: T): Promise<TableRecord<T>[]> {
+    const records = await this.adapter.getAll(table);
+    records.forEach(record => this.track(table, record.id, record));
+    return this.overlay(table, records, () => true);
+  }
+
+  async getByIndex<T extends TableName>(table: T, indexName: string, value: IndexValue): Promise<TableRecord<T>[]> {
+    const records = await this.adapter.getByIndex(table, indexName, value);
+    records.forEach(record => this.track(table, record.id, record));
+
+    const keyPath = tableIndexes[table].find(index => index.name === indexName)?.keyPath;
+    return this.overlay(table, records, record =>
+      keyPath !== undefined && (record as unknown as Record<string, unknown>)[keyPath] === value
+    );
+  }
+
+  // Stage a create or update. Records not read through this transaction are
+  // treated as new and must not exist when the transaction commits.
+  put<T extends TableName>(table: T, record: TableRecord<T>): TableRecord<T> {
+    const key = this.key(table, record.id);
+    const readVersion = this.readVersion(key) ?? null;
+
+    // updated_at doubles as the version, so it must move forward on every write
+    const staged = {
+      ...record,
+      updated_at: Math.max(Date.now(), (readVersion ?? 0) + 1),
+    } as TableRecord<T>;
+
+    const previous = this.writes.get(key);
+    this.writes.set(key, {
+      table,
+      id: record.id,
+      record: staged,
+      expectedVersion: previous ? previous.expectedVersion : readVersion,
+    });
+
+    return staged;
+  }
+
+  delete(table: TableName, id: string): void {
+    const key = this.key(table, id);
+    const previous = this.writes.get(key);
+
+    this.writes.set(key, {
+      table,
+      id,
+      record: null,
+      expectedVersion: previous ? previous.expectedVersion : this.readVersion(key),
+    });
+  }
+
+  commit(): Promise<void> {
+    return this.adapter.commit(Array.from(this.writes.values()));
+  }
+
+  // Staged writes alongside the record each one replaces
+  getStagedWrites(): Array<StagedWrite & { previous: object | null }> {
+    return Array.from(this.writes.entries()).map(([key, write]) => ({
+      ...write,
+      previous: this.reads.get(key) ?? null,
+    }));
+  }
+
+  // Change events describing the staged writes, published after commit
+  getChanges(): ChangeEvent[] {
+    return Array.from(this.writes.values()).map(write => createChangeEvent(
+      write.table,
+      write.id,
+      write.record === null ? 'delete' : write.expectedVersion === null ? 'insert' : 'update'
+    ));
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { EstimateLineItem } from '../types/models';
+import { diffEstimateItems, needsDecision, projectApprovedItems } from './estimateRevisions';
+
+const item = (id: string, unitPrice: number, quantity: number = 1): EstimateLineItem => ({
+  id,
+  type: 'part',
+  description: `Part ${id}`,
+  quantity,
+  unit_price: unitPrice,
+  total_price: unitPrice * quantity,
+});
+
+describe('diffEstimateItems', () => {
+  const approved = [item('pads', 4000), item('rotors', 9000), item('fluid', 1500)];
+  const revision = [item('pads', 4000), item('rotors', 9000, 2), item('caliper', 12000)];
+  const changes = diffEstimateItems(approved, revision);
+
+  it('matches items by id, in revision order followed by removals', () => {
+    expect(changes.map(change => [change.type, change.item.id])).toEqual([
+      ['unchanged', 'pads'],
+      ['changed', 'rotors'],
+      ['added', 'caliper'],
+      ['removed', 'fluid'],
+    ]);
+    expect(changes[1].previous).toEqual(approved[1]);
+  });
+
+  it('asks the customer about added and changed items only', () => {
+    expect(changes.filter(needsDecision).map(change => change.item.id)).toEqual(['rotors', 'caliper']);
+  });
+
+  it('keeps the approved item when a change is declined', () => {
+    const projected = projectApprovedItems(changes, decided => decided.id === 'caliper');
+
+    expect(projected).toEqual([approved[0], approved[1], revision[2]]);
+  });
+});
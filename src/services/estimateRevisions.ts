@@ -0,0 +1,84 @@
+import type { EstimateLineItem, EstimateRequest, LineItem } from '../types/models';
+import { isAwaitingDecision } from './workOrderStatus';
+
+// Estimate revisions. Every revision lists the whole job as the tech now sees
+// it; what the customer is asked to approve is the difference from the work
+// already approved. Estimate line items keep their id across revisions so
+// changes can be matched up.
+
+export type EstimateItemChangeType = 'added' | 'changed' | 'removed' | 'unchanged';
+
+export interface EstimateItemChange {
+  type: EstimateItemChangeType;
+  item: EstimateLineItem; // the revision's item; the approved item for removals
+  previous?: EstimateLineItem; // the approved item a change replaces
+}
+
+const comparedFields: (keyof EstimateLineItem)[] = ['type', 'description', 'part_number', 'quantity', 'unit_price', 'total_price'];
+
+function sameItem(a: EstimateLineItem, b: EstimateLineItem): boolean {
+  return comparedFields.every(field => a[field] === b[field]);
+}
+
+// Compare a revision's items with the previously approved ones, in revision order
+// followed by removals
+export function diffEstimateItems(previous: EstimateLineItem[], next: EstimateLineItem[]): EstimateItemChange[] {
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+
+  const changes: EstimateItemChange[] = next.map(item => {
+    const before = previousById.get(item.id);
+    if (!before) return { type: 'added', item };
+    return sameItem(before, item) ? { type: 'unchanged', item } : { type: 'changed', item, previous: before };
+  });
+
+  previous
+    .filter(item => !nextIds.has(item.id))
+    .forEach(item => changes.push({ type: 'removed', item }));
+
+  return changes;
+}
+
+// Changes that need the customer's decision
+export function needsDecision(change: EstimateItemChange): boolean {
+  return change.type === 'added' || change.type === 'changed';
+}
+
+// The estimate items behind the work order's approved line items
+export function approvedEstimateItems(estimates: EstimateRequest[], lineItems: LineItem[]): EstimateLineItem[] {
+  const estimatesById = new Map(estimates.map(estimate => [estimate.id, estimate]));
+
+  return lineItems
+    .filter(lineItem => lineItem.approved && lineItem.estimate_request_id && lineItem.estimate_line_item_id)
+    .map(lineItem => estimatesById.get(lineItem.estimate_request_id!)?.line_items
+      .find(item => item.id === lineItem.estimate_line_item_id))
+    .filter((item): item is EstimateLineItem => item !== undefined);
+}
+
+// Approved scope once the customer has decided on a revision's changes
+export function projectApprovedItems(changes: EstimateItemChange[], isApproved: (item: EstimateLineItem) => boolean): EstimateLineItem[] {
+  return changes.flatMap(change => {
+    switch (change.type) {
+      case 'unchanged':
+        return [change.item];
+      case 'added':
+        return isApproved(change.item) ? [change.item] : [];
+      case 'changed':
+        return [isApproved(change.item) ? change.item : change.previous!];
+      case 'removed':
+        return [];
+    }
+  });
+}
+
+// Work order totals (before tax): approved work and work waiting on the customer
+export function lineItemTotals(lineItems: LineItem[]): { approved_total: number; pending_total: number } {
+  return {
+    approved_total: lineItems
+      .filter(item => item.approved)
+      .reduce((total, item) => total + item.total_price, 0),
+    pending_total: lineItems
+      .filter(isAwaitingDecision)
+      .reduce((total, item) => total + item.total_price, 0),
+  };
+}
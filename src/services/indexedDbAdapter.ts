@@ -0,0 +1,225 @@
+import {
+  StaleWriteError,
+  recordVersion,
+  tableIndexes,
+  tableNames,
+  type IndexValue,
+  type StagedWrite,
+  type StorageAdapter,
+  type StorageData,
+  type TableName,
+  type TableRecord,
+} from './storageAdapter';
+
+// IndexedDB-backed storage: one object store per table plus a `meta` store
+
+const META_STORE = 'meta';
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+export class IndexedDBAdapter implements StorageAdapter {
+  private dbName: string;
+  private version: number;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Bump the version whenever a table or index is added so upgrades create it
+  constructor(dbName: string = 'shop_database', version: number = 16) {
+    this.dbName = dbName;
+    this.version = version;
+  }
+
+  open(): Promise<void> {
+    return this.getDb().then(() => undefined);
+  }
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, this.version);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+
+          tableNames.forEach(table => {
+            const store = db.objectStoreNames.contains(table)
+              ? request.transaction!.objectStore(table)
+              : db.createObjectStore(table, { keyPath: 'id' });
+
+            tableIndexes[table].forEach(index => {
+              if (!store.indexNames.contains(index.name)) {
+                store.createIndex(index.name, index.keyPath, { unique: index.unique || false });
+              }
+            });
+
+            // Indexes that are no longer declared (e.g. the old unique invoice number)
+            Array.from(store.indexNames)
+              .filter(name => !tableIndexes[table].some(index => index.name === name))
+              .forEach(name => store.deleteIndex(name));
+          });
+
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE);
+          }
+        };
+
+        request.onsuccess = () => {
+          const db = request.result;
+          // Another tab upgraded the schema; close so it isn't blocked
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async store(table: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.getDb();
+    return db.transaction(table, mode).objectStore(table);
+  }
+
+  async getAll<T extends TableName>(table: T): Promise<TableRecord<T>[]> {
+    const store = await this.store(table, 'readonly');
+    return promisifyRequest(store.getAll()) as Promise<TableRecord<T>[]>;
+  }
+
+  async get<T extends TableName>(table: T, id: string): Promise<TableRecord<T> | null> {
+    const store = await this.store(table, 'readonly');
+    const record = await promisifyRequest(store.get(id));
+    return (record as TableRecord<T> | undefined) || null;
+  }
+
+  async getByIndex<T extends TableName>(table: T, indexName: string, value: IndexValue): Promise<TableRecord<T>[]> {
+    const store = await this.store(table, 'readonly');
+    return promisifyRequest(store.index(indexName).getAll(value)) as Promise<TableRecord<T>[]>;
+  }
+
+  async put<T extends TableName>(table: T, record: TableRecord<T>): Promise<void> {
+    const store = await this.store(table, 'readwrite');
+    await promisifyRequest(store.put(record));
+  }
+
+  async delete(table: TableName, id: string): Promise<boolean> {
+    const store = await this.store(table, 'readwrite');
+    const existing = await promisifyRequest(store.count(id));
+    if (existing === 0) return false;
+
+    await promisifyRequest(store.delete(id));
+    return true;
+  }
+
+  async count(table: TableName): Promise<number> {
+    const store = await this.store(table, 'readonly');
+    return promisifyRequest(store.count());
+  }
+
+  async commit(writes: StagedWrite[], meta: Record<string, unknown> = {}): Promise<void> {
+    const metaEntries = Object.entries(meta);
+    if (writes.length === 0 && metaEntries.length === 0) return;
+
+    // Readwrite transactions over the same stores are serialized across tabs,
+    // so the version checks and writes below cannot interleave with another commit
+    const db = await this.getDb();
+    const stores: string[] = Array.from(new Set(writes.map(write => write.table)));
+    if (metaEntries.length > 0) stores.push(META_STORE);
+    const transaction = db.transaction(stores, 'readwrite');
+    const done = transactionDone(transaction);
+
+    try {
+      for (const write of writes) {
+        const store = transaction.objectStore(write.table);
+
+        if (write.expectedVersion !== undefined) {
+          const current = await promisifyRequest(store.get(write.id));
+          if (recordVersion(current) !== write.expectedVersion) {
+            throw new StaleWriteError(write.table, write.id);
+          }
+        }
+
+        if (write.record) store.put(write.record);
+        else store.delete(write.id);
+      }
+
+      metaEntries.forEach(([key, value]) => transaction.objectStore(META_STORE).put(value, key));
+    } catch (error) {
+      transaction.abort();
+      await done.catch(() => undefined);
+      throw error;
+    }
+
+    await done;
+  }
+
+  async importData(data: StorageData): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(tableNames, 'readwrite');
+
+    tableNames.forEach(table => {
+      const store = transaction.objectStore(table);
+      (data[table] || []).forEach(record => store.put(record));
+    });
+
+    await transactionDone(transaction);
+  }
+
+  async exportData(): Promise<StorageData> {
+    const db = await this.getDb();
+    const transaction = db.transaction(tableNames, 'readonly');
+    const data = {} as Record<TableName, unknown[]>;
+
+    await Promise.all(tableNames.map(async table => {
+      data[table] = await promisifyRequest(transaction.objectStore(table).getAll());
+    }));
+
+    return data as unknown as StorageData;
+  }
+
+  async replaceData(data: StorageData, meta: Record<string, unknown>): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction([...tableNames, META_STORE], 'readwrite');
+
+    tableNames.forEach(table => {
+      const store = transaction.objectStore(table);
+      store.clear();
+      (data[table] || []).forEach(record => store.put(record));
+    });
+
+    const metaStore = transaction.objectStore(META_STORE);
+    metaStore.clear();
+    Object.entries(meta).forEach(([key, value]) => metaStore.put(value, key));
+
+    await transactionDone(transaction);
+  }
+
+  async getMeta<V>(key: string): Promise<V | null> {
+    const store = await this.store(META_STORE, 'readonly');
+    const value = await promisifyRequest(store.get(key));
+    return value === undefined ? null : (value as V);
+  }
+
+  async setMeta<V>(key: string, value: V): Promise<void> {
+    const store = await this.store(META_STORE, 'readwrite');
+    await promisifyRequest(store.put(value, key));
+  }
+}
@@ -0,0 +1,89 @@
+import type { InventoryAdjustment, InventoryItem, InventoryMovementKind, LineItem } from '../types/models';
+
+// Parts inventory: stock on the shelf for catalog parts the shop keeps.
+// Approving an estimate allocates its parts, completing the work order
+// consumes them and cancelling it (or the customer dropping the work)
+// releases them. Purchase orders add stock as parts are received. Every
+// change is recorded as an InventoryAdjustment.
+
+// Stock not already held for approved work; negative when approved work needs more than is on hand
+export function availableStock(item: Pick<InventoryItem, 'on_hand' | 'allocated'>): number {
+  return item.on_hand - item.allocated;
+}
+
+export function isLowStock(item: InventoryItem): boolean {
+  const available = availableStock(item);
+  return available < 0 || (item.reorder_point > 0 && available <= item.reorder_point);
+}
+
+// How many to order to get back above the reorder point
+export function suggestedOrderQuantity(item: InventoryItem): number {
+  const shortfall = item.reorder_point - availableStock(item) + 1;
+  return Math.max(item.reorder_quantity, shortfall, 0);
+}
+
+// Quantity of each catalog part among the given line items
+export function partQuantities(lineItems: LineItem[]): Map<string, number> {
+  const quantities = new Map<string, number>();
+  for (const item of lineItems) {
+    if (item.type !== 'part' || !item.catalog_part_id) continue;
+    quantities.set(item.catalog_part_id, (quantities.get(item.catalog_part_id) || 0) + item.quantity);
+  }
+  return quantities;
+}
+
+// How a movement of `quantity` parts changes on hand and allocated stock
+const movementEffects: Record<Exclude<InventoryMovementKind, 'cycle_count'>, { on_hand: number; allocated: number }> = {
+  allocate: { on_hand: 0, allocated: 1 },
+  release: { on_hand: 0, allocated: -1 },
+  consume: { on_hand: -1, allocated: -1 },
+  receive: { on_hand: 1, allocated: 0 },
+};
+
+// The stock record after a movement and the adjustment recording it
+export function applyMovement(
+  item: InventoryItem,
+  kind: InventoryMovementKind,
+  quantity: number,
+  details: Pick<InventoryAdjustment, 'id' | 'work_order_id' | 'reason' | 'adjusted_by'>,
+  now: number
+): { item: InventoryItem; adjustment: InventoryAdjustment } {
+  // A cycle count sets on hand to the counted quantity
+  const effect = kind === 'cycle_count' ? { on_hand: 1, allocated: 0 } : movementEffects[kind];
+  const onHandChange = kind === 'cycle_count' ? quantity - item.on_hand : effect.on_hand * quantity;
+  const allocatedChange = effect.allocated * quantity;
+
+  const updated: InventoryItem = {
+    ...item,
+    on_hand: item.on_hand + onHandChange,
+    // Allocations made before the part was stocked were never recorded
+    allocated: Math.max(0, item.allocated + allocatedChange),
+    updated_at: now,
+  };
+
+  return {
+    item: updated,
+    adjustment: {
+      ...details,
+      part_id: item.id,
+      kind,
+      on_hand_change: onHandChange,
+      allocated_change: updated.allocated - item.allocated,
+      on_hand_after: updated.on_hand,
+      allocated_after: updated.allocated,
+      created_at: now,
+      updated_at: now,
+    },
+  };
+}
+
+// Why the stock settings can't be saved, or null if they can
+export function validateInventorySettings(settings: Pick<InventoryItem, 'reorder_point' | 'reorder_quantity'>): string | null {
+  if (!(Number.isInteger(settings.reorder_point) && settings.reorder_point >= 0)) {
+    return 'The reorder point must be a whole number, 0 or more';
+  }
+  if (!(Number.isInteger(settings.reorder_quantity) && settings.reorder_quantity >= 0)) {
+    return 'The reorder quantity must be a whole number, 0 or more';
+  }
+  return null;
+}
@@ -0,0 +1,175 @@
+import type { Cents, Invoice, ShopInfo } from '../types/models';
+import db from './browserDatabase';
+import { formatCents } from './money';
+import { PdfDocument } from './pdfDocument';
+import { formatTaxLine } from './taxEngine';
+
+const SHOP_INFO_KEY = 'shop_info';
+
+const defaultShopInfo: ShopInfo = {
+  name: 'Auto Shop Excellence',
+};
+
+const lineItemTypeLabels: Record<Invoice['line_items'][number]['type'], string> = {
+  labor: 'Labor',
+  part: 'Part',
+  service: 'Service',
+};
+
+// PDF page layout, in points
+const MARGIN = 50;
+const LINE_HEIGHT = 14;
+const COLUMNS = {
+  description: MARGIN,
+  type: 330,
+  quantity: 420,
+  unitPrice: 490,
+  total: 562,
+};
+
+export function formatInvoiceNumber(invoice: Invoice): string {
+  return ['INV', invoice.invoice_prefix, invoice.invoice_number].filter(Boolean).join('-');
+}
+
+// One row per taxing jurisdiction, or the customer's exemption
+function taxRows(invoice: Invoice): [string, Cents][] {
+  if (invoice.tax_exempt_certificate !== undefined) {
+    return [[`Tax exempt (certificate ${invoice.tax_exempt_certificate})`, 0]];
+  }
+  if (invoice.tax_lines.length === 0) {
+    return [['Tax', invoice.tax]];
+  }
+  return invoice.tax_lines.map(line => [formatTaxLine(line), line.amount]);
+}
+
+class InvoiceService {
+  getShopInfo(): ShopInfo {
+    const saved = localStorage.getItem(SHOP_INFO_KEY);
+    return saved ? { ...defaultShopInfo, ...JSON.parse(saved) } : defaultShopInfo;
+  }
+
+  updateShopInfo(updates: Partial<ShopInfo>): ShopInfo {
+    const shopInfo = { ...this.getShopInfo(), ...updates };
+    if (!shopInfo.name.trim()) {
+      throw new Error('Shop name is required');
+    }
+
+    localStorage.setItem(SHOP_INFO_KEY, JSON.stringify(shopInfo));
+    return shopInfo;
+  }
+
+  // Issue the work order's invoice, or return the one already issued
+  async issueInvoice(workOrderId: string): Promise<Invoice> {
+    return db.issueInvoice(workOrderId, this.getShopInfo());
+  }
+
+  getFileName(invoice: Invoice): string {
+    return `${['invoice', invoice.invoice_prefix, invoice.invoice_number].filter(Boolean).join('-')}.pdf`;
+  }
+
+  createPdf(invoice: Invoice): Blob {
+    const pdf = new PdfDocument();
+    const right = pdf.width - MARGIN;
+    let y = MARGIN;
+
+    // Shop and invoice header
+    pdf.text(MARGIN, y + 18, invoice.shop.name, { size: 18, bold: true });
+    pdf.text(right, y + 18, 'INVOICE', { size: 18, bold: true, align: 'right' });
+    y += 36;
+
+    const shopLines = [invoice.shop.address, invoice.shop.phone, invoice.shop.email]
+      .filter((line): line is string => Boolean(line));
+    const invoiceLines = [
+      formatInvoiceNumber(invoice),
+      `Date: ${new Date(invoice.issued_at).toLocaleDateString()}`,
+    ];
+    for (let i = 0; i < Math.max(shopLines.length, invoiceLines.length); i++) {
+      if (shopLines[i]) pdf.text(MARGIN, y, shopLines[i]);
+      if (invoiceLines[i]) pdf.text(right, y, invoiceLines[i], { align: 'right' });
+      y += LINE_HEIGHT;
+    }
+    y += LINE_HEIGHT;
+
+    // Customer and vehicle
+    const customerLines = [invoice.customer_name, invoice.customer_phone, invoice.customer_email]
+      .filter((line): line is string => Boolean(line));
+    const vehicleLines = [
+      invoice.vehicle_description,
+      invoice.vehicle_vin && `VIN: ${invoice.vehicle_vin}`,
+      invoice.vehicle_license_plate && `Plate: ${invoice.vehicle_license_plate}`,
+      invoice.mileage !== undefined && `Mileage: ${invoice.mileage.toLocaleString()}`,
+    ].filter((line): line is string => Boolean(line));
+
+    pdf.text(MARGIN, y, 'BILL TO', { size: 9, bold: true });
+    pdf.text(320, y, 'VEHICLE', { size: 9, bold: true });
+    y += LINE_HEIGHT;
+    for (let i = 0; i < Math.max(customerLines.length, vehicleLines.length); i++) {
+      if (customerLines[i]) pdf.text(MARGIN, y, customerLines[i]);
+      if (vehicleLines[i]) pdf.text(320, y, vehicleLines[i]);
+      y += LINE_HEIGHT;
+    }
+    y += LINE_HEIGHT;
+
+    // Line items; the table header repeats on every page
+    const tableHeader = () => {
+      pdf.fillRect(MARGIN - 4, y - 11, right - MARGIN + 8, 16, 0.9);
+      pdf.text(COLUMNS.description, y, 'Description', { bold: true });
+      pdf.text(COLUMNS.type, y, 'Type', { bold: true });
+      pdf.text(COLUMNS.quantity, y, 'Qty', { bold: true, align: 'right' });
+      pdf.text(COLUMNS.unitPrice, y, 'Unit Price', { bold: true, align: 'right' });
+      pdf.text(COLUMNS.total, y, 'Amount', { bold: true, align: 'right' });
+      y += LINE_HEIGHT + 4;
+    };
+    tableHeader();
+
+    invoice.line_items.forEach(item => {
+      const descriptionLines = pdf.wrap(item.description, COLUMNS.type - COLUMNS.description - 10);
+      if (y + descriptionLines.length * LINE_HEIGHT > pdf.height - MARGIN) {
+        pdf.addPage();
+        y = MARGIN;
+        tableHeader();
+      }
+
+      pdf.text(COLUMNS.type, y, lineItemTypeLabels[item.type]);
+      pdf.text(COLUMNS.quantity, y, item.quantity.toString(), { align: 'right' });
+      pdf.text(COLUMNS.unitPrice, y, formatCents(item.unit_price), { align: 'right' });
+      pdf.text(COLUMNS.total, y, formatCents(item.total_price), { align: 'right' });
+      descriptionLines.forEach(line => {
+        pdf.text(COLUMNS.description, y, line);
+        y += LINE_HEIGHT;
+      });
+      pdf.line(MARGIN, y - 10, right, y - 10, 0.25);
+      y += 2;
+    });
+
+    // Totals
+    const totals: [string, Cents][] = [
+      ['Labor', invoice.labor_total],
+      ['Parts', invoice.parts_total],
+      ['Services', invoice.services_total],
+      ['Subtotal', invoice.subtotal],
+      ...taxRows(invoice),
+    ];
+    if (y + (totals.length + 2) * LINE_HEIGHT > pdf.height - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+
+    y += LINE_HEIGHT;
+    totals.forEach(([label, amount]) => {
+      pdf.text(COLUMNS.unitPrice, y, label, { align: 'right' });
+      pdf.text(COLUMNS.total, y, formatCents(amount), { align: 'right' });
+      y += LINE_HEIGHT;
+    });
+    pdf.line(COLUMNS.quantity, y - 10, right, y - 10);
+    y += 4;
+    pdf.text(COLUMNS.unitPrice, y, 'Total', { size: 12, bold: true, align: 'right' });
+    pdf.text(COLUMNS.total, y, formatCents(invoice.total), { size: 12, bold: true, align: 'right' });
+
+    pdf.text(MARGIN, pdf.height - MARGIN + 20, 'Thank you for your business!', { size: 9 });
+
+    return pdf.toBlob();
+  }
+}
+
+export default new InvoiceService();
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { MarkupMatrix } from '../types/models';
+import {
+  defaultMarkupMatrix,
+  findMarkupMatrix,
+  grossMarginPercent,
+  markupForCost,
+  validateMarkupMatrix,
+} from './markupMatrix';
+
+const shopWide = defaultMarkupMatrix(0);
+
+const matrix = (id: string, limits: Pick<MarkupMatrix, 'category' | 'supplier'>): MarkupMatrix => ({
+  ...shopWide,
+  id,
+  name: id,
+  ...limits,
+});
+
+describe('markupForCost', () => {
+  it('uses the highest tier the cost reaches', () => {
+    expect(markupForCost(shopWide, 0)).toBe(150);
+    expect(markupForCost(shopWide, 999)).toBe(150);
+    expect(markupForCost(shopWide, 1000)).toBe(80);
+    expect(markupForCost(shopWide, 24999)).toBe(45);
+    expect(markupForCost(shopWide, 100000)).toBe(30);
+  });
+
+  it('does not depend on the order tiers are listed in', () => {
+    const reversed = { tiers: [...shopWide.tiers].reverse() };
+    expect(markupForCost(reversed, 5000)).toBe(60);
+  });
+
+  it('adds no markup below the first tier', () => {
+    expect(markupForCost({ tiers: [{ min_cost: 500, markup_percentage: 50 }] }, 499)).toBe(0);
+  });
+});
+
+describe('findMarkupMatrix', () => {
+  const byCategory = matrix('brakes', { category: 'brakes' });
+  const bySupplier = matrix('acme', { supplier: 'Acme' });
+  const matrices = [shopWide, byCategory, bySupplier];
+
+  it('prefers a supplier matrix over a category matrix', () => {
+    expect(findMarkupMatrix(matrices, { category: 'brakes', supplier: 'Acme' })).toBe(bySupplier);
+  });
+
+  it('prefers a category matrix over the shop-wide one', () => {
+    expect(findMarkupMatrix(matrices, { category: 'brakes', supplier: 'Other' })).toBe(byCategory);
+  });
+
+  it('falls back to the shop-wide matrix', () => {
+    expect(findMarkupMatrix(matrices, { category: 'oil' })).toBe(shopWide);
+    expect(findMarkupMatrix([byCategory], { category: 'oil' })).toBeNull();
+  });
+});
+
+describe('grossMarginPercent', () => {
+  it('is the share of the price that is profit, to one decimal', () => {
+    expect(grossMarginPercent(1000, 2500)).toBe(60);
+    expect(grossMarginPercent(1000, 1800)).toBe(44.4);
+    expect(grossMarginPercent(1000, 0)).toBe(0);
+  });
+});
+
+describe('validateMarkupMatrix', () => {
+  it('accepts the default matrix', () => {
+    expect(validateMarkupMatrix(shopWide)).toBeNull();
+  });
+
+  it('needs a tier starting at $0.00', () => {
+    expect(validateMarkupMatrix({ ...shopWide, tiers: [{ min_cost: 100, markup_percentage: 50 }] }))
+      .toBe('The first tier must start at $0.00');
+  });
+
+  it('rejects tiers that start at the same cost', () => {
+    expect(validateMarkupMatrix({
+      ...shopWide,
+      tiers: [{ min_cost: 0, markup_percentage: 50 }, { min_cost: 0, markup_percentage: 40 }],
+    })).toBe('Two tiers start at the same cost');
+  });
+
+  it('rejects a matrix limited to both a category and a supplier', () => {
+    expect(validateMarkupMatrix({ ...shopWide, category: 'brakes', supplier: 'Acme' }))
+      .toBe('Limit a matrix to a part category or a supplier, not both');
+  });
+});
@@ -0,0 +1,89 @@
+import type { Cents, MarkupMatrix } from '../types/models';
+
+// Parts are priced from their cost with a markup matrix: the cost falls in a
+// tier and that tier's markup is added, so cheap parts carry a higher markup
+// than expensive ones. A matrix limited to a supplier wins over one limited
+// to a part category, which wins over the shop-wide matrix.
+
+export interface PartPricing {
+  category?: string;
+  supplier?: string;
+}
+
+export const partCategoryLabels: Record<string, string> = {
+  oil: 'Oil',
+  filters: 'Filters',
+  brakes: 'Brakes',
+  belts_hoses: 'Belts & Hoses',
+  ignition: 'Ignition',
+  fluids: 'Fluids',
+};
+
+// The matrix new shops start with
+export const DEFAULT_MARKUP_MATRIX_ID = 'markup-default';
+
+export function defaultMarkupMatrix(now: number = Date.now()): MarkupMatrix {
+  return {
+    id: DEFAULT_MARKUP_MATRIX_ID,
+    name: 'Standard',
+    tiers: [
+      { min_cost: 0, markup_percentage: 150 },
+      { min_cost: 1000, markup_percentage: 80 },
+      { min_cost: 5000, markup_percentage: 60 },
+      { min_cost: 10000, markup_percentage: 45 },
+      { min_cost: 25000, markup_percentage: 30 },
+    ],
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+export function isShopWide(matrix: Pick<MarkupMatrix, 'category' | 'supplier'>): boolean {
+  return !matrix.category && !matrix.supplier;
+}
+
+export function findMarkupMatrix(matrices: MarkupMatrix[], part: PartPricing): MarkupMatrix | null {
+  return matrices.find(matrix => part.supplier && matrix.supplier === part.supplier)
+    || matrices.find(matrix => part.category && matrix.category === part.category)
+    || matrices.find(isShopWide)
+    || null;
+}
+
+// Markup of the highest tier the cost reaches
+export function markupForCost(matrix: Pick<MarkupMatrix, 'tiers'>, cost: Cents): number {
+  const tier = [...matrix.tiers]
+    .sort((a, b) => b.min_cost - a.min_cost)
+    .find(other => cost >= other.min_cost);
+  return tier ? tier.markup_percentage : 0;
+}
+
+// Share of the price that is profit, in percent
+export function grossMarginPercent(cost: Cents, price: Cents): number {
+  return price > 0 ? Math.round((price - cost) / price * 1000) / 10 : 0;
+}
+
+// Why a matrix can't be saved, or null if it can
+export function validateMarkupMatrix(matrix: Pick<MarkupMatrix, 'name' | 'category' | 'supplier' | 'tiers'>): string | null {
+  if (!matrix.name.trim()) {
+    return 'The markup matrix needs a name';
+  }
+  if (matrix.category && matrix.supplier) {
+    return 'Limit a matrix to a part category or a supplier, not both';
+  }
+  if (matrix.tiers.length === 0) {
+    return 'Add at least one cost tier';
+  }
+  if (!matrix.tiers.some(tier => tier.min_cost === 0)) {
+    return 'The first tier must start at $0.00';
+  }
+  if (matrix.tiers.some(tier => !(Number.isInteger(tier.min_cost) && tier.min_cost >= 0))) {
+    return 'Tier costs must be $0.00 or more';
+  }
+  if (new Set(matrix.tiers.map(tier => tier.min_cost)).size !== matrix.tiers.length) {
+    return 'Two tiers start at the same cost';
+  }
+  if (matrix.tiers.some(tier => !(tier.markup_percentage >= 0))) {
+    return 'Markups must be 0% or more';
+  }
+  return null;
+}
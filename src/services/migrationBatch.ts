@@ -0,0 +1,78 @@
+import {
+  tableIndexes,
+  type IndexValue,
+  type StagedWrite,
+  type StorageAdapter,
+  type TableName,
+  type TableRecord,
+} from './storageAdapter';
+
+// The slice of the storage adapter a data migration works with
+export type MigrationStore = Pick<StorageAdapter, 'get' | 'getAll' | 'getByIndex' | 'count' | 'put' | 'delete'>;
+
+// Stages a migration's writes so they can be committed in one transaction
+// together with the schema version bump. Reads see the staged writes; records
+// keep their updated_at, since a migration isn't an edit.
+
+export class MigrationBatch implements MigrationStore {
+  private adapter: StorageAdapter;
+  private writes = new Map<string, StagedWrite>();
+
+  constructor(adapter: StorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  private key(table: TableName, id: string): string {
+    return `${table}:${id}`;
+  }
+
+  private overlay<T extends TableName>(table: T, records: TableRecord<T>[], include: (record: TableRecord<T>) => boolean): TableRecord<T>[] {
+    const result = new Map(records.map(record => [record.id, record]));
+
+    this.writes.forEach(write => {
+      if (write.table !== table) return;
+
+      const staged = write.record as TableRecord<T> | null;
+      if (staged && include(staged)) result.set(write.id, staged);
+      else result.delete(write.id);
+    });
+
+    return Array.from(result.values());
+  }
+
+  async get<T extends TableName>(table: T, id: string): Promise<TableRecord<T> | null> {
+    const staged = this.writes.get(this.key(table, id));
+    if (staged) return staged.record as TableRecord<T> | null;
+    return this.adapter.get(table, id);
+  }
+
+  async getAll<T extends TableName>(table: T): Promise<TableRecord<T>[]> {
+    return this.overlay(table, await this.adapter.getAll(table), () => true);
+  }
+
+  async getByIndex<T extends TableName>(table: T, indexName: string, value: IndexValue): Promise<TableRecord<T>[]> {
+    const keyPath = tableIndexes[table].find(index => index.name === indexName)?.keyPath;
+    return this.overlay(table, await this.adapter.getByIndex(table, indexName, value), record =>
+      keyPath !== undefined && (record as unknown as Record<string, unknown>)[keyPath] === value
+    );
+  }
+
+  async count(table: TableName): Promise<number> {
+    return (await this.getAll(table)).length;
+  }
+
+  async put<T extends TableName>(table: T, record: TableRecord<T>): Promise<void> {
+    this.writes.set(this.key(table, record.id), { table, id: record.id, record });
+  }
+
+  async delete(table: TableName, id: string): Promise<boolean> {
+    const existed = (await this.get(table, id)) !== null;
+    this.writes.set(this.key(table, id), { table, id, record: null });
+    return existed;
+  }
+
+  // Commit the staged writes and the given meta entries atomically
+  commit(meta: Record<string, unknown>): Promise<void> {
+    return this.adapter.commit(Array.from(this.writes.values()), meta);
+  }
+}
@@ -0,0 +1,57 @@
+// Versioned data migrations shared by the shop database and scheduling stores
+// Each store keeps its current schema version; migrations above it run in order
+// and every applied migration is appended to that store's migration log
+
+export interface Migration<TUp> {
+  version: number;
+  name: string;
+  up: TUp;
+}
+
+export interface MigrationLogEntry {
+  store: string;
+  version: number;
+  name: string;
+  applied_at: number;
+}
+
+// Early installs seeded common services under placeholder ids; these are the
+// ids a fresh install uses for the same services
+export const legacyCommonServiceIds: Record<string, string> = {
+  'service-001': 'oil-change',
+  'service-002': 'brake-inspection',
+  'service-003': 'battery-test',
+};
+
+export function latestVersion<TUp>(migrations: Migration<TUp>[]): number {
+  return migrations.reduce((max, migration) => Math.max(max, migration.version), 0);
+}
+
+export function getPendingMigrations<TUp>(
+  store: string,
+  migrations: Migration<TUp>[],
+  currentVersion: number
+): Migration<TUp>[] {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+
+  sorted.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`${store} migrations must be numbered 1..n without gaps (found ${migration.version} at position ${index + 1})`);
+    }
+  });
+
+  if (currentVersion > sorted.length) {
+    throw new Error(`${store} data is at schema version ${currentVersion}, newer than this app supports (${sorted.length})`);
+  }
+
+  return sorted.filter(migration => migration.version > currentVersion);
+}
+
+export function createLogEntry<TUp>(store: string, migration: Migration<TUp>): MigrationLogEntry {
+  return {
+    store,
+    version: migration.version,
+    name: migration.name,
+    applied_at: Date.now(),
+  };
+}
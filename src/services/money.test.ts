@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatCents,
+  multiplyCents,
+  parseDollars,
+  percentOfCents,
+  roundCents,
+  sumCents,
+  toCents,
+} from './money';
+
+describe('roundCents', () => {
+  it('rounds halves away from zero', () => {
+    expect(roundCents(100.5)).toBe(101);
+    expect(roundCents(-100.5)).toBe(-101);
+    expect(roundCents(100.49)).toBe(100);
+  });
+
+  it('ignores floating-point noise', () => {
+    expect(roundCents(1.005 * 100)).toBe(101);
+    expect(toCents(1.005)).toBe(101);
+    expect(toCents(0.1 + 0.2)).toBe(30);
+  });
+
+  it('never returns negative zero', () => {
+    expect(Object.is(roundCents(-0.4), 0)).toBe(true);
+  });
+});
+
+describe('cent arithmetic', () => {
+  it('rounds a line total once', () => {
+    expect(multiplyCents(3333, 1.5)).toBe(5000);
+    expect(multiplyCents(1999, 3)).toBe(5997);
+  });
+
+  it('rounds a percentage to the nearest cent', () => {
+    expect(percentOfCents(10000, 8.75)).toBe(875);
+    expect(percentOfCents(1234, 8.75)).toBe(108);
+    expect(percentOfCents(1, 50)).toBe(1);
+  });
+
+  it('adds already-rounded amounts without rounding again', () => {
+    expect(sumCents([101, 202, 303])).toBe(606);
+    expect(sumCents([])).toBe(0);
+  });
+});
+
+describe('parseDollars', () => {
+  it('reads amounts typed into a form', () => {
+    expect(parseDollars('12.34')).toBe(1234);
+    expect(parseDollars(' $5 ')).toBe(500);
+    expect(parseDollars('0')).toBe(0);
+  });
+
+  it('rejects input that is not an amount', () => {
+    expect(parseDollars('')).toBeNull();
+    expect(parseDollars('abc')).toBeNull();
+  });
+});
+
+describe('formatCents', () => {
+  it('shows dollars with two decimals', () => {
+    expect(formatCents(123456)).toBe('$1234.56');
+    expect(formatCents(5)).toBe('$0.05');
+    expect(formatCents(-250)).toBe('-$2.50');
+  });
+});
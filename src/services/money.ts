@@ -0,0 +1,47 @@
+import type { Cents } from '../types/models';
+
+// Money is stored and added up as integer cents, so line items, estimate
+// totals, invoices and payments always agree to the cent.
+//
+// Rounding policy: a calculation that can produce a fraction of a cent
+// (quantity × unit price, a markup, a tax rate) is rounded once, to the
+// nearest cent, with halves rounded away from zero. Totals are sums of
+// already-rounded amounts and are never rounded again. Dollars only appear
+// at the edges: catalog input, form fields and display.
+
+export function roundCents(amount: number): Cents {
+  // Drop binary floating-point noise first, e.g. 1.005 * 100 = 100.49999999999999
+  const cleaned = Number(amount.toPrecision(12));
+  return Math.sign(cleaned) * Math.round(Math.abs(cleaned)) || 0;
+}
+
+export function toCents(dollars: number): Cents {
+  return roundCents(dollars * 100);
+}
+
+export function fromCents(cents: Cents): number {
+  return cents / 100;
+}
+
+export function multiplyCents(unitPrice: Cents, quantity: number): Cents {
+  return roundCents(unitPrice * quantity);
+}
+
+export function percentOfCents(amount: Cents, percent: number): Cents {
+  return roundCents(amount * percent / 100);
+}
+
+export function sumCents(amounts: Cents[]): Cents {
+  return amounts.reduce((total, amount) => total + amount, 0);
+}
+
+// Dollars typed into a form; null when it isn't an amount
+export function parseDollars(input: string): Cents | null {
+  const value = Number(input.trim().replace(/^\$/, ''));
+  return input.trim() !== '' && Number.isFinite(value) ? toCents(value) : null;
+}
+
+export function formatCents(cents: Cents): string {
+  const dollars = (Math.abs(cents) / 100).toFixed(2);
+  return cents < 0 ? `-$${dollars}` : `$${dollars}`;
+}
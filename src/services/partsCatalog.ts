@@ -0,0 +1,228 @@
+import type { CatalogPart } from '../types/models';
+import { parseDollars } from './money';
+
+// Parts catalog helpers: the catalog a new shop starts with, reading supplier
+// price lists and fuzzy part search. A part is identified by its part number
+// and supplier; the same part number from two suppliers is two parts.
+
+export type CatalogPartInput = Omit<CatalogPart, 'id' | 'created_at' | 'updated_at'>;
+
+export type CatalogField = keyof CatalogPartInput;
+
+export const catalogFieldLabels: Record<CatalogField, string> = {
+  part_number: 'Part number',
+  description: 'Description',
+  brand: 'Brand',
+  cost: 'Cost',
+  list_price: 'List price',
+  category: 'Category',
+  fitment_notes: 'Fitment notes',
+  supplier: 'Supplier',
+};
+
+export const requiredCatalogFields: CatalogField[] = ['part_number', 'description', 'cost'];
+
+// Spreadsheet column index for each field
+export type ColumnMapping = Partial<Record<CatalogField, number>>;
+
+export interface CatalogRowError {
+  row: number; // 1-based, counting the header row
+  message: string;
+}
+
+export interface CatalogImportSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  duplicates: number; // rows repeating an earlier row of the same file
+}
+
+// Header names supplier price lists commonly use for each field
+const headerAliases: Record<CatalogField, string[]> = {
+  part_number: ['partnumber', 'partno', 'part', 'pn', 'sku', 'itemnumber', 'item'],
+  description: ['description', 'desc', 'name', 'partname', 'itemdescription'],
+  brand: ['brand', 'manufacturer', 'mfr', 'make', 'linecode'],
+  cost: ['cost', 'yourcost', 'netprice', 'net', 'dealercost', 'price'],
+  list_price: ['list', 'listprice', 'msrp', 'retail', 'retailprice', 'jobber'],
+  category: ['category', 'group', 'productgroup', 'type'],
+  fitment_notes: ['fitment', 'fitmentnotes', 'application', 'applications', 'notes', 'fits'],
+  supplier: ['supplier', 'vendor', 'distributor'],
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function catalogKey(part: Pick<CatalogPart, 'part_number' | 'supplier'>): string {
+  return `${normalize(part.part_number)}|${normalize(part.supplier || '')}`;
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalize);
+
+  for (const field of Object.keys(headerAliases) as CatalogField[]) {
+    const index = normalized.findIndex((header, column) =>
+      headerAliases[field].includes(header) && !Object.values(mapping).includes(column)
+    );
+    if (index !== -1) mapping[field] = index;
+  }
+  return mapping;
+}
+
+// Turn price list rows (without the header) into catalog parts. Rows that
+// can't be read are reported instead of imported.
+export function readCatalogRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  defaults: { supplier?: string } = {}
+): { parts: CatalogPartInput[]; errors: CatalogRowError[] } {
+  const missing = requiredCatalogFields.filter(field => mapping[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Choose a column for ${missing.map(field => catalogFieldLabels[field].toLowerCase()).join(', ')}`);
+  }
+
+  const parts: CatalogPartInput[] = [];
+  const errors: CatalogRowError[] = [];
+  const cell = (row: string[], field: CatalogField) => {
+    const column = mapping[field];
+    return column === undefined ? '' : (row[column] || '').trim();
+  };
+  const money = (value: string) => parseDollars(value.replace(/,/g, ''));
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const partNumber = cell(row, 'part_number');
+    const description = cell(row, 'description');
+    const cost = money(cell(row, 'cost'));
+    const listPrice = cell(row, 'list_price') ? money(cell(row, 'list_price')) : undefined;
+
+    if (!partNumber) {
+      errors.push({ row: rowNumber, message: 'Missing part number' });
+    } else if (!description) {
+      errors.push({ row: rowNumber, message: `${partNumber}: missing description` });
+    } else if (cost === null || cost < 0) {
+      errors.push({ row: rowNumber, message: `${partNumber}: cost "${cell(row, 'cost')}" isn't a price` });
+    } else if (listPrice === null || (listPrice !== undefined && listPrice < 0)) {
+      errors.push({ row: rowNumber, message: `${partNumber}: list price "${cell(row, 'list_price')}" isn't a price` });
+    } else {
+      parts.push({
+        part_number: partNumber,
+        description,
+        brand: cell(row, 'brand') || undefined,
+        cost,
+        list_price: listPrice,
+        category: cell(row, 'category').toLowerCase() || undefined,
+        fitment_notes: cell(row, 'fitment_notes') || undefined,
+        supplier: cell(row, 'supplier') || defaults.supplier?.trim() || undefined,
+      });
+    }
+  });
+
+  return { parts, errors };
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How well one search word matches the best word of a part; typos are
+// forgiven in longer words
+function wordScore(token: string, words: string[]): number {
+  let best = 0;
+  for (const word of words) {
+    if (word === token) return 3;
+    if (word.startsWith(token)) best = Math.max(best, 2);
+    else if (token.length >= 4 && Math.abs(word.length - token.length) <= 2) {
+      const allowed = token.length >= 8 ? 2 : 1;
+      if (editDistance(token, word) <= allowed) best = Math.max(best, 1);
+    }
+  }
+  return best;
+}
+
+// Part number matches rank first, then parts matching every search word
+export function searchCatalog(parts: CatalogPart[], query: string, limit: number = 20): CatalogPart[] {
+  const compact = normalize(query);
+  const tokens = query.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  if (!compact) return [];
+
+  const scored = parts.map(part => {
+    const partNumber = normalize(part.part_number);
+    let score = partNumber === compact ? 100
+      : partNumber.startsWith(compact) ? 50
+      : compact.length >= 3 && partNumber.includes(compact) ? 30
+      : 0;
+
+    const words = [part.description, part.brand, part.category, part.supplier, part.fitment_notes]
+      .join(' ')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+    const wordScores = tokens.map(token => wordScore(token, words));
+    if (wordScores.every(value => value > 0)) {
+      score += wordScores.reduce((total, value) => total + value, 0);
+    }
+
+    return { part, score };
+  });
+
+  return scored
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.part.description.localeCompare(b.part.description))
+    .slice(0, limit)
+    .map(({ part }) => part);
+}
+
+// The catalog a new shop starts with
+export function defaultCatalogParts(now: number = Date.now()): CatalogPart[] {
+  const parts: CatalogPartInput[] = [
+    // Oil & Filters
+    { part_number: 'OF-001', description: 'Engine Oil Filter', cost: 1250, supplier: 'ACDelco', category: 'filters' },
+    { part_number: 'OL-001', description: 'Conventional Motor Oil (5qt)', cost: 2499, supplier: 'Valvoline', category: 'oil' },
+    { part_number: 'OL-002', description: 'Full Synthetic Motor Oil (5qt)', cost: 4499, supplier: 'Mobil 1', category: 'oil' },
+
+    // Brake Components
+    { part_number: 'BP-001', description: 'Front Brake Pads (Set)', cost: 4500, supplier: 'Wagner', category: 'brakes' },
+    { part_number: 'BP-002', description: 'Rear Brake Pads (Set)', cost: 3800, supplier: 'Wagner', category: 'brakes' },
+    { part_number: 'BR-001', description: 'Front Brake Rotor', cost: 6500, supplier: 'ACDelco', category: 'brakes' },
+    { part_number: 'BR-002', description: 'Rear Brake Rotor', cost: 5500, supplier: 'ACDelco', category: 'brakes' },
+    { part_number: 'BF-001', description: 'Brake Fluid (DOT 3)', cost: 899, supplier: 'Prestone', category: 'brakes' },
+
+    // Air & Cabin Filters
+    { part_number: 'AF-001', description: 'Engine Air Filter', cost: 1850, supplier: 'K&N', category: 'filters' },
+    { part_number: 'CF-001', description: 'Cabin Air Filter', cost: 2200, supplier: 'FRAM', category: 'filters' },
+
+    // Belts & Hoses
+    { part_number: 'BL-001', description: 'Serpentine Belt', cost: 2800, supplier: 'Gates', category: 'belts_hoses' },
+    { part_number: 'HS-001', description: 'Upper Radiator Hose', cost: 3500, supplier: 'Gates', category: 'belts_hoses' },
+    { part_number: 'HS-002', description: 'Lower Radiator Hose', cost: 3200, supplier: 'Gates', category: 'belts_hoses' },
+
+    // Spark Plugs & Ignition
+    { part_number: 'SP-001', description: 'Spark Plug (Standard)', cost: 450, supplier: 'NGK', category: 'ignition' },
+    { part_number: 'SP-002', description: 'Spark Plug (Iridium)', cost: 1200, supplier: 'NGK', category: 'ignition' },
+    { part_number: 'IC-001', description: 'Ignition Coil', cost: 8500, supplier: 'Delphi', category: 'ignition' },
+
+    // Fluids
+    { part_number: 'FL-001', description: 'Transmission Fluid (1qt)', cost: 1199, supplier: 'Valvoline', category: 'fluids' },
+    { part_number: 'FL-002', description: 'Coolant (1gal)', cost: 1499, supplier: 'Prestone', category: 'fluids' },
+    { part_number: 'FL-003', description: 'Power Steering Fluid', cost: 899, supplier: 'Lucas', category: 'fluids' },
+  ];
+
+  return parts.map(part => ({
+    ...part,
+    id: `catalog_${part.part_number.toLowerCase()}`,
+    created_at: now,
+    updated_at: now,
+  }));
+}
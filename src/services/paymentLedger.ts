@@ -0,0 +1,37 @@
+import type { Cents, LineItem, Payment, WorkOrder } from '../types/models';
+import { sumCents } from './money';
+import pricingEngine from './pricingEngine';
+import { defaultTaxProfile, type TaxContext } from './taxEngine';
+
+// Payment ledger arithmetic. A work order owes its approved work including
+// tax; payments and deposits reduce the balance and refunds add back to it.
+
+// Approved work including tax. Without a tax context, the flat rate every
+// work order paid before tax profiles existed
+export function amountDue(lineItems: LineItem[], taxContext: TaxContext = { profile: defaultTaxProfile() }): Cents {
+  return pricingEngine.calculateEstimateTotal(lineItems.filter(item => item.approved), taxContext).total;
+}
+
+// Payments and deposits less refunds. A pending card refund doesn't count
+// until the processor confirms it
+export function paidTotal(payments: Payment[]): Cents {
+  return sumCents(payments
+    .filter(payment => !payment.pending)
+    .map(payment => payment.kind === 'refund' ? -payment.amount : payment.amount));
+}
+
+// What the customer still owes; negative when the shop owes the customer
+export function balanceDue(workOrder: Pick<WorkOrder, 'amount_due' | 'paid_total'>): Cents {
+  return (workOrder.amount_due || 0) - (workOrder.paid_total || 0);
+}
+
+// How much of a payment hasn't been refunded yet; pending refunds are held
+// back so the same money can't be refunded twice
+export function refundableAmount(payment: Payment, payments: Payment[]): Cents {
+  if (payment.kind === 'refund') return 0;
+
+  const refunded = sumCents(payments
+    .filter(other => other.kind === 'refund' && other.refunded_payment_id === payment.id)
+    .map(refund => refund.amount));
+  return payment.amount - refunded;
+}
@@ -0,0 +1,102 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Cents } from '../types/models';
+
+// Card processing. The shop's card processor is plugged in behind this
+// interface; MockPaymentProcessor approves cards locally so card payments can
+// be taken and tested without a processor account.
+
+export interface CardDetails {
+  number: string;
+  exp_month: number;
+  exp_year: number;
+  cvc: string;
+}
+
+export interface CardCharge {
+  transaction_id: string;
+  card_brand: string;
+  card_last4: string;
+}
+
+export interface PaymentProcessor {
+  readonly name: string;
+  charge(amount: Cents, card: CardDetails): Promise<CardCharge>;
+  // Returns the refund's transaction id. Repeating a refund with the same
+  // idempotency key returns the first refund instead of refunding again
+  refund(transactionId: string, amount: Cents, idempotencyKey: string): Promise<string>;
+}
+
+export class CardDeclinedError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'CardDeclinedError';
+  }
+}
+
+// Card numbers the mock declines
+const DECLINED_TEST_CARDS = new Set(['4000000000000002']);
+
+function cardBrand(number: string): string {
+  if (/^4/.test(number)) return 'Visa';
+  if (/^(5[1-5]|2[2-7])/.test(number)) return 'Mastercard';
+  if (/^3[47]/.test(number)) return 'American Express';
+  if (/^6(011|5)/.test(number)) return 'Discover';
+  return 'Card';
+}
+
+// Luhn checksum, which every real card number passes
+function isValidCardNumber(number: string): boolean {
+  if (!/^\d{12,19}$/.test(number)) return false;
+
+  let sum = 0;
+  [...number].reverse().forEach((char, index) => {
+    let digit = Number(char);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  });
+  return sum % 10 === 0;
+}
+
+export class MockPaymentProcessor implements PaymentProcessor {
+  readonly name = 'mock';
+
+  async charge(amount: Cents, card: CardDetails): Promise<CardCharge> {
+    const number = card.number.replace(/[\s-]/g, '');
+    const now = new Date();
+
+    if (!isValidCardNumber(number)) {
+      throw new CardDeclinedError('The card number is not valid');
+    }
+    if (card.exp_year < now.getFullYear() || (card.exp_year === now.getFullYear() && card.exp_month < now.getMonth() + 1)) {
+      throw new CardDeclinedError('The card has expired');
+    }
+    if (!/^\d{3,4}$/.test(card.cvc)) {
+      throw new CardDeclinedError('The security code is not valid');
+    }
+    if (DECLINED_TEST_CARDS.has(number)) {
+      throw new CardDeclinedError('The card was declined');
+    }
+    if (amount <= 0) {
+      throw new Error('Charge amount must be positive');
+    }
+
+    return {
+      transaction_id: `mock_ch_${uuidv4()}`,
+      card_brand: cardBrand(number),
+      card_last4: number.slice(-4),
+    };
+  }
+
+  async refund(transactionId: string, amount: Cents, idempotencyKey: string): Promise<string> {
+    if (!transactionId.startsWith('mock_ch_')) {
+      throw new Error('The mock processor can only refund its own charges');
+    }
+    if (amount <= 0) {
+      throw new Error('Refund amount must be positive');
+    }
+    return `mock_re_${idempotencyKey}`;
+  }
+}
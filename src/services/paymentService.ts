@@ -0,0 +1,166 @@
+import type { Cents, Payment, PaymentKind, PaymentMethod } from '../types/models';
+import db, { type PaymentEntry } from './browserDatabase';
+import { formatCents } from './money';
+import { refundableAmount } from './paymentLedger';
+import { MockPaymentProcessor, type CardDetails, type PaymentProcessor } from './paymentProcessor';
+
+// One tender of a checkout; card tenders carry the card to charge
+export interface Tender {
+  method: PaymentMethod;
+  amount: Cents;
+  check_number?: string;
+  card?: CardDetails;
+}
+
+// A pending refund younger than this may still be waiting on the processor
+// in another tab
+const STALE_REFUND_AGE = 60000;
+
+class PaymentService {
+  private processor: PaymentProcessor;
+  // Refunds this tab is waiting on the processor for
+  private inFlight = new Set<string>();
+
+  constructor(processor: PaymentProcessor) {
+    this.processor = processor;
+  }
+
+  setProcessor(processor: PaymentProcessor): void {
+    this.processor = processor;
+  }
+
+  getProcessorName(): string {
+    return this.processor.name;
+  }
+
+  // Take a payment or deposit made of one or more tenders. Cards are charged
+  // first; if a card is declined or the ledger rejects the payment, cards
+  // already charged are refunded and nothing is recorded.
+  async takePayment(
+    workOrderId: string,
+    kind: Exclude<PaymentKind, 'refund'>,
+    tenders: Tender[],
+    options: { receivedBy?: string; note?: string } = {}
+  ): Promise<Payment[]> {
+    const entries: PaymentEntry[] = [];
+    const charged: PaymentEntry[] = [];
+
+    try {
+      for (const tender of tenders) {
+        const entry: PaymentEntry = {
+          kind,
+          method: tender.method,
+          amount: tender.amount,
+          check_number: tender.method === 'check' ? tender.check_number : undefined,
+          received_by: options.receivedBy,
+          note: options.note,
+        };
+
+        if (tender.method === 'card') {
+          if (!tender.card) {
+            throw new Error('Card details are required for a card payment');
+          }
+          const charge = await this.processor.charge(tender.amount, tender.card);
+          Object.assign(entry, {
+            card_brand: charge.card_brand,
+            card_last4: charge.card_last4,
+            processor: this.processor.name,
+            processor_transaction_id: charge.transaction_id,
+          });
+          charged.push(entry);
+        }
+        entries.push(entry);
+      }
+
+      return await db.recordPayments(workOrderId, entries);
+    } catch (error) {
+      await this.voidCharges(charged);
+      throw error;
+    }
+  }
+
+  // Give back part or all of a payment by the method it was made with. A card
+  // refund is recorded as pending before the processor is asked, so it can't
+  // be refunded twice, and confirmed once the processor accepts it.
+  async refund(payment: Payment, amount: Cents, options: { receivedBy?: string; note?: string } = {}): Promise<Payment> {
+    const entry: PaymentEntry = {
+      kind: 'refund',
+      method: payment.method,
+      amount,
+      refunded_payment_id: payment.id,
+      card_brand: payment.card_brand,
+      card_last4: payment.card_last4,
+      received_by: options.receivedBy,
+      note: options.note,
+    };
+
+    // Check before refunding the card; recordPayments checks again
+    const refundable = refundableAmount(payment, await db.getPaymentsForWorkOrder(payment.work_order_id));
+    if (amount > refundable) {
+      throw new Error(`Only ${formatCents(refundable)} of that payment can be refunded`);
+    }
+
+    if (!(payment.method === 'card' && payment.processor_transaction_id)) {
+      const [refund] = await db.recordPayments(payment.work_order_id, [entry]);
+      return refund;
+    }
+
+    const [pending] = await db.recordPayments(payment.work_order_id, [{ ...entry, processor: payment.processor, pending: true }]);
+    return this.sendRefund(pending, payment.processor_transaction_id);
+  }
+
+  // Finish card refunds left pending when the app closed or the processor
+  // call failed part way. Each is sent again under the same idempotency key,
+  // so a refund the processor already made isn't made twice; one it turns
+  // down is discarded. Runs when the app loads.
+  async resolvePendingRefunds(): Promise<void> {
+    if (!navigator.onLine) return;
+
+    const cutoff = Date.now() - STALE_REFUND_AGE;
+    for (const refund of await db.getPendingRefunds()) {
+      if (refund.created_at > cutoff || this.inFlight.has(refund.id)) continue;
+
+      const payments = await db.getPaymentsForWorkOrder(refund.work_order_id);
+      const charge = payments.find(payment => payment.id === refund.refunded_payment_id);
+      if (!charge?.processor_transaction_id) {
+        await db.discardPendingRefund(refund.id);
+        continue;
+      }
+
+      try {
+        await this.sendRefund(refund, charge.processor_transaction_id);
+      } catch (error) {
+        console.error(`Pending refund ${refund.id} was turned down:`, error);
+      }
+    }
+  }
+
+  // The pending refund's id is the idempotency key
+  private async sendRefund(pending: Payment, chargeTransactionId: string): Promise<Payment> {
+    this.inFlight.add(pending.id);
+    try {
+      let transactionId: string;
+      try {
+        transactionId = await this.processor.refund(chargeTransactionId, pending.amount, pending.id);
+      } catch (error) {
+        await db.discardPendingRefund(pending.id);
+        throw error;
+      }
+      return await db.confirmRefund(pending.id, transactionId);
+    } finally {
+      this.inFlight.delete(pending.id);
+    }
+  }
+
+  private async voidCharges(entries: PaymentEntry[]): Promise<void> {
+    for (const entry of entries) {
+      try {
+        await this.processor.refund(entry.processor_transaction_id!, entry.amount, `void_${entry.processor_transaction_id}`);
+      } catch (error) {
+        console.error(`Failed to void card charge ${entry.processor_transaction_id}:`, error);
+      }
+    }
+  }
+}
+
+export default new PaymentService(new MockPaymentProcessor());
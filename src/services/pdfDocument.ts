@@ -0,0 +1,155 @@
+// Minimal PDF writer for simple printed documents (invoices): text in the
+// built-in Helvetica fonts, lines and shaded boxes on US Letter pages.
+// Coordinates are in points from the top-left corner of the page.
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+// Advance widths (1/1000 em) of printable ASCII, from the standard Helvetica font metrics
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const helveticaBoldWidths = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const DEFAULT_WIDTH = 556;
+
+function charWidth(code: number, bold: boolean): number {
+  const widths = bold ? helveticaBoldWidths : helveticaWidths;
+  return code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+}
+
+// Fonts use WinAnsi encoding; characters outside Latin-1 print as '?'
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === '(' || char === ')' || char === '\\') encoded += `\\${char}`;
+    else if (code >= 32 && code <= 126) encoded += char;
+    else if (code >= 160 && code <= 255) encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    else encoded += '?';
+  }
+  return encoded;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export class PdfDocument {
+  readonly width = 612;
+  readonly height = 792;
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private get content(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  textWidth(text: string, size: number = 10, bold: boolean = false): number {
+    let width = 0;
+    for (const char of text) {
+      width += charWidth(char.codePointAt(0)!, bold);
+    }
+    return (width * size) / 1000;
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const { size = 10, bold = false, align = 'left' } = options;
+    const left = align === 'right' ? x - this.textWidth(text, size, bold) : x;
+
+    this.content.push(
+      `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(this.height - y)} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  // Split text into lines no wider than maxWidth
+  wrap(text: string, maxWidth: number, size: number = 10, bold: boolean = false): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && this.textWidth(candidate, size, bold) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    });
+
+    if (current) lines.push(current);
+    return lines.length > 0 ? lines : [''];
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth: number = 0.5): void {
+    this.content.push(
+      `${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  // Shaded box; gray runs from 0 (black) to 1 (white)
+  fillRect(x: number, y: number, width: number, height: number, gray: number): void {
+    this.content.push(
+      `q ${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f Q`
+    );
+  }
+
+  toBlob(): Blob {
+    // Objects 1-4 are shared; each page adds a page object and its content stream
+    const objects: string[] = [
+      `<< /Type /Catalog /Pages 2 0 R >>`,
+      `<< /Type /Pages /Kids [${this.pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+      `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>`,
+      `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>`,
+    ];
+
+    this.pages.forEach((content, index) => {
+      const stream = content.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`
+      );
+      objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    });
+
+    // Everything above is ASCII, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach(offset => {
+      output += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+    });
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new Blob([output], { type: 'application/pdf' });
+  }
+}
@@ -1,99 +1,96 @@
-import type { CommonService, EstimateLineItem } from '../types/models';
-
-interface PartsPrice {
-  part_number: string;
-  description: string;
-  price: number;
-  supplier?: string;
-  markup_percentage?: number;
+import type {
+  CatalogPart,
+  Cents,
+  CommonService,
+  EstimateLineItem,
+  LaborRate,
+  MarkupMatrix,
+  PricingLevel,
+  TaxLine,
+} from '../types/models';
+import { findMarkupMatrix, markupForCost, type PartPricing } from './markupMatrix';
+import { formatCents, multiplyCents, percentOfCents, sumCents } from './money';
+import { adjustLaborRate, adjustMarkup } from './pricingLevels';
+import { calculateTax, type TaxContext } from './taxEngine';
+
+// The shop's labor rates and markup matrices, and the customer's pricing level
+export interface PricingContext {
+  laborRates: LaborRate[];
+  markupMatrices: MarkupMatrix[];
+  pricingLevel?: PricingLevel | null;
 }
 
-interface LaborRate {
-  category: string;
-  hourly_rate: number;
-  minimum_charge?: number;
-}
-
-class PricingEngineService {
-  // Default labor rates (can be customized per shop)
-  private defaultLaborRates: LaborRate[] = [
-    { category: 'diagnostic', hourly_rate: 125, minimum_charge: 100 },
-    { category: 'general', hourly_rate: 110 },
-    { category: 'electrical', hourly_rate: 135 },
-    { category: 'engine', hourly_rate: 120 },
-    { category: 'transmission', hourly_rate: 125 },
-    { category: 'brake', hourly_rate: 100 },
-    { category: 'suspension', hourly_rate: 115 },
-  ];
-
-  // Common parts database (expandable)
-  private commonParts: PartsPrice[] = [
-    // Oil & Filters
-    { part_number: 'OF-001', description: 'Engine Oil Filter', price: 12.50, supplier: 'ACDelco', markup_percentage: 40 },
-    { part_number: 'OL-001', description: 'Conventional Motor Oil (5qt)', price: 24.99, supplier: 'Valvoline', markup_percentage: 35 },
-    { part_number: 'OL-002', description: 'Full Synthetic Motor Oil (5qt)', price: 44.99, supplier: 'Mobil 1', markup_percentage: 35 },
-
-    // Brake Components
-    { part_number: 'BP-001', description: 'Front Brake Pads (Set)', price: 45.00, supplier: 'Wagner', markup_percentage: 50 },
-    { part_number: 'BP-002', description: 'Rear Brake Pads (Set)', price: 38.00, supplier: 'Wagner', markup_percentage: 50 },
-    { part_number: 'BR-001', description: 'Front Brake Rotor', price: 65.00, supplier: 'ACDelco', markup_percentage: 45 },
-    { part_number: 'BR-002', description: 'Rear Brake Rotor', price: 55.00, supplier: 'ACDelco', markup_percentage: 45 },
-    { part_number: 'BF-001', description: 'Brake Fluid (DOT 3)', price: 8.99, supplier: 'Prestone', markup_percentage: 60 },
-
-    // Air & Cabin Filters
-    { part_number: 'AF-001', description: 'Engine Air Filter', price: 18.50, supplier: 'K&N', markup_percentage: 45 },
-    { part_number: 'CF-001', description: 'Cabin Air Filter', price: 22.00, supplier: 'FRAM', markup_percentage: 45 },
-
-    // Belts & Hoses
-    { part_number: 'BL-001', description: 'Serpentine Belt', price: 28.00, supplier: 'Gates', markup_percentage: 50 },
-    { part_number: 'HS-001', description: 'Upper Radiator Hose', price: 35.00, supplier: 'Gates', markup_percentage: 45 },
-    { part_number: 'HS-002', description: 'Lower Radiator Hose', price: 32.00, supplier: 'Gates', markup_percentage: 45 },
-
-    // Spark Plugs & Ignition
-    { part_number: 'SP-001', description: 'Spark Plug (Standard)', price: 4.50, supplier: 'NGK', markup_percentage: 60 },
-    { part_number: 'SP-002', description: 'Spark Plug (Iridium)', price: 12.00, supplier: 'NGK', markup_percentage: 50 },
-    { part_number: 'IC-001', description: 'Ignition Coil', price: 85.00, supplier: 'Delphi', markup_percentage: 40 },
-
-    // Fluids
-    { part_number: 'FL-001', description: 'Transmission Fluid (1qt)', price: 11.99, supplier: 'Valvoline', markup_percentage: 50 },
-    { part_number: 'FL-002', description: 'Coolant (1gal)', price: 14.99, supplier: 'Prestone', markup_percentage: 40 },
-    { part_number: 'FL-003', description: 'Power Steering Fluid', price: 8.99, supplier: 'Lucas', markup_percentage: 50 },
+// Labor billed at a category without its own rate uses the general rate
+export const GENERAL_LABOR_CATEGORY = 'general';
+
+// Labor rates a new shop starts with
+export function defaultLaborRates(now: number = Date.now()): LaborRate[] {
+  const rates: Omit<LaborRate, 'created_at' | 'updated_at'>[] = [
+    { id: 'diagnostic', hourly_rate: 12500, minimum_charge: 10000 },
+    { id: GENERAL_LABOR_CATEGORY, hourly_rate: 11000 },
+    { id: 'electrical', hourly_rate: 13500 },
+    { id: 'engine', hourly_rate: 12000 },
+    { id: 'transmission', hourly_rate: 12500 },
+    { id: 'brake', hourly_rate: 10000 },
+    { id: 'suspension', hourly_rate: 11500 },
   ];
+  return rates.map(rate => ({ ...rate, created_at: now, updated_at: now }));
+}
 
-  getLaborRate(category: string = 'general'): LaborRate {
-    return this.defaultLaborRates.find(rate => rate.category === category) || this.defaultLaborRates[1];
+// Why a labor rate can't be saved, or null if it can
+export function validateLaborRate(rate: Pick<LaborRate, 'id' | 'hourly_rate' | 'minimum_charge'>): string | null {
+  if (!/^[a-z][a-z0-9_-]*$/.test(rate.id)) {
+    return 'Labor categories are lowercase letters, numbers, - and _';
+  }
+  if (!(Number.isInteger(rate.hourly_rate) && rate.hourly_rate > 0)) {
+    return 'The hourly rate must be more than $0.00';
   }
+  if (rate.minimum_charge !== undefined && !(Number.isInteger(rate.minimum_charge) && rate.minimum_charge >= 0)) {
+    return 'The minimum charge must be $0.00 or more';
+  }
+  return null;
+}
 
-  searchParts(query: string): PartsPrice[] {
-    const searchTerm = query.toLowerCase();
-    return this.commonParts.filter(part =>
-      part.description.toLowerCase().includes(searchTerm) ||
-      part.part_number.toLowerCase().includes(searchTerm)
-    );
+class PricingEngineService {
+  // The category's rate, adjusted for the customer's pricing level
+  getLaborRate(category: string, pricing: PricingContext): Pick<LaborRate, 'hourly_rate' | 'minimum_charge'> {
+    const rate = pricing.laborRates.find(other => other.id === category)
+      || pricing.laborRates.find(other => other.id === GENERAL_LABOR_CATEGORY);
+    if (!rate) {
+      throw new Error('Set up a general labor rate in shop settings');
+    }
+
+    return {
+      hourly_rate: adjustLaborRate(rate.hourly_rate, pricing.pricingLevel),
+      minimum_charge: rate.minimum_charge && adjustLaborRate(rate.minimum_charge, pricing.pricingLevel),
+    };
   }
 
-  getPartPrice(partNumber: string): PartsPrice | null {
-    return this.commonParts.find(part => part.part_number === partNumber) || null;
+  // Markup from the matrix that applies to the part (see markupMatrix.ts),
+  // adjusted for the customer's pricing level
+  getPartMarkup(costPrice: Cents, pricing: PricingContext, part: PartPricing = {}): number {
+    const matrix = findMarkupMatrix(pricing.markupMatrices, part);
+    return matrix ? adjustMarkup(markupForCost(matrix, costPrice), pricing.pricingLevel) : 0;
   }
 
-  calculatePartPrice(costPrice: number, markupPercentage: number = 40): number {
-    return Math.round((costPrice * (1 + markupPercentage / 100)) * 100) / 100;
+  calculatePartPrice(costPrice: Cents, markupPercentage: number): Cents {
+    return percentOfCents(costPrice, 100 + markupPercentage);
   }
 
-  calculateLaborCost(hours: number, category: string = 'general'): number {
-    const laborRate = this.getLaborRate(category);
-    const cost = hours * laborRate.hourly_rate;
+  calculateLaborCost(hours: number, category: string, pricing: PricingContext): Cents {
+    const laborRate = this.getLaborRate(category, pricing);
+    const cost = multiplyCents(laborRate.hourly_rate, hours);
 
     // Apply minimum charge if specified
     if (laborRate.minimum_charge && cost < laborRate.minimum_charge) {
       return laborRate.minimum_charge;
     }
 
-    return Math.round(cost * 100) / 100;
+    return cost;
   }
 
-  createServiceLineItem(service: CommonService): EstimateLineItem {
-    const laborCost = this.calculateLaborCost(service.labor_hours || 0);
+  createServiceLineItem(service: CommonService, pricing: PricingContext): EstimateLineItem {
+    const laborCost = this.calculateLaborCost(service.labor_hours || 0, GENERAL_LABOR_CATEGORY, pricing);
 
     return {
       id: `service_${service.id}`,
@@ -106,28 +103,30 @@ class PricingEngineService {
     };
   }
 
-  createPartLineItem(partNumber: string, quantity: number = 1, customPrice?: number): EstimateLineItem | null {
-    const part = this.getPartPrice(partNumber);
-    if (!part) return null;
-
-    const unitPrice = customPrice || this.calculatePartPrice(part.price, part.markup_percentage);
-    const totalPrice = unitPrice * quantity;
+  createPartLineItem(part: CatalogPart, pricing: PricingContext, quantity: number = 1): EstimateLineItem {
+    const markup = this.getPartMarkup(part.cost, pricing, part);
+    const unitPrice = this.calculatePartPrice(part.cost, markup);
 
     return {
-      id: `part_${partNumber}_${Date.now()}`,
+      id: `part_${part.part_number}_${Date.now()}`,
       type: 'part',
       description: part.description,
-      part_number: partNumber,
+      part_number: part.part_number,
       quantity,
       unit_price: unitPrice,
-      total_price: Math.round(totalPrice * 100) / 100,
+      total_price: multiplyCents(unitPrice, quantity),
       supplier: part.supplier,
+      catalog_part_id: part.id,
+      part_category: part.category,
+      unit_cost: part.cost,
+      markup_percentage: markup,
     };
   }
 
-  createLaborLineItem(description: string, hours: number, category: string = 'general'): EstimateLineItem {
-    const laborRate = this.getLaborRate(category);
-    const totalPrice = this.calculateLaborCost(hours, category);
+  createLaborLineItem(description: string, hours: number, category: string, pricing: PricingContext): EstimateLineItem {
+    const laborRate = this.getLaborRate(category, pricing);
+    const totalPrice = this.calculateLaborCost(hours, category, pricing);
+    const level = pricing.pricingLevel && pricing.pricingLevel.id !== 'retail' ? ` (${pricing.pricingLevel.name})` : '';
 
     return {
       id: `labor_${Date.now()}`,
@@ -136,79 +135,78 @@ class PricingEngineService {
       quantity: hours,
       unit_price: laborRate.hourly_rate,
       total_price: totalPrice,
-      notes: `${hours} hrs @ $${laborRate.hourly_rate}/hr`,
+      notes: `${hours} hrs @ ${formatCents(laborRate.hourly_rate)}/hr${level}`,
     };
   }
 
-  calculateEstimateTotal(lineItems: EstimateLineItem[]): {
-    subtotal: number;
-    tax: number;
-    total: number;
-    laborTotal: number;
-    partsTotal: number;
-    servicesTotal: number;
+  // Line items are already rounded to the cent, so totals are exact sums.
+  // Tax follows the shop's tax profile and the customer's exemption (see taxEngine.ts)
+  calculateEstimateTotal(lineItems: EstimateLineItem[], taxContext: TaxContext): {
+    subtotal: Cents;
+    tax: Cents;
+    taxLines: TaxLine[];
+    taxExempt: boolean;
+    total: Cents;
+    laborTotal: Cents;
+    partsTotal: Cents;
+    servicesTotal: Cents;
   } {
-    let laborTotal = 0;
-    let partsTotal = 0;
-    let servicesTotal = 0;
-
-    lineItems.forEach(item => {
-      switch (item.type) {
-        case 'labor':
-          laborTotal += item.total_price;
-          break;
-        case 'part':
-          partsTotal += item.total_price;
-          break;
-        case 'service':
-          servicesTotal += item.total_price;
-          break;
-      }
-    });
+    const totalOf = (type: EstimateLineItem['type']) =>
+      sumCents(lineItems.filter(item => item.type === type).map(item => item.total_price));
 
+    const laborTotal = totalOf('labor');
+    const partsTotal = totalOf('part');
+    const servicesTotal = totalOf('service');
     const subtotal = laborTotal + partsTotal + servicesTotal;
-    const tax = Math.round(subtotal * 0.0875 * 100) / 100; // 8.75% tax rate (configurable)
-    const total = subtotal + tax;
+    const { lines, tax, exempt } = calculateTax(lineItems, taxContext);
 
     return {
-      subtotal: Math.round(subtotal * 100) / 100,
+      subtotal,
       tax,
-      total: Math.round(total * 100) / 100,
-      laborTotal: Math.round(laborTotal * 100) / 100,
-      partsTotal: Math.round(partsTotal * 100) / 100,
-      servicesTotal: Math.round(servicesTotal * 100) / 100,
+      taxLines: lines,
+      taxExempt: exempt,
+      total: subtotal + tax,
+      laborTotal,
+      partsTotal,
+      servicesTotal,
     };
   }
 
-  // Generate estimate templates for common services
-  getEstimateTemplate(serviceType: string): EstimateLineItem[] {
+  // Generate estimate templates for common services. Parts missing from the
+  // catalog are left out.
+  getEstimateTemplate(serviceType: string, pricing: PricingContext, catalog: CatalogPart[]): EstimateLineItem[] {
+    const part = (partNumber: string, quantity: number = 1) => {
+      const catalogPart = catalog.find(other => other.part_number === partNumber);
+      return catalogPart ? [this.createPartLineItem(catalogPart, pricing, quantity)] : [];
+    };
+
     const templates: { [key: string]: () => EstimateLineItem[] } = {
       'oil-change': () => [
-        this.createPartLineItem('OL-001')!,
-        this.createPartLineItem('OF-001')!,
-        this.createLaborLineItem('Oil Change Service', 0.5, 'general'),
+        ...part('OL-001'),
+        ...part('OF-001'),
+        this.createLaborLineItem('Oil Change Service', 0.5, 'general', pricing),
       ],
 
       'brake-pads-front': () => [
-        this.createPartLineItem('BP-001')!,
-        this.createLaborLineItem('Front Brake Pad Installation', 1.5, 'brake'),
+        ...part('BP-001'),
+        this.createLaborLineItem('Front Brake Pad Installation', 1.5, 'brake', pricing),
       ],
 
       'brake-pads-rear': () => [
-        this.createPartLineItem('BP-002')!,
-        this.createLaborLineItem('Rear Brake Pad Installation', 1.0, 'brake'),
+        ...part('BP-002'),
+        this.createLaborLineItem('Rear Brake Pad Installation', 1.0, 'brake', pricing),
       ],
 
       'diagnostic': () => [
-        this.createLaborLineItem('Vehicle Diagnostic', 1.0, 'diagnostic'),
+        this.createLaborLineItem('Vehicle Diagnostic', 1.0, 'diagnostic', pricing),
       ],
 
       'tune-up-basic': () => [
-        this.createPartLineItem('SP-001', 4)!,
-        this.createPartLineItem('AF-001')!,
-        this.createPartLineItem('OF-001')!,
-        this.createPartLineItem('OL-002')!,
-        this.createLaborLineItem('Basic Tune-up Service', 2.0, 'engine'),
+        ...part('SP-001', 4),
+        ...part('AF-001'),
+        ...part('OF-001'),
+        ...part('OL-002'),
+        this.createLaborLineItem('Basic Tune-up Service', 2.0, 'engine', pricing),
       ],
     };
 
@@ -217,7 +215,8 @@ class PricingEngineService {
   }
 
   // Add custom part (for parts not in database)
-  addCustomPart(description: string, partNumber: string, cost: number, markup: number = 40): EstimateLineItem {
+  addCustomPart(description: string, partNumber: string, cost: Cents, pricing: PricingContext): EstimateLineItem {
+    const markup = this.getPartMarkup(cost, pricing);
     const unitPrice = this.calculatePartPrice(cost, markup);
 
     return {
@@ -228,6 +227,8 @@ class PricingEngineService {
       quantity: 1,
       unit_price: unitPrice,
       total_price: unitPrice,
+      unit_cost: cost,
+      markup_percentage: markup,
       notes: 'Custom part - pricing verified',
     };
   }
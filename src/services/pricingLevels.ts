@@ -0,0 +1,38 @@
+import type { Cents, PricingLevel, PricingLevelId } from '../types/models';
+import { percentOfCents } from './money';
+
+// Pricing levels scale the labor rate table and the parts markup matrix for
+// a group of customers. Customers without a level pay retail.
+
+export const pricingLevelIds: PricingLevelId[] = ['retail', 'fleet', 'employee', 'warranty'];
+
+export function defaultPricingLevels(now: number = Date.now()): PricingLevel[] {
+  return [
+    { id: 'retail', name: 'Retail', labor_rate_percentage: 100, parts_markup_percentage: 100, created_at: now, updated_at: now },
+    { id: 'fleet', name: 'Fleet', labor_rate_percentage: 90, parts_markup_percentage: 75, created_at: now, updated_at: now },
+    { id: 'employee', name: 'Employee', labor_rate_percentage: 70, parts_markup_percentage: 25, created_at: now, updated_at: now },
+    { id: 'warranty', name: 'Warranty', labor_rate_percentage: 85, parts_markup_percentage: 40, created_at: now, updated_at: now },
+  ];
+}
+
+export function adjustLaborRate(rate: Cents, level?: PricingLevel | null): Cents {
+  return level ? percentOfCents(rate, level.labor_rate_percentage) : rate;
+}
+
+export function adjustMarkup(markupPercentage: number, level?: PricingLevel | null): number {
+  return level ? Math.round(markupPercentage * level.parts_markup_percentage) / 100 : markupPercentage;
+}
+
+// Why a level can't be saved, or null if it can
+export function validatePricingLevel(level: Pick<PricingLevel, 'name' | 'labor_rate_percentage' | 'parts_markup_percentage'>): string | null {
+  if (!level.name.trim()) {
+    return 'The pricing level needs a name';
+  }
+  if (!(level.labor_rate_percentage > 0)) {
+    return 'The labor rate must be more than 0% of the standard rate';
+  }
+  if (!(level.parts_markup_percentage >= 0)) {
+    return 'The parts markup must be 0% or more of the matrix markup';
+  }
+  return null;
+}
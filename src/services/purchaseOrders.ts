@@ -0,0 +1,164 @@
+import type {
+  CatalogPart,
+  Cents,
+  InventoryItem,
+  LineItem,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  WorkOrder,
+} from '../types/models';
+import { multiplyCents, sumCents } from './money';
+import { isLowStock, suggestedOrderQuantity } from './inventory';
+
+// Purchase orders: parts ordered from one supplier, either to restock the
+// shelf or for a job. Drafts collect what needs ordering; once placed, parts
+// are received (possibly over several deliveries) until nothing is left on
+// backorder. A job with parts still coming is flagged waiting on parts.
+
+// Orders for parts without a supplier in the catalog are grouped under this name
+export const NO_SUPPLIER = 'No supplier';
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Backordered',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+// Something that needs ordering
+export interface OrderNeed {
+  part: CatalogPart;
+  quantity: number;
+  work_order_id?: string;
+}
+
+// Parts of the line still to arrive
+export function openQuantity(line: PurchaseOrderLine): number {
+  return line.backorder_closed ? 0 : Math.max(0, line.quantity_ordered - line.quantity_received);
+}
+
+// Placed with the supplier and not everything has arrived
+export function isAwaitingDelivery(order: PurchaseOrder): boolean {
+  return order.status === 'ordered' || order.status === 'partially_received';
+}
+
+// Status of a placed order from what has been received on its lines
+export function receivingStatus(order: PurchaseOrder): PurchaseOrderStatus {
+  const anyReceived = order.lines.some(line => line.quantity_received > 0);
+  if (order.lines.every(line => openQuantity(line) === 0)) {
+    return anyReceived ? 'received' : 'cancelled';
+  }
+  return anyReceived ? 'partially_received' : 'ordered';
+}
+
+export function purchaseOrderTotal(order: PurchaseOrder): Cents {
+  return sumCents(order.lines.map(line => multiplyCents(line.unit_cost, line.quantity_ordered)));
+}
+
+// Parts a line accounts for: what was ordered on drafts, what has arrived or is still coming otherwise
+function coveredQuantity(order: PurchaseOrder, line: PurchaseOrderLine): number {
+  if (order.status === 'cancelled') return 0;
+  if (order.status === 'draft') return line.quantity_ordered;
+  return line.quantity_received + openQuantity(line);
+}
+
+// Stocked parts that are low once the parts already on order arrive
+export function lowStockNeeds(inventory: InventoryItem[], parts: CatalogPart[], orders: PurchaseOrder[]): OrderNeed[] {
+  const partsById = new Map(parts.map(part => [part.id, part]));
+  const coming = new Map<string, number>();
+  for (const order of orders) {
+    if (order.status !== 'draft' && !isAwaitingDelivery(order)) continue;
+    for (const line of order.lines) {
+      if (line.work_order_id) continue;
+      const quantity = order.status === 'draft' ? line.quantity_ordered : openQuantity(line);
+      coming.set(line.part_id, (coming.get(line.part_id) || 0) + quantity);
+    }
+  }
+
+  return inventory.flatMap(item => {
+    const part = partsById.get(item.id);
+    const projected = { ...item, on_hand: item.on_hand + (coming.get(item.id) || 0) };
+    if (!part || !isLowStock(projected)) return [];
+
+    const quantity = suggestedOrderQuantity(projected);
+    return quantity > 0 ? [{ part, quantity }] : [];
+  });
+}
+
+// Approved parts on open jobs that the shop doesn't stock and hasn't ordered yet
+export function jobNeeds(
+  workOrders: WorkOrder[],
+  lineItems: LineItem[],
+  inventory: InventoryItem[],
+  parts: CatalogPart[],
+  orders: PurchaseOrder[]
+): OrderNeed[] {
+  const partsById = new Map(parts.map(part => [part.id, part]));
+  const stocked = new Set(inventory.map(item => item.id));
+  const openJobs = new Set(workOrders
+    .filter(workOrder => workOrder.status !== 'completed' && workOrder.status !== 'cancelled')
+    .map(workOrder => workOrder.id));
+  const key = (workOrderId: string, partId: string) => `${workOrderId}|${partId}`;
+
+  const needed = new Map<string, OrderNeed>();
+  for (const item of lineItems) {
+    if (!item.approved || item.type !== 'part' || !item.catalog_part_id) continue;
+    if (!openJobs.has(item.work_order_id) || stocked.has(item.catalog_part_id)) continue;
+
+    const part = partsById.get(item.catalog_part_id);
+    if (!part) continue;
+
+    const need = needed.get(key(item.work_order_id, part.id)) || { part, quantity: 0, work_order_id: item.work_order_id };
+    need.quantity += item.quantity;
+    needed.set(key(item.work_order_id, part.id), need);
+  }
+
+  for (const order of orders) {
+    for (const line of order.lines) {
+      const need = line.work_order_id && needed.get(key(line.work_order_id, line.part_id));
+      if (need) need.quantity -= coveredQuantity(order, line);
+    }
+  }
+
+  return [...needed.values()].filter(need => need.quantity > 0);
+}
+
+export function groupBySupplier(needs: OrderNeed[]): Map<string, OrderNeed[]> {
+  const groups = new Map<string, OrderNeed[]>();
+  for (const need of needs) {
+    const supplier = need.part.supplier || NO_SUPPLIER;
+    groups.set(supplier, [...(groups.get(supplier) || []), need]);
+  }
+  return groups;
+}
+
+// Add the needs to a draft's lines; a part already on the draft for the same purpose gets a larger quantity
+export function mergeNeeds(lines: PurchaseOrderLine[], needs: OrderNeed[], newId: () => string): PurchaseOrderLine[] {
+  const merged = [...lines];
+  for (const need of needs) {
+    const index = merged.findIndex(line => line.part_id === need.part.id && line.work_order_id === need.work_order_id);
+    if (index !== -1) {
+      merged[index] = { ...merged[index], quantity_ordered: merged[index].quantity_ordered + need.quantity };
+    } else {
+      merged.push({
+        id: newId(),
+        part_id: need.part.id,
+        part_number: need.part.part_number,
+        description: need.part.description,
+        quantity_ordered: need.quantity,
+        quantity_received: 0,
+        unit_cost: need.part.cost,
+        work_order_id: need.work_order_id,
+      });
+    }
+  }
+  return merged;
+}
+
+// A job waits on parts while a placed order still has parts coming for it
+export function isWaitingOnParts(workOrderId: string, orders: PurchaseOrder[]): boolean {
+  return orders.some(order => isAwaitingDelivery(order) &&
+    order.lines.some(line => line.work_order_id === workOrderId && openQuantity(line) > 0));
+}
@@ -3,147 +3,463 @@ import type {
   Appointment,
   ShopSchedule,
   ServiceDuration,
+  ResourceDowntime,
+  ShopResource,
+  TechProfile,
   TechSchedule,
   TimeOffRequest,
   TimeSlot,
   AppointmentConflict,
+  WorkOrder,
+  WorkOrderStatus,
 } from '../types/models';
+import changeFeed from './changeFeed';
+import type { DatabaseTransaction } from './databaseTransaction';
+import { toCents } from './money';
+import type { TableName, TableRecord } from './storageAdapter';
+import {
+  getPendingMigrations,
+  latestVersion,
+  legacyCommonServiceIds,
+  type Migration,
+  type MigrationLogEntry,
+} from './migrations';
+
+export interface SchedulingData {
+  appointments: Appointment[];
+  shop_schedules: ShopSchedule[];
+  service_durations: ServiceDuration[];
+  tech_schedules: TechSchedule[];
+  time_off_requests: TimeOffRequest[];
+  shop_resources: ShopResource[];
+}
 
-class SchedulingService {
-  private storageKey = 'shop_scheduling';
-
-  private getSchedulingData(): {
-    appointments: Appointment[];
-    shop_schedules: ShopSchedule[];
-    service_durations: ServiceDuration[];
-    tech_schedules: TechSchedule[];
-    time_off_requests: TimeOffRequest[];
-  } {
-    const saved = localStorage.getItem(this.storageKey);
-    if (saved) {
-      return JSON.parse(saved);
+export const schedulingTables = [
+  'appointments', 'shop_schedules', 'service_durations', 'tech_schedules', 'time_off_requests', 'shop_resources',
+] as const satisfies (keyof SchedulingData)[];
+
+// Scheduling data as it was kept in this device's localStorage before it
+// moved into the shop database; older backups carry it in this shape
+export interface LegacySchedulingData extends SchedulingData {
+  schema_version: number;
+  migration_log: MigrationLogEntry[];
+  revision?: number; // bumped on every save
+}
+
+// Shop capacity when the day's schedule doesn't set it
+const DEFAULT_MAX_APPOINTMENTS_PER_HOUR = 4;
+const DEFAULT_SERVICE_BAYS = 4;
+
+// Default shop hours and service durations for a new shop
+function defaultShopSchedule(): ShopSchedule[] {
+  const days = [
+    { day: 1, name: 'Monday', open: '08:00', close: '17:00' },
+    { day: 2, name: 'Tuesday', open: '08:00', close: '17:00' },
+    { day: 3, name: 'Wednesday', open: '08:00', close: '17:00' },
+    { day: 4, name: 'Thursday', open: '08:00', close: '17:00' },
+    { day: 5, name: 'Friday', open: '08:00', close: '17:00' },
+    { day: 6, name: 'Saturday', open: '08:00', close: '15:00' },
+    { day: 0, name: 'Sunday', open: '10:00', close: '14:00' },
+  ];
+
+  return days.map(day => ({
+    id: `schedule_${day.day}`,
+    day_of_week: day.day,
+    open_time: day.open,
+    close_time: day.close,
+    lunch_start: '12:00',
+    lunch_end: '13:00',
+    is_closed: false,
+    max_appointments_per_hour: DEFAULT_MAX_APPOINTMENTS_PER_HOUR,
+    service_bays: DEFAULT_SERVICE_BAYS,
+    created_at: Date.now(),
+    updated_at: Date.now(),
+  }));
+}
+
+function defaultServiceDurations(): ServiceDuration[] {
+  return [
+    {
+      id: 'oil-change-duration',
+      service_id: 'oil-change',
+      service_name: 'Oil Change',
+      category: 'maintenance',
+      estimated_minutes: 30,
+      minimum_minutes: 20,
+      maximum_minutes: 45,
+      buffer_minutes: 10,
+      complexity_multiplier: 1.0,
+      requires_specialist: false,
+      can_overlap: true,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+    {
+      id: 'brake-inspection-duration',
+      service_id: 'brake-inspection',
+      service_name: 'Brake Inspection',
+      category: 'inspection',
+      estimated_minutes: 45,
+      minimum_minutes: 30,
+      maximum_minutes: 60,
+      buffer_minutes: 15,
+      complexity_multiplier: 1.2,
+      requires_specialist: false,
+      can_overlap: false,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+    {
+      id: 'brake-pads-duration',
+      service_id: 'brake-pads',
+      service_name: 'Brake Pad Replacement',
+      category: 'repair',
+      estimated_minutes: 90,
+      minimum_minutes: 60,
+      maximum_minutes: 120,
+      buffer_minutes: 15,
+      complexity_multiplier: 1.5,
+      requires_specialist: true,
+      can_overlap: false,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+    {
+      id: 'tire-rotation-duration',
+      service_id: 'tire-rotation',
+      service_name: 'Tire Rotation',
+      category: 'maintenance',
+      estimated_minutes: 25,
+      minimum_minutes: 15,
+      maximum_minutes: 35,
+      buffer_minutes: 10,
+      complexity_multiplier: 1.0,
+      requires_specialist: false,
+      can_overlap: true,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    },
+    {
+      id: 'alignment-duration',
+      service_id: 'alignment',
+      service_name: 'Wheel Alignment',
+      category: 'maintenance',
+      estimated_minutes: 60,
+      minimum_minutes: 45,
+      maximum_minutes: 90,
+      buffer_minutes: 15,
+      complexity_multiplier: 1.3,
+      requires_specialist: true,
+      can_overlap: false,
+      created_at: Date.now(),
+      updated_at: Date.now(),
     }
+  ];
+}
 
-    // Initialize with default scheduling data
-    const defaultData = {
-      appointments: [],
-      shop_schedules: this.getDefaultShopSchedule(),
-      service_durations: this.getDefaultServiceDurations(),
-      tech_schedules: [],
-      time_off_requests: [],
-    };
+// The slot an appointment asked for can no longer be booked
+export class AppointmentConflictError extends Error {
+  conflict: AppointmentConflict;
 
-    this.saveSchedulingData(defaultData);
-    return defaultData;
+  constructor(conflict: AppointmentConflict) {
+    super(conflict.message);
+    this.name = 'AppointmentConflictError';
+    this.conflict = conflict;
   }
+}
+
+// Technicians and their open work orders, loaded from the shop database
+export interface TechRoster {
+  techs: TechProfile[];
+  workOrders: WorkOrder[];
+}
+
+// A tech without a TechSchedule for the day works the shop's hours, one job at a time
+const DEFAULT_MAX_CONCURRENT_JOBS = 1;
+
+// Work orders that keep their tech busy today
+const activeWorkOrderStatuses: WorkOrderStatus[] = ['approved', 'in_progress'];
+
+// Appointments that no longer hold a tech
+const releasedAppointmentStatuses: Appointment['status'][] = ['cancelled', 'completed', 'no_show'];
 
-  private saveSchedulingData(data: any): void {
-    localStorage.setItem(this.storageKey, JSON.stringify(data));
+// Most bookings in progress at the same moment from `from` on, for bookings
+// already known to overlap the window being checked
+function peakOccupancy(intervals: { start: number; end: number }[], from: number): number {
+  const points = [from, ...intervals.map(interval => interval.start).filter(start => start > from)];
+  return Math.max(0, ...points.map(point =>
+    intervals.filter(interval => interval.start <= point && point < interval.end).length));
+}
+
+// Resources an appointment holds: those its service needed when it was booked
+function heldResources(appointment: Appointment, durations: ServiceDuration[]): string[] {
+  return appointment.reserved_resources ??
+    durations.find(sd => sd.service_id === appointment.service_type)?.required_resources ?? [];
+}
+
+// Service wording each specialization covers; a specialization not listed covers services naming it
+const specializationKeywords: Record<string, string[]> = {
+  brake: ['brake'],
+  engine: ['engine', 'tune-up', 'timing'],
+  electrical: ['electric', 'battery', 'alternator', 'starter'],
+  transmission: ['transmission', 'clutch'],
+  suspension: ['suspension', 'shock', 'strut', 'alignment'],
+  hvac: ['hvac', 'air conditioning', 'a/c'],
+  tire: ['tire', 'wheel', 'alignment', 'balance', 'rotation'],
+};
+
+function coversService(specialization: string, service: ServiceDuration): boolean {
+  const key = specialization.trim().toLowerCase();
+  const serviceText = `${service.service_id} ${service.service_name} ${service.category}`.toLowerCase();
+  return (specializationKeywords[key] || [key]).some(keyword => serviceText.includes(keyword));
+}
+
+type TimeOffPeriod = Pick<TimeOffRequest, 'start_date' | 'end_date' | 'start_time' | 'end_time'>;
+
+// When time off starts and ends; without times it covers whole days
+export function timeOffWindow(request: TimeOffPeriod): { start: Date; end: Date } {
+  const start = new Date(request.start_date);
+  const end = new Date(request.end_date);
+  const [startHour, startMinute] = (request.start_time || '00:00').split(':').map(Number);
+  start.setHours(startHour, startMinute, 0, 0);
+  if (request.end_time) {
+    const [endHour, endMinute] = request.end_time.split(':').map(Number);
+    end.setHours(endHour, endMinute, 0, 0);
+  } else {
+    end.setHours(24, 0, 0, 0);
   }
+  return { start, end };
+}
 
-  private getDefaultShopSchedule(): ShopSchedule[] {
-    const days = [
-      { day: 1, name: 'Monday', open: '08:00', close: '17:00' },
-      { day: 2, name: 'Tuesday', open: '08:00', close: '17:00' },
-      { day: 3, name: 'Wednesday', open: '08:00', close: '17:00' },
-      { day: 4, name: 'Thursday', open: '08:00', close: '17:00' },
-      { day: 5, name: 'Friday', open: '08:00', close: '17:00' },
-      { day: 6, name: 'Saturday', open: '08:00', close: '15:00' },
-      { day: 0, name: 'Sunday', open: '10:00', close: '14:00' },
-    ];
+export const timeOffTypeLabels: Record<TimeOffRequest['request_type'], string> = {
+  vacation: 'Vacation',
+  sick: 'Sick',
+  personal: 'Personal',
+  appointment: 'Appointment',
+  training: 'Training',
+};
+
+// "Mon, Oct 19 – Wed, Oct 21" or "Mon, Oct 19, 13:00–15:00" for a partial day
+export function formatTimeOffPeriod(request: TimeOffPeriod): string {
+  const day = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const from = `${day(request.start_date)}${request.start_time ? `, ${request.start_time}` : ''}`;
+  const sameDay = new Date(request.start_date).toDateString() === new Date(request.end_date).toDateString();
+
+  if (sameDay && request.start_time && request.end_time) return `${from}–${request.end_time}`;
+  if (sameDay && !request.start_time && !request.end_time) return from;
+  return `${from} – ${day(request.end_date)}${request.end_time ? `, ${request.end_time}` : ''}`;
+}
 
-    return days.map(day => ({
-      id: `schedule_${day.day}`,
-      day_of_week: day.day,
-      open_time: day.open,
-      close_time: day.close,
-      lunch_start: '12:00',
-      lunch_end: '13:00',
-      is_closed: false,
-      max_appointments_per_hour: 4,
-      created_at: Date.now(),
-      updated_at: Date.now(),
-    }));
+export type ShiftHours = Pick<TechSchedule, 'shift_start' | 'shift_end' | 'lunch_start' | 'lunch_end'>;
+
+// A weekly shift pattern by day of week (0=Sunday); days not listed are off
+export interface ShiftTemplate {
+  id: string;
+  name: string;
+  days: Partial<Record<number, ShiftHours>>;
+}
+
+const dayShift: ShiftHours = { shift_start: '08:00', shift_end: '17:00', lunch_start: '12:00', lunch_end: '13:00' };
+const earlyShift: ShiftHours = { shift_start: '07:00', shift_end: '15:30', lunch_start: '11:00', lunch_end: '11:30' };
+
+export const shiftTemplates: ShiftTemplate[] = [
+  { id: 'weekdays', name: 'Mon–Fri, 8–5', days: { 1: dayShift, 2: dayShift, 3: dayShift, 4: dayShift, 5: dayShift } },
+  { id: 'early', name: 'Mon–Fri, 7–3:30', days: { 1: earlyShift, 2: earlyShift, 3: earlyShift, 4: earlyShift, 5: earlyShift } },
+  {
+    id: 'tue_sat',
+    name: 'Tue–Sat, 8–5 (Sat 8–3)',
+    days: { 2: dayShift, 3: dayShift, 4: dayShift, 5: dayShift, 6: { shift_start: '08:00', shift_end: '15:00' } },
+  },
+];
+
+// Midnight on the Sunday the date's week starts
+export function startOfWeek(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+}
+
+function startOfDay(timestamp: number): number {
+  const day = new Date(timestamp);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+// Why the shift can't be saved, or null if it can
+export function validateShift(shift: ShiftHours): string | null {
+  if (!(shift.shift_end > shift.shift_start)) {
+    return 'A shift must end after it starts';
+  }
+  if (!!shift.lunch_start !== !!shift.lunch_end) {
+    return 'Lunch needs both a start and an end';
+  }
+  if (shift.lunch_start && shift.lunch_end &&
+      !(shift.lunch_start >= shift.shift_start && shift.lunch_end <= shift.shift_end && shift.lunch_end > shift.lunch_start)) {
+    return 'Lunch must fall within the shift';
   }
+  return null;
+}
 
-  private getDefaultServiceDurations(): ServiceDuration[] {
-    return [
-      {
-        id: 'oil-change-duration',
-        service_id: 'oil-change',
-        service_name: 'Oil Change',
-        category: 'maintenance',
-        estimated_minutes: 30,
-        minimum_minutes: 20,
-        maximum_minutes: 45,
-        buffer_minutes: 10,
-        complexity_multiplier: 1.0,
-        requires_specialist: false,
-        can_overlap: true,
-        created_at: Date.now(),
-        updated_at: Date.now(),
-      },
-      {
-        id: 'brake-inspection-duration',
-        service_id: 'brake-inspection',
-        service_name: 'Brake Inspection',
-        category: 'inspection',
-        estimated_minutes: 45,
-        minimum_minutes: 30,
-        maximum_minutes: 60,
-        buffer_minutes: 15,
-        complexity_multiplier: 1.2,
-        requires_specialist: false,
-        can_overlap: false,
-        created_at: Date.now(),
-        updated_at: Date.now(),
-      },
-      {
-        id: 'brake-pads-duration',
-        service_id: 'brake-pads',
-        service_name: 'Brake Pad Replacement',
-        category: 'repair',
-        estimated_minutes: 90,
-        minimum_minutes: 60,
-        maximum_minutes: 120,
-        buffer_minutes: 15,
-        complexity_multiplier: 1.5,
-        requires_specialist: true,
-        can_overlap: false,
-        created_at: Date.now(),
-        updated_at: Date.now(),
-      },
-      {
-        id: 'tire-rotation-duration',
-        service_id: 'tire-rotation',
-        service_name: 'Tire Rotation',
-        category: 'maintenance',
-        estimated_minutes: 25,
-        minimum_minutes: 15,
-        maximum_minutes: 35,
-        buffer_minutes: 10,
-        complexity_multiplier: 1.0,
-        requires_specialist: false,
-        can_overlap: true,
-        created_at: Date.now(),
-        updated_at: Date.now(),
-      },
-      {
-        id: 'alignment-duration',
-        service_id: 'alignment',
-        service_name: 'Wheel Alignment',
-        category: 'maintenance',
-        estimated_minutes: 60,
-        minimum_minutes: 45,
-        maximum_minutes: 90,
-        buffer_minutes: 15,
-        complexity_multiplier: 1.3,
-        requires_specialist: true,
-        can_overlap: false,
-        created_at: Date.now(),
-        updated_at: Date.now(),
-      }
-    ];
+type SchedulingMigration = Migration<(data: LegacySchedulingData) => void>;
+
+// Ordered up-migrations for the scheduling data from when it lived in
+// localStorage; append new entries, never edit applied ones
+const schedulingMigrations: SchedulingMigration[] = [
+  {
+    version: 1,
+    name: 'fill_missing_collections',
+    up: (data) => {
+      data.appointments = data.appointments || [];
+      data.shop_schedules = data.shop_schedules || defaultShopSchedule();
+      data.service_durations = data.service_durations || defaultServiceDurations();
+      data.tech_schedules = data.tech_schedules || [];
+      data.time_off_requests = data.time_off_requests || [];
+    },
+  },
+  {
+    version: 2,
+    name: 'unify_common_service_ids',
+    up: (data) => {
+      data.service_durations.forEach(duration => {
+        duration.service_id = legacyCommonServiceIds[duration.service_id] || duration.service_id;
+      });
+      data.appointments.forEach(appointment => {
+        appointment.service_type = legacyCommonServiceIds[appointment.service_type] || appointment.service_type;
+      });
+    },
+  },
+  {
+    version: 3,
+    name: 'convert_money_to_cents',
+    up: (data) => {
+      data.appointments.forEach(appointment => {
+        if (appointment.estimated_price !== undefined) {
+          appointment.estimated_price = toCents(appointment.estimated_price);
+        }
+      });
+    },
+  },
+  {
+    version: 4,
+    name: 'add_shop_resources',
+    up: (data) => {
+      data.shop_resources = data.shop_resources || [];
+    },
+  },
+  {
+    version: 5,
+    name: 'add_time_off_timestamps',
+    up: (data) => {
+      // Database records need updated_at, which time off requests never had
+      data.time_off_requests.forEach(request => {
+        request.created_at = request.created_at ?? request.requested_at;
+        request.updated_at = request.updated_at ?? request.reviewed_at ?? request.requested_at;
+      });
+    },
+  },
+];
+
+// localStorage key the scheduling data was kept under
+export const LEGACY_SCHEDULING_KEY = 'shop_scheduling';
+
+// Newest version of the localStorage scheduling data this build can read
+export function latestLegacySchedulingVersion(): number {
+  return latestVersion(schedulingMigrations);
+}
+
+// Bring scheduling data from localStorage or an older backup up to date. An
+// empty object yields the default shop hours and service durations. Throws
+// for data from a newer app.
+export function upgradeLegacySchedulingData(saved: Partial<LegacySchedulingData>): SchedulingData {
+  const data = { schema_version: 0, migration_log: [], ...saved } as LegacySchedulingData;
+  getPendingMigrations(LEGACY_SCHEDULING_KEY, schedulingMigrations, data.schema_version)
+    .forEach(migration => migration.up(data));
+
+  return {
+    appointments: data.appointments,
+    shop_schedules: data.shop_schedules,
+    service_durations: data.service_durations,
+    tech_schedules: data.tech_schedules,
+    time_off_requests: data.time_off_requests,
+    shop_resources: data.shop_resources,
+  };
+}
+
+// The shop database as scheduling sees it. browserDatabase connects itself
+// once it has opened; it imports this module, so importing it here would be
+// circular.
+export interface SchedulingStore {
+  getAll<T extends TableName>(table: T): Promise<TableRecord<T>[]>;
+  transaction<R>(work: (tx: DatabaseTransaction) => Promise<R>): Promise<R>;
+}
+
+async function readSchedulingData(source: Pick<SchedulingStore, 'getAll'>): Promise<SchedulingData> {
+  return {
+    appointments: await source.getAll('appointments'),
+    shop_schedules: await source.getAll('shop_schedules'),
+    service_durations: await source.getAll('service_durations'),
+    tech_schedules: await source.getAll('tech_schedules'),
+    time_off_requests: await source.getAll('time_off_requests'),
+    shop_resources: await source.getAll('shop_resources'),
+  };
+}
+
+// Appointments, shop hours and tech schedules. They live in the shop
+// database and sync with the shop's other devices like everything else.
+// Reads are synchronous, from a copy loaded when the database opens and
+// reloaded before change listeners hear of any change to it.
+class SchedulingService {
+  private store: SchedulingStore | null = null;
+  private data: SchedulingData = {
+    appointments: [],
+    shop_schedules: [],
+    service_durations: [],
+    tech_schedules: [],
+    time_off_requests: [],
+    shop_resources: [],
+  };
+  private loads = 0;
+
+  constructor() {
+    changeFeed.registerCache([...schedulingTables], () => this.reload());
+  }
+
+  // Called by browserDatabase each time it opens
+  async connect(store: SchedulingStore): Promise<void> {
+    this.store = store;
+    await this.reload();
+  }
+
+  private async reload(): Promise<void> {
+    if (!this.store) return;
+
+    const load = ++this.loads;
+    const data = await readSchedulingData(this.store);
+    // A reload started after this one has newer data
+    if (load === this.loads) this.data = data;
+  }
+
+  private getSchedulingData(): SchedulingData {
+    return this.data;
+  }
+
+  // Run a change in a database transaction. The copy is first refreshed from
+  // the transaction's reads, so the change is checked against what other tabs
+  // and devices have saved, and reloaded once it's committed, so reads right
+  // after the change see it.
+  private async write<R>(work: (tx: DatabaseTransaction, data: SchedulingData) => R): Promise<R> {
+    if (!this.store) {
+      throw new Error('The schedule hasn\'t loaded yet. Please try again.');
+    }
+
+    const result = await this.store.transaction(async tx => {
+      this.data = await readSchedulingData(tx);
+      return work(tx, this.data);
+    });
+    await this.reload();
+    return result;
   }
 
   // Get service duration configuration
@@ -200,11 +516,15 @@ class SchedulingService {
   getAvailableTimeSlots(
     date: Date,
     serviceId: string,
-    vehicleYear?: number
+    vehicleYear?: number,
+    roster?: TechRoster
   ): TimeSlot[] {
     const schedule = this.getShopScheduleForDay(date);
     if (!schedule || schedule.is_closed) return [];
 
+    // Slots are only held back for techs once the shop has some set up
+    const checkTechs = !!roster && roster.techs.some(tech => tech.active);
+
     const serviceDuration = this.calculateServiceDuration(serviceId, vehicleYear);
     const slots: TimeSlot[] = [];
 
@@ -242,19 +562,26 @@ class SchedulingService {
 
       // Check existing appointments
       if (isAvailable) {
-        const conflict = this.checkAppointmentConflict(currentSlot, slotEnd);
+        const conflict = this.checkAppointmentConflict(currentSlot, slotEnd, serviceId, roster);
         if (conflict) {
           isAvailable = false;
-          reason = 'booked';
+          reason = conflict.type === 'capacity_reached' ? 'full'
+            : conflict.type === 'resource_unavailable' ? 'resource_unavailable' : 'booked';
         }
       }
 
+      const availableTechs = roster ? this.getAvailableTechs(currentSlot, slotEnd, serviceId, roster) : [];
+      if (isAvailable && checkTechs && availableTechs.length === 0) {
+        isAvailable = false;
+        reason = 'tech_unavailable';
+      }
+
       slots.push({
         start: new Date(currentSlot),
         end: new Date(slotEnd),
         available: isAvailable,
         reason,
-        available_techs: this.getAvailableTechs(currentSlot, slotEnd, serviceId),
+        available_techs: availableTechs,
       });
 
       // Move to next 30-minute slot
@@ -264,68 +591,270 @@ class SchedulingService {
     return slots;
   }
 
-  // Check for appointment conflicts
-  checkAppointmentConflict(startTime: Date, endTime: Date): AppointmentConflict | null {
+  // Check the shop has room for the appointment: a free service bay for the
+  // whole job including cleanup (buffer_minutes), room under the hour's
+  // appointment cap, and no other booking of a service that can't overlap
+  // itself, like a job on the shop's single alignment rack. The service's
+  // required resources must also be free.
+  checkAppointmentConflict(
+    startTime: Date,
+    endTime: Date,
+    serviceId?: string,
+    roster?: TechRoster
+  ): AppointmentConflict | null {
     const data = this.getSchedulingData();
+    const schedule = this.getShopScheduleForDay(startTime);
+    const service = serviceId ? data.service_durations.find(sd => sd.service_id === serviceId) : undefined;
+    const bufferMinutes = new Map(data.service_durations.map(sd => [sd.service_id, sd.buffer_minutes]));
+    const start = startTime.getTime();
+    const end = endTime.getTime() + (service?.buffer_minutes || 0) * 60000;
+
+    const booked = data.appointments.filter(appointment => !releasedAppointmentStatuses.includes(appointment.status));
+    const overlapping = booked
+      .map(appointment => ({
+        appointment,
+        start: appointment.scheduled_start,
+        end: appointment.scheduled_end + (bufferMinutes.get(appointment.service_type) || 0) * 60000,
+      }))
+      .filter(booking => start < booking.end && end > booking.start);
+
+    if (service && !service.can_overlap) {
+      const sameService = overlapping.find(booking => booking.appointment.service_type === service.service_id);
+      if (sameService) {
+        return {
+          type: 'double_booking',
+          message: `${service.service_name} is already booked at ${new Date(sameService.start).toLocaleTimeString()}`,
+          conflicting_appointment_id: sameService.appointment.id,
+        };
+      }
+    }
+
+    const bays = schedule?.service_bays || DEFAULT_SERVICE_BAYS;
+    if (peakOccupancy(overlapping, start) >= bays) {
+      return {
+        type: 'capacity_reached',
+        message: `All ${bays} service bay${bays === 1 ? ' is' : 's are'} booked at that time`,
+        conflicting_appointment_id: overlapping[0].appointment.id,
+      };
+    }
+
+    const hourStart = new Date(startTime);
+    hourStart.setMinutes(0, 0, 0);
+    const hourEnd = hourStart.getTime() + 60 * 60000;
+    const hourlyCap = schedule?.max_appointments_per_hour || DEFAULT_MAX_APPOINTMENTS_PER_HOUR;
+    const startingThisHour = booked.filter(appointment =>
+      appointment.scheduled_start >= hourStart.getTime() && appointment.scheduled_start < hourEnd);
+    if (startingThisHour.length >= hourlyCap) {
+      return {
+        type: 'capacity_reached',
+        message: `The shop takes at most ${hourlyCap} appointment${hourlyCap === 1 ? '' : 's'} starting each hour`,
+        conflicting_appointment_id: startingThisHour[0].id,
+      };
+    }
 
-    for (const appointment of data.appointments) {
-      if (appointment.status === 'cancelled') continue;
+    return this.checkResourcesFree(service?.required_resources || [], startTime.getTime(), end, data, roster);
+  }
 
-      const appointmentStart = new Date(appointment.scheduled_start);
-      const appointmentEnd = new Date(appointment.scheduled_end);
+  // Units of a resource in use over time: bookings holding it, open jobs
+  // reserving it and downtime. Jobs aren't scheduled, so a reservation holds
+  // from now until the end of today.
+  private resourceUsage(
+    resource: ShopResource,
+    data: SchedulingData,
+    roster?: TechRoster,
+    exceptWorkOrderId?: string
+  ): { start: number; end: number; appointmentId?: string }[] {
+    const bufferMinutes = new Map(data.service_durations.map(sd => [sd.service_id, sd.buffer_minutes]));
+    const endOfToday = new Date();
+    endOfToday.setHours(24, 0, 0, 0);
+
+    const bookings = data.appointments
+      .filter(appointment => !releasedAppointmentStatuses.includes(appointment.status) &&
+        heldResources(appointment, data.service_durations).includes(resource.id))
+      .map(appointment => ({
+        start: appointment.scheduled_start,
+        end: appointment.scheduled_end + (bufferMinutes.get(appointment.service_type) || 0) * 60000,
+        appointmentId: appointment.id,
+      }));
+    const jobs = (roster?.workOrders || [])
+      .filter(workOrder => workOrder.id !== exceptWorkOrderId && workOrder.reserved_resources?.includes(resource.id))
+      .map(() => ({ start: Date.now(), end: endOfToday.getTime() }));
+    const downtime = resource.downtime.flatMap(window =>
+      Array.from({ length: window.units }, () => ({ start: window.start, end: window.end })));
+
+    return [...bookings, ...jobs, ...downtime];
+  }
 
-      // Check for overlap
-      if (startTime < appointmentEnd && endTime > appointmentStart) {
+  // Why one of the resources has no unit free from start to end, or null if all do
+  private checkResourcesFree(
+    resourceIds: string[],
+    start: number,
+    end: number,
+    data: SchedulingData,
+    roster?: TechRoster,
+    exceptWorkOrderId?: string
+  ): AppointmentConflict | null {
+    for (const resourceId of resourceIds) {
+      const resource = data.shop_resources.find(r => r.id === resourceId);
+      if (!resource) continue;
+
+      const inUse = this.resourceUsage(resource, data, roster, exceptWorkOrderId)
+        .filter(usage => start < usage.end && end > usage.start);
+      if (peakOccupancy(inUse, start) >= resource.quantity) {
         return {
-          type: 'double_booking',
-          message: `Conflicts with existing appointment at ${appointmentStart.toLocaleTimeString()}`,
-          conflicting_appointment_id: appointment.id,
+          type: 'resource_unavailable',
+          message: `No ${resource.name} is free at that time`,
+          conflicting_appointment_id: inUse.find(usage => usage.appointmentId)?.appointmentId,
         };
       }
     }
+    return null;
+  }
+
+  // Why a job can't reserve the resources right now, or null if it can
+  checkResourceReservation(resourceIds: string[], roster: TechRoster, workOrderId: string): AppointmentConflict | null {
+    const now = Date.now();
+    return this.checkResourcesFree(resourceIds, now, now + 60000, this.getSchedulingData(), roster, workOrderId);
+  }
+
+  // Why an appointment can't be booked from start to end, or null if it can.
+  // With a roster, some tech must also be free to do the service.
+  validateAppointmentSlot(
+    startTime: Date,
+    endTime: Date,
+    serviceId?: string,
+    roster?: TechRoster
+  ): AppointmentConflict | null {
+    const schedule = this.getShopScheduleForDay(startTime);
+    const startStr = startTime.toTimeString().slice(0, 5);
+    const endStr = endTime.toTimeString().slice(0, 5);
+
+    if (!schedule || schedule.is_closed || startTime.toDateString() !== endTime.toDateString() ||
+        startStr < schedule.open_time || endStr > schedule.close_time) {
+      return { type: 'outside_hours', message: 'The shop is closed at that time' };
+    }
+    if (schedule.lunch_start && schedule.lunch_end && startStr < schedule.lunch_end && endStr > schedule.lunch_start) {
+      return { type: 'outside_hours', message: 'That time overlaps the shop\'s lunch break' };
+    }
+    if (startTime.getTime() < Date.now()) {
+      return { type: 'insufficient_time', message: 'That time has already passed' };
+    }
+
+    const conflict = this.checkAppointmentConflict(startTime, endTime, serviceId, roster);
+    if (conflict || !serviceId || !roster?.techs.some(tech => tech.active)) return conflict;
 
+    if (this.getAvailableTechs(startTime, endTime, serviceId, roster).length === 0) {
+      return { type: 'no_tech_available', message: 'No technician is available for that service at that time' };
+    }
     return null;
   }
 
-  // Get available technicians for a time slot
-  getAvailableTechs(_startTime: Date, _endTime: Date, _serviceId: string): string[] {
-    // For MVP, return a default tech list
-    // In full implementation, this would check tech schedules, specializations, and time-off
-    return ['tech-001', 'tech-002'];
+  // Active techs on shift for the whole slot, outside lunch and time off, with
+  // room for another job and the specialization the service needs
+  getAvailableTechs(startTime: Date, endTime: Date, serviceId: string, roster: TechRoster): string[] {
+    const data = this.getSchedulingData();
+    const service = data.service_durations.find(sd => sd.service_id === serviceId);
+    const shopDay = this.getShopScheduleForDay(startTime);
+    const startStr = startTime.toTimeString().slice(0, 5);
+    const endStr = endTime.toTimeString().slice(0, 5);
+    const isToday = startTime.toDateString() === new Date().toDateString();
+    if (startTime.toDateString() !== endTime.toDateString()) return [];
+
+    return roster.techs.filter(tech => {
+      if (!tech.active) return false;
+
+      const techDay = data.tech_schedules.find(schedule =>
+        schedule.tech_id === tech.id && new Date(schedule.date).toDateString() === startTime.toDateString());
+      if (techDay && !techDay.available) return false;
+
+      const shift = techDay
+        ? { start: techDay.shift_start, end: techDay.shift_end, lunchStart: techDay.lunch_start, lunchEnd: techDay.lunch_end }
+        : shopDay && !shopDay.is_closed
+          ? { start: shopDay.open_time, end: shopDay.close_time, lunchStart: shopDay.lunch_start, lunchEnd: shopDay.lunch_end }
+          : null;
+      if (!shift || startStr < shift.start || endStr > shift.end) return false;
+      if (shift.lunchStart && shift.lunchEnd && startStr < shift.lunchEnd && endStr > shift.lunchStart) return false;
+
+      const onTimeOff = data.time_off_requests.some(request => {
+        if (request.tech_id !== tech.id || request.status !== 'approved') return false;
+        const window = timeOffWindow(request);
+        return startTime < window.end && endTime > window.start;
+      });
+      if (onTimeOff) return false;
+
+      if (service?.requires_specialist) {
+        const specializations = [...(techDay?.specializations || []), ...(tech.specialties || [])];
+        if (!specializations.some(specialization => coversService(specialization, service))) return false;
+      }
+
+      const appointmentsHeld = data.appointments.filter(appointment =>
+        appointment.assigned_tech === tech.id &&
+        !releasedAppointmentStatuses.includes(appointment.status) &&
+        startTime.getTime() < appointment.scheduled_end &&
+        endTime.getTime() > appointment.scheduled_start
+      ).length;
+      // Work orders aren't scheduled, so they only keep a tech busy today
+      const jobsHeld = isToday
+        ? roster.workOrders.filter(workOrder =>
+          workOrder.assigned_tech === tech.id && activeWorkOrderStatuses.includes(workOrder.status)).length
+        : 0;
+
+      return appointmentsHeld + jobsHeld < (techDay?.max_concurrent_jobs ?? DEFAULT_MAX_CONCURRENT_JOBS);
+    }).map(tech => tech.id);
   }
 
   // Create a new appointment
-  createAppointment(appointmentData: Omit<Appointment, 'id' | 'created_at' | 'updated_at'>): Appointment {
-    const data = this.getSchedulingData();
+  async createAppointment(appointmentData: Omit<Appointment, 'id' | 'created_at' | 'updated_at'>): Promise<Appointment> {
+    return this.write(tx => this.stageAppointment(tx, appointmentData));
+  }
 
-    const appointment: Appointment = {
+  private stageAppointment(
+    tx: DatabaseTransaction,
+    appointmentData: Omit<Appointment, 'id' | 'created_at' | 'updated_at'>
+  ): Appointment {
+    const now = Date.now();
+    return tx.put('appointments', {
       id: uuidv4(),
       ...appointmentData,
-      created_at: Date.now(),
-      updated_at: Date.now(),
-    };
+      created_at: now,
+      updated_at: now,
+    });
+  }
 
-    data.appointments.push(appointment);
-    this.saveSchedulingData(data);
+  // Create an appointment after checking its slot is still free, since the
+  // slot may have been taken after it was offered. With a roster, the first
+  // available tech is assigned when none was chosen. The appointment holds the
+  // resources its service needs. Throws AppointmentConflictError.
+  async bookAppointment(
+    appointmentData: Omit<Appointment, 'id' | 'created_at' | 'updated_at'>,
+    roster?: TechRoster
+  ): Promise<Appointment> {
+    return this.write(tx => {
+      const start = new Date(appointmentData.scheduled_start);
+      const end = new Date(appointmentData.scheduled_end);
+      const conflict = this.validateAppointmentSlot(start, end, appointmentData.service_type, roster);
+      if (conflict) {
+        throw new AppointmentConflictError(conflict);
+      }
 
-    return appointment;
+      const assignedTech = appointmentData.assigned_tech ||
+        (roster ? this.getAvailableTechs(start, end, appointmentData.service_type, roster)[0] : undefined);
+      return this.stageAppointment(tx, {
+        ...appointmentData,
+        assigned_tech: assignedTech,
+        reserved_resources: this.getServiceDuration(appointmentData.service_type)?.required_resources,
+      });
+    });
   }
 
   // Update appointment
-  updateAppointment(id: string, updates: Partial<Appointment>): Appointment | null {
-    const data = this.getSchedulingData();
-    const appointmentIndex = data.appointments.findIndex(a => a.id === id);
-
-    if (appointmentIndex === -1) return null;
+  async updateAppointment(id: string, updates: Partial<Appointment>): Promise<Appointment | null> {
+    return this.write((tx, data) => {
+      const appointment = data.appointments.find(a => a.id === id);
+      if (!appointment) return null;
 
-    data.appointments[appointmentIndex] = {
-      ...data.appointments[appointmentIndex],
-      ...updates,
-      updated_at: Date.now(),
-    };
-
-    this.saveSchedulingData(data);
-    return data.appointments[appointmentIndex];
+      return tx.put('appointments', { ...appointment, ...updates });
+    });
   }
 
   // Get appointments for a date range
@@ -356,37 +885,23 @@ class SchedulingService {
   }
 
   // Update service duration configuration
-  updateServiceDuration(serviceId: string, updates: Partial<ServiceDuration>): ServiceDuration | null {
-    const data = this.getSchedulingData();
-    const durationIndex = data.service_durations.findIndex(sd => sd.service_id === serviceId);
-
-    if (durationIndex === -1) return null;
-
-    data.service_durations[durationIndex] = {
-      ...data.service_durations[durationIndex],
-      ...updates,
-      updated_at: Date.now(),
-    };
+  async updateServiceDuration(serviceId: string, updates: Partial<ServiceDuration>): Promise<ServiceDuration | null> {
+    return this.write((tx, data) => {
+      const duration = data.service_durations.find(sd => sd.service_id === serviceId);
+      if (!duration) return null;
 
-    this.saveSchedulingData(data);
-    return data.service_durations[durationIndex];
+      return tx.put('service_durations', { ...duration, ...updates });
+    });
   }
 
   // Update shop schedule
-  updateShopSchedule(dayOfWeek: number, updates: Partial<ShopSchedule>): ShopSchedule | null {
-    const data = this.getSchedulingData();
-    const scheduleIndex = data.shop_schedules.findIndex(s => s.day_of_week === dayOfWeek);
-
-    if (scheduleIndex === -1) return null;
-
-    data.shop_schedules[scheduleIndex] = {
-      ...data.shop_schedules[scheduleIndex],
-      ...updates,
-      updated_at: Date.now(),
-    };
+  async updateShopSchedule(dayOfWeek: number, updates: Partial<ShopSchedule>): Promise<ShopSchedule | null> {
+    return this.write((tx, data) => {
+      const schedule = data.shop_schedules.find(s => s.day_of_week === dayOfWeek);
+      if (!schedule) return null;
 
-    this.saveSchedulingData(data);
-    return data.shop_schedules[scheduleIndex];
+      return tx.put('shop_schedules', { ...schedule, ...updates });
+    });
   }
 
   // Get all service durations
@@ -401,9 +916,281 @@ class SchedulingService {
     return data.shop_schedules;
   }
 
-  // Clear all scheduling data (for testing)
-  clearSchedulingData(): void {
-    localStorage.removeItem(this.storageKey);
+  // A tech's shifts for the week starting weekStart
+  getTechSchedules(techId: string, weekStart: Date): TechSchedule[] {
+    const data = this.getSchedulingData();
+    const start = startOfWeek(weekStart).getTime();
+    const end = new Date(start);
+    end.setDate(end.getDate() + 7);
+
+    return data.tech_schedules
+      .filter(schedule => schedule.tech_id === techId && schedule.date >= start && schedule.date < end.getTime())
+      .sort((a, b) => a.date - b.date);
+  }
+
+  // Create or replace the tech's shift for the schedule's day
+  async saveTechSchedule(scheduleData: Omit<TechSchedule, 'id' | 'created_at' | 'updated_at'>): Promise<TechSchedule> {
+    return this.write((tx, data) => this.stageTechSchedule(tx, data, scheduleData));
+  }
+
+  private stageTechSchedule(
+    tx: DatabaseTransaction,
+    data: SchedulingData,
+    scheduleData: Omit<TechSchedule, 'id' | 'created_at' | 'updated_at'>
+  ): TechSchedule {
+    if (scheduleData.available) {
+      const problem = validateShift(scheduleData);
+      if (problem) throw new Error(problem);
+    }
+    if (!(Number.isInteger(scheduleData.max_concurrent_jobs) && scheduleData.max_concurrent_jobs >= 1)) {
+      throw new Error('Concurrent jobs must be a whole number, 1 or more');
+    }
+
+    const now = Date.now();
+    const date = startOfDay(scheduleData.date);
+    const existing = data.tech_schedules.find(schedule =>
+      schedule.tech_id === scheduleData.tech_id && startOfDay(schedule.date) === date);
+
+    return tx.put('tech_schedules', existing
+      ? { ...existing, ...scheduleData, date }
+      : { id: uuidv4(), ...scheduleData, date, created_at: now, updated_at: now });
+  }
+
+  // Remove a shift; the tech falls back to the shop's hours that day
+  async deleteTechSchedule(id: string): Promise<boolean> {
+    return this.write((tx, data) => {
+      if (!data.tech_schedules.some(schedule => schedule.id === id)) return false;
+
+      tx.delete('tech_schedules', id);
+      return true;
+    });
+  }
+
+  // Replace the tech's shifts for a week with a template; days the template
+  // leaves out are saved as days off
+  async applyShiftTemplate(
+    techId: string,
+    weekStart: Date,
+    template: ShiftTemplate,
+    details: Pick<TechSchedule, 'max_concurrent_jobs' | 'specializations'>
+  ): Promise<TechSchedule[]> {
+    const start = startOfWeek(weekStart);
+    return this.write((tx, data) => Array.from({ length: 7 }, (_, offset) => {
+      const day = new Date(start);
+      day.setDate(day.getDate() + offset);
+      const hours = template.days[day.getDay()];
+
+      return this.stageTechSchedule(tx, data, {
+        tech_id: techId,
+        date: day.getTime(),
+        ...(hours || { shift_start: '00:00', shift_end: '00:00' }),
+        available: !!hours,
+        ...details,
+      });
+    }));
+  }
+
+  // Copy the tech's shifts from one week onto another, replacing what was there
+  async copyTechWeek(techId: string, fromWeekStart: Date, toWeekStart: Date): Promise<TechSchedule[]> {
+    const from = startOfWeek(fromWeekStart);
+    const to = startOfWeek(toWeekStart);
+    const days = Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60000));
+
+    return this.write((tx, data) => {
+      const source = this.getTechSchedules(techId, from);
+      if (source.length === 0) {
+        throw new Error('There are no shifts to copy in that week');
+      }
+
+      const copies = source.map(schedule => {
+        const date = new Date(schedule.date);
+        date.setDate(date.getDate() + days);
+        return this.stageTechSchedule(tx, data, {
+          tech_id: techId,
+          date: date.getTime(),
+          shift_start: schedule.shift_start,
+          shift_end: schedule.shift_end,
+          lunch_start: schedule.lunch_start,
+          lunch_end: schedule.lunch_end,
+          available: schedule.available,
+          max_concurrent_jobs: schedule.max_concurrent_jobs,
+          specializations: schedule.specializations,
+          notes: schedule.notes,
+        });
+      });
+
+      // Days the source week has no shift for fall back to the shop's hours
+      this.getTechSchedules(techId, to)
+        .filter(schedule => !copies.some(copy => copy.id === schedule.id))
+        .forEach(schedule => tx.delete('tech_schedules', schedule.id));
+      return copies;
+    });
+  }
+
+  getTimeOffRequests(techId?: string): TimeOffRequest[] {
+    const data = this.getSchedulingData();
+    return data.time_off_requests
+      .filter(request => !techId || request.tech_id === techId)
+      .sort((a, b) => b.start_date - a.start_date);
+  }
+
+  // Appointments and open jobs assigned to the tech that the absence affects, one per line
+  assessTimeOffImpact(request: TimeOffPeriod & Pick<TimeOffRequest, 'tech_id'>, roster: TechRoster): string {
+    const data = this.getSchedulingData();
+    const { start, end } = timeOffWindow(request);
+
+    const appointments = data.appointments.filter(appointment =>
+      appointment.assigned_tech === request.tech_id &&
+      !releasedAppointmentStatuses.includes(appointment.status) &&
+      appointment.scheduled_start < end.getTime() &&
+      appointment.scheduled_end > start.getTime()
+    );
+    const jobs = roster.workOrders.filter(workOrder => workOrder.assigned_tech === request.tech_id);
+
+    const lines = [
+      ...appointments.map(appointment => {
+        const service = data.service_durations.find(sd => sd.service_id === appointment.service_type);
+        return `Appointment for ${service?.service_name || appointment.service_type} on ` +
+          `${new Date(appointment.scheduled_start).toLocaleString()} needs another tech`;
+      }),
+      ...jobs.map(workOrder =>
+        `Job #${workOrder.id.slice(-6).toUpperCase()} (${workOrder.status.replace('_', ' ')}) is assigned to this tech`),
+    ];
+    return lines.length > 0 ? lines.join('\n') : 'No appointments or assigned jobs are affected';
+  }
+
+  async submitTimeOffRequest(
+    requestData: TimeOffPeriod & Pick<TimeOffRequest, 'tech_id' | 'request_type' | 'reason'>,
+    roster: TechRoster
+  ): Promise<TimeOffRequest> {
+    const { start, end } = timeOffWindow(requestData);
+    if (!(end > start)) {
+      throw new Error('Time off must end after it starts');
+    }
+
+    return this.write(tx => {
+      const now = Date.now();
+      return tx.put('time_off_requests', {
+        id: uuidv4(),
+        ...requestData,
+        status: 'pending',
+        requested_at: now,
+        impact_assessment: this.assessTimeOffImpact(requestData, roster),
+        created_at: now,
+        updated_at: now,
+      });
+    });
+  }
+
+  // Approve or deny a pending request. The impact is reassessed, since
+  // bookings may have changed since it was submitted.
+  async reviewTimeOffRequest(
+    id: string,
+    decision: 'approved' | 'denied',
+    reviewedBy: string,
+    reviewerNotes: string | undefined,
+    roster: TechRoster
+  ): Promise<TimeOffRequest | null> {
+    return this.write((tx, data) => {
+      const request = data.time_off_requests.find(r => r.id === id);
+      if (!request) return null;
+      if (request.status !== 'pending') {
+        throw new Error(`This request has already been ${request.status}`);
+      }
+
+      return tx.put('time_off_requests', {
+        ...request,
+        status: decision,
+        reviewed_at: Date.now(),
+        reviewed_by: reviewedBy,
+        reviewer_notes: reviewerNotes,
+        impact_assessment: this.assessTimeOffImpact(request, roster),
+      });
+    });
+  }
+
+  // A tech withdraws a request that is pending or approved
+  async cancelTimeOffRequest(id: string): Promise<TimeOffRequest | null> {
+    return this.write((tx, data) => {
+      const request = data.time_off_requests.find(r => r.id === id);
+      if (!request) return null;
+      if (request.status !== 'pending' && request.status !== 'approved') {
+        throw new Error(`This request has already been ${request.status}`);
+      }
+
+      return tx.put('time_off_requests', { ...request, status: 'cancelled' });
+    });
+  }
+
+  getShopResources(): ShopResource[] {
+    const data = this.getSchedulingData();
+    return [...data.shop_resources].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Create or update a resource; downtime is managed separately
+  async saveShopResource(resourceData: Pick<ShopResource, 'name' | 'kind' | 'quantity'> & { id?: string }): Promise<ShopResource> {
+    const name = resourceData.name.trim();
+    if (!name) {
+      throw new Error('A resource needs a name');
+    }
+    if (!(Number.isInteger(resourceData.quantity) && resourceData.quantity >= 1)) {
+      throw new Error('The quantity must be a whole number, 1 or more');
+    }
+
+    return this.write((tx, data) => {
+      const now = Date.now();
+      const existing = data.shop_resources.find(r => r.id === resourceData.id);
+      return tx.put('shop_resources', existing
+        ? { ...existing, name, kind: resourceData.kind, quantity: resourceData.quantity }
+        : { id: uuidv4(), name, kind: resourceData.kind, quantity: resourceData.quantity, downtime: [], created_at: now, updated_at: now });
+    });
+  }
+
+  // Delete a resource and drop it from the services that required it
+  async deleteShopResource(id: string): Promise<boolean> {
+    return this.write((tx, data) => {
+      if (!data.shop_resources.some(r => r.id === id)) return false;
+
+      tx.delete('shop_resources', id);
+      data.service_durations
+        .filter(sd => sd.required_resources?.includes(id))
+        .forEach(sd => tx.put('service_durations', {
+          ...sd,
+          required_resources: sd.required_resources!.filter(resourceId => resourceId !== id),
+        }));
+      return true;
+    });
+  }
+
+  async addResourceDowntime(resourceId: string, downtime: Omit<ResourceDowntime, 'id'>): Promise<ShopResource | null> {
+    if (!(downtime.end > downtime.start)) {
+      throw new Error('Downtime must end after it starts');
+    }
+
+    return this.write((tx, data) => {
+      const resource = data.shop_resources.find(r => r.id === resourceId);
+      if (!resource) return null;
+      if (!(Number.isInteger(downtime.units) && downtime.units >= 1 && downtime.units <= resource.quantity)) {
+        throw new Error(`Between 1 and ${resource.quantity} units can be out of service`);
+      }
+
+      return tx.put('shop_resources', {
+        ...resource,
+        downtime: [...resource.downtime, { id: uuidv4(), ...downtime }].sort((a, b) => a.start - b.start),
+      });
+    });
+  }
+
+  async removeResourceDowntime(resourceId: string, downtimeId: string): Promise<ShopResource | null> {
+    return this.write((tx, data) => {
+      const resource = data.shop_resources.find(r => r.id === resourceId);
+      if (!resource) return null;
+
+      return tx.put('shop_resources', {
+        ...resource,
+        downtime: resource.downtime.filter(window => window.id !== downtimeId),
+      });
+    });
   }
 }
 
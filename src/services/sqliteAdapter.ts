@@ -0,0 +1,495 @@
+import initSqlJs from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import schemaSql from '../database/schema.sql?raw';
+import {
+  StaleWriteError,
+  recordVersion,
+  tableIndexes,
+  tableNames,
+  type IndexValue,
+  type StagedWrite,
+  type StorageAdapter,
+  type StorageData,
+  type TableName,
+  type TableRecord,
+} from './storageAdapter';
+
+// SQLite (WASM) storage: executes src/database/schema.sql so foreign keys,
+// CHECK and UNIQUE constraints are enforced. The database file is persisted
+// to IndexedDB after every write; writes from all tabs are serialized with a
+// Web Lock and always apply to the latest persisted file. Each persist bumps
+// a generation number, so a tab only re-reads the file when another tab has
+// written since.
+
+type SqlValue = initSqlJs.SqlValue;
+type ColumnKind = 'value' | 'boolean' | 'json';
+
+// Columns holding arrays/objects that SQLite stores as JSON text
+const jsonColumns: Partial<Record<TableName, string[]>> = {
+  estimate_requests: ['line_items', 'base_line_items', 'photos', 'customer_signature'],
+  invoices: ['line_items', 'tax_lines', 'shop'],
+  tax_profiles: ['jurisdictions', 'taxable_types'],
+  markup_matrices: ['tiers'],
+  purchase_orders: ['lines'],
+  work_orders: ['reserved_resources'],
+  tech_profiles: ['certifications', 'specialties'],
+  appointments: ['reserved_resources'],
+  service_durations: ['required_resources'],
+  tech_schedules: ['specializations'],
+  shop_resources: ['downtime'],
+  sync_status: ['field_versions', 'pending_fields'],
+  sync_conflicts: ['kept_value', 'discarded_value'],
+};
+
+// UNIQUE columns where a blank value means "none"; stored as NULL so any
+// number of records can leave them empty
+const blankAsNullColumns: Partial<Record<TableName, string[]>> = {
+  vehicles: ['vin'],
+};
+
+const FILE_DB_NAME = 'shop_sqlite';
+const FILE_STORE = 'files';
+const RELOAD_CHANNEL = 'shop_sqlite_reload';
+
+interface ReloadMessage {
+  file: string;
+  generation: number;
+}
+
+type SqlStatic = initSqlJs.SqlJsStatic;
+type Database = initSqlJs.Database;
+
+function openFileStore(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(FILE_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(FILE_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class SqliteAdapter implements StorageAdapter {
+  private fileName: string;
+  private sqlPromise: Promise<SqlStatic> | null = null;
+  private dbPromise: Promise<Database> | null = null;
+  private columns: Partial<Record<TableName, Record<string, ColumnKind>>> = {};
+  private reloadChannel: BroadcastChannel | null = null;
+  // Generation of the persisted file the in-memory copy matches
+  private generation = 0;
+
+  constructor(fileName: string = 'shop.sqlite') {
+    this.fileName = fileName;
+
+    // Each tab holds its own in-memory copy; reload it when another tab persists
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.reloadChannel = new BroadcastChannel(RELOAD_CHANNEL);
+      this.reloadChannel.onmessage = (event: MessageEvent<ReloadMessage>) => {
+        const { file, generation } = event.data;
+        if (file === this.fileName && generation > this.generation && this.dbPromise) {
+          const stale = this.dbPromise;
+          this.dbPromise = null;
+          stale.then(db => db.close()).catch(() => undefined);
+        }
+      };
+    }
+  }
+
+  open(): Promise<void> {
+    return this.getDb().then(() => undefined);
+  }
+
+  private getDb(): Promise<Database> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.load().catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private getSql(): Promise<SqlStatic> {
+    if (!this.sqlPromise) {
+      this.sqlPromise = initSqlJs({ locateFile: () => sqlWasmUrl });
+    }
+    return this.sqlPromise;
+  }
+
+  private async load(): Promise<Database> {
+    const SQL = await this.getSql();
+    const { bytes: saved, generation } = await this.readFile();
+    const db = saved ? new SQL.Database(saved) : new SQL.Database();
+    this.generation = generation;
+
+    this.prepare(SQL, db);
+    this.loadColumns(db);
+
+    return db;
+  }
+
+  // Apply schema.sql, including columns added since the file was created.
+  // Existing tables get their new columns first, so the schema's indexes can
+  // cover them
+  private prepare(SQL: SqlStatic, db: Database): void {
+    db.exec('PRAGMA foreign_keys = ON;');
+
+    const reference = new SQL.Database();
+    try {
+      reference.exec(schemaSql);
+      const tables = reference.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'");
+
+      (tables[0]?.values || []).forEach(([table]) => {
+        const current = db.exec(`PRAGMA table_info(${table})`)[0]?.values || [];
+        const expected = reference.exec(`PRAGMA table_info(${table})`)[0]?.values || [];
+        if (current.length === 0) return;
+
+        // A changed primary key can't be altered in place; rebuild the table
+        // while it is still empty (e.g. sync_status moving to text keys)
+        const keyType = (columns: SqlValue[][]) => columns.find(column => column[5] === 1)?.[2];
+        if (keyType(current) !== keyType(expected) && Number(db.exec(`SELECT COUNT(*) FROM ${table}`)[0].values[0][0]) === 0) {
+          db.exec(`DROP TABLE ${table}`);
+          return;
+        }
+
+        const existing = new Set(current.map(row => row[1]));
+
+        expected.forEach(([, name, type, notNull, defaultValue]) => {
+          if (existing.has(name)) return;
+
+          const hasDefault = defaultValue !== null;
+          db.exec(
+            `ALTER TABLE ${table} ADD COLUMN ${name} ${type}` +
+            (hasDefault ? ` DEFAULT ${defaultValue}` : '') +
+            (hasDefault && notNull ? ' NOT NULL' : '')
+          );
+        });
+      });
+    } finally {
+      reference.close();
+    }
+
+    db.exec(schemaSql);
+  }
+
+  private loadColumns(db: Database): void {
+    tableNames.forEach(table => {
+      const result = db.exec(`PRAGMA table_info(${table})`);
+      const kinds: Record<string, ColumnKind> = {};
+
+      (result[0]?.values || []).forEach(row => {
+        const name = String(row[1]);
+        const declaredType = String(row[2]).toUpperCase();
+
+        if (jsonColumns[table]?.includes(name)) kinds[name] = 'json';
+        else if (declaredType === 'BOOLEAN') kinds[name] = 'boolean';
+        else kinds[name] = 'value';
+      });
+
+      this.columns[table] = kinds;
+    });
+  }
+
+  // Swap in the latest persisted file if another tab wrote after this copy
+  // was loaded, so writes never overwrite its changes
+  private async latest(): Promise<Database> {
+    const current = await this.getDb();
+    if (await this.readGeneration() === this.generation) return current;
+
+    const { bytes: saved, generation } = await this.readFile();
+    if (!saved) return current;
+
+    const SQL = await this.getSql();
+    const db = new SQL.Database(saved);
+    this.prepare(SQL, db);
+    this.generation = generation;
+
+    current.close();
+    this.dbPromise = Promise.resolve(db);
+    return db;
+  }
+
+  private async write<R>(apply: (db: Database) => R): Promise<R> {
+    const run = async () => {
+      const db = await this.latest();
+      const result = apply(db);
+      await this.persist(db);
+      return result;
+    };
+
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(`${FILE_DB_NAME}/${this.fileName}`, run);
+    }
+    return run();
+  }
+
+  private generationKey(): string {
+    return `${this.fileName}:generation`;
+  }
+
+  private async readFile(): Promise<{ bytes: Uint8Array | null; generation: number }> {
+    const fileDb = await openFileStore();
+    try {
+      return await new Promise((resolve, reject) => {
+        const store = fileDb.transaction(FILE_STORE, 'readonly').objectStore(FILE_STORE);
+        const bytes = store.get(this.fileName);
+        const generation = store.get(this.generationKey());
+        generation.onsuccess = () => resolve({
+          bytes: (bytes.result as Uint8Array | undefined) || null,
+          generation: (generation.result as number | undefined) || 0,
+        });
+        generation.onerror = () => reject(generation.error);
+        bytes.onerror = () => reject(bytes.error);
+      });
+    } finally {
+      fileDb.close();
+    }
+  }
+
+  private async readGeneration(): Promise<number> {
+    const fileDb = await openFileStore();
+    try {
+      return await new Promise((resolve, reject) => {
+        const request = fileDb.transaction(FILE_STORE, 'readonly').objectStore(FILE_STORE).get(this.generationKey());
+        request.onsuccess = () => resolve((request.result as number | undefined) || 0);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      fileDb.close();
+    }
+  }
+
+  private async persist(db: Database): Promise<void> {
+    const bytes = db.export();
+    // export() re-opens the database, which resets pragmas
+    db.exec('PRAGMA foreign_keys = ON;');
+
+    const generation = this.generation + 1;
+    const fileDb = await openFileStore();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = fileDb.transaction(FILE_STORE, 'readwrite');
+        transaction.objectStore(FILE_STORE).put(bytes, this.fileName);
+        transaction.objectStore(FILE_STORE).put(generation, this.generationKey());
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } finally {
+      fileDb.close();
+    }
+
+    this.generation = generation;
+    const message: ReloadMessage = { file: this.fileName, generation };
+    this.reloadChannel?.postMessage(message);
+  }
+
+  private toRow(table: TableName, record: object): { names: string[]; values: SqlValue[] } {
+    const kinds: Record<string, ColumnKind> = this.columns[table] || {};
+    const source = record as Record<string, unknown>;
+    // Every column is written so cleared optional fields become NULL
+    const names = Object.keys(kinds);
+
+    const values = names.map(name => {
+      const value = source[name];
+      if (value === undefined || value === null) return null;
+      if (typeof value === 'string' && value.trim() === '' && blankAsNullColumns[table]?.includes(name)) return null;
+      if (kinds[name] === 'json') return JSON.stringify(value);
+      if (kinds[name] === 'boolean') return value ? 1 : 0;
+      return value as SqlValue;
+    });
+
+    return { names, values };
+  }
+
+  private fromRow<T extends TableName>(table: T, row: Record<string, SqlValue>): TableRecord<T> {
+    const kinds: Record<string, ColumnKind> = this.columns[table] || {};
+    const record: Record<string, unknown> = {};
+
+    Object.entries(row).forEach(([name, value]) => {
+      // NULL columns map to absent optional fields
+      if (value === null) return;
+      if (kinds[name] === 'json') record[name] = JSON.parse(String(value));
+      else if (kinds[name] === 'boolean') record[name] = Boolean(value);
+      else record[name] = value;
+    });
+
+    return record as unknown as TableRecord<T>;
+  }
+
+  private select<T extends TableName>(db: Database, table: T, where: string = '', params: SqlValue[] = []): TableRecord<T>[] {
+    const statement = db.prepare(`SELECT * FROM ${table} ${where}`);
+    const records: TableRecord<T>[] = [];
+
+    try {
+      statement.bind(params);
+      while (statement.step()) {
+        records.push(this.fromRow(table, statement.getAsObject()));
+      }
+    } finally {
+      statement.free();
+    }
+
+    return records;
+  }
+
+  private upsert(db: Database, table: TableName, record: object): void {
+    const { names, values } = this.toRow(table, record);
+    const updates = names.filter(name => name !== 'id').map(name => `${name} = excluded.${name}`);
+
+    // ON CONFLICT(id) rather than INSERT OR REPLACE so other UNIQUE
+    // constraints (e.g. vehicles.vin) raise instead of deleting rows
+    db.run(
+      `INSERT INTO ${table} (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})
+       ON CONFLICT(id) DO ${updates.length > 0 ? `UPDATE SET ${updates.join(', ')}` : 'NOTHING'}`,
+      values
+    );
+  }
+
+  async getAll<T extends TableName>(table: T): Promise<TableRecord<T>[]> {
+    const db = await this.getDb();
+    return this.select(db, table);
+  }
+
+  async get<T extends TableName>(table: T, id: string): Promise<TableRecord<T> | null> {
+    const db = await this.getDb();
+    return this.select(db, table, 'WHERE id = ?', [id])[0] || null;
+  }
+
+  async getByIndex<T extends TableName>(table: T, indexName: string, value: IndexValue): Promise<TableRecord<T>[]> {
+    const db = await this.getDb();
+    const index = tableIndexes[table].find(i => i.name === indexName);
+    if (!index) {
+      throw new Error(`Unknown index ${indexName} on ${table}`);
+    }
+
+    return this.select(db, table, `WHERE ${index.keyPath} = ?`, [value]);
+  }
+
+  async put<T extends TableName>(table: T, record: TableRecord<T>): Promise<void> {
+    await this.write(db => this.upsert(db, table, record));
+  }
+
+  async delete(table: TableName, id: string): Promise<boolean> {
+    return this.write(db => {
+      db.run(`DELETE FROM ${table} WHERE id = ?`, [id]);
+      return db.getRowsModified() > 0;
+    });
+  }
+
+  async count(table: TableName): Promise<number> {
+    const db = await this.getDb();
+    const result = db.exec(`SELECT COUNT(*) FROM ${table}`);
+    return Number(result[0].values[0][0]);
+  }
+
+  async commit(writes: StagedWrite[], meta: Record<string, unknown> = {}): Promise<void> {
+    if (writes.length === 0 && Object.keys(meta).length === 0) return;
+
+    await this.write(db => {
+      db.exec('BEGIN');
+      try {
+        writes.forEach(write => {
+          if (write.expectedVersion !== undefined) {
+            const current = this.select(db, write.table, 'WHERE id = ?', [write.id])[0] || null;
+            if (recordVersion(current) !== write.expectedVersion) {
+              throw new StaleWriteError(write.table, write.id);
+            }
+          }
+
+          if (write.record) this.upsert(db, write.table, write.record);
+          else db.run(`DELETE FROM ${write.table} WHERE id = ?`, [write.id]);
+        });
+        Object.entries(meta).forEach(([key, value]) => this.putMeta(db, key, value));
+        db.exec('COMMIT');
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async importData(data: StorageData): Promise<void> {
+    await this.write(db => this.inBulkTransaction(db, () => this.importInto(db, data)));
+  }
+
+  // A record that violates a constraint fails the whole import rather than
+  // silently dropping data
+  private importInto(db: Database, data: StorageData): void {
+    tableNames.forEach(table => {
+      (data[table] || []).forEach(record => {
+        try {
+          this.upsert(db, table, record);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new Error(`Could not import ${table} record ${record.id}: ${reason}`);
+        }
+      });
+    });
+  }
+
+  // Bulk writes touch tables in tableNames order, which doesn't follow the
+  // foreign keys (e.g. payments.received_by references tech_profiles), so
+  // references are only checked once every record is in place
+  private inBulkTransaction(db: Database, apply: () => void): void {
+    db.exec('BEGIN');
+    try {
+      db.exec('PRAGMA defer_foreign_keys = ON;');
+      apply();
+      this.checkForeignKeys(db);
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Name the first record whose reference is missing; COMMIT would only say
+  // that some foreign key failed
+  private checkForeignKeys(db: Database): void {
+    const [violation] = db.exec('PRAGMA foreign_key_check')[0]?.values || [];
+    if (!violation) return;
+
+    const [table, rowid, parent] = violation;
+    const id = db.exec(`SELECT id FROM ${table} WHERE rowid = ?`, [rowid])[0]?.values[0]?.[0];
+    throw new Error(`Could not import ${table} record ${id}: it references a missing ${parent} record`);
+  }
+
+  async exportData(): Promise<StorageData> {
+    const db = await this.getDb();
+    const data = {} as Record<TableName, unknown[]>;
+
+    tableNames.forEach(table => {
+      data[table] = this.select(db, table);
+    });
+
+    return data as unknown as StorageData;
+  }
+
+  async replaceData(data: StorageData, meta: Record<string, unknown>): Promise<void> {
+    await this.write(db => this.inBulkTransaction(db, () => {
+      tableNames.forEach(table => db.run(`DELETE FROM ${table}`));
+      db.run('DELETE FROM app_meta');
+
+      this.importInto(db, data);
+      Object.entries(meta).forEach(([key, value]) => this.putMeta(db, key, value));
+    }));
+  }
+
+  async getMeta<V>(key: string): Promise<V | null> {
+    const db = await this.getDb();
+    const result = db.exec('SELECT value FROM app_meta WHERE key = ?', [key]);
+    if (result.length === 0) return null;
+
+    return JSON.parse(String(result[0].values[0][0])) as V;
+  }
+
+  async setMeta<V>(key: string, value: V): Promise<void> {
+    await this.write(db => this.putMeta(db, key, value));
+  }
+
+  private putMeta(db: Database, key: string, value: unknown): void {
+    db.run(
+      'INSERT INTO app_meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+      [key, JSON.stringify(value)]
+    );
+  }
+}
@@ -0,0 +1,215 @@
+import type {
+  Customer,
+  Vehicle,
+  WorkOrder,
+  EstimateRequest,
+  LineItem,
+  WorkOrderStatusChange,
+  Invoice,
+  Payment,
+  TaxProfile,
+  LaborRate,
+  PricingLevel,
+  MarkupMatrix,
+  CheckIn,
+  CommonService,
+  CatalogPart,
+  PartPriceChange,
+  InventoryItem,
+  InventoryAdjustment,
+  PurchaseOrder,
+  PartReceipt,
+  TechProfile,
+  TimeEntry,
+  Appointment,
+  ShopSchedule,
+  ServiceDuration,
+  TechSchedule,
+  TimeOffRequest,
+  ShopResource,
+  Device,
+  SyncStatus,
+  SyncConflict,
+} from '../types/models';
+
+// Storage adapter contract for the shop database
+// Each table maps to one collection of records keyed by `id`
+
+export interface StorageData {
+  customers: Customer[];
+  vehicles: Vehicle[];
+  work_orders: WorkOrder[];
+  estimate_requests: EstimateRequest[];
+  line_items: LineItem[];
+  work_order_status_history: WorkOrderStatusChange[];
+  invoices: Invoice[];
+  payments: Payment[];
+  check_ins: CheckIn[];
+  common_services: CommonService[];
+  parts_catalog: CatalogPart[];
+  part_price_history: PartPriceChange[];
+  inventory: InventoryItem[];
+  inventory_adjustments: InventoryAdjustment[];
+  purchase_orders: PurchaseOrder[];
+  part_receipts: PartReceipt[];
+  tax_profiles: TaxProfile[];
+  labor_rates: LaborRate[];
+  pricing_levels: PricingLevel[];
+  markup_matrices: MarkupMatrix[];
+  tech_profiles: TechProfile[];
+  time_entries: TimeEntry[];
+  appointments: Appointment[];
+  shop_schedules: ShopSchedule[];
+  service_durations: ServiceDuration[];
+  tech_schedules: TechSchedule[];
+  time_off_requests: TimeOffRequest[];
+  shop_resources: ShopResource[];
+  devices: Device[];
+  sync_status: SyncStatus[];
+  sync_conflicts: SyncConflict[];
+}
+
+export type TableName = keyof StorageData;
+
+export type TableRecord<T extends TableName> = StorageData[T][number];
+
+export type IndexValue = string | number;
+
+export interface IndexDefinition {
+  name: string;
+  keyPath: string;
+  unique?: boolean;
+}
+
+// Indexes mirror the ones declared in src/database/schema.sql
+export const tableIndexes: Record<TableName, IndexDefinition[]> = {
+  customers: [
+    { name: 'idx_customers_phone', keyPath: 'phone' },
+  ],
+  vehicles: [
+    { name: 'idx_vehicles_vin', keyPath: 'vin' },
+    { name: 'idx_vehicles_customer_id', keyPath: 'customer_id' },
+  ],
+  work_orders: [
+    { name: 'idx_work_orders_vehicle_id', keyPath: 'vehicle_id' },
+    { name: 'idx_work_orders_status', keyPath: 'status' },
+    { name: 'idx_work_orders_assigned_tech', keyPath: 'assigned_tech' },
+  ],
+  estimate_requests: [
+    { name: 'idx_estimate_requests_work_order_id', keyPath: 'work_order_id' },
+    { name: 'idx_estimate_requests_approval_token', keyPath: 'approval_token' },
+  ],
+  line_items: [
+    { name: 'idx_line_items_work_order_id', keyPath: 'work_order_id' },
+  ],
+  work_order_status_history: [
+    { name: 'idx_work_order_status_history_work_order_id', keyPath: 'work_order_id' },
+  ],
+  invoices: [
+    { name: 'idx_invoices_work_order_id', keyPath: 'work_order_id' },
+  ],
+  payments: [
+    { name: 'idx_payments_work_order_id', keyPath: 'work_order_id' },
+  ],
+  check_ins: [
+    { name: 'idx_check_ins_status', keyPath: 'status' },
+  ],
+  common_services: [],
+  parts_catalog: [
+    { name: 'idx_parts_catalog_part_number', keyPath: 'part_number' },
+  ],
+  part_price_history: [
+    { name: 'idx_part_price_history_part_id', keyPath: 'part_id' },
+  ],
+  inventory: [],
+  inventory_adjustments: [
+    { name: 'idx_inventory_adjustments_part_id', keyPath: 'part_id' },
+  ],
+  purchase_orders: [
+    { name: 'idx_purchase_orders_status', keyPath: 'status' },
+  ],
+  part_receipts: [
+    { name: 'idx_part_receipts_purchase_order_id', keyPath: 'purchase_order_id' },
+  ],
+  tax_profiles: [],
+  labor_rates: [],
+  pricing_levels: [],
+  markup_matrices: [],
+  tech_profiles: [],
+  time_entries: [
+    { name: 'idx_time_entries_tech_id', keyPath: 'tech_id' },
+    { name: 'idx_time_entries_work_order_id', keyPath: 'work_order_id' },
+  ],
+  appointments: [],
+  shop_schedules: [],
+  service_durations: [],
+  tech_schedules: [],
+  time_off_requests: [],
+  shop_resources: [],
+  devices: [
+    { name: 'idx_devices_code', keyPath: 'code' },
+  ],
+  sync_status: [
+    { name: 'idx_sync_status_state', keyPath: 'sync_state' },
+  ],
+  sync_conflicts: [
+    { name: 'idx_sync_conflicts_status', keyPath: 'status' },
+  ],
+};
+
+export const tableNames = Object.keys(tableIndexes) as TableName[];
+
+// A write staged by a transaction. `expectedVersion` is the record's
+// `updated_at` when the transaction read it: null means the record must not
+// exist yet, undefined skips the check
+export interface StagedWrite {
+  table: TableName;
+  id: string;
+  record: TableRecord<TableName> | null; // null deletes the record
+  expectedVersion?: number | null;
+}
+
+// Raised when a record changed (in this or another tab) after it was read
+export class StaleWriteError extends Error {
+  table: TableName;
+  recordId: string;
+
+  constructor(table: TableName, recordId: string) {
+    super(`${table} record ${recordId} was modified by someone else`);
+    this.name = 'StaleWriteError';
+    this.table = table;
+    this.recordId = recordId;
+  }
+}
+
+export function recordVersion(record: object | null | undefined): number | null {
+  if (!record) return null;
+  const { updated_at, created_at } = record as { updated_at?: number; created_at?: number };
+  return updated_at ?? created_at ?? 0;
+}
+
+export interface StorageAdapter {
+  open(): Promise<void>;
+  getAll<T extends TableName>(table: T): Promise<TableRecord<T>[]>;
+  get<T extends TableName>(table: T, id: string): Promise<TableRecord<T> | null>;
+  getByIndex<T extends TableName>(table: T, indexName: string, value: IndexValue): Promise<TableRecord<T>[]>;
+  put<T extends TableName>(table: T, record: TableRecord<T>): Promise<void>;
+  delete(table: TableName, id: string): Promise<boolean>;
+  count(table: TableName): Promise<number>;
+
+  // Applies all writes atomically, or none if any expectedVersion is stale.
+  // Meta entries are written in the same transaction
+  commit(writes: StagedWrite[], meta?: Record<string, unknown>): Promise<void>;
+
+  // Bulk operations used for migration and backup; importData writes every
+  // record or, if any is rejected, none of them
+  importData(data: StorageData): Promise<void>;
+  exportData(): Promise<StorageData>;
+
+  // Swap every record and meta entry for the given ones in one transaction
+  replaceData(data: StorageData, meta: Record<string, unknown>): Promise<void>;
+
+  // Small key/value store for bookkeeping (initialization flags, versions)
+  getMeta<V>(key: string): Promise<V | null>;
+  setMeta<V>(key: string, value: V): Promise<void>;
+}
@@ -0,0 +1,63 @@
+import type { FieldClock } from '../types/models';
+import type { SyncedTable } from './syncTracking';
+
+// Wire format between devices and the sync server. The server only has to
+// keep an ordered log of changes: it numbers each pushed change with a
+// revision and returns changes after a given revision. All merging happens
+// on the devices, so any backend that honours this contract can be plugged in.
+
+export interface SyncChange {
+  table: SyncedTable;
+  record_id: string;
+  device_id: string;
+  base_revision: number; // the pusher's pull cursor when it pushed
+  deleted: boolean;
+  fields: Record<string, unknown>; // changed fields; null clears a field
+  field_versions: Record<string, FieldClock>;
+  revision?: number; // assigned by the server
+}
+
+export interface PullResult {
+  changes: SyncChange[];
+  cursor: number;
+  has_more: boolean;
+}
+
+export interface SyncEndpoint {
+  // Returns the revision assigned to each change, in order
+  push(deviceId: string, changes: SyncChange[]): Promise<number[]>;
+  pull(since: number, limit: number): Promise<PullResult>;
+}
+
+// Talks to scripts/sync-server.mjs or any server with the same routes
+export class HttpSyncEndpoint implements SyncEndpoint {
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Sync server responded ${response.status}: ${await response.text()}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  async push(deviceId: string, changes: SyncChange[]): Promise<number[]> {
+    const result = await this.request<{ revisions: number[] }>('/changes', {
+      method: 'POST',
+      body: JSON.stringify({ device_id: deviceId, changes }),
+    });
+    return result.revisions;
+  }
+
+  pull(since: number, limit: number): Promise<PullResult> {
+    return this.request<PullResult>(`/changes?since=${since}&limit=${limit}`);
+  }
+}
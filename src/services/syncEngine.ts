@@ -0,0 +1,490 @@
+import type { FieldClock, SyncConflict, SyncConflictResolution, SyncStatus } from '../types/models';
+import browserDatabase from './browserDatabase';
+import type { DatabaseTransaction } from './databaseTransaction';
+import { HttpSyncEndpoint, type SyncChange, type SyncEndpoint } from './syncEndpoint';
+import { StaleWriteError, recordVersion, type TableRecord } from './storageAdapter';
+import {
+  changedFields,
+  compareClocks,
+  pendingStatus,
+  sameValue,
+  syncStatusId,
+  syncedTables,
+  type SyncedTable,
+} from './syncTracking';
+
+// Multi-device sync. Each run pulls other devices' changes and merges them
+// field by field (last writer wins), then pushes this device's pending
+// changes. When two devices edit the same field before seeing each other's
+// change, the losing value is queued in sync_conflicts for the owner.
+
+export type SyncEngineState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncEngineStatus {
+  state: SyncEngineState;
+  last_synced_at?: number;
+  error?: string;
+}
+
+export interface SyncSummary {
+  pending_changes: number;
+  open_conflicts: number;
+}
+
+type StatusListener = (status: SyncEngineStatus) => void;
+
+interface OutgoingChange {
+  status: SyncStatus;
+  change: SyncChange;
+}
+
+const PULL_LIMIT = 200;
+const PUSH_LIMIT = 200;
+const SYNC_INTERVAL = 30000;
+const SYNC_LOCK = 'shop_sync';
+
+function clockKey(clock: FieldClock): string {
+  return `${clock.at}@${clock.device_id}`;
+}
+
+function setField(record: Record<string, unknown>, field: string, value: unknown): void {
+  if (value === null || value === undefined) delete record[field];
+  else record[field] = value;
+}
+
+class SyncEngine {
+  private endpoint: SyncEndpoint | null;
+  private status: SyncEngineStatus;
+  private listeners = new Set<StatusListener>();
+  private running: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(endpoint: SyncEndpoint | null) {
+    this.endpoint = endpoint;
+    this.status = { state: endpoint ? 'idle' : 'disabled' };
+  }
+
+  setEndpoint(endpoint: SyncEndpoint | null): void {
+    this.endpoint = endpoint;
+    this.setStatus({ state: endpoint ? 'idle' : 'disabled', error: undefined });
+  }
+
+  getStatus(): SyncEngineStatus {
+    return this.status;
+  }
+
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setStatus(update: Partial<SyncEngineStatus>): void {
+    this.status = { ...this.status, ...update };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+
+  // Sync now, then on an interval and whenever the device comes back online
+  start(interval: number = SYNC_INTERVAL): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.syncNow(), interval);
+    window.addEventListener('online', this.handleOnline);
+    this.syncNow();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    window.removeEventListener('online', this.handleOnline);
+  }
+
+  private handleOnline = () => {
+    this.syncNow();
+  };
+
+  // Overlapping calls share one run; failures are reported through the status
+  syncNow(): Promise<void> {
+    if (!this.endpoint) return Promise.resolve();
+
+    if (!this.running) {
+      this.running = this.run(this.endpoint).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(endpoint: SyncEndpoint): Promise<void> {
+    if (!navigator.onLine) {
+      this.setStatus({ state: 'offline' });
+      return;
+    }
+
+    this.setStatus({ state: 'syncing', error: undefined });
+    try {
+      const sync = async () => {
+        const deviceId = await browserDatabase.getDeviceId();
+        await this.trackUnrecorded(deviceId);
+        await this.pull(endpoint, deviceId);
+        await this.push(endpoint, deviceId);
+      };
+
+      // Tabs on the same device share a device id; only one talks to the server
+      if (navigator.locks) await navigator.locks.request(SYNC_LOCK, sync);
+      else await sync();
+
+      this.setStatus({ state: 'idle', last_synced_at: Date.now() });
+    } catch (error) {
+      console.error('Sync failed:', error);
+      this.setStatus({ state: 'error', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Records written outside a transaction (imports, migrations) have no sync
+  // status yet. Queue them as new; they aren't edits, so they never raise
+  // conflicts (revision 0 marks them as already seen by everyone).
+  private async trackUnrecorded(deviceId: string): Promise<void> {
+    await browserDatabase.transaction(async tx => {
+      const tracked = new Set((await tx.getAll('sync_status')).map(status => status.id));
+
+      for (const table of syncedTables) {
+        (await tx.getAll(table)).forEach(record => {
+          if (tracked.has(syncStatusId(table, record.id))) return;
+
+          const clock = { at: recordVersion(record) ?? 0, device_id: deviceId, revision: 0 };
+          tx.put('sync_status', pendingStatus(null, table, record.id, changedFields(null, record), clock));
+        });
+      }
+    });
+  }
+
+  private async pull(endpoint: SyncEndpoint, deviceId: string): Promise<void> {
+    let cursor = await browserDatabase.getMeta<number>('sync_cursor') || 0;
+
+    for (;;) {
+      const result = await endpoint.pull(cursor, PULL_LIMIT);
+
+      // Our own changes come back in the log; they're already applied here
+      await this.applyChanges(result.changes.filter(change => change.device_id !== deviceId), deviceId);
+
+      if (result.cursor !== cursor) {
+        cursor = result.cursor;
+        await browserDatabase.setMeta('sync_cursor', cursor);
+      }
+      if (!result.has_more) break;
+    }
+  }
+
+  // A batch is applied atomically. If part of it can't be applied (e.g. a
+  // duplicate VIN), fall back to one change at a time and queue the failures.
+  private async applyChanges(changes: SyncChange[], deviceId: string): Promise<void> {
+    if (changes.length === 0) return;
+
+    try {
+      await browserDatabase.transaction(async tx => {
+        for (const change of changes) {
+          await this.applyChange(tx, change, deviceId);
+        }
+      });
+    } catch (error) {
+      if (error instanceof StaleWriteError) throw error;
+
+      if (changes.length === 1) {
+        await this.queueRejected(changes[0], error);
+        return;
+      }
+      for (const change of changes) {
+        await this.applyChanges([change], deviceId);
+      }
+    }
+  }
+
+  private async applyChange(tx: DatabaseTransaction, change: SyncChange, deviceId: string): Promise<void> {
+    const statusId = syncStatusId(change.table, change.record_id);
+    const status = await tx.get('sync_status', statusId);
+    const local = await tx.get(change.table, change.record_id);
+    const now = Date.now();
+
+    // Deletes win over edits; a record deleted on any device stays deleted
+    if (status?.deleted) return;
+
+    if (change.deleted) {
+      if (local) tx.delete(change.table, change.record_id);
+      tx.put('sync_status', {
+        id: statusId,
+        table_name: change.table,
+        record_id: change.record_id,
+        last_sync: now,
+        sync_state: 'synced',
+        device_id: change.device_id,
+        field_versions: status?.field_versions,
+        pending_fields: [],
+        deleted: true,
+        created_at: status?.created_at ?? now,
+        updated_at: now,
+      });
+      return;
+    }
+
+    const record: Record<string, unknown> = { ...(local || { id: change.record_id }) };
+    const fieldVersions = { ...status?.field_versions };
+    let pendingFields = status?.pending_fields || [];
+    let conflicted = status?.sync_state === 'conflict';
+
+    for (const [field, value] of Object.entries(change.fields)) {
+      const remoteClock: FieldClock = {
+        ...(change.field_versions[field] || { at: 0, device_id: change.device_id }),
+        revision: change.revision,
+      };
+      const localClock = fieldVersions[field];
+      const remoteWins = !localClock || compareClocks(remoteClock, localClock) > 0;
+
+      // Our change to this field hadn't reached the other device when it made its own
+      const concurrent = local !== null && localClock?.device_id === deviceId &&
+        (localClock.revision === undefined || localClock.revision > change.base_revision);
+
+      // The review queue itself just takes the latest values
+      if (concurrent && change.table !== 'sync_conflicts' && !sameValue(record[field], value)) {
+        await this.queueConflict(tx, change, field, record[field], localClock, remoteClock, remoteWins);
+        conflicted = true;
+      }
+
+      if (remoteWins) {
+        setField(record, field, value);
+        fieldVersions[field] = remoteClock;
+        pendingFields = pendingFields.filter(pending => pending !== field);
+      }
+    }
+
+    tx.put(change.table, record as unknown as TableRecord<SyncedTable>);
+    tx.put('sync_status', {
+      id: statusId,
+      table_name: change.table,
+      record_id: change.record_id,
+      last_sync: now,
+      sync_state: pendingFields.length > 0 ? 'pending' : conflicted ? 'conflict' : 'synced',
+      device_id: status?.device_id ?? change.device_id,
+      field_versions: fieldVersions,
+      pending_fields: pendingFields,
+      deleted: false,
+      created_at: status?.created_at ?? now,
+      updated_at: now,
+    });
+  }
+
+  private async queueConflict(
+    tx: DatabaseTransaction,
+    change: SyncChange,
+    field: string,
+    localValue: unknown,
+    localClock: FieldClock,
+    remoteClock: FieldClock,
+    remoteWins: boolean
+  ): Promise<void> {
+    // Both devices can detect the same conflict; deriving the id from the two
+    // clocks lets their copies merge into one entry
+    const clocks = [clockKey(localClock), clockKey(remoteClock)].sort();
+    const id = [syncStatusId(change.table, change.record_id), field, ...clocks].join(':');
+    if (await tx.get('sync_conflicts', id)) return;
+
+    const local = { value: localValue, clock: localClock };
+    const remote = { value: change.fields[field], clock: remoteClock };
+    const [kept, discarded] = remoteWins ? [remote, local] : [local, remote];
+    const now = Date.now();
+
+    tx.put('sync_conflicts', {
+      id,
+      table_name: change.table,
+      record_id: change.record_id,
+      field,
+      kept_value: kept.value,
+      discarded_value: discarded.value,
+      kept_device_id: kept.clock.device_id,
+      discarded_device_id: discarded.clock.device_id,
+      kept_at: kept.clock.at,
+      discarded_at: discarded.clock.at,
+      reason: 'concurrent_edit',
+      status: 'open',
+      created_at: now,
+      updated_at: now,
+    });
+  }
+
+  private async queueRejected(change: SyncChange, error: unknown): Promise<void> {
+    console.error(`Could not apply synced ${change.table} record ${change.record_id}:`, error);
+
+    await browserDatabase.transaction(async tx => {
+      const id = `${syncStatusId(change.table, change.record_id)}:rejected:${change.revision}`;
+      if (await tx.get('sync_conflicts', id)) return;
+
+      const now = Date.now();
+      tx.put('sync_conflicts', {
+        id,
+        table_name: change.table,
+        record_id: change.record_id,
+        discarded_value: change.deleted ? undefined : change.fields,
+        discarded_device_id: change.device_id,
+        discarded_at: Math.max(0, ...Object.values(change.field_versions).map(clock => clock.at)),
+        reason: 'rejected',
+        detail: error instanceof Error ? error.message : String(error),
+        status: 'open',
+        created_at: now,
+        updated_at: now,
+      });
+    });
+  }
+
+  private async push(endpoint: SyncEndpoint, deviceId: string): Promise<void> {
+    const cursor = await browserDatabase.getMeta<number>('sync_cursor') || 0;
+
+    for (;;) {
+      const outgoing = await this.collectPending(deviceId, cursor);
+      if (outgoing.length === 0) break;
+
+      const revisions = await endpoint.push(deviceId, outgoing.map(item => item.change));
+      await this.markPushed(outgoing, revisions);
+
+      if (outgoing.length < PUSH_LIMIT) break;
+    }
+  }
+
+  private collectPending(deviceId: string, cursor: number): Promise<OutgoingChange[]> {
+    return browserDatabase.transaction(async tx => {
+      const statuses = (await tx.getByIndex('sync_status', 'idx_sync_status_state', 'pending'))
+        // Parents first so receivers can satisfy foreign keys
+        .sort((a, b) =>
+          syncedTables.indexOf(a.table_name as SyncedTable) - syncedTables.indexOf(b.table_name as SyncedTable) ||
+          a.created_at - b.created_at
+        )
+        .slice(0, PUSH_LIMIT);
+
+      const outgoing: OutgoingChange[] = [];
+      for (const status of statuses) {
+        const table = status.table_name as SyncedTable;
+        const record = status.deleted ? null : await tx.get(table, status.record_id) as Record<string, unknown> | null;
+
+        const fields: Record<string, unknown> = {};
+        const fieldVersions: Record<string, FieldClock> = {};
+        (record ? status.pending_fields || [] : []).forEach(field => {
+          const clock = status.field_versions?.[field] || { at: status.updated_at, device_id: deviceId };
+          fields[field] = record?.[field] ?? null;
+          fieldVersions[field] = { at: clock.at, device_id: clock.device_id };
+        });
+
+        outgoing.push({
+          status,
+          change: {
+            table,
+            record_id: status.record_id,
+            device_id: deviceId,
+            base_revision: cursor,
+            deleted: record === null,
+            fields,
+            field_versions: fieldVersions,
+          },
+        });
+      }
+      return outgoing;
+    });
+  }
+
+  private async markPushed(outgoing: OutgoingChange[], revisions: number[]): Promise<void> {
+    await browserDatabase.transaction(async tx => {
+      const openConflicts = await tx.getByIndex('sync_conflicts', 'idx_sync_conflicts_status', 'open');
+      const conflicted = new Set(openConflicts.map(conflict => syncStatusId(conflict.table_name, conflict.record_id)));
+
+      for (const [index, { status: pushed, change }] of outgoing.entries()) {
+        const status = await tx.get('sync_status', pushed.id);
+        if (!status) continue;
+
+        const fieldVersions = { ...status.field_versions };
+        const stillPending = (status.pending_fields || []).filter(field => {
+          const clock = fieldVersions[field];
+          const sent = change.field_versions[field];
+
+          // Edited again while the push was in flight
+          if (!clock || !sent || compareClocks(clock, sent) !== 0) return true;
+
+          fieldVersions[field] = { ...clock, revision: clock.revision ?? revisions[index] };
+          return false;
+        });
+        const deletePending = Boolean(status.deleted) && !change.deleted;
+
+        tx.put('sync_status', {
+          ...status,
+          field_versions: fieldVersions,
+          pending_fields: stillPending,
+          last_sync: Date.now(),
+          sync_state: stillPending.length > 0 || deletePending
+            ? 'pending'
+            : conflicted.has(status.id) ? 'conflict' : 'synced',
+        });
+      }
+    });
+  }
+
+  async getSummary(): Promise<SyncSummary> {
+    return browserDatabase.transaction(async tx => ({
+      pending_changes: (await tx.getByIndex('sync_status', 'idx_sync_status_state', 'pending')).length,
+      open_conflicts: (await tx.getByIndex('sync_conflicts', 'idx_sync_conflicts_status', 'open')).length,
+    }));
+  }
+
+  async getOpenConflicts(): Promise<SyncConflict[]> {
+    const conflicts = await browserDatabase.transaction(tx =>
+      tx.getByIndex('sync_conflicts', 'idx_sync_conflicts_status', 'open')
+    );
+    return conflicts.sort((a, b) => b.created_at - a.created_at);
+  }
+
+  // 'kept' accepts the merged value, 'restored' writes the discarded value
+  // back as a new edit (which then syncs everywhere), 'dismissed' clears a
+  // rejected change
+  async resolveConflict(conflictId: string, resolution: SyncConflictResolution): Promise<void> {
+    await browserDatabase.transaction(async tx => {
+      const conflict = await tx.get('sync_conflicts', conflictId);
+      if (!conflict || conflict.status !== 'open') {
+        throw new Error('This conflict has already been resolved');
+      }
+
+      const table = conflict.table_name as SyncedTable;
+      const now = Date.now();
+
+      if (resolution === 'restored') {
+        if (conflict.reason !== 'concurrent_edit' || !conflict.field) {
+          throw new Error('Only conflicting edits can be restored');
+        }
+
+        const record = await tx.get(table, conflict.record_id);
+        if (!record) {
+          throw new Error('The record no longer exists');
+        }
+
+        const restored: Record<string, unknown> = { ...record };
+        setField(restored, conflict.field, conflict.discarded_value);
+        tx.put(table, restored as unknown as TableRecord<SyncedTable>);
+      }
+
+      tx.put('sync_conflicts', { ...conflict, status: 'resolved', resolution, resolved_at: now });
+
+      // A restored value is a local edit and is tracked as pending; otherwise
+      // clear the record's conflict state once nothing else is open for it
+      if (resolution !== 'restored') {
+        const statusId = syncStatusId(table, conflict.record_id);
+        const status = await tx.get('sync_status', statusId);
+        const open = await tx.getByIndex('sync_conflicts', 'idx_sync_conflicts_status', 'open');
+        const othersOpen = open.some(other => syncStatusId(other.table_name, other.record_id) === statusId);
+
+        if (status?.sync_state === 'conflict' && !othersOpen) {
+          tx.put('sync_status', { ...status, sync_state: 'synced' });
+        }
+      }
+    });
+  }
+}
+
+const syncUrl = import.meta.env.VITE_SYNC_URL as string | undefined;
+
+export default new SyncEngine(syncUrl ? new HttpSyncEndpoint(syncUrl) : null);
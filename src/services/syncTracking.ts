@@ -0,0 +1,86 @@
+import type { FieldClock, SyncStatus } from '../types/models';
+import type { DatabaseTransaction } from './databaseTransaction';
+import { recordVersion, tableNames, type TableName } from './storageAdapter';
+
+// Per-record change tracking for multi-device sync. Every committed write is
+// recorded in sync_status with a clock for each field it changed, so pushes
+// send only those fields and merges can pick a winner field by field.
+
+export type SyncedTable = Exclude<TableName, 'sync_status'>;
+
+export const syncedTables = tableNames.filter((table): table is SyncedTable => table !== 'sync_status');
+
+// Fields each device maintains for itself
+const localFields = new Set(['id', 'updated_at']);
+
+export function syncStatusId(table: string, recordId: string): string {
+  return `${table}:${recordId}`;
+}
+
+export function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function changedFields(previous: object | null, next: object): string[] {
+  const before = (previous || {}) as Record<string, unknown>;
+  const after = next as Record<string, unknown>;
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return Array.from(fields).filter(field => !localFields.has(field) && !sameValue(before[field], after[field]));
+}
+
+// Later change wins; ties go to the higher device id so every device agrees
+export function compareClocks(a: FieldClock, b: FieldClock): number {
+  if (a.at !== b.at) return a.at - b.at;
+  if (a.device_id === b.device_id) return 0;
+  return a.device_id > b.device_id ? 1 : -1;
+}
+
+// Sync status for a record changed on this device
+export function pendingStatus(
+  status: SyncStatus | null,
+  table: SyncedTable,
+  recordId: string,
+  fields: string[],
+  clock: FieldClock,
+  deleted: boolean = false
+): SyncStatus {
+  const fieldVersions = { ...status?.field_versions };
+  fields.forEach(field => {
+    fieldVersions[field] = clock;
+  });
+
+  return {
+    id: syncStatusId(table, recordId),
+    table_name: table,
+    record_id: recordId,
+    last_sync: status?.last_sync,
+    sync_state: 'pending',
+    device_id: clock.device_id,
+    field_versions: fieldVersions,
+    pending_fields: deleted ? [] : Array.from(new Set([...(status?.pending_fields || []), ...fields])),
+    deleted,
+    created_at: status?.created_at ?? clock.at,
+    updated_at: clock.at,
+  };
+}
+
+// Stage sync status for the transaction's writes. Writes whose status the
+// caller staged itself (remote changes being applied) are left alone.
+export async function trackChanges(tx: DatabaseTransaction, deviceId: string): Promise<void> {
+  const writes = tx.getStagedWrites();
+  const handled = new Set(writes.filter(write => write.table === 'sync_status').map(write => write.id));
+
+  for (const write of writes) {
+    const table = write.table as SyncedTable;
+    const id = syncStatusId(table, write.id);
+    if (write.table === 'sync_status' || handled.has(id)) continue;
+
+    const fields = write.record ? changedFields(write.previous, write.record) : [];
+    if (write.record && fields.length === 0) continue;
+
+    const status = await tx.get('sync_status', id);
+    const clock = { at: recordVersion(write.record) ?? Date.now(), device_id: deviceId };
+    tx.put('sync_status', pendingStatus(status, table, write.id, fields, clock, !write.record));
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { TaxProfile } from '../types/models';
+import { calculateTax, defaultTaxProfile, validateTaxProfile } from './taxEngine';
+
+const stackedProfile: TaxProfile = {
+  ...defaultTaxProfile(0),
+  jurisdictions: [
+    { id: 'state', name: 'State', rate: 6.25 },
+    { id: 'county', name: 'County', rate: 1.5 },
+  ],
+  taxable_types: ['part'],
+};
+
+const lineItems = [
+  { type: 'part' as const, total_price: 4999 },
+  { type: 'part' as const, total_price: 1001 },
+  { type: 'labor' as const, total_price: 12000 },
+];
+
+describe('calculateTax', () => {
+  it('taxes every line item type under the default profile', () => {
+    const breakdown = calculateTax(lineItems, { profile: defaultTaxProfile(0) });
+
+    expect(breakdown.tax).toBe(1575);
+    expect(breakdown.lines).toEqual([
+      { jurisdiction_id: 'sales-tax', name: 'Sales Tax', rate: 8.75, taxable_amount: 18000, amount: 1575 },
+    ]);
+  });
+
+  it('taxes only the profile\'s taxable types', () => {
+    const breakdown = calculateTax(lineItems, { profile: stackedProfile });
+
+    expect(breakdown.lines.map(line => line.taxable_amount)).toEqual([6000, 6000]);
+  });
+
+  it('rounds each jurisdiction on its own before adding them up', () => {
+    const breakdown = calculateTax([{ type: 'part', total_price: 1234 }], { profile: stackedProfile });
+
+    // 77.125 and 18.51 cents
+    expect(breakdown.lines.map(line => line.amount)).toEqual([77, 19]);
+    expect(breakdown.tax).toBe(96);
+  });
+
+  it('charges a tax-exempt customer nothing', () => {
+    const breakdown = calculateTax(lineItems, {
+      profile: stackedProfile,
+      customer: { tax_exempt: true, tax_exempt_certificate: 'EX-123' },
+    });
+
+    expect(breakdown).toEqual({ lines: [], tax: 0, exempt: true, exempt_certificate: 'EX-123' });
+  });
+
+  it('charges nothing without a profile', () => {
+    expect(calculateTax(lineItems, { profile: null }).tax).toBe(0);
+  });
+});
+
+describe('validateTaxProfile', () => {
+  it('accepts the default profile', () => {
+    expect(validateTaxProfile(defaultTaxProfile(0))).toBeNull();
+  });
+
+  it('rejects rates outside 0% to 100%', () => {
+    expect(validateTaxProfile({
+      name: 'Bad',
+      jurisdictions: [{ id: 'x', name: 'X', rate: 100 }],
+    })).toBe('Tax rates must be between 0% and 100%');
+  });
+});
@@ -0,0 +1,86 @@
+import type { Cents, Customer, LineItem, LineItemType, TaxLine, TaxProfile } from '../types/models';
+import { percentOfCents, sumCents } from './money';
+
+// Sales tax. A tax profile lists the jurisdictions whose rates stack and the
+// line item types they tax; a tax-exempt customer pays none.
+
+export interface TaxContext {
+  profile: TaxProfile | null;
+  customer?: Pick<Customer, 'tax_exempt' | 'tax_exempt_certificate'> | null;
+}
+
+export interface TaxBreakdown {
+  lines: TaxLine[];
+  tax: Cents;
+  exempt: boolean;
+  exempt_certificate?: string;
+}
+
+export const lineItemTypeLabels: Record<LineItemType, string> = {
+  labor: 'Labor',
+  part: 'Parts',
+  service: 'Services',
+};
+
+// The profile new shops start with; the old flat 8.75% on everything
+export const DEFAULT_TAX_PROFILE_ID = 'tax-default';
+
+export function defaultTaxProfile(now: number = Date.now()): TaxProfile {
+  return {
+    id: DEFAULT_TAX_PROFILE_ID,
+    name: 'Standard',
+    jurisdictions: [{ id: 'sales-tax', name: 'Sales Tax', rate: 8.75 }],
+    taxable_types: ['labor', 'part', 'service'],
+    is_default: true,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+// Each jurisdiction's tax is rounded to the cent on its own, as it is reported
+export function calculateTax(lineItems: Pick<LineItem, 'type' | 'total_price'>[], context: TaxContext): TaxBreakdown {
+  const { profile, customer } = context;
+
+  if (customer?.tax_exempt) {
+    return { lines: [], tax: 0, exempt: true, exempt_certificate: customer.tax_exempt_certificate };
+  }
+  if (!profile) {
+    return { lines: [], tax: 0, exempt: false };
+  }
+
+  const taxableAmount = sumCents(lineItems
+    .filter(item => profile.taxable_types.includes(item.type))
+    .map(item => item.total_price));
+
+  const lines = profile.jurisdictions.map(jurisdiction => ({
+    jurisdiction_id: jurisdiction.id,
+    name: jurisdiction.name,
+    rate: jurisdiction.rate,
+    taxable_amount: taxableAmount,
+    amount: percentOfCents(taxableAmount, jurisdiction.rate),
+  }));
+
+  return {
+    lines,
+    tax: sumCents(lines.map(line => line.amount)),
+    exempt: false,
+  };
+}
+
+// Why a profile can't be saved, or null if it can
+export function validateTaxProfile(profile: Pick<TaxProfile, 'name' | 'jurisdictions'>): string | null {
+  if (!profile.name.trim()) {
+    return 'The tax profile needs a name';
+  }
+  if (profile.jurisdictions.some(jurisdiction => !jurisdiction.name.trim())) {
+    return 'Every jurisdiction needs a name';
+  }
+  if (profile.jurisdictions.some(jurisdiction => !(jurisdiction.rate >= 0 && jurisdiction.rate < 100))) {
+    return 'Tax rates must be between 0% and 100%';
+  }
+  return null;
+}
+
+export function formatTaxLine(line: Pick<TaxLine, 'name' | 'rate'>): string {
+  return `${line.name} (${line.rate}%)`;
+}
@@ -0,0 +1,126 @@
+import type { Cents, LineItem, WorkOrder, WorkOrderStatus } from '../types/models';
+import { formatCents } from './money';
+
+// Work order lifecycle: the status changes that are allowed, what must be
+// true before each one and the fields each one stamps. Status changes go
+// through BrowserDatabaseService.transitionWorkOrder, which applies these
+// rules and records every change in work_order_status_history.
+
+export const workOrderTransitions: Record<WorkOrderStatus, WorkOrderStatus[]> = {
+  pending: ['in_progress', 'cancelled'],
+  in_progress: ['awaiting_approval', 'completed', 'cancelled'],
+  awaiting_approval: ['approved', 'in_progress', 'cancelled'], // back to in_progress when an estimate is rejected
+  approved: ['in_progress', 'awaiting_approval', 'completed', 'cancelled'], // awaiting_approval again for a supplement
+  completed: [],
+  cancelled: [],
+};
+
+export const workOrderStatusLabels: Record<WorkOrderStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  awaiting_approval: 'Awaiting Approval',
+  approved: 'Approved',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export interface TransitionContext {
+  workOrder: WorkOrder;
+  lineItems: LineItem[];
+}
+
+// Line items the customer hasn't approved or declined yet
+export function isAwaitingDecision(item: LineItem): boolean {
+  return !item.approved && !item.declined;
+}
+
+// A guard returns why the transition is blocked, or null to allow it
+type TransitionGuard = (context: TransitionContext) => string | null;
+
+const transitionGuards: Partial<Record<WorkOrderStatus, TransitionGuard[]>> = {
+  awaiting_approval: [
+    ({ lineItems }) => !lineItems.some(isAwaitingDecision)
+      ? 'Submit an estimate with the work that needs approval first'
+      : null,
+  ],
+  approved: [
+    ({ lineItems }) => !lineItems.some(item => item.approved)
+      ? 'There is no approved work on this job yet'
+      : null,
+  ],
+  // Completing with no approved work at all is checked separately, since it
+  // can be overridden with a reason (NoApprovedWorkError)
+  completed: [
+    ({ lineItems }) => lineItems.some(isAwaitingDecision)
+      ? 'Every line item must be approved or declined by the customer before the job can be completed'
+      : null,
+  ],
+};
+
+export class InvalidTransitionError extends Error {
+  from: WorkOrderStatus;
+  to: WorkOrderStatus;
+
+  constructor(from: WorkOrderStatus, to: WorkOrderStatus, reason: string) {
+    super(reason);
+    this.name = 'InvalidTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// Completing a job the customer hasn't paid for in full needs an explicit override
+export class OutstandingBalanceError extends InvalidTransitionError {
+  balance: Cents;
+
+  constructor(from: WorkOrderStatus, balance: Cents) {
+    super(from, 'completed', `This job has an outstanding balance of ${formatCents(balance)}`);
+    this.name = 'OutstandingBalanceError';
+    this.balance = balance;
+  }
+}
+
+// Completing a job the customer never approved any work on needs an explicit
+// override with a reason
+export class NoApprovedWorkError extends InvalidTransitionError {
+  constructor(from: WorkOrderStatus) {
+    super(from, 'completed', 'The customer hasn\'t approved any work on this job');
+    this.name = 'NoApprovedWorkError';
+  }
+}
+
+export function getAvailableTransitions(status: WorkOrderStatus): WorkOrderStatus[] {
+  return workOrderTransitions[status];
+}
+
+// Why the work order can't move to `to`, or null if it can
+export function checkTransition(context: TransitionContext, to: WorkOrderStatus): string | null {
+  const from = context.workOrder.status;
+
+  if (!workOrderTransitions[from].includes(to)) {
+    return `A work order can't go from ${workOrderStatusLabels[from]} to ${workOrderStatusLabels[to]}`;
+  }
+
+  for (const guard of transitionGuards[to] || []) {
+    const reason = guard(context);
+    if (reason) return reason;
+  }
+  return null;
+}
+
+export function assertTransition(context: TransitionContext, to: WorkOrderStatus): void {
+  const reason = checkTransition(context, to);
+  if (reason) {
+    throw new InvalidTransitionError(context.workOrder.status, to, reason);
+  }
+}
+
+// The work order after moving to `to`, with the timestamps that transition sets
+export function applyTransition(workOrder: WorkOrder, to: WorkOrderStatus, at: number): WorkOrder {
+  const next: WorkOrder = { ...workOrder, status: to };
+
+  if (to === 'in_progress' && !next.started_at) next.started_at = at;
+  if (to === 'completed') next.completed_at = at;
+
+  return next;
+}
@@ -1,10 +1,16 @@
 // Core data models for the auto shop system
 
+// Money amounts are integer cents; see services/money.ts for the rounding policy
+export type Cents = number;
+
 export interface Customer {
   id: string;
   name: string;
   phone: string;
   email?: string;
+  tax_exempt?: boolean; // fleets, nonprofits and resellers
+  tax_exempt_certificate?: string;
+  pricing_level?: PricingLevelId; // retail when absent
   created_at: number;
   updated_at: number;
 }
@@ -39,6 +45,25 @@ export interface WorkOrder {
   updated_at: number;
   started_at?: number;
   completed_at?: number;
+  approved_total?: Cents; // line items the customer approved, before tax
+  pending_total?: Cents; // line items waiting on the customer, before tax
+  amount_due?: Cents; // approved work including tax
+  paid_total?: Cents; // payments and deposits less refunds
+  waiting_on_parts?: boolean; // parts ordered for the job haven't all arrived
+  reserved_resources?: string[]; // ShopResource ids held while the job is open
+}
+
+// One status change of a work order; from_status is absent for the initial status
+export interface WorkOrderStatusChange {
+  id: string;
+  work_order_id: string;
+  from_status?: WorkOrderStatus;
+  to_status: WorkOrderStatus;
+  changed_by?: string; // tech id; absent for changes made from the owner dashboard
+  note?: string;
+  changed_at: number;
+  created_at: number;
+  updated_at: number;
 }
 
 export type LineItemType = 'service' | 'part' | 'labor';
@@ -49,9 +74,249 @@ export interface LineItem {
   type: LineItemType;
   description: string;
   quantity: number;
-  unit_price: number;
-  total_price: number;
+  unit_price: Cents;
+  total_price: Cents;
   approved: boolean;
+  declined?: boolean; // the customer turned this item down
+  estimate_request_id?: string; // estimate revision this item was added from
+  estimate_line_item_id?: string; // id of the EstimateLineItem it came from
+  catalog_part_id?: string; // parts from the catalog draw on its inventory
+  created_at: number;
+  updated_at: number;
+}
+
+// A taxing authority; the rates of every jurisdiction in a profile stack
+export interface TaxJurisdiction {
+  id: string;
+  name: string;
+  rate: number; // percent
+}
+
+// How the shop charges tax: which line item types are taxable and at which
+// stacked rates. Work orders are taxed with the default profile.
+export interface TaxProfile {
+  id: string;
+  name: string;
+  jurisdictions: TaxJurisdiction[];
+  taxable_types: LineItemType[];
+  is_default: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+// Tax charged by one jurisdiction on an estimate or invoice
+export interface TaxLine {
+  jurisdiction_id: string;
+  name: string;
+  rate: number; // percent
+  taxable_amount: Cents;
+  amount: Cents;
+}
+
+// A part the shop can order, usually from a supplier's price list
+export interface CatalogPart {
+  id: string;
+  part_number: string;
+  description: string;
+  brand?: string;
+  cost: Cents; // what the shop pays
+  list_price?: Cents; // the supplier's suggested retail price
+  category?: string;
+  fitment_notes?: string;
+  supplier?: string;
+  created_at: number;
+  updated_at: number;
+}
+
+// A change to a catalog part's cost or list price
+export interface PartPriceChange {
+  id: string;
+  part_id: string;
+  source: 'import' | 'manual';
+  cost_before: Cents;
+  cost_after: Cents;
+  list_price_before?: Cents;
+  list_price_after?: Cents;
+  changed_at: number;
+  created_at: number;
+  updated_at: number;
+}
+
+// Stock of a catalog part the shop keeps on the shelf; id is the part's id.
+// Parts without a record aren't stocked and are ordered per job.
+export interface InventoryItem {
+  id: string;
+  on_hand: number;
+  allocated: number; // held for approved work on open work orders
+  bin_location?: string;
+  reorder_point: number; // low stock once available stock falls to this
+  reorder_quantity: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export type InventoryMovementKind = 'allocate' | 'release' | 'consume' | 'receive' | 'cycle_count';
+
+// One change to a part's stock: allocation for approved work, release when
+// the work goes away, consumption when the job is completed, or a count
+export interface InventoryAdjustment {
+  id: string;
+  part_id: string;
+  kind: InventoryMovementKind;
+  on_hand_change: number;
+  allocated_change: number;
+  on_hand_after: number;
+  allocated_after: number;
+  work_order_id?: string;
+  reason?: string;
+  adjusted_by?: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  id: string;
+  part_id: string;
+  part_number: string;
+  description: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  backorder_closed?: boolean; // the rest of the quantity isn't coming
+  unit_cost: Cents; // catalog cost when the line was added
+  work_order_id?: string; // ordered for this job rather than for stock
+}
+
+// Parts ordered from one supplier; lines is a JSON array
+export interface PurchaseOrder {
+  id: string;
+  supplier: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  notes?: string;
+  ordered_at?: number;
+  received_at?: number; // when the last open line was received or closed
+  created_at: number;
+  updated_at: number;
+}
+
+// Parts received against a purchase order line, at the cost the supplier billed
+export interface PartReceipt {
+  id: string;
+  purchase_order_id: string;
+  line_id: string;
+  part_id: string;
+  quantity: number;
+  unit_cost: Cents;
+  catalog_cost: Cents; // the part's catalog cost when received
+  cost_variance: Cents; // per unit: billed cost less catalog cost
+  received_by?: string;
+  received_at: number;
+  created_at: number;
+  updated_at: number;
+}
+
+// Hourly rate for one kind of labor; id is the labor category
+export interface LaborRate {
+  id: string;
+  hourly_rate: Cents;
+  minimum_charge?: Cents;
+  created_at: number;
+  updated_at: number;
+}
+
+export type PricingLevelId = 'retail' | 'fleet' | 'employee' | 'warranty';
+
+// How a group of customers is charged, relative to retail
+export interface PricingLevel {
+  id: PricingLevelId;
+  name: string;
+  labor_rate_percentage: number; // of the labor rate table
+  parts_markup_percentage: number; // of the markup matrix's markup
+  created_at: number;
+  updated_at: number;
+}
+
+// Parts costing at least min_cost get this markup, up to the next tier
+export interface MarkupTier {
+  min_cost: Cents;
+  markup_percentage: number;
+}
+
+// How parts are priced from their cost. A matrix limited to a supplier or
+// part category overrides the shop-wide matrix, which has neither.
+export interface MarkupMatrix {
+  id: string;
+  name: string;
+  category?: string; // part category
+  supplier?: string;
+  tiers: MarkupTier[];
+  created_at: number;
+  updated_at: number;
+}
+
+// Shop details printed on invoices
+export interface ShopInfo {
+  name: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+}
+
+export type InvoiceLineItem = Pick<LineItem, 'id' | 'type' | 'description' | 'quantity' | 'unit_price' | 'total_price'>;
+
+// An issued invoice; a snapshot of the completed work order so reprints never change
+export interface Invoice {
+  id: string;
+  invoice_number: number; // sequential, never reused
+  invoice_prefix?: string; // issuing device, so devices never hand out the same number
+  work_order_id: string;
+  customer_id: string;
+  vehicle_id: string;
+  customer_name: string;
+  customer_phone?: string;
+  customer_email?: string;
+  vehicle_description: string;
+  vehicle_vin?: string;
+  vehicle_license_plate?: string;
+  mileage?: number;
+  line_items: InvoiceLineItem[]; // approved line items only
+  labor_total: Cents;
+  parts_total: Cents;
+  services_total: Cents;
+  subtotal: Cents;
+  tax: Cents;
+  tax_lines: TaxLine[];
+  tax_exempt_certificate?: string; // set when the customer was tax exempt
+  total: Cents;
+  shop: ShopInfo;
+  issued_at: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export type PaymentKind = 'payment' | 'deposit' | 'refund';
+export type PaymentMethod = 'cash' | 'check' | 'card';
+
+// One entry in a work order's payment ledger. Amounts are always positive;
+// refunds count against the amount paid.
+export interface Payment {
+  id: string;
+  work_order_id: string;
+  kind: PaymentKind;
+  method: PaymentMethod;
+  amount: Cents;
+  split_group_id?: string; // shared by the tenders of one split payment
+  check_number?: string;
+  card_brand?: string;
+  card_last4?: string;
+  processor?: string; // card processor that handled the charge or refund
+  processor_transaction_id?: string;
+  refunded_payment_id?: string; // the payment a refund gives money back from
+  pending?: boolean; // a card refund recorded before the processor confirmed it
+  received_by?: string; // tech id; absent for the owner dashboard
+  note?: string;
   created_at: number;
   updated_at: number;
 }
@@ -63,7 +328,7 @@ export interface ServiceHistory {
   date: number;
   mileage?: number;
   services_performed: string; // JSON array
-  total_cost?: number;
+  total_cost?: Cents;
   notes?: string;
   created_at: number;
 }
@@ -73,7 +338,7 @@ export interface CommonService {
   name: string;
   description?: string;
   category?: string;
-  base_price?: number;
+  base_price?: Cents;
   labor_hours?: number;
   created_at: number;
   updated_at: number;
@@ -104,17 +369,64 @@ export interface CheckIn {
   appointment_date?: number;
   checked_in_at: number;
   created_at: number;
+  updated_at?: number;
+}
+
+// A tablet or browser that shares the shop's data. Its code prefixes the
+// invoice numbers it issues and is unique among the shop's devices.
+export interface Device {
+  id: string; // the device id it syncs under
+  code: string;
+  created_at: number;
+  updated_at: number;
 }
 
 export type SyncState = 'pending' | 'synced' | 'conflict';
 
+// When and where a field was last changed; revision is the sync server's
+// sequence number once the change has been pushed or pulled
+export interface FieldClock {
+  at: number;
+  device_id: string;
+  revision?: number;
+}
+
 export interface SyncStatus {
-  id: number;
+  id: string; // `${table_name}:${record_id}`
   table_name: string;
   record_id: string;
   last_sync?: number;
   sync_state: SyncState;
   device_id?: string;
+  field_versions?: Record<string, FieldClock>;
+  pending_fields?: string[]; // changed locally since the last push
+  deleted?: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+export type SyncConflictReason = 'concurrent_edit' | 'rejected';
+export type SyncConflictStatus = 'open' | 'resolved';
+export type SyncConflictResolution = 'kept' | 'restored' | 'dismissed';
+
+// A field edited on two devices before either saw the other's change, or a
+// remote change this device could not apply. Queued for the owner to review.
+export interface SyncConflict {
+  id: string;
+  table_name: string;
+  record_id: string;
+  field?: string; // absent when the whole change was rejected
+  kept_value?: unknown;
+  discarded_value?: unknown;
+  kept_device_id?: string;
+  discarded_device_id?: string;
+  kept_at?: number;
+  discarded_at?: number;
+  reason: SyncConflictReason;
+  detail?: string;
+  status: SyncConflictStatus;
+  resolution?: SyncConflictResolution;
+  resolved_at?: number;
   created_at: number;
   updated_at: number;
 }
@@ -166,18 +478,25 @@ export interface CustomerCheckInForm {
     appointment_date?: string;
     photos?: File[];
   };
+  appointment?: AppointmentRequest; // the slot the customer booked, if any
 }
 
+// An appointment booked during check-in, before the customer record exists
+export type AppointmentRequest = Pick<
+  Appointment,
+  'service_type' | 'service_category' | 'scheduled_start' | 'scheduled_end' | 'duration_minutes' | 'estimated_price'
+>;
+
 // Estimate approval form
 export interface EstimateApprovalForm {
   work_order_id: string;
   line_items: {
     description: string;
     quantity: number;
-    unit_price: number;
-    total_price: number;
+    unit_price: Cents;
+    total_price: Cents;
   }[];
-  total_estimate: number;
+  total_estimate: Cents;
   photos?: string[];
   notes?: string;
 }
@@ -193,20 +512,35 @@ export interface TechWorkOrder extends WorkOrder {
   requires_approval?: boolean;
 }
 
+// draft -> submitted -> approved | rejected
+export type EstimateRequestStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
 export interface EstimateRequest {
   id: string;
   work_order_id: string;
   tech_id: string;
   line_items: EstimateLineItem[];
   labor_hours: number;
-  total_estimate: number;
-  photos?: string[];
+  total_estimate: Cents;
+  photos?: TechPhoto[]; // stored inline, urls are data URLs
   notes?: string;
-  status: 'draft' | 'submitted' | 'approved' | 'rejected';
+  status: EstimateRequestStatus;
+  revision: number; // 1 for the original estimate
+  original_estimate_id?: string; // revision 1 of this estimate; absent on revision 1
+  base_line_items?: EstimateLineItem[]; // approved items this revision was compared to, captured on submit
   created_at: number;
   updated_at: number;
   submitted_at?: number;
   responded_at?: number;
+  approval_token?: string; // set on submit; opens the customer approval page
+  customer_signature?: EstimateSignature;
+}
+
+export interface EstimateSignature {
+  signer_name: string;
+  method: 'typed' | 'drawn';
+  image?: string; // PNG data URL of a drawn signature
+  signed_at: number;
 }
 
 export interface EstimateLineItem {
@@ -215,9 +549,14 @@ export interface EstimateLineItem {
   description: string;
   part_number?: string;
   quantity: number;
-  unit_price: number;
-  total_price: number;
+  unit_price: Cents;
+  total_price: Cents;
   supplier?: string;
+  catalog_part_id?: string;
+  part_category?: string;
+  unit_cost?: Cents; // parts priced from the markup matrix
+  markup_percentage?: number;
+  price_override_reason?: string; // set when the unit price was changed by hand
   notes?: string;
 }
 
@@ -271,9 +610,10 @@ export interface Appointment {
   assigned_tech?: string;
   status: 'scheduled' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show';
   priority: 'normal' | 'urgent' | 'rush';
-  estimated_price?: number;
+  estimated_price?: Cents;
   customer_notes?: string;
   internal_notes?: string;
+  reserved_resources?: string[]; // ShopResource ids the service needed when booked
   created_at: number;
   updated_at: number;
   created_by: string; // customer or staff member
@@ -288,6 +628,7 @@ export interface ShopSchedule {
   lunch_end?: string; // "13:00"
   is_closed: boolean;
   max_appointments_per_hour?: number;
+  service_bays?: number; // appointments that can be worked on at once
   notes?: string;
   created_at: number;
   updated_at: number;
@@ -304,7 +645,30 @@ export interface ServiceDuration {
   buffer_minutes: number; // cleanup time after job
   complexity_multiplier: number; // 1.0 = normal, 1.5 = complex vehicles
   requires_specialist: boolean;
-  can_overlap: boolean; // can be done while other work happens
+  can_overlap: boolean; // several can be booked at once; false when the shop has one rack or machine for it
+  required_resources?: string[]; // ShopResource ids, one unit of each held for the job
+  created_at: number;
+  updated_at: number;
+}
+
+export type ShopResourceKind = 'bay' | 'lift' | 'equipment';
+
+// Units of a resource out of service, e.g. a lift down for repair
+export interface ResourceDowntime {
+  id: string;
+  start: number;
+  end: number;
+  units: number;
+  reason?: string;
+}
+
+// A bay, lift or piece of equipment some services can't be done without
+export interface ShopResource {
+  id: string;
+  name: string; // "Alignment rack"
+  kind: ShopResourceKind;
+  quantity: number;
+  downtime: ResourceDowntime[];
   created_at: number;
   updated_at: number;
 }
@@ -340,6 +704,8 @@ export interface TimeOffRequest {
   reviewed_by?: string;
   reviewer_notes?: string;
   impact_assessment?: string; // auto-generated conflict warnings
+  created_at: number;
+  updated_at: number;
 }
 
 export interface BusinessRules {
@@ -357,14 +723,15 @@ export interface TimeSlot {
   start: Date;
   end: Date;
   available: boolean;
-  reason?: string; // "booked", "lunch", "closed", "tech_unavailable"
+  reason?: string; // "booked", "full", "lunch", "closed", "tech_unavailable", "resource_unavailable"
   conflicting_appointment_id?: string;
   available_techs: string[];
-  suggested_price?: number;
+  suggested_price?: Cents;
 }
 
 export interface AppointmentConflict {
-  type: 'double_booking' | 'no_tech_available' | 'outside_hours' | 'insufficient_time';
+  type: 'double_booking' | 'capacity_reached' | 'resource_unavailable' | 'no_tech_available' | 'outside_hours' |
+    'insufficient_time';
   message: string;
   conflicting_appointment_id?: string;
   suggested_alternatives?: TimeSlot[];